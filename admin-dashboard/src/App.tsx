@@ -10,6 +10,13 @@ import Analytics from './pages/Analytics';
 import Content from './pages/Content';
 import Prompts from './pages/Prompts';
 import DeletedContent from './pages/DeletedContent';
+import AIUsage from './pages/AIUsage';
+import PromptExperiments from './pages/PromptExperiments';
+import Tags from './pages/Tags';
+import Safety from './pages/Safety';
+import Jobs from './pages/Jobs';
+import PublicationCalendar from './pages/PublicationCalendar';
+import Settings from './pages/Settings';
 
 // Protected route wrapper
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -35,6 +42,10 @@ function App() {
             <Route path="dashboard" element={<Dashboard />} />
             <Route path="users" element={<Users />} />
             <Route path="categories" element={<Categories />} />
+            <Route path="tags" element={<Tags />} />
+            <Route path="safety" element={<Safety />} />
+            <Route path="jobs" element={<Jobs />} />
+            <Route path="calendar" element={<PublicationCalendar />} />
             <Route path="analytics" element={<Analytics />} />
             <Route path="content" element={
               <ErrorBoundary>
@@ -43,8 +54,10 @@ function App() {
             } />
             <Route path="prompts" element={<Prompts />} />
             <Route path="deleted" element={<DeletedContent />} />
+            <Route path="ai-usage" element={<AIUsage />} />
+            <Route path="prompt-experiments" element={<PromptExperiments />} />
             <Route path="subscriptions" element={<div>Subscriptions Page (Coming Soon)</div>} />
-            <Route path="settings" element={<div>Settings Page (Coming Soon)</div>} />
+            <Route path="settings" element={<Settings />} />
           </Route>
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
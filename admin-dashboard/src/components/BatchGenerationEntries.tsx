@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import type { Category, GenerationBatchEntry } from '../types';
+
+interface BatchGenerationEntriesProps {
+  categories: Category[];
+  entries: GenerationBatchEntry[];
+  disabled?: boolean;
+  onChange: (entries: GenerationBatchEntry[]) => void;
+}
+
+/**
+ * Per-category settings of a batch generation: content type, count and difficulty
+ */
+const BatchGenerationEntries: React.FC<BatchGenerationEntriesProps> = ({ categories, entries, disabled = false, onChange }) => {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const updateEntry = (index: number, changes: Partial<GenerationBatchEntry>) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Category</TableCell>
+          <TableCell>Content Type</TableCell>
+          <TableCell>Items</TableCell>
+          <TableCell>Difficulty</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {entries.map((entry, index) => (
+          <TableRow key={entry.categoryId}>
+            <TableCell>
+              <Typography variant="body2">
+                {categories.find(category => category._id === entry.categoryId)?.name || entry.categoryId}
+              </Typography>
+            </TableCell>
+            <TableCell>
+              <Select
+                size="small"
+                value={entry.contentType || 'hack'}
+                onChange={(e) => updateEntry(index, { contentType: e.target.value })}
+                disabled={disabled}
+              >
+                <MenuItem value="hack">Hack</MenuItem>
+                <MenuItem value="hack2">Hack 2</MenuItem>
+                <MenuItem value="tip">Tip</MenuItem>
+                <MenuItem value="tip2">Tip 2</MenuItem>
+                <MenuItem value="quote">Quote</MenuItem>
+              </Select>
+            </TableCell>
+            <TableCell>
+              <TextField
+                size="small"
+                type="number"
+                value={entry.count ?? 1}
+                onChange={(e) => updateEntry(index, { count: Math.max(1, Math.min(50, parseInt(e.target.value || '1'))) })}
+                disabled={disabled}
+                sx={{ width: 90 }}
+                InputProps={{ inputProps: { min: 1, max: 50 } }}
+              />
+            </TableCell>
+            <TableCell>
+              <Select
+                size="small"
+                value={entry.difficulty || 'beginner'}
+                onChange={(e) => updateEntry(index, { difficulty: e.target.value })}
+                disabled={disabled}
+              >
+                <MenuItem value="beginner">Beginner</MenuItem>
+                <MenuItem value="intermediate">Intermediate</MenuItem>
+                <MenuItem value="advanced">Advanced</MenuItem>
+              </Select>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default BatchGenerationEntries;
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Save as SaveIcon } from '@mui/icons-material';
+import { categoryAPI } from '../services/api';
+import type { Category, RotationCadence, RotationContentType, RotationDifficulty, RotationPolicy } from '../types';
+
+interface CategoryRotationProps {
+  category: Category;
+  onSaved: (category: Category) => void;
+}
+
+// Same defaults as the API, for categories saved before they had a policy
+const DEFAULT_POLICY: RotationPolicy = {
+  publishCount: 10,
+  generateCount: 10,
+  cadence: 'daily',
+  intervalDays: 2,
+  difficultyMix: { beginner: 60, intermediate: 30, advanced: 10 },
+  contentTypeMix: {},
+  keepTopPerformers: false
+};
+
+const DIFFICULTIES: RotationDifficulty[] = ['beginner', 'intermediate', 'advanced'];
+const CONTENT_TYPES: RotationContentType[] = ['hack', 'hack2', 'tip', 'tip2', 'quote'];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const toNumber = (value: string) => Math.max(parseInt(value, 10) || 0, 0);
+
+/**
+ * Rotation policy of a category: how many items the daily refresh publishes
+ * and generates, how often, in which mix, and whether top performers stay
+ */
+const CategoryRotation: React.FC<CategoryRotationProps> = ({ category, onSaved }) => {
+  const [policy, setPolicy] = useState<RotationPolicy>(() => ({
+    ...DEFAULT_POLICY,
+    ...category.rotation,
+    difficultyMix: { ...DEFAULT_POLICY.difficultyMix, ...category.rotation?.difficultyMix },
+    contentTypeMix: { ...category.rotation?.contentTypeMix }
+  }));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (changes: Partial<RotationPolicy>) => setPolicy(prev => ({ ...prev, ...changes }));
+
+  const handleSave = async () => {
+    if (!category._id) return;
+    try {
+      setSaving(true);
+      setError(null);
+      // The category API resets a missing contentType, so it is sent along
+      const response = await categoryAPI.updateCategory(category._id, { rotation: policy, contentType: category.contentType });
+      if (response.data?.category) onSaved(response.data.category);
+      setMessage('Rotation policy saved');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save the rotation policy'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mixedTypes = CONTENT_TYPES.some(type => (policy.contentTypeMix[type] || 0) > 0);
+
+  return (
+    <Box>
+      {error && <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>}
+      {message && <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message}</Alert>}
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Last rotated: {category.lastRotatedAt ? new Date(category.lastRotatedAt).toLocaleString() : 'never'}
+      </Typography>
+
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, sm: 4 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Cadence</InputLabel>
+            <Select
+              label="Cadence"
+              value={policy.cadence}
+              onChange={(e) => update({ cadence: e.target.value as RotationCadence })}
+            >
+              <MenuItem value="daily">Daily</MenuItem>
+              <MenuItem value="every_n_days">Every N days</MenuItem>
+              <MenuItem value="weekly">Weekly</MenuItem>
+            </Select>
+          </FormControl>
+        </Grid>
+        {policy.cadence === 'every_n_days' && (
+          <Grid size={{ xs: 12, sm: 2 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Days"
+              value={policy.intervalDays}
+              onChange={(e) => update({ intervalDays: toNumber(e.target.value) })}
+              inputProps={{ min: 1, max: 30 }}
+            />
+          </Grid>
+        )}
+        <Grid size={{ xs: 6, sm: 3 }}>
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label="Publish"
+            helperText="Items published per rotation"
+            value={policy.publishCount}
+            onChange={(e) => update({ publishCount: toNumber(e.target.value) })}
+            inputProps={{ min: 0, max: 100 }}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, sm: 3 }}>
+          <TextField
+            fullWidth
+            size="small"
+            type="number"
+            label="Generate"
+            helperText="New drafts per rotation"
+            value={policy.generateCount}
+            onChange={(e) => update({ generateCount: toNumber(e.target.value) })}
+            inputProps={{ min: 0, max: 50 }}
+          />
+        </Grid>
+
+        <Grid size={{ xs: 12 }}>
+          <Typography variant="subtitle2">Difficulty mix (shares of the generated items)</Typography>
+        </Grid>
+        {DIFFICULTIES.map(difficulty => (
+          <Grid key={difficulty} size={{ xs: 4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={difficulty}
+              value={policy.difficultyMix[difficulty]}
+              onChange={(e) => update({ difficultyMix: { ...policy.difficultyMix, [difficulty]: toNumber(e.target.value) } })}
+              inputProps={{ min: 0, max: 100 }}
+            />
+          </Grid>
+        ))}
+
+        <Grid size={{ xs: 12 }}>
+          <Typography variant="subtitle2">Content type mix</Typography>
+          {!mixedTypes && (
+            <Typography variant="caption" color="text.secondary">
+              All zero: everything is generated as {category.contentType || 'hack'}
+            </Typography>
+          )}
+        </Grid>
+        {CONTENT_TYPES.map(type => (
+          <Grid key={type} size={{ xs: 4, sm: 2.4 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label={type}
+              value={policy.contentTypeMix[type] || 0}
+              onChange={(e) => update({ contentTypeMix: { ...policy.contentTypeMix, [type]: toNumber(e.target.value) } })}
+              inputProps={{ min: 0, max: 100 }}
+            />
+          </Grid>
+        ))}
+
+        <Grid size={{ xs: 12 }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={policy.keepTopPerformers}
+                onChange={(e) => update({ keepTopPerformers: e.target.checked })}
+              />
+            }
+            label="Keep highly liked items published instead of retiring them"
+          />
+        </Grid>
+      </Grid>
+
+      <Box display="flex" justifyContent="flex-end" mt={2}>
+        <Button
+          variant="contained"
+          startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
+          disabled={saving}
+          onClick={handleSave}
+        >
+          Save Policy
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default CategoryRotation;
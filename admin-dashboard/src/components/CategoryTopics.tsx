@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  AutoAwesome as AutoAwesomeIcon,
+  Block as BlockIcon,
+  Delete as DeleteIcon,
+  Replay as ReplayIcon
+} from '@mui/icons-material';
+import { categoryAPI } from '../services/api';
+import type { Topic, TopicCoverage } from '../types';
+
+interface CategoryTopicsProps {
+  categoryId: string;
+}
+
+const STATUS_COLORS: Record<Topic['status'], 'default' | 'success' | 'warning'> = {
+  open: 'default',
+  covered: 'success',
+  retired: 'warning'
+};
+
+const SUGGESTION_COUNT = 50;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+/**
+ * Topic backlog of a category: coverage, adding and suggesting topics, and
+ * the content generated about each topic
+ */
+const CategoryTopics: React.FC<CategoryTopicsProps> = ({ categoryId }) => {
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [coverage, setCoverage] = useState<TopicCoverage | null>(null);
+  const [newTopics, setNewTopics] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<'add' | 'suggest' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTopics = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await categoryAPI.getTopics(categoryId);
+      setTopics(response.data?.topics || []);
+      setCoverage(response.data?.coverage || null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load topics'));
+    } finally {
+      setLoading(false);
+    }
+  }, [categoryId]);
+
+  useEffect(() => {
+    fetchTopics();
+  }, [fetchTopics]);
+
+  const handleAddTopics = async () => {
+    const names = newTopics.split('\n').map(name => name.trim()).filter(Boolean);
+    if (names.length === 0) return;
+
+    try {
+      setWorking('add');
+      const response = await categoryAPI.addTopics(categoryId, names);
+      setMessage(response.message || null);
+      setNewTopics('');
+      await fetchTopics();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to add topics'));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleSuggestTopics = async () => {
+    try {
+      setWorking('suggest');
+      const response = await categoryAPI.suggestTopics(categoryId, SUGGESTION_COUNT);
+      setMessage(response.message || null);
+      await fetchTopics();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to suggest topics'));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleStatusChange = async (topic: Topic, status: Topic['status']) => {
+    try {
+      await categoryAPI.updateTopic(categoryId, topic._id, { status });
+      await fetchTopics();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update the topic'));
+    }
+  };
+
+  const handleDelete = async (topic: Topic) => {
+    if (!window.confirm(`Remove "${topic.name}" from the backlog?`)) return;
+
+    try {
+      await categoryAPI.deleteTopic(categoryId, topic._id);
+      await fetchTopics();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to remove the topic'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setMessage(null)}>{message}</Alert>
+      )}
+
+      {coverage && (
+        <Box sx={{ mb: 3 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="subtitle2">Coverage {coverage.coveredPercent}%</Typography>
+            <Typography variant="body2" color="text.secondary">
+              {coverage.covered} covered · {coverage.open} open · {coverage.retired} retired
+            </Typography>
+          </Box>
+          <LinearProgress variant="determinate" value={coverage.coveredPercent} sx={{ height: 8, borderRadius: 1 }} />
+        </Box>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mb: 3 }}>
+        <TextField
+          label="Add topics"
+          helperText="One topic per line. Topics already in the backlog are skipped."
+          value={newTopics}
+          onChange={(e) => setNewTopics(e.target.value)}
+          multiline
+          minRows={3}
+          fullWidth
+        />
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, minWidth: 180 }}>
+          <Button
+            variant="contained"
+            onClick={handleAddTopics}
+            disabled={working !== null || !newTopics.trim()}
+          >
+            {working === 'add' ? <CircularProgress size={20} /> : 'Add'}
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={working === 'suggest' ? <CircularProgress size={16} /> : <AutoAwesomeIcon />}
+            onClick={handleSuggestTopics}
+            disabled={working !== null}
+          >
+            Suggest {SUGGESTION_COUNT}
+          </Button>
+        </Box>
+      </Box>
+
+      {topics.length === 0 ? (
+        <Typography color="text.secondary">
+          The backlog is empty. Without topics, generation lets the AI choose what to write about.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Topic</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Source</TableCell>
+              <TableCell>Content</TableCell>
+              <TableCell align="right">Drawn</TableCell>
+              <TableCell align="right" />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {topics.map(topic => (
+              <TableRow key={topic._id}>
+                <TableCell>{topic.name}</TableCell>
+                <TableCell>
+                  <Chip size="small" label={topic.status} color={STATUS_COLORS[topic.status]} />
+                </TableCell>
+                <TableCell>{topic.source === 'ai' ? 'AI' : 'Editor'}</TableCell>
+                <TableCell>
+                  {topic.content.length === 0 ? '—' : topic.content.map(item => (
+                    <Typography key={item._id} variant="body2">
+                      {item.title}
+                      <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>{item.status}</Typography>
+                    </Typography>
+                  ))}
+                </TableCell>
+                <TableCell align="right">
+                  <Tooltip title={topic.lastDrawnAt ? `Last drawn ${new Date(topic.lastDrawnAt).toLocaleString()}` : 'Not drawn yet'}>
+                    <span>{topic.timesDrawn}</span>
+                  </Tooltip>
+                </TableCell>
+                <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                  {topic.status === 'open' ? (
+                    <Tooltip title="Retire">
+                      <IconButton size="small" onClick={() => handleStatusChange(topic, 'retired')}>
+                        <BlockIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  ) : (
+                    <Tooltip title="Open again">
+                      <IconButton size="small" onClick={() => handleStatusChange(topic, 'open')}>
+                        <ReplayIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                  <Tooltip title="Remove">
+                    <IconButton size="small" color="error" onClick={() => handleDelete(topic)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default CategoryTopics;
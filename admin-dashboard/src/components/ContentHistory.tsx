@@ -0,0 +1,249 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { Restore as RestoreIcon } from '@mui/icons-material';
+import { contentAPI } from '../services/api';
+import type { Content, ContentRevision, ContentRevisionDiff, ContentRevisionFieldDiff, TextDiffLine } from '../types';
+
+interface ContentHistoryProps {
+  contentId: string;
+  readOnly?: boolean;
+  onRestored: (content: Content) => void;
+}
+
+const SOURCE_LABELS: Record<ContentRevision['source'], string> = {
+  initial: 'Initial',
+  manual: 'Manual edit',
+  'ai-rewrite': 'AI rewrite',
+  bulk: 'Bulk change',
+  restore: 'Restore'
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const formatValue = (value: ContentRevisionFieldDiff['from']) => {
+  if (Array.isArray(value)) return value.join(', ');
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+};
+
+// One side of a side-by-side diff: the other side's lines are left out
+const DiffColumn: React.FC<{ lines: TextDiffLine[]; side: 'removed' | 'added' }> = ({ lines, side }) => (
+  <Paper variant="outlined" sx={{ p: 1, fontFamily: 'monospace', fontSize: 13, whiteSpace: 'pre-wrap', overflowWrap: 'break-word', height: '100%' }}>
+    {lines.filter(line => line.type === 'equal' || line.type === side).map((line, index) => (
+      <Box
+        key={index}
+        sx={{
+          bgcolor: line.type === 'equal' ? 'transparent' : side === 'removed' ? 'error.light' : 'success.light',
+          color: line.type === 'equal' ? 'text.primary' : side === 'removed' ? 'error.contrastText' : 'success.contrastText',
+          minHeight: '1.4em'
+        }}
+      >
+        {line.text}
+      </Box>
+    ))}
+  </Paper>
+);
+
+/**
+ * Revision history of a content item with side-by-side comparison and restore
+ */
+const ContentHistory: React.FC<ContentHistoryProps> = ({ contentId, readOnly = false, onRestored }) => {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [comparison, setComparison] = useState<ContentRevisionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await contentAPI.getRevisions(contentId);
+      const list = response.data?.revisions || [];
+      setRevisions(list);
+      setToId(list[0]?._id || '');
+      setFromId(list[1]?._id || '');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load the revision history'));
+    } finally {
+      setLoading(false);
+    }
+  }, [contentId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setComparison(null);
+      return;
+    }
+
+    contentAPI.diffRevisions(contentId, fromId, toId)
+      .then(response => setComparison(response.data || null))
+      .catch(err => setError(errorMessage(err, 'Failed to compare revisions')));
+  }, [contentId, fromId, toId]);
+
+  const handleRestore = async (revision: ContentRevision) => {
+    if (!window.confirm(`Restore revision ${revision.revision}? The current text is kept in the history.`)) return;
+
+    try {
+      setRestoring(revision._id);
+      const response = await contentAPI.restoreRevision(contentId, revision._id);
+      if (response.data?.content) {
+        onRestored(response.data.content);
+      }
+      await fetchRevisions();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to restore the revision'));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <Typography color="text.secondary" sx={{ p: 2 }}>
+        No revisions yet. The history starts with the first edit or rewrite.
+      </Typography>
+    );
+  }
+
+  const changedFields = comparison
+    ? Object.entries(comparison.fields).filter(([, field]) => field.changed)
+    : [];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+      )}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>#</TableCell>
+            <TableCell>Source</TableCell>
+            <TableCell>By</TableCell>
+            <TableCell>Changed</TableCell>
+            <TableCell>Date</TableCell>
+            {!readOnly && <TableCell align="right" />}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {revisions.map((revision, index) => (
+            <TableRow key={revision._id} selected={revision._id === fromId || revision._id === toId}>
+              <TableCell>{revision.revision}</TableCell>
+              <TableCell>
+                <Chip size="small" label={SOURCE_LABELS[revision.source]} />
+                {revision.model && (
+                  <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>{revision.model}</Typography>
+                )}
+                {revision.restoredFrom && (
+                  <Typography variant="caption" color="text.secondary" sx={{ ml: 1 }}>from #{revision.restoredFrom}</Typography>
+                )}
+              </TableCell>
+              <TableCell>{revision.editedBy?.name || 'System'}</TableCell>
+              <TableCell>{revision.changedFields.join(', ') || '—'}</TableCell>
+              <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+              {!readOnly && (
+                <TableCell align="right">
+                  {index > 0 && (
+                    <Button
+                      size="small"
+                      startIcon={restoring === revision._id ? <CircularProgress size={14} /> : <RestoreIcon />}
+                      disabled={restoring !== null}
+                      onClick={() => handleRestore(revision)}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {revisions.length > 1 && (
+        <Box sx={{ mt: 3 }}>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2 }}>
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>Compare</InputLabel>
+              <Select label="Compare" value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision._id} value={revision._id}>Revision {revision.revision}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl size="small" sx={{ minWidth: 160 }}>
+              <InputLabel>With</InputLabel>
+              <Select label="With" value={toId} onChange={(e) => setToId(e.target.value)}>
+                {revisions.map(revision => (
+                  <MenuItem key={revision._id} value={revision._id}>Revision {revision.revision}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          {comparison && changedFields.length === 0 && (
+            <Typography color="text.secondary">The two revisions are identical.</Typography>
+          )}
+
+          {changedFields.map(([name, field]) => (
+            <Box key={name} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2" gutterBottom sx={{ textTransform: 'capitalize' }}>{name}</Typography>
+              <Grid container spacing={1}>
+                <Grid size={{ xs: 6 }}>
+                  {field.diff ? (
+                    <DiffColumn lines={field.diff.lines} side="removed" />
+                  ) : (
+                    <Paper variant="outlined" sx={{ p: 1, bgcolor: 'error.light', color: 'error.contrastText' }}>{formatValue(field.from)}</Paper>
+                  )}
+                </Grid>
+                <Grid size={{ xs: 6 }}>
+                  {field.diff ? (
+                    <DiffColumn lines={field.diff.lines} side="added" />
+                  ) : (
+                    <Paper variant="outlined" sx={{ p: 1, bgcolor: 'success.light', color: 'success.contrastText' }}>{formatValue(field.to)}</Paper>
+                  )}
+                </Grid>
+              </Grid>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ContentHistory;
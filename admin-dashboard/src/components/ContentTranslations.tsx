@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Tab,
+  Tabs,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+  Translate as TranslateIcon
+} from '@mui/icons-material';
+import { contentAPI } from '../services/api';
+import type { Content, ContentLocale } from '../types';
+
+interface ContentTranslationsProps {
+  content: Content;
+  readOnly?: boolean;
+  onUpdated: (content: Content) => void;
+}
+
+interface TranslationForm {
+  title: string;
+  summary: string;
+  body: string;
+  quoteText: string;
+}
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const toForm = (content: Content, locale: string): TranslationForm => {
+  const translation = content.translations?.find(entry => entry.locale === locale);
+  return {
+    title: translation?.title || '',
+    summary: translation?.summary || '',
+    body: translation?.body || '',
+    quoteText: translation?.quoteText || ''
+  };
+};
+
+/**
+ * Per-locale translations of a content item: edit by hand or translate with AI
+ */
+const ContentTranslations: React.FC<ContentTranslationsProps> = ({ content, readOnly = false, onUpdated }) => {
+  const [locales, setLocales] = useState<ContentLocale[]>([]);
+  const [locale, setLocale] = useState('');
+  const [form, setForm] = useState<TranslationForm>({ title: '', summary: '', body: '', quoteText: '' });
+  const [busy, setBusy] = useState<'save' | 'translate' | 'delete' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const originalLocale = content.locale || 'en';
+  const isQuote = content.contentType === 'quote' && !!content.quoteText;
+  const translation = content.translations?.find(entry => entry.locale === locale);
+
+  useEffect(() => {
+    contentAPI.getLocales()
+      .then(response => {
+        const others = (response.data?.locales || []).filter(entry => entry.code !== originalLocale);
+        setLocales(others);
+        setLocale(current => current || others[0]?.code || '');
+      })
+      .catch(err => console.error('Error fetching content locales:', err));
+  }, [originalLocale]);
+
+  useEffect(() => {
+    if (locale) setForm(toForm(content, locale));
+    setError(null);
+  }, [content, locale]);
+
+  const run = async (action: 'save' | 'translate' | 'delete') => {
+    try {
+      setBusy(action);
+      setError(null);
+
+      let response;
+      if (action === 'save') {
+        response = await contentAPI.saveTranslation(content._id, locale, form);
+      } else if (action === 'translate') {
+        response = await contentAPI.generateTranslation(content._id, locale);
+      } else {
+        response = await contentAPI.deleteTranslation(content._id, locale);
+      }
+
+      if (response.data?.content) {
+        onUpdated(response.data.content);
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update the translation'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (locales.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" fontWeight="bold">Translations</Typography>
+      <Tabs value={locale} onChange={(_, value) => setLocale(value)} sx={{ mb: 1 }}>
+        {locales.map(entry => (
+          <Tab
+            key={entry.code}
+            value={entry.code}
+            label={content.translations?.some(t => t.locale === entry.code) ? entry.name : `${entry.name} (missing)`}
+          />
+        ))}
+      </Tabs>
+
+      {translation && (
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <Chip size="small" label={translation.source === 'ai' ? 'AI translation' : 'Edited by hand'} />
+          {translation.stale && (
+            <Chip size="small" color="warning" label="Original changed since translation" />
+          )}
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }} onClose={() => setError(null)}>{error}</Alert>
+      )}
+
+      <TextField
+        label="Title"
+        value={form.title}
+        onChange={(e) => setForm({ ...form, title: e.target.value })}
+        fullWidth
+        margin="dense"
+        disabled={readOnly}
+      />
+      <TextField
+        label="Summary"
+        value={form.summary}
+        onChange={(e) => setForm({ ...form, summary: e.target.value })}
+        fullWidth
+        multiline
+        rows={2}
+        margin="dense"
+        disabled={readOnly}
+      />
+      {isQuote ? (
+        <TextField
+          label="Quote"
+          value={form.quoteText}
+          onChange={(e) => setForm({ ...form, quoteText: e.target.value })}
+          fullWidth
+          multiline
+          rows={3}
+          margin="dense"
+          disabled={readOnly}
+          helperText="The author and source of the original are kept"
+        />
+      ) : (
+        <TextField
+          label="Content"
+          value={form.body}
+          onChange={(e) => setForm({ ...form, body: e.target.value })}
+          fullWidth
+          multiline
+          rows={8}
+          margin="dense"
+          disabled={readOnly}
+        />
+      )}
+
+      {!readOnly && (
+        <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+          <Button
+            size="small"
+            variant="contained"
+            startIcon={busy === 'save' ? <CircularProgress size={16} /> : <SaveIcon />}
+            disabled={busy !== null || !form.title || (isQuote ? !form.quoteText : !form.body)}
+            onClick={() => run('save')}
+          >
+            Save Translation
+          </Button>
+          <Button
+            size="small"
+            startIcon={busy === 'translate' ? <CircularProgress size={16} /> : <TranslateIcon />}
+            disabled={busy !== null}
+            onClick={() => run('translate')}
+          >
+            {translation ? 'Translate Again with AI' : 'Translate with AI'}
+          </Button>
+          {translation && (
+            <Button
+              size="small"
+              color="error"
+              startIcon={busy === 'delete' ? <CircularProgress size={16} /> : <DeleteIcon />}
+              disabled={busy !== null}
+              onClick={() => run('delete')}
+            >
+              Delete
+            </Button>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ContentTranslations;
@@ -1,17 +1,27 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
   Button,
+  Chip,
   CircularProgress,
   Dialog,
   DialogActions,
   DialogContent,
   DialogContentText,
   DialogTitle,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
   Typography,
   Box,
   Alert
 } from '@mui/material';
-import { categoryAPI, contentAPI } from '../services/api';
+import { ExpandMore as ExpandMoreIcon } from '@mui/icons-material';
+import { contentAPI, generationJobAPI, getErrorMessage } from '../services/api';
+import type { DailyRefreshPreview, GenerationJob, GenerationJobItem, RefreshPreviewCategory, RefreshPreviewItem } from '../types';
 
 interface DailyContentGeneratorProps {
   buttonText?: string;
@@ -20,11 +30,89 @@ interface DailyContentGeneratorProps {
   fullWidth?: boolean;
 }
 
+// Remembers the running refresh so the dialog can pick it up again after a reload
+const JOB_STORAGE_KEY = 'windspire-daily-refresh-job';
+const POLL_INTERVAL_MS = 2000;
+
+const isJobFinished = (job: GenerationJob | null) =>
+  !!job && ['completed', 'failed', 'cancelled'].includes(job.status);
+
+const itemStatusColor = (status: GenerationJobItem['status']) => {
+  switch (status) {
+    case 'completed': return 'success';
+    case 'failed': return 'error';
+    case 'running': return 'primary';
+    case 'cancelled': return 'warning';
+    default: return 'default';
+  }
+};
+
+// Non-zero counts of a mix, e.g. "6 beginner, 3 intermediate"
+const describeMix = (counts: Partial<Record<string, number>>) => Object.entries(counts)
+  .filter(([, count]) => (count || 0) > 0)
+  .map(([name, count]) => `${count} ${name}`)
+  .join(', ');
+
+const PreviewItems: React.FC<{ title: string; items: Array<RefreshPreviewItem & { note?: string }> }> = ({ title, items }) => (
+  items.length === 0 ? null : (
+    <Box sx={{ mb: 1 }}>
+      <Typography variant="subtitle2">{title} ({items.length})</Typography>
+      {items.map(item => (
+        <Typography key={item._id} variant="body2" color="text.secondary">
+          • {item.title}{item.note ? ` — ${item.note}` : ''}
+        </Typography>
+      ))}
+    </Box>
+  )
+);
+
+// What the refresh would do in one category
+const PreviewCategory: React.FC<{ entry: RefreshPreviewCategory }> = ({ entry }) => (
+  <Accordion disableGutters>
+    <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+      <Box>
+        <Typography variant="body1">
+          {entry.category.name || 'Unknown category'}
+          {!entry.refreshed && (entry.policy ? ' (not due for rotation)' : ' (duplicate cleanup only)')}
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {entry.refreshed
+            ? `${entry.generate.count} to generate, ${entry.retire.length} to retire, ${entry.keep.length} kept, ${entry.live.length} still showing, ${entry.publish.length} of ${entry.eligibleDrafts} drafts and ${entry.publishNew} new items to publish, ${entry.duplicates.length} duplicates`
+            : `${entry.nextRotationAt ? `Next rotation ${new Date(entry.nextRotationAt).toLocaleString()}, ` : ''}${entry.duplicates.length} duplicates`}
+        </Typography>
+      </Box>
+    </AccordionSummary>
+    <AccordionDetails>
+      {entry.generate.count > 0 && (
+        <Typography variant="body2" sx={{ mb: 1 }}>
+          Generates {entry.generate.count} new items: {describeMix(entry.generate.difficulties)}; {describeMix(entry.generate.contentTypes)}
+        </Typography>
+      )}
+      <PreviewItems title="Retired to deleted" items={entry.retire} />
+      <PreviewItems title="Kept published as top performers" items={entry.keep} />
+      <PreviewItems title="Left published, their deck is still showing somewhere" items={entry.live} />
+      <PreviewItems title="Drafts published" items={entry.publish} />
+      <PreviewItems
+        title="Drafts held back by lint errors"
+        items={entry.lintBlocked.map(item => ({ ...item, note: `${item.errors} errors` }))}
+      />
+      <PreviewItems
+        title="Removed as duplicates"
+        items={entry.duplicates.map(item => ({
+          ...item,
+          note: `${Math.round(item.similarity * 100)}% similar to "${item.duplicateOf.title}"`
+        }))}
+      />
+    </AccordionDetails>
+  </Accordion>
+);
+
 /**
  * Component that handles daily content generation checking and execution
- * - Checks if each category has 10 prompts generated in the last 24 hours
- * - Generates new prompts for categories that need them
- * - Moves previously shown prompts to deleted status
+ * - Previews what the refresh would do (dry run) before it is confirmed
+ * - Queues the daily refresh as a background generation job
+ * - Shows per-category progress while the job runs
+ * - Allows cancelling a running refresh and retrying failed categories
  */
 const DailyContentGenerator: React.FC<DailyContentGeneratorProps> = ({
   buttonText = "Test Daily Content Generation",
@@ -33,14 +121,51 @@ const DailyContentGenerator: React.FC<DailyContentGeneratorProps> = ({
   fullWidth = false
 }) => {
   const [loading, setLoading] = useState(false);
-  const [results, setResults] = useState<null | {
-    categoriesProcessed: number;
-    totalGenerated: number;
-    totalMoved: number;
-    totalPublished: number;
-    errors: string[];
-  }>(null);
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
+  const [preview, setPreview] = useState<DailyRefreshPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const isRunning = !!job && !isJobFinished(job);
+
+  // Resume a refresh that was started before the page was reloaded
+  useEffect(() => {
+    const storedJobId = localStorage.getItem(JOB_STORAGE_KEY);
+    if (!storedJobId) return;
+
+    generationJobAPI.getJob(storedJobId)
+      .then(response => {
+        if (response.data?.job) {
+          setJob(response.data.job);
+        }
+      })
+      .catch(() => localStorage.removeItem(JOB_STORAGE_KEY));
+  }, []);
+
+  // Poll the job until it finishes
+  useEffect(() => {
+    if (!job || isJobFinished(job)) {
+      if (isJobFinished(job)) {
+        localStorage.removeItem(JOB_STORAGE_KEY);
+      }
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await generationJobAPI.getJob(job._id);
+        if (response.data?.job) {
+          setJob(response.data.job);
+        }
+      } catch (err: unknown) {
+        console.error('Error polling daily refresh job:', err);
+        setError(getErrorMessage(err, 'Lost track of the daily refresh job'));
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [job]);
 
   const handleOpen = () => {
     setOpen(true);
@@ -48,167 +173,255 @@ const DailyContentGenerator: React.FC<DailyContentGeneratorProps> = ({
 
   const handleClose = () => {
     setOpen(false);
-    // Reset results when dialog is closed
-    setResults(null);
+    // Keep a running job so progress is still visible when the dialog is reopened
+    if (!isRunning) {
+      setJob(null);
+      setError(null);
+    }
+    setPreview(null);
   };
 
-  /**
-   * Helper function to add a delay between API calls
-   * @param ms Milliseconds to delay
-   */
-  const delay = (ms: number) => {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  };
+  const handlePreview = async () => {
+    setPreviewing(true);
+    setError(null);
+    setJob(null);
 
-  /**
-   * Get model to use based on index to alternate between models
-   * @param index The current index in the generation loop
-   * @returns The model name to use
-   */
-  const getModelForIndex = (index: number): string => {
-    // Alternate between gpt-4o and gpt-4.1 models
-    return index % 2 === 0 ? 'gpt-4o' : 'gpt-4.1';
+    try {
+      const response = await contentAPI.previewDailyRefresh();
+      if (!response.data?.preview) {
+        throw new Error(response.message || 'Failed to preview the daily content refresh');
+      }
+      setPreview(response.data.preview);
+    } catch (err) {
+      console.error('Error previewing daily content refresh:', err);
+      setError(getErrorMessage(err, 'Failed to preview the daily content refresh'));
+    } finally {
+      setPreviewing(false);
+    }
   };
 
   const checkAndGenerateContent = async () => {
     setLoading(true);
-    setResults(null);
-    
+    setError(null);
+
     try {
-      console.log('Triggering daily content refresh on backend...');
-      
-      // Get the JWT token and make sure we're authenticated
-      const token = localStorage.getItem('token');
-      
-      if (!token) {
-        throw new Error('You are not logged in. Please log in to access');
-      }
-      
-      // Call the API using a properly formatted fetch request with the token
-      // Use the correct API URL with the configured base URL from env variables
-      const API_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:5010/api';
-      const refreshResponse = await fetch(`${API_URL}/admin/trigger-daily-refresh`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        credentials: 'include'
-      });
-      
-      if (!refreshResponse.ok) {
-        if (refreshResponse.status === 401) {
-          throw new Error('You are not logged in. Please log in to access');
-        }
-        const errorData = await refreshResponse.json().catch(() => null);
-        throw new Error(errorData?.message || 'Failed to trigger daily content refresh');
+      console.log('Queueing daily content refresh on backend...');
+
+      const response = await contentAPI.triggerDailyRefresh();
+
+      if (!response.data?.job) {
+        throw new Error(response.message || 'Failed to trigger daily content refresh');
       }
-      
-      const responseData = await refreshResponse.json();
-      
-      console.log('Daily content refresh completed successfully:', responseData);
-      
-      // Set results based on backend response
-      setResults({
-        categoriesProcessed: responseData.data?.categories || 0,
-        totalGenerated: responseData.data?.generated || 0,
-        totalMoved: responseData.data?.cleanedUp || 0,
-        totalPublished: responseData.data?.published || 0,
-        errors: []
-      });
-      
-    } catch (error: any) {
-      console.error('Error during daily content generation:', error);
-      setResults({
-        categoriesProcessed: 0,
-        totalGenerated: 0,
-        totalMoved: 0,
-        totalPublished: 0,
-        errors: [error.message || 'Unknown error occurred during daily content generation']
-      });
+
+      localStorage.setItem(JOB_STORAGE_KEY, response.data.job._id);
+      setJob(response.data.job);
+      setPreview(null);
+    } catch (err: unknown) {
+      console.error('Error during daily content generation:', err);
+      setError(getErrorMessage(err, 'Unknown error occurred during daily content generation'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      const response = await generationJobAPI.cancelJob(job._id);
+      if (response.data?.job) {
+        setJob(response.data.job);
+      }
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to cancel the daily refresh'));
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!job) return;
+    try {
+      const response = await generationJobAPI.retryJob(job._id);
+      if (response.data?.job) {
+        localStorage.setItem(JOB_STORAGE_KEY, response.data.job._id);
+        setJob(response.data.job);
+      }
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to retry the daily refresh'));
+    }
+  };
+
+  const progress = job?.progress;
+  const processed = progress ? progress.completed + progress.failed + progress.cancelled : 0;
+  const percent = progress && progress.total > 0 ? Math.round((processed / progress.total) * 100) : 0;
+
   return (
     <>
-      <Button 
+      <Button
         variant={variant}
         color={color}
         onClick={handleOpen}
         fullWidth={fullWidth}
-        startIcon={loading ? <CircularProgress size={20} color="inherit" /> : undefined}
-        disabled={loading}
+        startIcon={loading || isRunning ? <CircularProgress size={20} color="inherit" /> : undefined}
       >
         {buttonText}
       </Button>
-      
+
       <Dialog
         open={open}
         onClose={handleClose}
         aria-labelledby="daily-content-dialog-title"
         aria-describedby="daily-content-dialog-description"
+        fullWidth
+        maxWidth="sm"
       >
         <DialogTitle id="daily-content-dialog-title">
           Daily Content Generator
         </DialogTitle>
         <DialogContent>
           <DialogContentText id="daily-content-dialog-description">
-            This tool will perform the following actions for each category:
+            This tool will perform the following actions for each category, following its rotation policy:
             <br />
-            1. Generate up to 10 new prompt responses if needed
+            1. Generate new prompt responses (10 unless the policy says otherwise)
             <br />
-            2. Move 10 published prompt responses to the deleted section
+            2. Move published prompt responses to the deleted section once their day is over in every time zone, except kept top performers
             <br />
-            3. Promote 10 random draft prompt responses to published status
+            3. Promote the oldest draft prompt responses, then new ones, to the next day's deck, shown from midnight in each user's time zone
           </DialogContentText>
-          
-          {results ? (
+
+          {preview && !job && (
             <Box sx={{ mt: 2 }}>
-              <Typography variant="h6" gutterBottom>
-                Results:
-              </Typography>
-              <Typography variant="body1">
-                • Categories processed: {results.categoriesProcessed}
-              </Typography>
-              <Typography variant="body1">
-                • New prompts generated: {results.totalGenerated}
-              </Typography>
-              <Typography variant="body1">
-                • Old prompts moved to deleted: {results.totalMoved}
-              </Typography>
-              <Typography variant="body1">
-                • Draft prompts published: {results.totalPublished}
-              </Typography>
-              
-              {results.errors.length > 0 && (
-                <Alert severity="error" sx={{ mt: 2 }}>
-                  <Typography variant="subtitle1">Errors:</Typography>
-                  {results.errors.map((error, index) => (
-                    <Typography key={index} variant="body2">{error}</Typography>
-                  ))}
+              <Typography variant="h6" gutterBottom>Preview</Typography>
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Dry run, nothing has been changed. The real run publishes the drafts listed here, fills the
+                remaining slots with the new items it generates, and then checks them for duplicates too.
+              </Alert>
+              <Box sx={{ mb: 2 }}>
+                <Typography variant="body1">• Deck staged for: {preview.deckDate}</Typography>
+                <Typography variant="body1">• Categories refreshed: {preview.totals.categories}</Typography>
+                <Typography variant="body1">• Categories not due by their rotation policy: {preview.totals.notDue}</Typography>
+                <Typography variant="body1">• New prompts to generate: {preview.totals.generated}</Typography>
+                <Typography variant="body1">• Published prompts to move to deleted: {preview.totals.cleanedUp}</Typography>
+                <Typography variant="body1">• Top performers kept published: {preview.totals.kept}</Typography>
+                <Typography variant="body1">• Published prompts of decks still showing somewhere: {preview.totals.live}</Typography>
+                <Typography variant="body1">• Drafts to publish: {preview.totals.published} (and {preview.totals.publishedNew} of the new items)</Typography>
+                <Typography variant="body1">• Drafts held back by lint errors: {preview.totals.lintBlocked}</Typography>
+                <Typography variant="body1">• Duplicates to move to deleted: {preview.totals.duplicates}</Typography>
+              </Box>
+              <Box sx={{ maxHeight: 320, overflow: 'auto' }}>
+                {preview.categories.map(entry => (
+                  <PreviewCategory key={entry.category._id} entry={entry} />
+                ))}
+              </Box>
+            </Box>
+          )}
+
+          {job && (
+            <Box sx={{ mt: 2 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+                <Typography variant="h6">
+                  {isRunning ? 'Progress' : 'Results'}
+                </Typography>
+                <Chip size="small" label={job.status} color={job.status === 'completed' ? 'success' : job.status === 'failed' ? 'error' : 'default'} />
+              </Box>
+
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <Box sx={{ width: '100%', mr: 1 }}>
+                  <LinearProgress variant="determinate" value={percent} sx={{ height: 8, borderRadius: 4 }} />
+                </Box>
+                <Typography variant="body2" color="text.secondary" sx={{ minWidth: 70 }}>
+                  {processed} / {progress?.total || 0}
+                </Typography>
+              </Box>
+
+              {job.cancelRequested && isRunning && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Cancelling after the current category finishes...
                 </Alert>
               )}
+
+              {isJobFinished(job) && job.result && (
+                <Box sx={{ mb: 2 }}>
+                  <Typography variant="body1">
+                    • Categories processed: {job.result.categories || 0}
+                  </Typography>
+                  <Typography variant="body1">
+                    • New prompts generated: {job.result.generated || 0}
+                  </Typography>
+                  <Typography variant="body1">
+                    • Near-duplicates rejected: {job.result.duplicatesRejected || 0}
+                  </Typography>
+                  <Typography variant="body1">
+                    • Held for review by safety screening: {job.result.safetyFlagged || 0}
+                  </Typography>
+                  <Typography variant="body1">
+                    • Old prompts moved to deleted: {job.result.cleanedUp || 0}
+                  </Typography>
+                  <Typography variant="body1">
+                    • Draft prompts published: {job.result.published || 0}
+                  </Typography>
+                </Box>
+              )}
+
+              <List dense sx={{ maxHeight: 240, overflow: 'auto', bgcolor: 'background.default', borderRadius: 1 }}>
+                {job.items.map(item => (
+                  <ListItem key={item._id}>
+                    <ListItemText
+                      primary={item.label}
+                      secondary={item.error || (item.stats
+                        ? `${item.stats.generated} generated, ${item.stats.duplicatesRejected || 0} duplicates rejected, ${item.stats.safetyFlagged || 0} held for review, ${item.stats.cleanedUp} moved, ${item.stats.published} published`
+                        : undefined)}
+                    />
+                    <Chip size="small" label={item.status} color={itemStatusColor(item.status)} />
+                  </ListItem>
+                ))}
+              </List>
             </Box>
-          ) : loading ? (
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              <Typography variant="subtitle1">Errors:</Typography>
+              <Typography variant="body2">{error}</Typography>
+            </Alert>
+          )}
+
+          {loading && !job && (
             <Box sx={{ display: 'flex', justifyContent: 'center', mt: 3, mb: 3 }}>
               <CircularProgress />
             </Box>
-          ) : null}
+          )}
         </DialogContent>
         <DialogActions>
           <Button onClick={handleClose} color="inherit">
             Close
           </Button>
-          <Button 
+          {isRunning && (
+            <Button onClick={handleCancel} color="warning" disabled={job?.cancelRequested}>
+              Cancel Refresh
+            </Button>
+          )}
+          {job && ['failed', 'cancelled'].includes(job.status) && (
+            <Button onClick={handleRetry} color="secondary">
+              Retry Remaining
+            </Button>
+          )}
+          {!isRunning && (
+            <Button
+              onClick={handlePreview}
+              color="primary"
+              disabled={loading || previewing}
+              startIcon={previewing ? <CircularProgress size={20} color="inherit" /> : undefined}
+            >
+              {preview ? "Refresh Preview" : "Preview Changes"}
+            </Button>
+          )}
+          <Button
             onClick={checkAndGenerateContent}
-            color="primary" 
+            color="primary"
             variant="contained"
-            disabled={loading}
-            startIcon={loading ? <CircularProgress size={20} color="inherit" /> : undefined}
+            disabled={loading || isRunning || previewing || !preview}
+            startIcon={loading || isRunning ? <CircularProgress size={20} color="inherit" /> : undefined}
           >
-            {loading ? "Processing..." : "Run Daily Content Check"}
+            {isRunning ? "Processing..." : "Confirm and Run"}
           </Button>
         </DialogActions>
       </Dialog>
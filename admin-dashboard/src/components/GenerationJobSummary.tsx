@@ -0,0 +1,75 @@
+import React from 'react';
+import {
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import type { GenerationJob, GenerationJobCategorySummary } from '../types';
+
+interface GenerationJobSummaryProps {
+  job: GenerationJob;
+}
+
+const STATUS_COLORS: Record<GenerationJobCategorySummary['status'], 'success' | 'warning' | 'error' | 'default' | 'info'> = {
+  completed: 'success',
+  partial: 'warning',
+  failed: 'error',
+  cancelled: 'default',
+  running: 'info'
+};
+
+/**
+ * Per-category results of a finished generation job
+ */
+const GenerationJobSummary: React.FC<GenerationJobSummaryProps> = ({ job }) => {
+  const rows = job.result?.byCategory || [];
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        Results of the job started {new Date(job.createdAt).toLocaleString()}:
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Category</TableCell>
+            <TableCell>Settings</TableCell>
+            <TableCell align="right">Generated</TableCell>
+            <TableCell align="right">Duplicates rejected</TableCell>
+            <TableCell>Status</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row, index) => (
+            <TableRow key={index}>
+              <TableCell>{row.categoryName}</TableCell>
+              <TableCell>
+                <Typography variant="caption" color="text.secondary">
+                  {[row.contentType || 'category type', row.difficulty, row.model].filter(Boolean).join(' · ')}
+                </Typography>
+              </TableCell>
+              <TableCell align="right">{row.generated} / {row.requested}</TableCell>
+              <TableCell align="right">{row.duplicatesRejected}</TableCell>
+              <TableCell>
+                <Tooltip title={row.errors.join('\n')}>
+                  <Chip size="small" label={row.status} color={STATUS_COLORS[row.status]} />
+                </Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+};
+
+export default GenerationJobSummary;
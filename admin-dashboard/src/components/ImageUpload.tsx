@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Typography } from '@mui/material';
+import { CloudUpload as CloudUploadIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { uploadAPI } from '../services/api';
+import type { ImagePurpose, UploadedImage } from '../types';
+
+interface ImageUploadProps {
+  label: string;
+  purpose: ImagePurpose;
+  // Current image URL, shown as the preview
+  value?: string | null;
+  onChange: (image: UploadedImage | null) => void;
+  disabled?: boolean;
+  // Further actions next to Remove, e.g. generating an image
+  actions?: React.ReactNode;
+}
+
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+/**
+ * Drop zone that uploads an image and shows it. The API validates and
+ * resizes it, the checks here only save a round trip for obvious mistakes.
+ */
+const ImageUpload: React.FC<ImageUploadProps> = ({ label, purpose, value, onChange, disabled = false, actions }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    if (!ACCEPTED_TYPES.includes(file.type)) {
+      setError('Use a JPEG, PNG, WebP, GIF or AVIF image');
+      return;
+    }
+
+    try {
+      setError(null);
+      setUploading(true);
+      const response = await uploadAPI.uploadImage(file, purpose);
+      if (response.data?.image) onChange(response.data.image);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to upload image'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (!disabled && !uploading) upload(event.dataTransfer.files[0]);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!disabled) setDragging(true);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>{label}</Typography>
+      <Box
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onClick={() => !disabled && !uploading && inputRef.current?.click()}
+        sx={{
+          border: '2px dashed',
+          borderColor: dragging ? 'primary.main' : 'divider',
+          bgcolor: dragging ? 'action.hover' : 'transparent',
+          borderRadius: 1,
+          p: 2,
+          minHeight: 120,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          cursor: disabled ? 'default' : 'pointer',
+        }}
+      >
+        {uploading ? (
+          <CircularProgress size={32} />
+        ) : value ? (
+          <Box
+            component="img"
+            src={value}
+            alt={label}
+            sx={{ maxWidth: '100%', maxHeight: 200, borderRadius: 1, objectFit: 'contain' }}
+          />
+        ) : (
+          <Box textAlign="center" color="text.secondary">
+            <CloudUploadIcon />
+            <Typography variant="body2">Drop an image here or click to choose one</Typography>
+          </Box>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_TYPES.join(',')}
+          hidden
+          onChange={(e) => {
+            upload(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </Box>
+      {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+      {(value || actions) && (
+        <Box display="flex" gap={1} mt={1}>
+          {value && (
+            <Button size="small" color="error" startIcon={<DeleteIcon />} disabled={disabled || uploading} onClick={() => onChange(null)}>
+              Remove
+            </Button>
+          )}
+          {actions}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ImageUpload;
@@ -22,6 +22,13 @@ import {
   Logout as LogoutIcon,
   BarChart as AnalyticsIcon,
   Delete as DeleteIcon,
+  Savings as AIUsageIcon,
+  Science as ExperimentIcon,
+  TextSnippet as PromptIcon,
+  LocalOffer as TagIcon,
+  Shield as SafetyIcon,
+  Schedule as JobsIcon,
+  CalendarMonth as CalendarIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../../context/AuthContext';
 
@@ -41,11 +48,18 @@ const Sidebar: React.FC<SidebarProps> = ({ open, onClose, variant }) => {
   const menuItems = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
     { text: 'Content', icon: <ContentIcon />, path: '/content' },
+    { text: 'Calendar', icon: <CalendarIcon />, path: '/calendar' },
     { text: 'Categories', icon: <CategoryIcon />, path: '/categories' },
+    { text: 'Tags', icon: <TagIcon />, path: '/tags' },
+    { text: 'Safety', icon: <SafetyIcon />, path: '/safety' },
     { text: 'Users', icon: <PeopleIcon />, path: '/users' },
     { text: 'Analytics', icon: <AnalyticsIcon />, path: '/analytics' },
+    { text: 'AI Usage', icon: <AIUsageIcon />, path: '/ai-usage' },
+    { text: 'Prompt Library', icon: <PromptIcon />, path: '/prompts' },
+    { text: 'Experiments', icon: <ExperimentIcon />, path: '/prompt-experiments' },
     { text: 'Subscriptions', icon: <SubscriptionIcon />, path: '/subscriptions' },
     { text: 'Deleted Panel', icon: <DeleteIcon />, path: '/deleted' },
+    { text: 'Jobs', icon: <JobsIcon />, path: '/jobs' },
     { text: 'Settings', icon: <SettingsIcon />, path: '/settings' },
   ];
 
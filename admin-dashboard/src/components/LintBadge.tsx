@@ -0,0 +1,61 @@
+import React from 'react';
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import type { ContentLint, LintOverride } from '../types';
+
+interface LintBadgeProps {
+  lint?: ContentLint;
+  lintOverride?: LintOverride | null;
+}
+
+/**
+ * Lint result of a content item, with the issues in a tooltip
+ */
+const LintBadge: React.FC<LintBadgeProps> = ({ lint, lintOverride }) => {
+  if (!lint) {
+    return null;
+  }
+
+  const issues = (
+    <Box>
+      {lint.issues.map((issue, index) => (
+        <Typography key={index} variant="caption" display="block">
+          {issue.severity === 'error' ? '✖' : '⚠'} {issue.message} ({issue.rule})
+        </Typography>
+      ))}
+      {lintOverride && (
+        <Typography variant="caption" display="block" sx={{ mt: 0.5 }}>
+          Published anyway on {new Date(lintOverride.at).toLocaleString()}: {lintOverride.reason}
+        </Typography>
+      )}
+    </Box>
+  );
+
+  if (lint.issues.length === 0) {
+    return <Chip label="OK" color="success" size="small" variant="outlined" />;
+  }
+
+  return (
+    <Tooltip title={issues}>
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {lint.errors > 0 && (
+          <Chip
+            label={`${lint.errors} ${lint.errors === 1 ? 'error' : 'errors'}${lintOverride ? ' (overridden)' : ''}`}
+            color="error"
+            size="small"
+            variant={lintOverride ? 'outlined' : 'filled'}
+          />
+        )}
+        {lint.warnings > 0 && (
+          <Chip
+            label={`${lint.warnings} ${lint.warnings === 1 ? 'warning' : 'warnings'}`}
+            color="warning"
+            size="small"
+            variant="outlined"
+          />
+        )}
+      </Box>
+    </Tooltip>
+  );
+};
+
+export default LintBadge;
@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Replay as ReplayIcon } from '@mui/icons-material';
+import { lintRuleAPI } from '../services/api';
+import type { LintRule, LintRuleSettings, LintSeverity } from '../types';
+
+interface LintRulesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CONTENT_TYPES = ['hack', 'tip', 'hack2', 'tip2', 'quote'];
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+/**
+ * Settings of the lint rules content is checked against before publishing
+ */
+const LintRulesDialog: React.FC<LintRulesDialogProps> = ({ open, onClose }) => {
+  const [rules, setRules] = useState<LintRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await lintRuleAPI.getRules();
+      setRules(response.data?.rules || []);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load lint rules'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      fetchRules();
+    }
+  }, [open, fetchRules]);
+
+  const replaceRule = (rule: LintRule) => {
+    setRules(prev => prev.map(entry => (entry.id === rule.id ? rule : entry)));
+  };
+
+  const handleUpdate = async (ruleId: string, settings: Partial<LintRuleSettings>) => {
+    try {
+      setError(null);
+      const response = await lintRuleAPI.updateRule(ruleId, settings);
+      if (response.data?.rule) replaceRule(response.data.rule);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update lint rule'));
+    }
+  };
+
+  const handleReset = async (ruleId: string) => {
+    try {
+      setError(null);
+      const response = await lintRuleAPI.resetRule(ruleId);
+      if (response.data?.rule) replaceRule(response.data.rule);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to reset lint rule'));
+    }
+  };
+
+  // Options are saved when the field loses focus, lists are entered one per line
+  const handleOptionBlur = (rule: LintRule, name: string, text: string) => {
+    const value = Array.isArray(rule.defaults.options[name])
+      ? text.split('\n').map(entry => entry.trim()).filter(Boolean)
+      : Number(text);
+    if (JSON.stringify(value) === JSON.stringify(rule.options[name])) return;
+    handleUpdate(rule.id, { options: { [name]: value } });
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Content Lint Rules</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Errors block publishing unless the publisher gives a reason to override them, warnings are only shown.
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={3}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Enabled</TableCell>
+                <TableCell>Rule</TableCell>
+                <TableCell>Severity</TableCell>
+                <TableCell>Options</TableCell>
+                <TableCell>Content types</TableCell>
+                <TableCell align="right">Reset</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <Switch
+                      checked={rule.enabled}
+                      onChange={(e) => handleUpdate(rule.id, { enabled: e.target.checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{rule.description}</Typography>
+                    <Typography variant="caption" color="text.secondary">{rule.id}</Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      value={rule.severity}
+                      disabled={!rule.enabled}
+                      onChange={(e) => handleUpdate(rule.id, { severity: e.target.value as LintSeverity })}
+                    >
+                      <MenuItem value="error">Error</MenuItem>
+                      <MenuItem value="warning">Warning</MenuItem>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {Object.entries(rule.options).map(([name, value]) => (
+                      <TextField
+                        key={`${rule.id}-${name}-${JSON.stringify(value)}`}
+                        label={name}
+                        size="small"
+                        type={Array.isArray(value) ? 'text' : 'number'}
+                        multiline={Array.isArray(value)}
+                        defaultValue={Array.isArray(value) ? value.join('\n') : value}
+                        disabled={!rule.enabled}
+                        onBlur={(e) => handleOptionBlur(rule, name, e.target.value)}
+                        sx={{ mr: 1, mb: 1, width: Array.isArray(value) ? 220 : 100 }}
+                      />
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      size="small"
+                      multiple
+                      displayEmpty
+                      value={rule.contentTypes}
+                      disabled={!rule.enabled}
+                      renderValue={(selected) => (selected.length > 0 ? selected.join(', ') : 'All')}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        handleUpdate(rule.id, { contentTypes: typeof value === 'string' ? value.split(',') : value });
+                      }}
+                      sx={{ minWidth: 120 }}
+                    >
+                      {CONTENT_TYPES.map(type => (
+                        <MenuItem key={type} value={type}>{type}</MenuItem>
+                      ))}
+                    </Select>
+                  </TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Back to the defaults">
+                      <IconButton size="small" onClick={() => handleReset(rule.id)}>
+                        <ReplayIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default LintRulesDialog;
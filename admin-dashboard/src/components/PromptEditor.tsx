@@ -0,0 +1,161 @@
+import React, { useRef } from 'react';
+import { Box, Chip, Tooltip, Typography, useTheme } from '@mui/material';
+
+// Variables the backend fills in when it renders a prompt
+const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'category.name', description: 'Category name' },
+  { name: 'category.description', description: 'Category description' },
+  { name: 'numToGenerate', description: 'Number of items requested' },
+  { name: 'contentType', description: 'Content type (hack, tip, ...)' },
+  { name: 'difficulty', description: 'Difficulty level' },
+  { name: 'topic', description: 'Topic, when one is given' },
+  { name: 'recentTitles', description: 'Recently published titles of the category' },
+  { name: 'bannedTopics', description: 'Topics the category must avoid' },
+];
+
+const KNOWN_VARIABLES = new Set([...PROMPT_VARIABLES.map(variable => variable.name), 'category.slug']);
+
+// Same token syntax as src/utils/promptTemplate.js on the backend
+const TOKEN_PATTERN = /\{#(?:if|unless)\s+[a-zA-Z_][\w.]*\s*\}|\{else\}|\{\/(?:if|unless)\}|\{>\s*[a-zA-Z_][\w-]*\s*\}|\{[a-zA-Z_][\w.]*\}/g;
+
+type TokenKind = 'text' | 'variable' | 'unknown' | 'partial' | 'block';
+
+const tokenize = (text: string): { kind: TokenKind; text: string }[] => {
+  const tokens: { kind: TokenKind; text: string }[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) tokens.push({ kind: 'text', text: text.slice(lastIndex, index) });
+
+    const token = match[0];
+    let kind: TokenKind = 'block';
+    if (token.startsWith('{>')) {
+      kind = 'partial';
+    } else if (!token.startsWith('{#') && !token.startsWith('{/') && token !== '{else}') {
+      kind = KNOWN_VARIABLES.has(token.slice(1, -1)) ? 'variable' : 'unknown';
+    }
+
+    tokens.push({ kind, text: token });
+    lastIndex = index + token.length;
+  }
+
+  if (lastIndex < text.length) tokens.push({ kind: 'text', text: text.slice(lastIndex) });
+  return tokens;
+};
+
+interface PromptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  label?: string;
+  minRows?: number;
+  readOnly?: boolean;
+  partials?: string[];
+}
+
+/**
+ * Prompt text editor that highlights template variables, partials and conditional blocks.
+ * A transparent textarea sits on top of a highlighted copy of the text.
+ */
+const PromptEditor: React.FC<PromptEditorProps> = ({ value, onChange, label, minRows = 10, readOnly = false, partials = [] }) => {
+  const theme = useTheme();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const colors: Record<TokenKind, React.CSSProperties> = {
+    text: {},
+    variable: { color: theme.palette.primary.main, backgroundColor: theme.palette.action.selected, fontWeight: 600 },
+    unknown: { color: theme.palette.error.main, textDecoration: 'underline wavy' },
+    partial: { color: theme.palette.secondary.main, backgroundColor: theme.palette.action.hover, fontWeight: 600 },
+    block: { color: theme.palette.success.main, fontWeight: 600 },
+  };
+
+  const syncScroll = () => {
+    if (highlightRef.current && textareaRef.current) {
+      highlightRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  // Insert a token at the cursor
+  const insert = (token: string) => {
+    if (readOnly) return;
+    const textarea = textareaRef.current;
+    const start = textarea ? textarea.selectionStart : value.length;
+    const end = textarea ? textarea.selectionEnd : value.length;
+    onChange(value.slice(0, start) + token + value.slice(end));
+
+    requestAnimationFrame(() => {
+      if (textarea) {
+        textarea.focus();
+        textarea.setSelectionRange(start + token.length, start + token.length);
+      }
+    });
+  };
+
+  const sharedStyle = {
+    m: 0,
+    p: 1.5,
+    fontFamily: 'monospace',
+    fontSize: 14,
+    lineHeight: 1.5,
+    whiteSpace: 'pre-wrap',
+    overflowWrap: 'break-word',
+    border: '1px solid transparent',
+    borderRadius: 1,
+    boxSizing: 'border-box',
+  } as const;
+
+  return (
+    <Box>
+      {label && (
+        <Typography variant="caption" color="text.secondary">{label}</Typography>
+      )}
+      <Box sx={{ position: 'relative' }}>
+        <Box component="pre" ref={highlightRef} aria-hidden sx={{ ...sharedStyle, position: 'absolute', inset: 0, overflow: 'hidden', pointerEvents: 'none', color: 'text.primary' }}>
+          {tokenize(value).map((token, index) => (
+            <span key={index} style={colors[token.kind]}>{token.text}</span>
+          ))}
+          {/* Keeps the height in step with a trailing newline in the textarea */}
+          {'\n'}
+        </Box>
+        <Box
+          component="textarea"
+          ref={textareaRef}
+          value={value}
+          readOnly={readOnly}
+          spellCheck={false}
+          rows={minRows}
+          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          sx={{
+            ...sharedStyle,
+            position: 'relative',
+            display: 'block',
+            width: '100%',
+            resize: 'vertical',
+            color: 'transparent',
+            caretColor: theme.palette.text.primary,
+            backgroundColor: 'transparent',
+            borderColor: 'divider',
+            '&:focus': { outline: 'none', borderColor: 'primary.main' },
+          }}
+        />
+      </Box>
+      {!readOnly && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mt: 1 }}>
+          {PROMPT_VARIABLES.map(variable => (
+            <Tooltip key={variable.name} title={variable.description}>
+              <Chip size="small" color="primary" variant="outlined" label={`{${variable.name}}`} onClick={() => insert(`{${variable.name}}`)} />
+            </Tooltip>
+          ))}
+          {partials.map(partial => (
+            <Chip key={partial} size="small" color="secondary" variant="outlined" label={`{> ${partial}}`} onClick={() => insert(`{> ${partial}}`)} />
+          ))}
+          <Chip size="small" color="success" variant="outlined" label="{#if ...}" onClick={() => insert('{#if recentTitles}\n\n{/if}')} />
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default PromptEditor;
@@ -0,0 +1,518 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+  useTheme
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import {
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
+} from 'recharts';
+import { aiUsageAPI, categoryAPI } from '../services/api';
+import type { AIBudget, AIUsageAnalytics, Category } from '../types';
+
+interface BudgetForm {
+  _id?: string;
+  name: string;
+  scope: 'global' | 'category';
+  category: string;
+  monthlyLimit: string;
+  action: 'warn' | 'block';
+  warnAt: string;
+}
+
+const emptyBudgetForm: BudgetForm = {
+  name: '',
+  scope: 'global',
+  category: '',
+  monthlyLimit: '',
+  action: 'warn',
+  warnAt: '80'
+};
+
+const formatCost = (value: number) => `$${(value || 0).toFixed(value >= 1 ? 2 : 4)}`;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const budgetCategoryName = (budget: AIBudget) => {
+  if (budget.scope === 'global') return 'All categories';
+  return budget.category && typeof budget.category === 'object' ? budget.category.name : 'Unknown category';
+};
+
+/**
+ * AI usage page
+ * - Spend by day, model and category for the selected range
+ * - Monthly budgets that warn or block generation
+ */
+const AIUsage: React.FC = () => {
+  const theme = useTheme();
+  const now = new Date();
+
+  const [from, setFrom] = useState(toDateInput(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))));
+  const [to, setTo] = useState(toDateInput(now));
+  const [analytics, setAnalytics] = useState<AIUsageAnalytics | null>(null);
+  const [budgets, setBudgets] = useState<AIBudget[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [budgetForm, setBudgetForm] = useState<BudgetForm | null>(null);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+
+  const COLORS = [
+    theme.palette.primary.main,
+    theme.palette.secondary.main,
+    theme.palette.success.main,
+    theme.palette.warning.main,
+    theme.palette.error.main,
+    theme.palette.info.main,
+  ];
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [analyticsResponse, budgetsResponse] = await Promise.all([
+        // Include the whole end day
+        aiUsageAPI.getAnalytics({ from, to: `${to}T23:59:59.999Z` }),
+        aiUsageAPI.getBudgets()
+      ]);
+
+      setAnalytics(analyticsResponse.data || null);
+      setBudgets(budgetsResponse.data?.budgets || []);
+    } catch (err) {
+      console.error('Error fetching AI usage:', err);
+      setError(errorMessage(err, 'Failed to load AI usage'));
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  useEffect(() => {
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+  }, []);
+
+  const openBudgetForm = (budget?: AIBudget) => {
+    setBudgetError(null);
+    if (!budget) {
+      setBudgetForm(emptyBudgetForm);
+      return;
+    }
+
+    setBudgetForm({
+      _id: budget._id,
+      name: budget.name,
+      scope: budget.scope,
+      category: budget.category && typeof budget.category === 'object' ? (budget.category._id || '') : (budget.category || ''),
+      monthlyLimit: String(budget.monthlyLimit),
+      action: budget.action,
+      warnAt: String(Math.round(budget.warnAt * 100))
+    });
+  };
+
+  const handleSaveBudget = async () => {
+    if (!budgetForm) return;
+
+    const monthlyLimit = parseFloat(budgetForm.monthlyLimit);
+    const warnAt = parseFloat(budgetForm.warnAt) / 100;
+
+    if (!budgetForm.name.trim() || Number.isNaN(monthlyLimit) || monthlyLimit < 0) {
+      setBudgetError('A budget needs a name and a monthly limit of 0 or more');
+      return;
+    }
+
+    if (Number.isNaN(warnAt) || warnAt < 0 || warnAt > 1) {
+      setBudgetError('Warning threshold must be between 0 and 100%');
+      return;
+    }
+
+    if (budgetForm.scope === 'category' && !budgetForm.category) {
+      setBudgetError('Select a category for a category budget');
+      return;
+    }
+
+    try {
+      if (budgetForm._id) {
+        await aiUsageAPI.updateBudget(budgetForm._id, {
+          name: budgetForm.name,
+          monthlyLimit,
+          action: budgetForm.action,
+          warnAt
+        });
+      } else {
+        await aiUsageAPI.createBudget({
+          name: budgetForm.name,
+          scope: budgetForm.scope,
+          category: budgetForm.scope === 'category' ? budgetForm.category : null,
+          monthlyLimit,
+          action: budgetForm.action,
+          warnAt
+        });
+      }
+
+      setBudgetForm(null);
+      fetchData();
+    } catch (err) {
+      setBudgetError(errorMessage(err, 'Failed to save budget'));
+    }
+  };
+
+  const handleToggleBudget = async (budget: AIBudget) => {
+    try {
+      await aiUsageAPI.updateBudget(budget._id, { active: !budget.active });
+      fetchData();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update budget'));
+    }
+  };
+
+  const handleDeleteBudget = async (budget: AIBudget) => {
+    if (!window.confirm(`Delete the budget "${budget.name}"?`)) return;
+
+    try {
+      await aiUsageAPI.deleteBudget(budget._id);
+      fetchData();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete budget'));
+    }
+  };
+
+  const totals = analytics?.totals;
+  const byDay = analytics?.byDay.map(item => ({ date: item._id, cost: item.cost, calls: item.calls })) || [];
+  const byModel = analytics?.byModel.map(item => ({ name: item._id || 'unknown', value: item.cost, calls: item.calls })) || [];
+  const byCategory = analytics?.byCategory.map(item => ({ name: item.categoryName || 'No category', cost: item.cost, calls: item.calls })) || [];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          AI Usage
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            label="From"
+            type="date"
+            size="small"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            label="To"
+            type="date"
+            size="small"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <IconButton onClick={fetchData} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {budgets.filter(budget => budget.active && budget.warning).map(budget => (
+        <Alert key={budget._id} severity={budget.exceeded && budget.action === 'block' ? 'error' : 'warning'} sx={{ mb: 2 }}>
+          {budget.name}: {formatCost(budget.spent || 0)} of {formatCost(budget.monthlyLimit)} used this month
+          {budget.exceeded && budget.action === 'block' ? ' - generation is blocked' : ''}
+        </Alert>
+      ))}
+
+      {loading && !analytics ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Grid container spacing={3}>
+          {[
+            { label: 'Estimated Spend', value: formatCost(totals?.cost || 0) },
+            { label: 'AI Calls', value: (totals?.calls || 0).toLocaleString() },
+            { label: 'Tokens', value: (totals?.totalTokens || 0).toLocaleString() },
+            { label: 'Failed Calls', value: (totals?.errors || 0).toLocaleString() },
+          ].map(stat => (
+            <Grid key={stat.label} size={{ xs: 12, sm: 6, md: 3 }}>
+              <Paper sx={{ p: 2 }}>
+                <Typography variant="body2" color="text.secondary">{stat.label}</Typography>
+                <Typography variant="h5" fontWeight="bold">{stat.value}</Typography>
+              </Paper>
+            </Grid>
+          ))}
+
+          <Grid size={{ xs: 12 }}>
+            <Card>
+              <CardHeader title="Spend by Day" />
+              <Divider />
+              <CardContent>
+                <Box height={300}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={byDay} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis />
+                      <Tooltip formatter={(value: number) => formatCost(value)} />
+                      <Bar dataKey="cost" fill={theme.palette.primary.main} name="Spend (USD)" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 6 }}>
+            <Card>
+              <CardHeader title="Spend by Model" />
+              <Divider />
+              <CardContent>
+                <Box height={300}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={byModel} dataKey="value" nameKey="name" cx="50%" cy="50%" outerRadius={100} label={({ name }) => name}>
+                        {byModel.map((entry, index) => (
+                          <Cell key={entry.name} fill={COLORS[index % COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip formatter={(value: number) => formatCost(value)} />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 6 }}>
+            <Card>
+              <CardHeader title="Spend by Category" />
+              <Divider />
+              <CardContent>
+                <Box height={300}>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={byCategory} layout="vertical" margin={{ top: 5, right: 30, left: 40, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" />
+                      <YAxis type="category" dataKey="name" width={120} />
+                      <Tooltip formatter={(value: number) => formatCost(value)} />
+                      <Bar dataKey="cost" fill={theme.palette.secondary.main} name="Spend (USD)" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+
+          <Grid size={{ xs: 12 }}>
+            <Card>
+              <CardHeader
+                title="Monthly Budgets"
+                action={
+                  <Button startIcon={<AddIcon />} onClick={() => openBudgetForm()}>
+                    Add Budget
+                  </Button>
+                }
+              />
+              <Divider />
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Name</TableCell>
+                      <TableCell>Scope</TableCell>
+                      <TableCell>When reached</TableCell>
+                      <TableCell sx={{ minWidth: 200 }}>This month</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell align="right">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {budgets.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} align="center">
+                          No budgets yet. AI calls are not limited.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {budgets.map(budget => (
+                      <TableRow key={budget._id}>
+                        <TableCell>{budget.name}</TableCell>
+                        <TableCell>{budgetCategoryName(budget)}</TableCell>
+                        <TableCell>{budget.action === 'block' ? 'Block generation' : 'Warn only'}</TableCell>
+                        <TableCell>
+                          {budget.active ? (
+                            <Box>
+                              <LinearProgress
+                                variant="determinate"
+                                value={Math.min((budget.ratio || 0) * 100, 100)}
+                                color={budget.exceeded ? 'error' : budget.warning ? 'warning' : 'primary'}
+                                sx={{ height: 8, borderRadius: 4, mb: 0.5 }}
+                              />
+                              <Typography variant="caption">
+                                {formatCost(budget.spent || 0)} / {formatCost(budget.monthlyLimit)}
+                              </Typography>
+                            </Box>
+                          ) : (
+                            <Typography variant="caption" color="text.secondary">
+                              Limit {formatCost(budget.monthlyLimit)}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Chip
+                            size="small"
+                            label={budget.active ? 'Active' : 'Paused'}
+                            color={budget.active ? 'success' : 'default'}
+                            onClick={() => handleToggleBudget(budget)}
+                          />
+                        </TableCell>
+                        <TableCell align="right">
+                          <IconButton size="small" onClick={() => openBudgetForm(budget)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                          <IconButton size="small" color="error" onClick={() => handleDeleteBudget(budget)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Card>
+          </Grid>
+        </Grid>
+      )}
+
+      <Dialog open={!!budgetForm} onClose={() => setBudgetForm(null)} fullWidth maxWidth="xs">
+        <DialogTitle>{budgetForm?._id ? 'Edit Budget' : 'Add Budget'}</DialogTitle>
+        {budgetForm && (
+          <DialogContent>
+            {budgetError && (
+              <Alert severity="error" sx={{ mb: 2 }}>{budgetError}</Alert>
+            )}
+            <TextField
+              label="Name"
+              fullWidth
+              margin="dense"
+              value={budgetForm.name}
+              onChange={(e) => setBudgetForm({ ...budgetForm, name: e.target.value })}
+            />
+            <FormControl fullWidth margin="dense" disabled={!!budgetForm._id}>
+              <InputLabel>Scope</InputLabel>
+              <Select
+                label="Scope"
+                value={budgetForm.scope}
+                onChange={(e) => setBudgetForm({ ...budgetForm, scope: e.target.value as BudgetForm['scope'] })}
+              >
+                <MenuItem value="global">All categories</MenuItem>
+                <MenuItem value="category">One category</MenuItem>
+              </Select>
+            </FormControl>
+            {budgetForm.scope === 'category' && (
+              <FormControl fullWidth margin="dense" disabled={!!budgetForm._id}>
+                <InputLabel>Category</InputLabel>
+                <Select
+                  label="Category"
+                  value={budgetForm.category}
+                  onChange={(e) => setBudgetForm({ ...budgetForm, category: e.target.value })}
+                >
+                  {categories.map(category => (
+                    <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <TextField
+              label="Monthly limit (USD)"
+              type="number"
+              fullWidth
+              margin="dense"
+              value={budgetForm.monthlyLimit}
+              onChange={(e) => setBudgetForm({ ...budgetForm, monthlyLimit: e.target.value })}
+            />
+            <TextField
+              label="Warn at (% of limit)"
+              type="number"
+              fullWidth
+              margin="dense"
+              value={budgetForm.warnAt}
+              onChange={(e) => setBudgetForm({ ...budgetForm, warnAt: e.target.value })}
+            />
+            <FormControl fullWidth margin="dense">
+              <InputLabel>When the limit is reached</InputLabel>
+              <Select
+                label="When the limit is reached"
+                value={budgetForm.action}
+                onChange={(e) => setBudgetForm({ ...budgetForm, action: e.target.value as BudgetForm['action'] })}
+              >
+                <MenuItem value="warn">Warn only</MenuItem>
+                <MenuItem value="block">Block generation</MenuItem>
+              </Select>
+            </FormControl>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setBudgetForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveBudget}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AIUsage;
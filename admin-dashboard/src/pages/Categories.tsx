@@ -35,15 +35,27 @@ import {
   HelpOutline,
   TextSnippet as TextSnippetIcon,
   PlayArrow as PlayArrowIcon,
+  Topic as TopicIcon,
+  Autorenew as AutorenewIcon,
 } from '@mui/icons-material';
 import { ChromePicker } from 'react-color';
 import { categoryAPI, contentAPI, promptAPI } from '../services/api';
 import { useNavigate } from 'react-router-dom';
 import type { Category } from '../types';
 import PoolStats from '../components/PoolStats';
+import CategoryTopics from '../components/CategoryTopics';
+import CategoryRotation from '../components/CategoryRotation';
+import ImageUpload from '../components/ImageUpload';
+
+// Uploaded icons are URLs, older categories only have an icon name
+const getIconUrl = (icon?: string | null) => (icon && /^https?:\/\//.test(icon) ? icon : null);
 
 // Simple category icons for display
-const getCategoryIcon = (icon: string) => {
+const getCategoryIcon = (category: Category) => {
+  const src = category.iconThumbnail || getIconUrl(category.icon);
+  if (src) {
+    return <Box component="img" src={src} alt="" sx={{ width: 32, height: 32, borderRadius: 1, objectFit: 'cover' }} />;
+  }
   return <span>🏷️</span>;
 };
 
@@ -83,6 +95,8 @@ const Categories = () => {
   });
   
   const [promptViewDialog, setPromptViewDialog] = useState(false);
+  const [topicsCategory, setTopicsCategory] = useState<Category | null>(null);
+  const [rotationCategory, setRotationCategory] = useState<Category | null>(null);
   const [selectedPrompt, setSelectedPrompt] = useState<{category: string, prompt: string}>({category: '', prompt: ''});
   
   const [batchDialog, setBatchDialog] = useState(false);
@@ -160,6 +174,7 @@ const Categories = () => {
         name: category.name,
         description: category.description,
         icon: category.icon,
+        iconThumbnail: category.iconThumbnail || null,
         color: category.color,
         priority: category.priority,
         active: category.active,
@@ -167,6 +182,7 @@ const Categories = () => {
         singlePrompt: category.singlePrompt || '',
         promptType: category.promptType || 'single',
         defaultNumToGenerate: category.defaultNumToGenerate || 5,
+        bannedTopics: category.bannedTopics || [],
         // Ensure contentType is explicitly set and prioritized
         contentType: category.contentType || 'hack'
       });
@@ -273,7 +289,8 @@ const Categories = () => {
         contentType: (formData.contentType as 'hack' | 'hack2' | 'tip' | 'tip2') || 'hack',
         // Make sure prompt fields are consistent
         prompt: formData.singlePrompt || '',
-        singlePrompt: formData.singlePrompt || ''
+        singlePrompt: formData.singlePrompt || '',
+        bannedTopics: (formData.bannedTopics || []).map(topic => topic.trim()).filter(Boolean)
       };
       
       debugContentType('SUBMIT_FINAL_DATA', finalFormData.contentType);
@@ -344,12 +361,6 @@ const Categories = () => {
     try {
       const contentTypeDisplay = category.contentType || 'hack';
       if (window.confirm(`Generate ${category.defaultNumToGenerate || 1} ${contentTypeDisplay} content items using "${category.name}" prompt?`)) {
-        setSnackbar({
-          open: true,
-          message: `Generating ${contentTypeDisplay} content for ${category.name}...`,
-          severity: 'info',
-        });
-        
         const response = await contentAPI.generateMultipleContent(
           category._id,
           undefined, // Don't specify contentType - use category's setting
@@ -357,14 +368,15 @@ const Categories = () => {
           'beginner'
         );
         
-        if (response.data?.content) {
+        if (response.data?.job) {
+          // Generation runs in the background, progress is visible on the Content page
           setSnackbar({
             open: true,
-            message: `Generated ${response.data.content.length} ${contentTypeDisplay} content items`,
+            message: `Queued generation of ${contentTypeDisplay} content for ${category.name}. New items will appear on the Content page.`,
             severity: 'success',
           });
         } else {
-          throw new Error('No content was returned');
+          throw new Error('No generation job was created');
         }
       }
     } catch (err) {
@@ -441,42 +453,20 @@ const Categories = () => {
       setLoading(true);
       setBatchDialog(false);
       
-      setSnackbar({
-        open: true,
-        message: `Generating content for ${batchOptions.selectedCategories.length} categories...`,
-        severity: 'info',
-      });
-      
-      let successCount = 0;
-      let totalGenerated = 0;
-      
-      for (const categoryId of batchOptions.selectedCategories) {
-        try {
-          // Find the category object to get its contentType
-          const categoryObj = categories.find(c => c._id === categoryId);
-          if (!categoryObj) continue;
-          
-          // No need to pass contentType explicitly - let the backend use the category's type
-          const response = await contentAPI.generateMultipleContent(
-            categoryId,
-            undefined, // Don't pass contentType - let server use category's type
-            batchOptions.numPerCategory,
-            batchOptions.difficulty
-          );
-          
-          if (response.data?.content) {
-            successCount++;
-            totalGenerated += response.data.content.length;
-          }
-        } catch (error) {
-          console.error(`Error generating content for category ${categoryId}:`, error);
-        }
-      }
+      // One background job covers all selected categories
+      const response = await contentAPI.generateMultipleContent(
+        batchOptions.selectedCategories,
+        undefined, // Don't pass contentType - let server use each category's type
+        batchOptions.numPerCategory,
+        batchOptions.difficulty
+      );
       
       setSnackbar({
         open: true,
-        message: `Generated ${totalGenerated} content items across ${successCount} categories`,
-        severity: 'success',
+        message: response.data?.job
+          ? `Queued generation for ${batchOptions.selectedCategories.length} categories. New items will appear on the Content page.`
+          : 'No generation job was created',
+        severity: response.data?.job ? 'success' : 'error',
       });
       
       showPoolStats ? fetchCategoriesWithPoolStats() : fetchCategories();
@@ -649,7 +639,7 @@ const Categories = () => {
                     }}
                   >
                     <TableCell>{category.name}</TableCell>
-                    <TableCell>{getCategoryIcon(category.icon)}</TableCell>
+                    <TableCell>{getCategoryIcon(category)}</TableCell>
                     <TableCell>{category.description}</TableCell>
                     <TableCell>
                       <Box 
@@ -729,6 +719,22 @@ const Categories = () => {
                           </IconButton>
                         </Tooltip>
                       )}
+                      <Tooltip title="Topic backlog">
+                        <IconButton 
+                          color="primary"
+                          onClick={() => setTopicsCategory(category)}
+                        >
+                          <TopicIcon />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Rotation policy">
+                        <IconButton 
+                          color="primary"
+                          onClick={() => setRotationCategory(category)}
+                        >
+                          <AutorenewIcon />
+                        </IconButton>
+                      </Tooltip>
                       <IconButton 
                         color="primary"
                         onClick={() => handleOpenDialog('edit', category)}
@@ -782,17 +788,29 @@ const Categories = () => {
               rows={2}
             />
             
-            <Box display="flex" gap={2} mt={2}>
-              <TextField
+            <TextField
+              label="Banned topics"
+              value={(formData.bannedTopics || []).join(',')}
+              onChange={(e) => setFormData({ ...formData, bannedTopics: e.target.value.split(',') })}
+              fullWidth
+              margin="normal"
+              helperText="Comma separated. Prompts are told to avoid them and generated content mentioning them is held for review."
+            />
+            
+            <Box mt={2}>
+              <ImageUpload
                 label="Icon"
-                name="icon"
-                value={formData.icon}
-                onChange={handleInputChange}
-                fullWidth
-                margin="normal"
-                helperText="Icon name (e.g., fitness, dating)"
+                purpose="category"
+                value={getIconUrl(formData.icon)}
+                onChange={(image) => setFormData(prev => ({
+                  ...prev,
+                  icon: image?.url ?? '',
+                  iconThumbnail: image?.thumbnailUrl ?? null
+                }))}
               />
-              
+            </Box>
+            
+            <Box display="flex" gap={2} mt={2}>
               <TextField
                 label="Priority"
                 name="priority"
@@ -982,6 +1000,42 @@ const Categories = () => {
         </DialogActions>
       </Dialog>
       
+      {/* Topic Backlog Dialog */}
+      <Dialog open={topicsCategory !== null} onClose={() => setTopicsCategory(null)} maxWidth="lg" fullWidth>
+        <DialogTitle>
+          Topics for {topicsCategory?.name}
+        </DialogTitle>
+        <DialogContent dividers>
+          {topicsCategory?._id && <CategoryTopics categoryId={topicsCategory._id} />}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTopicsCategory(null)}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      {/* Rotation Policy Dialog */}
+      <Dialog open={rotationCategory !== null} onClose={() => setRotationCategory(null)} maxWidth="md" fullWidth>
+        <DialogTitle>
+          Rotation policy for {rotationCategory?.name}
+        </DialogTitle>
+        <DialogContent dividers>
+          {rotationCategory && (
+            <CategoryRotation
+              key={rotationCategory._id}
+              category={rotationCategory}
+              onSaved={(saved) => setCategories(prev => prev.map(entry => (entry._id === saved._id ? { ...entry, ...saved } : entry)))}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRotationCategory(null)}>
+            Close
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
       {/* Batch Generation Dialog */}
       <Dialog open={batchDialog} onClose={handleCloseBatchDialog} maxWidth="md" fullWidth>
         <DialogTitle>
@@ -63,14 +63,40 @@ import {
   AutoFixHigh as AutoFixHighIcon,
   Publish as PublishIcon,
   SmartToy as SmartToyIcon,
-  ContentCopy as ContentCopyIcon
+  ContentCopy as ContentCopyIcon,
+  Rule as RuleIcon,
+  Image as ImageIcon
 } from '@mui/icons-material';
-import { contentAPI, categoryAPI } from '../services/api';
-import type { Content, Category } from '../types';
+import { contentAPI, categoryAPI, generationJobAPI, getErrorMessage, getLintErrors } from '../services/api';
+import type { Content, Category, GenerationJob, GenerationBatchEntry, ContentLint } from '../types';
 import DuplicateContentDetector from '../components/DuplicateContentDetector';
-
-// Helper function to add delay between API calls
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import ContentTranslations from '../components/ContentTranslations';
+import ContentHistory from '../components/ContentHistory';
+import BatchGenerationEntries from '../components/BatchGenerationEntries';
+import GenerationJobSummary from '../components/GenerationJobSummary';
+import LintBadge from '../components/LintBadge';
+import LintRulesDialog from '../components/LintRulesDialog';
+import ImageUpload from '../components/ImageUpload';
+
+// Remembers the running generation job so progress survives a page reload
+const GENERATION_JOB_STORAGE_KEY = 'windspire-generation-job';
+const GENERATION_POLL_INTERVAL_MS = 2000;
+
+const isGenerationJobFinished = (job: GenerationJob | null) =>
+  !!job && ['completed', 'failed', 'cancelled'].includes(job.status);
+
+// Lint errors as lines for the override prompt
+const describeLintErrors = (lint: ContentLint) =>
+  lint.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => `- ${issue.message}`)
+    .join('\n');
+
+// Asks why content with lint errors should be published anyway, null when cancelled
+const askLintOverrideReason = (summary: string) => {
+  const reason = window.prompt(`${summary}\n\nEnter a reason to publish anyway, or cancel to fix the content first:`);
+  return reason && reason.trim() ? reason.trim() : null;
+};
 
 interface ContentManagerProps {}
 
@@ -127,10 +153,13 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [generationCount, setGenerationCount] = useState(10);
   const [multiCategoryMode, setMultiCategoryMode] = useState(false);
+  // Per-category settings of a multi-category batch, kept in the order categories were picked
+  const [batchEntries, setBatchEntries] = useState<GenerationBatchEntry[]>([]);
+  const [recentBatchJobs, setRecentBatchJobs] = useState<GenerationJob[]>([]);
   
   // Add model selection state
   const [selectedModel, setSelectedModel] = useState('gpt-4o');
-  const [generationInProgress, setGenerationInProgress] = useState(false);
+  const [generationJob, setGenerationJob] = useState<GenerationJob | null>(null);
   
   // Available models grouped by category
   const availableModels = {
@@ -156,6 +185,8 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
   const [contentDialog, setContentDialog] = useState(false);
   const [dialogMode, setDialogMode] = useState<'add' | 'edit' | 'view'>('add');
   const [selectedContent, setSelectedContent] = useState<Content | null>(null);
+  const [contentDialogTab, setContentDialogTab] = useState<'details' | 'history'>('details');
+  const [generatingCover, setGeneratingCover] = useState(false);
   const [formData, setFormData] = useState<Partial<Content>>({
     title: '',
     body: '',
@@ -210,6 +241,31 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     message: '',
     severity: 'success' as 'success' | 'error' | 'info' | 'warning'
   });
+  
+  // Lint rules dialog
+  const [lintRulesDialog, setLintRulesDialog] = useState(false);
+  
+  // Runs a publishing request, and when lint errors block it asks for an override
+  // reason and runs it again with it. Returns null when the user does not override.
+  const publishWithLintOverride = async <T,>(publish: (overrideReason?: string) => Promise<T>): Promise<T | null> => {
+    try {
+      return await publish();
+    } catch (err) {
+      const lint = getLintErrors(err);
+      if (!lint) throw err;
+      
+      const overrideReason = askLintOverrideReason(`This content has ${lint.errors} lint errors:\n${describeLintErrors(lint)}`);
+      if (!overrideReason) {
+        setSnackbar({
+          open: true,
+          message: 'Not published: fix the lint errors or give a reason to publish anyway',
+          severity: 'warning'
+        });
+        return null;
+      }
+      return publish(overrideReason);
+    }
+  };
 
   // State for duplicate management
   const [duplicateDialog, setDuplicateDialog] = useState(false);
@@ -319,12 +375,31 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
       setLoading(true);
       
       const response = await contentAPI.bulkPublishContent(draftContentIds);
+      let totalUpdated = response.data?.totalUpdated || 0;
+      let blocked = response.data?.blocked || [];
+      
+      // Items with lint errors are held back until published with an override reason
+      if ((response.success || response.status === 'success') && blocked.length > 0) {
+        const overrideReason = askLintOverrideReason(
+          `${blocked.length} items were not published because of lint errors:\n` +
+          blocked.map(item => `${item.title}\n${describeLintErrors(item.lint)}`).join('\n')
+        );
+        if (overrideReason) {
+          const overridden = await contentAPI.bulkPublishContent(blocked.map(item => item._id), overrideReason);
+          if (overridden.success || overridden.status === 'success') {
+            totalUpdated += overridden.data?.totalUpdated || 0;
+            blocked = overridden.data?.blocked || [];
+          }
+        }
+      }
       
       if (response.success || response.status === 'success') {
+        const blockedIds = blocked.map(item => item._id);
+        
         // Update local state - update status of published items
         setContent(prevContent => 
           prevContent.map(item => {
-            if (draftContentIds.includes(item._id || '')) {
+            if (draftContentIds.includes(item._id || '') && !blockedIds.includes(item._id)) {
               return { ...item, status: 'published', publishDate: new Date(), hasBeenPublished: true };
             }
             return item;
@@ -336,8 +411,10 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
         
         setSnackbar({
           open: true,
-          message: `Successfully published ${response.data?.totalUpdated || draftContentIds.length} items`,
-          severity: 'success'
+          message: blocked.length > 0
+            ? `Published ${totalUpdated} items, ${blocked.length} held back by lint errors`
+            : `Successfully published ${totalUpdated} items`,
+          severity: blocked.length > 0 ? 'warning' : 'success'
         });
       } else {
         setSnackbar({
@@ -661,6 +738,15 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
 
   // AI content generation
   const handleOpenGenerationDialog = () => {
+    // A running job keeps its progress, otherwise start from a clean dialog
+    if (generatingContent) {
+      setGenerationDialog(true);
+      return;
+    }
+    setGenerationJob(null);
+    generationJobAPI.getJobs({ type: 'generate-batch', limit: 5 })
+      .then(response => setRecentBatchJobs(response.data?.jobs || []))
+      .catch(err => console.error('Error fetching recent batch jobs:', err));
     if (categories.length > 0) {
       const defaultCat = categories[0];
       setGenerationCategory(defaultCat._id || '');
@@ -675,6 +761,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     }
     setMultiCategoryMode(false);
     setSelectedCategories([]);
+    setBatchEntries([]);
     setGenerationDialog(true);
   };
 
@@ -682,20 +769,109 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     setGenerationDialog(false);
   };
 
+  // Keep one batch entry per selected category, new ones start from the category's settings
+  const handleBatchCategoriesChange = (categoryIds: string[]) => {
+    setSelectedCategories(categoryIds);
+    setBatchEntries(categoryIds.map(categoryId => {
+      const existing = batchEntries.find(entry => entry.categoryId === categoryId);
+      if (existing) return existing;
+      const category = categories.find(c => c._id === categoryId);
+      return {
+        categoryId,
+        contentType: category?.contentType || 'hack',
+        count: generationCount,
+        difficulty: 'beginner'
+      };
+    }));
+  };
+
+  const handleGenerationCountChange = (value: string) => {
+    const count = Math.max(1, Math.min(50, parseInt(value || "1")));
+    setGenerationCount(count);
+    // The count is the default of every batch entry
+    setBatchEntries(entries => entries.map(entry => ({ ...entry, count })));
+  };
+
+  // Show the results of an earlier batch job
+  const handleOpenBatchJob = async (jobId: string) => {
+    try {
+      const response = await generationJobAPI.getJob(jobId);
+      if (!response.data?.job) return;
+      const job = response.data.job;
+      applyGenerationJob(job);
+      if (!isGenerationJobFinished(job)) {
+        localStorage.setItem(GENERATION_JOB_STORAGE_KEY, job._id);
+        setGeneratingContent(true);
+      }
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: err instanceof globalThis.Error && err.message ? err.message : 'Failed to load the generation job',
+        severity: 'error'
+      });
+    }
+  };
+
+  // Map the job's items onto the per-category progress shown in the dialog
+  const applyGenerationJob = (job: GenerationJob) => {
+    setGenerationJob(job);
+    
+    const byCategory = new Map<string, {
+      categoryId: string;
+      categoryName: string;
+      requested: number;
+      generated: number;
+      finished: boolean;
+      success: boolean;
+      error?: string;
+    }>();
+    
+    job.items.forEach(item => {
+      const key = item.category || item.label;
+      const entry = byCategory.get(key) || {
+        categoryId: key,
+        categoryName: item.categoryName || item.label,
+        requested: 0,
+        generated: 0,
+        finished: true,
+        success: false
+      };
+      entry.requested += item.count;
+      entry.generated += item.contentIds.length;
+      entry.finished = entry.finished && ['completed', 'failed', 'cancelled'].includes(item.status);
+      entry.success = entry.success || item.status === 'completed';
+      if (item.error) {
+        entry.error = item.error;
+      }
+      byCategory.set(key, entry);
+    });
+    
+    const categoryEntries = Array.from(byCategory.values());
+    const running = job.items.find(item => item.status === 'running');
+    const current = running ? byCategory.get(running.category || running.label) : undefined;
+    const finishedEntries = categoryEntries.filter(entry => entry.finished);
+    
+    setGenerationProgress({
+      total: categoryEntries.length,
+      completed: finishedEntries.length,
+      currentCategory: current ? current.categoryName : null,
+      currentItemInCategory: current ? current.generated : 0,
+      totalItemsInCategory: current ? current.requested : 0,
+      results: finishedEntries.map(entry => ({
+        categoryId: entry.categoryId,
+        categoryName: entry.categoryName,
+        success: entry.success,
+        count: entry.generated,
+        error: entry.error
+      }))
+    });
+  };
+
   const handleGenerateContent = async () => {
     try {
       setGeneratingContent(true);
       setError(null);
       
-      // Debug logs
-      console.log("=== DEBUG: Starting content generation with workaround ===");
-      console.log("Generation count:", generationCount);
-      console.log("Multi-category mode:", multiCategoryMode);
-      console.log("Selected model:", selectedModel);
-      
-      // Set the flag that generation is in progress
-      localStorage.setItem('windspire-generation-in-progress', 'true');
-      
       let categoryIdsParam: string[];
       if (multiCategoryMode) {
         if (selectedCategories.length === 0) {
@@ -705,7 +881,6 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
             severity: 'error'
           });
           setGeneratingContent(false);
-          localStorage.removeItem('windspire-generation-in-progress');
           return;
         }
         categoryIdsParam = selectedCategories;
@@ -717,7 +892,6 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
             severity: 'error'
           });
           setGeneratingContent(false);
-          localStorage.removeItem('windspire-generation-in-progress');
           return;
         }
         categoryIdsParam = [generationCategory];
@@ -725,7 +899,56 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
 
       console.log("Categories to process:", categoryIdsParam);
       
-      // Clear existing filters to ensure new content is visible
+      // Generation runs as a background job on the server, the dialog polls it for progress
+      const response = multiCategoryMode
+        ? await contentAPI.generateBatchContent(batchEntries.map(entry => ({ ...entry, model: selectedModel })))
+        : await contentAPI.generateMultipleContent(
+          categoryIdsParam,
+          undefined, // Let server use each category's contentType
+          generationCount,
+          'beginner',
+          selectedModel
+        );
+      
+      if (!response.data?.job) {
+        setSnackbar({
+          open: true,
+          message: response.message || 'No generation job was created',
+          severity: 'error'
+        });
+        setGeneratingContent(false);
+        return;
+      }
+      
+      localStorage.setItem(GENERATION_JOB_STORAGE_KEY, response.data.job._id);
+      applyGenerationJob(response.data.job);
+    } catch (err: unknown) {
+      console.error('Error starting generation job:', err);
+      
+      setError(getErrorMessage(err, 'Error during batch content generation'));
+      
+      setSnackbar({
+        open: true,
+        message: getErrorMessage(err, 'Error during content generation'),
+        severity: 'error'
+      });
+      
+      setGeneratingContent(false);
+    }
+  };
+
+  // Called once the polled job has finished
+  const handleGenerationJobFinished = (job: GenerationJob) => {
+    localStorage.removeItem(GENERATION_JOB_STORAGE_KEY);
+    setGeneratingContent(false);
+    
+    const failed = job.progress.failed;
+    const totalGenerated = job.progress.generated;
+    const duplicatesRejected = job.result?.duplicatesRejected || 0;
+    const safetyFlagged = job.result?.safetyFlagged || 0;
+    
+    // Clear existing filters to ensure new content is visible
+    if (totalGenerated > 0) {
       setStatusFilter('all');
       setCategoryFilter('all');
       setContentTypeFilter('all');
@@ -733,199 +956,58 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
       setPoolFilter('all');
       setSearchTerm('');
       setTabValue(0); // Set to "All Content" tab
-      
-      // Reset page to 0 to show new content at the top
       setPage(0);
       
-      // Calculate total number of items to generate across all categories
-      const totalItemsToGenerate = categoryIdsParam.length * generationCount;
-      
-      // Initialize progress tracking
-      setGenerationProgress({
-        total: categoryIdsParam.length,
-        completed: 0,
-        currentCategory: null,
-        currentItemInCategory: 0,
-        totalItemsInCategory: generationCount,
-        results: []
-      });
-
-      // Process one category at a time
-      const allGeneratedContent: Content[] = [];
-      const results: Array<{
-        categoryId: string;
-        categoryName: string;
-        success: boolean;
-        count: number;
-        error?: string;
-      }> = [];
-
-      for (let i = 0; i < categoryIdsParam.length; i++) {
-        const categoryId = categoryIdsParam[i];
-        const category = categories.find(c => c._id === categoryId);
-        if (!category) continue;
-
-        // Update progress
-        setGenerationProgress(prev => ({
-          ...prev,
-          currentCategory: category.name,
-          completed: i,
-          currentItemInCategory: 0
-        }));
-
-        try {
-          console.log(`DEBUG: Generating content for ${category.name} using model: ${selectedModel}`);
-          console.log(`DEBUG: Requesting ${generationCount} items individually from the API`);
-          
-          // Track generated content for this category
-          const categoryGeneratedContent: Content[] = [];
-          
-          // Make multiple API calls, one for each item we want to generate
-          // This is a workaround since the backend seems to ignore the count parameter
-          for (let j = 0; j < generationCount; j++) {
-            try {
-              // Update item progress
-              setGenerationProgress(prev => ({
-                ...prev,
-                currentItemInCategory: j
-              }));
-              
-              console.log(`DEBUG: Generating item ${j + 1} of ${generationCount} for ${category.name}`);
-              
-              // Add a substantial delay between API calls to prevent rate limiting
-              if (j > 0) {
-                // Use a much longer delay to avoid hitting rate limits (2 seconds minimum)
-                const delayTime = Math.max(2000, 500 * generationCount);
-                console.log(`DEBUG: Adding ${delayTime}ms delay between requests to prevent rate limiting`);
-                await delay(delayTime);
-              }
-              
-              // Make API call to generate 1 item
-              const response = await contentAPI.generateMultipleContent(
-                categoryId,
-                undefined, // Let server use category's contentType
-                1, // Always request 1 item per call
-                'beginner',
-                selectedModel
-              );
-              
-              // If we got a valid response, add it to our collection
-              if (response?.data?.content && response.data.content.length > 0) {
-                console.log(`DEBUG: Successfully generated item ${j + 1}`, response.data.content[0].title);
-                categoryGeneratedContent.push(...response.data.content);
-                
-                // Update progress for this item
-                setGenerationProgress(prev => ({
-                  ...prev,
-                  currentItemInCategory: j + 1
-                }));
-              } else {
-                console.warn(`DEBUG: API returned success but no content for item ${j + 1}`);
-              }
-            } catch (itemError: any) {
-              console.error(`Error generating item ${j + 1} for ${category.name}:`, itemError);
-              // Continue with next item even if this one failed
-            }
-          }
-          
-          console.log(`DEBUG: Successfully generated ${categoryGeneratedContent.length} items for ${category.name}`);
-          
-          // Add all items from this category to the total generated content
-          allGeneratedContent.push(...categoryGeneratedContent);
-          
-          // Update progress for this category
-          setGenerationProgress(prev => ({
-            ...prev,
-            currentItemInCategory: generationCount,
-            results: [
-              ...prev.results,
-              {
-                categoryId,
-                categoryName: category.name,
-                success: categoryGeneratedContent.length > 0,
-                count: categoryGeneratedContent.length
-              }
-            ]
-          }));
-          
-          results.push({
-            categoryId,
-            categoryName: category.name,
-            success: categoryGeneratedContent.length > 0,
-            count: categoryGeneratedContent.length
-          });
-        } catch (err: any) {
-          console.error(`Error generating content for ${category.name}:`, err);
-          results.push({
-            categoryId,
-            categoryName: category.name,
-            success: false,
-            count: 0,
-            error: err.message || 'Unknown error'
-          });
-        }
-      }
+      setTimeout(() => {
+        handleRefresh();
+      }, 1000);
+    }
+    
+    setSnackbar({
+      open: true,
+      message: job.status === 'cancelled'
+        ? `Generation cancelled after ${totalGenerated} items.`
+        : `Generated ${totalGenerated} items. ${duplicatesRejected > 0 ? `Rejected ${duplicatesRejected} near-duplicates.` : ''} ${safetyFlagged > 0 ? `${safetyFlagged} held for review by safety screening.` : ''} ${failed > 0 ? `Failed batches: ${failed}.` : ''}`,
+      severity: job.status === 'completed' ? 'success' : 'warning'
+    });
+    
+    // Close dialog on success, or keep open on error to show details
+    if (job.status === 'completed') {
+      handleCloseGenerationDialog();
+    }
+  };
 
-      // Update progress to completion
-      setGenerationProgress(prev => ({
-        ...prev,
-        completed: prev.total,
-        currentCategory: null,
-        currentItemInCategory: prev.totalItemsInCategory,
-        results
-      }));
-
-      // Update content state with new content
-      if (allGeneratedContent.length > 0) {
-        // Prepend new content to the beginning of the list
-        setContent(prevContent => [...allGeneratedContent, ...prevContent]);
-        
-        // Highlight newly added content
-        setSnackbar({
-          open: true,
-          message: `${allGeneratedContent.length} new content items have been added!`,
-          severity: 'success'
-        });
-        
-        // Force a refresh
-        setTimeout(() => {
-          handleRefresh();
-        }, 1000);
+  const handleCancelGeneration = async () => {
+    if (!generationJob) return;
+    try {
+      const response = await generationJobAPI.cancelJob(generationJob._id);
+      if (response.data?.job) {
+        applyGenerationJob(response.data.job);
       }
-
-      // Show summary
-      const successful = results.filter(r => r.success).length;
-      const failed = results.filter(r => !r.success).length;
-      const totalGenerated = allGeneratedContent.length;
-
+    } catch (err: unknown) {
       setSnackbar({
         open: true,
-        message: `Generated ${totalGenerated} items across ${successful} categories. ${failed > 0 ? `Failed: ${failed} categories.` : ''}`,
-        severity: failed > 0 ? 'warning' : 'success'
+        message: getErrorMessage(err, 'Failed to cancel generation'),
+        severity: 'error'
       });
+    }
+  };
 
-      // Clear the generation in progress flag
-      localStorage.removeItem('windspire-generation-in-progress');
-
-      // Close dialog on success, or keep open on error to show details
-      if (failed === 0) {
-        handleCloseGenerationDialog();
+  const handleRetryGeneration = async () => {
+    if (!generationJob) return;
+    try {
+      const response = await generationJobAPI.retryJob(generationJob._id);
+      if (response.data?.job) {
+        localStorage.setItem(GENERATION_JOB_STORAGE_KEY, response.data.job._id);
+        setGeneratingContent(true);
+        applyGenerationJob(response.data.job);
       }
     } catch (err: any) {
-      console.error('Error in batch generation:', err);
-      
-      setError(err.message || 'Error during batch content generation');
-      
       setSnackbar({
         open: true,
-        message: err.message || 'Error during content generation',
+        message: err.message || 'Failed to retry generation',
         severity: 'error'
       });
-
-      localStorage.removeItem('windspire-generation-in-progress');
-    } finally {
-      console.log("=== DEBUG: Generation process complete ===");
-      setGeneratingContent(false);
     }
   };
 
@@ -1217,46 +1299,61 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     }
   };
 
-  // Before component unmounts or on page refresh, save generation state
+  // Resume a generation job that was running when the page was left
   useEffect(() => {
-    // Save generation in progress state to localStorage
-    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (generatingContent) {
-        // Save state
-        localStorage.setItem('windspire-generation-in-progress', 'true');
-        // Ask for confirmation
-        e.preventDefault();
-        e.returnValue = 'Content generation is in progress. Are you sure you want to leave?';
-        return e.returnValue;
-      }
-    };
-
-    // Check if there was an ongoing generation
-    const checkPendingGeneration = () => {
-      const pendingGeneration = localStorage.getItem('windspire-generation-in-progress');
-      if (pendingGeneration === 'true') {
-        setGenerationInProgress(true);
+    const storedJobId = localStorage.getItem(GENERATION_JOB_STORAGE_KEY);
+    if (!storedJobId) return;
+    
+    generationJobAPI.getJob(storedJobId)
+      .then(response => {
+        const job = response.data?.job;
+        if (!job) return;
+        
+        if (isGenerationJobFinished(job)) {
+          localStorage.removeItem(GENERATION_JOB_STORAGE_KEY);
+          return;
+        }
+        
+        setGeneratingContent(true);
+        applyGenerationJob(job);
+        setGenerationDialog(true);
         setSnackbar({
           open: true,
-          message: 'Content generation was in progress when you left. Check the content list for new items.',
-          severity: 'warning'
+          message: 'Content generation is still running, showing its progress.',
+          severity: 'info'
         });
-        // Clear the flag
-        localStorage.removeItem('windspire-generation-in-progress');
-      }
-    };
-
-    // Check on mount
-    checkPendingGeneration();
+      })
+      .catch(() => localStorage.removeItem(GENERATION_JOB_STORAGE_KEY));
+  }, []);
 
-    // Add event listener
-    window.addEventListener('beforeunload', handleBeforeUnload);
+  // Latest finish handler, read through a ref so the polling effect only reruns on job updates
+  const generationJobFinishedRef = useRef(handleGenerationJobFinished);
+  generationJobFinishedRef.current = handleGenerationJobFinished;
 
-    // Cleanup
-    return () => {
-      window.removeEventListener('beforeunload', handleBeforeUnload);
-    };
-  }, [generatingContent]);
+  // Poll the running generation job
+  useEffect(() => {
+    if (!generationJob || !generatingContent) return;
+    
+    if (isGenerationJobFinished(generationJob)) {
+      generationJobFinishedRef.current(generationJob);
+      return;
+    }
+    
+    const timer = setTimeout(async () => {
+      try {
+        const response = await generationJobAPI.getJob(generationJob._id);
+        if (response.data?.job) {
+          applyGenerationJob(response.data.job);
+        }
+      } catch (err: unknown) {
+        console.error('Error polling generation job:', err);
+        setError(getErrorMessage(err, 'Lost track of the generation job'));
+        setGeneratingContent(false);
+      }
+    }, GENERATION_POLL_INTERVAL_MS);
+    
+    return () => clearTimeout(timer);
+  }, [generationJob, generatingContent]);
 
   // Function to automatically move duplicated content to deleted section (except for one per group)
   const handleMoveDuplicatesToDeleted = async () => {
@@ -1566,6 +1663,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
   // Dialog handlers
   const handleOpenContentDialog = (mode: 'add' | 'edit' | 'view', contentItem?: Content) => {
     setDialogMode(mode);
+    setContentDialogTab('details');
     
     if (mode === 'add') {
       setSelectedContent(null);
@@ -1592,14 +1690,52 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
         tags: contentItem.tags,
         status: contentItem.status,
         contentType: contentItem.contentType || 'hack',
+        quoteText: contentItem.quoteText || '',
+        author: contentItem.author || '',
+        sourceTitle: contentItem.sourceTitle || '',
+        sourceYear: contentItem.sourceYear ?? null,
         difficulty: contentItem.difficulty,
-        pool: contentItem.pool || 'regular'
+        pool: contentItem.pool || 'regular',
+        image: contentItem.image || null,
+        imageThumbnail: contentItem.imageThumbnail || null
       });
     }
     
     setContentDialog(true);
   };
 
+  // A restored revision replaces the editable fields shown in the dialog and the list
+  const handleContentRestored = (restored: Content) => {
+    const fields = {
+      title: restored.title,
+      body: restored.body,
+      summary: restored.summary,
+      tags: restored.tags,
+      difficulty: restored.difficulty,
+      quoteText: restored.quoteText,
+      author: restored.author,
+      sourceTitle: restored.sourceTitle,
+      sourceYear: restored.sourceYear,
+      translations: restored.translations
+    };
+
+    setSelectedContent(prev => prev ? { ...prev, ...fields } : prev);
+    setFormData(prev => ({
+      ...prev,
+      ...fields,
+      quoteText: restored.quoteText || '',
+      author: restored.author || '',
+      sourceTitle: restored.sourceTitle || '',
+      sourceYear: restored.sourceYear ?? null
+    }));
+    setContent(content.map(item => item._id === restored._id ? { ...item, ...fields } : item));
+    setSnackbar({
+      open: true,
+      message: 'Revision restored',
+      severity: 'success'
+    });
+  };
+
   const handleCloseContentDialog = () => {
     setContentDialog(false);
   };
@@ -1614,6 +1750,14 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     }
   };
 
+  const handleSourceYearChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const year = parseInt(e.target.value, 10);
+    setFormData({
+      ...formData,
+      sourceYear: Number.isNaN(year) ? null : year
+    });
+  };
+
   const handleTagsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const tagsString = e.target.value;
     const tagsArray = tagsString.split(',').map(tag => tag.trim()).filter(tag => tag);
@@ -1624,6 +1768,30 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     });
   };
 
+  // Cover image generated from the title, saved on the content right away
+  const handleGenerateCoverImage = async () => {
+    if (!selectedContent?._id) return;
+    
+    try {
+      setGeneratingCover(true);
+      const response = await contentAPI.generateCoverImage(selectedContent._id);
+      const updated = response.data?.content;
+      if (updated) {
+        const images = { image: updated.image, imageThumbnail: updated.imageThumbnail };
+        setFormData(prev => ({ ...prev, ...images }));
+        setContent(content.map(item => item._id === updated._id ? { ...item, ...images } : item));
+      }
+    } catch (err) {
+      setSnackbar({
+        open: true,
+        message: err instanceof globalThis.Error && err.message ? err.message : 'Failed to generate a cover image',
+        severity: 'error'
+      });
+    } finally {
+      setGeneratingCover(false);
+    }
+  };
+
   // Content submission
   const handleSubmitContent = async () => {
     try {
@@ -1657,12 +1825,12 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
           });
         }
       } else if (dialogMode === 'edit' && selectedContent?._id) {
-        const response = await contentAPI.updateContent(
-          selectedContent._id,
-          formData
+        const contentId = selectedContent._id;
+        const response = await publishWithLintOverride(overrideReason =>
+          contentAPI.updateContent(contentId, { ...formData, overrideReason })
         );
         
-        if (response.data?.content) {
+        if (response?.data?.content) {
           setContent(
             content.map(item => 
               item._id === selectedContent._id ? response.data.content : item
@@ -1740,13 +1908,12 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
     if (!selectedContent?._id) return;
     
     try {
-      const response = await contentAPI.moderateContent(
-        selectedContent._id,
-        action,
-        moderationNotes
+      const contentId = selectedContent._id;
+      const response = await publishWithLintOverride(overrideReason =>
+        contentAPI.moderateContent(contentId, action, moderationNotes, overrideReason)
       );
       
-      if (response.data?.content) {
+      if (response?.data?.content) {
         setContent(
           content.map(item => 
             item._id === selectedContent._id ? response.data.content : item
@@ -1760,7 +1927,10 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
         });
       }
       
-      handleCloseModerationDialog();
+      // Stay open when publishing was held back by lint errors
+      if (response) {
+        handleCloseModerationDialog();
+      }
     } catch (err) {
       console.error('Error moderating content:', err);
       setSnackbar({
@@ -1774,13 +1944,11 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
   // Quick moderation without dialog
   const handleQuickModeration = async (contentId: string, action: 'approve' | 'reject') => {
     try {
-      const response = await contentAPI.moderateContent(
-        contentId,
-        action,
-        `Quick ${action} via table action`
+      const response = await publishWithLintOverride(overrideReason =>
+        contentAPI.moderateContent(contentId, action, `Quick ${action} via table action`, overrideReason)
       );
       
-      if (response.data?.content) {
+      if (response?.data?.content) {
         // Update content in the state
         setContent(
           content.map(item => 
@@ -1861,6 +2029,13 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
           >
             Clean Duplicates
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<RuleIcon />}
+            onClick={() => setLintRulesDialog(true)}
+          >
+            Lint Rules
+          </Button>
         </Box>
       </Box>
 
@@ -2017,6 +2192,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 <TableCell>Pool</TableCell>
                 <TableCell>Difficulty</TableCell>
                 <TableCell>Status</TableCell>
+                <TableCell>Lint</TableCell>
                 <TableCell 
                   onClick={() => handleSortByColumn('createdAt')}
                   sx={{ 
@@ -2179,6 +2355,9 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                     />
                   </TableCell>
                   <TableCell>{renderStatusChip(contentItem.status)}</TableCell>
+                  <TableCell>
+                    <LintBadge lint={contentItem.lint} lintOverride={contentItem.lintOverride} />
+                  </TableCell>
                   <TableCell>
                     {contentItem.createdAt ? new Date(contentItem.createdAt).toLocaleString() : contentItem.formattedCreatedAt || 'N/A'}
                   </TableCell>
@@ -2240,7 +2419,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
               ))}
               {filteredContent.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={7} align="center">
+                  <TableCell colSpan={8} align="center">
                     No content found matching your filters.
                   </TableCell>
                 </TableRow>
@@ -2314,6 +2493,21 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
               : 'View Content'}
         </DialogTitle>
         <DialogContent>
+          {dialogMode !== 'add' && selectedContent?._id && (
+            <Tabs value={contentDialogTab} onChange={(_, value) => setContentDialogTab(value)} sx={{ borderBottom: 1, borderColor: 'divider' }}>
+              <Tab value="details" label="Details" />
+              <Tab value="history" label="History" />
+            </Tabs>
+          )}
+          {contentDialogTab === 'history' && selectedContent?._id ? (
+            <Box sx={{ mt: 2 }}>
+              <ContentHistory
+                contentId={selectedContent._id}
+                readOnly={dialogMode === 'view'}
+                onRestored={handleContentRestored}
+              />
+            </Box>
+          ) : (
           <Grid container spacing={2} sx={{ mt: 1 }}>
             <Grid xs={12} item>
               <TextField
@@ -2360,6 +2554,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                   <MenuItem value="tip">Tip</MenuItem>
                   <MenuItem value="hack2">Hack 2</MenuItem>
                   <MenuItem value="tip2">Tip 2</MenuItem>
+                  <MenuItem value="quote">Quote</MenuItem>
                 </Select>
               </FormControl>
             </Grid>
@@ -2410,19 +2605,73 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 disabled={dialogMode === 'view'}
               />
             </Grid>
-            <Grid xs={12} item>
-              <TextField
-                name="body"
-                label="Content"
-                value={formData.body}
-                onChange={handleInputChange}
-                fullWidth
-                multiline
-                rows={10}
-                margin="dense"
-                disabled={dialogMode === 'view'}
-              />
-            </Grid>
+            {formData.contentType === 'quote' ? (
+              <>
+                {/* The body of a quote is built from these fields on the server */}
+                <Grid size={{ xs: 12 }}>
+                  <TextField
+                    name="quoteText"
+                    label="Quote"
+                    value={formData.quoteText || ''}
+                    onChange={handleInputChange}
+                    fullWidth
+                    required
+                    multiline
+                    rows={3}
+                    margin="dense"
+                    disabled={dialogMode === 'view'}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  <TextField
+                    name="author"
+                    label="Author"
+                    value={formData.author || ''}
+                    onChange={handleInputChange}
+                    fullWidth
+                    margin="dense"
+                    disabled={dialogMode === 'view'}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 5 }}>
+                  <TextField
+                    name="sourceTitle"
+                    label="Source (book or work)"
+                    value={formData.sourceTitle || ''}
+                    onChange={handleInputChange}
+                    fullWidth
+                    margin="dense"
+                    disabled={dialogMode === 'view'}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 3 }}>
+                  <TextField
+                    name="sourceYear"
+                    label="Year"
+                    type="number"
+                    value={formData.sourceYear ?? ''}
+                    onChange={handleSourceYearChange}
+                    fullWidth
+                    margin="dense"
+                    disabled={dialogMode === 'view'}
+                  />
+                </Grid>
+              </>
+            ) : (
+              <Grid xs={12} item>
+                <TextField
+                  name="body"
+                  label="Content"
+                  value={formData.body}
+                  onChange={handleInputChange}
+                  fullWidth
+                  multiline
+                  rows={10}
+                  margin="dense"
+                  disabled={dialogMode === 'view'}
+                />
+              </Grid>
+            )}
             <Grid xs={12} item>
               <TextField
                 name="tags"
@@ -2434,6 +2683,29 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 disabled={dialogMode === 'view'}
               />
             </Grid>
+            <Grid size={{ xs: 12 }}>
+              <ImageUpload
+                label="Image"
+                purpose="content"
+                value={formData.image}
+                disabled={dialogMode === 'view' || generatingCover}
+                onChange={(image) => setFormData(prev => ({
+                  ...prev,
+                  image: image?.url ?? null,
+                  imageThumbnail: image?.thumbnailUrl ?? null
+                }))}
+                actions={dialogMode === 'edit' && selectedContent?._id && (
+                  <Button
+                    size="small"
+                    startIcon={generatingCover ? <CircularProgress size={16} /> : <ImageIcon />}
+                    disabled={generatingCover}
+                    onClick={handleGenerateCoverImage}
+                  >
+                    Generate from title
+                  </Button>
+                )}
+              />
+            </Grid>
             {dialogMode !== 'add' && (
               <Grid xs={12} md={6} item>
                 <FormControl fullWidth margin="dense">
@@ -2451,7 +2723,20 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 </FormControl>
               </Grid>
             )}
+            {dialogMode !== 'add' && selectedContent && (
+              <Grid size={{ xs: 12 }}>
+                <ContentTranslations
+                  content={selectedContent}
+                  readOnly={dialogMode === 'view'}
+                  onUpdated={(updated) => {
+                    setSelectedContent(updated);
+                    setContent(content.map(item => item._id === updated._id ? { ...item, translations: updated.translations } : item));
+                  }}
+                />
+              </Grid>
+            )}
           </Grid>
+          )}
         </DialogContent>
         <DialogActions>
           <Box sx={{ display: 'flex', width: '100%', justifyContent: 'space-between' }}>
@@ -2472,7 +2757,11 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 <Button 
                   onClick={handleSubmitContent} 
                   variant="contained" 
-                  disabled={!formData.title || !formData.body || !formData.category}
+                  disabled={
+                    !formData.title ||
+                    !formData.category ||
+                    (formData.contentType === 'quote' ? !formData.quoteText : !formData.body)
+                  }
                   sx={{ ml: 1 }}
                 >
                   {dialogMode === 'add' ? 'Create' : 'Update'}
@@ -2533,9 +2822,9 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
               Use AI to generate new content items. Select a category and how many items to generate.
               Each category will use its own content type.
             </Typography>
-            {generationInProgress && (
-              <Alert severity="warning" sx={{ mt: 2, mb: 2 }}>
-                A previous generation might still be in progress. Please check the content list for new items.
+            {generationJob?.cancelRequested && generatingContent && (
+              <Alert severity="info" sx={{ mt: 2, mb: 2 }}>
+                Cancelling after the current batch finishes...
               </Alert>
             )}
           </Box>
@@ -2559,10 +2848,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                   <Select
                     multiple
                     value={selectedCategories}
-                    onChange={(e) => {
-                      const value = e.target.value as string[];
-                      setSelectedCategories(value);
-                    }}
+                    onChange={(e) => handleBatchCategoriesChange(e.target.value as string[])}
                     label="Categories"
                     renderValue={(selected) => (
                       <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
@@ -2607,6 +2893,12 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                     ))}
                   </Select>
                 </FormControl>
+                <BatchGenerationEntries
+                  categories={categories}
+                  entries={batchEntries}
+                  disabled={generatingContent}
+                  onChange={setBatchEntries}
+                />
               </Grid>
             ) : (
               <Grid item xs={12}>
@@ -2645,12 +2937,12 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 label="Number of Items to Generate"
                 type="number"
                 value={generationCount}
-                onChange={(e) => setGenerationCount(Math.max(1, Math.min(50, parseInt(e.target.value || "1"))))}
+                onChange={(e) => handleGenerationCountChange(e.target.value)}
                 fullWidth
                 margin="dense"
                 InputProps={{ inputProps: { min: 1, max: 50 } }}
                 helperText={multiCategoryMode 
-                  ? "Generate this number of items per selected category (max 50 per category)"
+                  ? "Default number of items per category, adjust each category in the table above (max 50)"
                   : "Generate between 1 and 50 items at once"
                 }
               />
@@ -2702,7 +2994,7 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                 </Typography>
                 <Typography variant="body2">
                   {multiCategoryMode 
-                    ? `Generating ${generationCount} items for each of the ${selectedCategories.length} selected categories (${generationCount * selectedCategories.length} total)`
+                    ? `Generating ${batchEntries.reduce((sum, entry) => sum + (entry.count || 0), 0)} items across ${batchEntries.length} selected categories`
                     : `Generating ${generationCount} items for ${getCategoryName(generationCategory)}`
                   }
                 </Typography>
@@ -2710,14 +3002,16 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                   Using model: <Chip color="primary" size="small" label={selectedModel} />
                 </Typography>
                 <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                  Note: Each category will use its own configured content type. 
-                  Please don't refresh the page during generation - it may cause issues.
+                  Note: {multiCategoryMode
+                    ? 'Each category uses the content type, count and difficulty set in the table. '
+                    : 'Each category will use its own configured content type. '}
+                  Generation runs on the server, you can close this dialog or reload the page and follow progress later.
                 </Typography>
               </Box>
             </Grid>
 
-            {/* Progress section - show when generating */}
-            {generatingContent && (
+            {/* Progress section - show while generating and after a job finished */}
+            {generationJob && (
               <Grid item xs={12}>
                 <Paper sx={{ p: 2, mt: 2 }}>
                   <Typography variant="subtitle2" gutterBottom>
@@ -2817,13 +3111,56 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
                       </List>
                     </Box>
                   )}
+                  
+                  {/* Per-category results, also shown when an earlier batch is reopened */}
+                  {isGenerationJobFinished(generationJob) && (
+                    <Box sx={{ mt: 2 }}>
+                      <GenerationJobSummary job={generationJob} />
+                    </Box>
+                  )}
                 </Paper>
               </Grid>
             )}
+            
+            {/* Earlier batches can be reopened to see their results */}
+            {multiCategoryMode && !generatingContent && recentBatchJobs.length > 0 && (
+              <Grid size={{ xs: 12 }}>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Recent batches
+                </Typography>
+                <List dense>
+                  {recentBatchJobs.map(job => (
+                    <ListItem
+                      key={job._id}
+                      secondaryAction={
+                        <Button size="small" onClick={() => handleOpenBatchJob(job._id)} disabled={generationJob?._id === job._id}>
+                          {isGenerationJobFinished(job) ? 'View Results' : 'Follow'}
+                        </Button>
+                      }
+                    >
+                      <ListItemText
+                        primary={`${job.params.entries || job.items.length} categories · ${job.progress.generated} items generated`}
+                        secondary={`${new Date(job.createdAt).toLocaleString()} · ${job.status}`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Grid>
+            )}
           </Grid>
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseGenerationDialog}>Cancel</Button>
+          <Button onClick={handleCloseGenerationDialog}>{generatingContent ? 'Hide' : 'Cancel'}</Button>
+          {generatingContent && (
+            <Button onClick={handleCancelGeneration} color="warning" disabled={generationJob?.cancelRequested}>
+              Stop Generation
+            </Button>
+          )}
+          {!generatingContent && generationJob && ['failed', 'cancelled'].includes(generationJob.status) && (
+            <Button onClick={handleRetryGeneration} color="secondary">
+              Retry Failed
+            </Button>
+          )}
           <Button 
             onClick={handleGenerateContent} 
             variant="contained" 
@@ -3057,6 +3394,16 @@ const ContentManager: React.FC<ContentManagerProps> = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Lint Rules Dialog */}
+      <LintRulesDialog
+        open={lintRulesDialog}
+        onClose={() => {
+          setLintRulesDialog(false);
+          // Badges follow the new rule settings
+          handleRefresh();
+        }}
+      />
+
       {/* Snackbar */}
       <Snackbar
         open={snackbar.open}
@@ -0,0 +1,398 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  PlayArrow as PlayArrowIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { jobAPI } from '../services/api';
+import type { JobRun, JobRunStatus, ScheduledJob } from '../types';
+
+const STATUS_COLORS: Record<JobRunStatus, 'info' | 'success' | 'error' | 'default'> = {
+  running: 'info',
+  succeeded: 'success',
+  failed: 'error',
+  skipped: 'default'
+};
+
+// Jobs that change content in bulk are confirmed before they are started by hand
+const CONFIRM_JOBS = ['daily-content-generation', 'daily-content-refresh', 'content-recycling'];
+
+// Runs are polled while a job is running
+const POLL_INTERVAL = 5000;
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)} min ${seconds % 60} s`;
+};
+
+// Top-level numbers of a result, e.g. "generated: 40, published: 10"
+const summarizeResult = (result: JobRun['result']) => {
+  if (!result) return '';
+  return Object.entries(result)
+    .filter(([, value]) => typeof value === 'number')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+};
+
+const describeTrigger = (run: JobRun) => {
+  if (run.trigger === 'cron') return 'Schedule';
+  return run.triggeredBy && typeof run.triggeredBy === 'object' ? `Manual (${run.triggeredBy.name})` : 'Manual';
+};
+
+// Result column: the error, why the run was skipped, or the result numbers
+const describeOutcome = (run: JobRun) => {
+  if (run.error) return run.error.message;
+  if (run.status === 'skipped') return `Running on ${run.lockHolder || 'another instance'}`;
+  // Previews report their numbers under totals
+  if (run.dryRun && run.result?.totals) return `Would do ${summarizeResult(run.result.totals as JobRun['result'])}`;
+  return summarizeResult(run.result);
+};
+
+const RunStatus: React.FC<{ run: JobRun }> = ({ run }) => (
+  <Box component="span" sx={{ display: 'inline-flex', gap: 0.5 }}>
+    <Chip size="small" label={run.status} color={STATUS_COLORS[run.status]} />
+    {run.dryRun && <Chip size="small" variant="outlined" label="dry run" />}
+  </Box>
+);
+
+/**
+ * Scheduled jobs page
+ * - Jobs with their schedule, latest run and a button to run them now
+ * - History of every run with its result and errors
+ */
+const Jobs: React.FC = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [totalRuns, setTotalRuns] = useState(0);
+  const [jobFilter, setJobFilter] = useState('');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(20);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [startingJob, setStartingJob] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<JobRun | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await jobAPI.getJobs();
+      setJobs(response.data?.jobs || []);
+      setSchedulerEnabled(response.data?.schedulerEnabled ?? true);
+    } catch (err) {
+      console.error('Error fetching jobs:', err);
+      setError(errorMessage(err, 'Failed to load jobs'));
+    }
+  }, []);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await jobAPI.getRuns({ job: jobFilter || undefined, page: page + 1, limit: rowsPerPage });
+      setRuns(response.data?.runs || []);
+      setTotalRuns(response.pagination?.total || 0);
+    } catch (err) {
+      console.error('Error fetching job runs:', err);
+      setError(errorMessage(err, 'Failed to load job runs'));
+    } finally {
+      setLoading(false);
+    }
+  }, [jobFilter, page, rowsPerPage]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  useEffect(() => {
+    fetchRuns();
+  }, [fetchRuns]);
+
+  const anyRunning = jobs.some(job => job.running) || runs.some(run => run.status === 'running');
+
+  useEffect(() => {
+    if (!anyRunning) return;
+    const timer = setInterval(() => {
+      fetchJobs();
+      fetchRuns();
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [anyRunning, fetchJobs, fetchRuns]);
+
+  const handleRunNow = async (job: ScheduledJob, dryRun = false) => {
+    if (!dryRun && CONFIRM_JOBS.includes(job.name) && !window.confirm(`Run "${job.name}" now? ${job.description}.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setStartingJob(job.name);
+      await jobAPI.runJob(job.name, { dryRun });
+      await Promise.all([fetchJobs(), fetchRuns()]);
+    } catch (err) {
+      setError(errorMessage(err, `Failed to start ${job.name}`));
+    } finally {
+      setStartingJob(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Scheduled Jobs</Typography>
+        <IconButton onClick={() => { fetchJobs(); fetchRuns(); }}>
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!schedulerEnabled && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          The scheduler is off on this server (ENABLE_SCHEDULER), jobs only run when started here.
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardHeader title="Jobs" />
+        <CardContent>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Job</TableCell>
+                  <TableCell>Schedule</TableCell>
+                  <TableCell>Last run</TableCell>
+                  <TableCell>Duration</TableCell>
+                  <TableCell>Result</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {jobs.map(job => (
+                  <TableRow key={job.name}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="bold">{job.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">{job.description}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <code>{job.schedule}</code>
+                      {job.timezone && <Typography variant="caption" display="block">{job.timezone}</Typography>}
+                      {!job.enabled && <Chip size="small" label="Disabled" sx={{ mt: 0.5 }} />}
+                    </TableCell>
+                    <TableCell>
+                      {job.lastRun ? (
+                        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                          <RunStatus run={job.lastRun} />
+                          <Typography variant="body2">{new Date(job.lastRun.startedAt).toLocaleString()}</Typography>
+                        </Box>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">Never</Typography>
+                      )}
+                      {job.lock && (
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          Running on {job.lock.holder} since {new Date(job.lock.acquiredAt).toLocaleTimeString()}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{job.lastRun ? formatDuration(job.lastRun.durationMs) : '—'}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color={job.lastRun?.error ? 'error' : 'text.primary'}>
+                        {job.lastRun ? describeOutcome(job.lastRun) : ''}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {job.supportsDryRun && (
+                        <Tooltip title="Record what the job would do, without changing anything">
+                          <span>
+                            <Button
+                              size="small"
+                              disabled={startingJob !== null}
+                              onClick={() => handleRunNow(job, true)}
+                              sx={{ mr: 1 }}
+                            >
+                              Dry run
+                            </Button>
+                          </span>
+                        </Tooltip>
+                      )}
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        startIcon={startingJob === job.name || job.running ? <CircularProgress size={16} /> : <PlayArrowIcon />}
+                        disabled={job.running || startingJob !== null}
+                        onClick={() => handleRunNow(job)}
+                      >
+                        {job.running ? 'Running' : 'Run now'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader
+          title="Run history"
+          action={
+            <FormControl size="small" sx={{ minWidth: 220 }}>
+              <InputLabel>Job</InputLabel>
+              <Select
+                label="Job"
+                value={jobFilter}
+                onChange={(e) => { setJobFilter(e.target.value); setPage(0); }}
+              >
+                <MenuItem value="">All jobs</MenuItem>
+                {jobs.map(job => (
+                  <MenuItem key={job.name} value={job.name}>{job.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          }
+        />
+        <CardContent>
+          {loading ? (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Started</TableCell>
+                    <TableCell>Job</TableCell>
+                    <TableCell>Trigger</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Instance</TableCell>
+                    <TableCell>Duration</TableCell>
+                    <TableCell>Result</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {runs.length === 0 && (
+                    <TableRow><TableCell colSpan={7}>No runs yet</TableCell></TableRow>
+                  )}
+                  {runs.map(run => (
+                    <TableRow key={run._id} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedRun(run)}>
+                      <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                      <TableCell>{run.job}</TableCell>
+                      <TableCell>{describeTrigger(run)}</TableCell>
+                      <TableCell><RunStatus run={run} /></TableCell>
+                      <TableCell>{run.instance || '—'}</TableCell>
+                      <TableCell>{formatDuration(run.durationMs)}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color={run.error ? 'error' : 'text.primary'}>
+                          {describeOutcome(run)}
+                          {run.failures.length > 0 && ` (${run.failures.length} errors)`}
+                        </Typography>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <TablePagination
+                component="div"
+                count={totalRuns}
+                page={page}
+                rowsPerPage={rowsPerPage}
+                rowsPerPageOptions={[10, 20, 50]}
+                onPageChange={(_, newPage) => setPage(newPage)}
+                onRowsPerPageChange={(e) => { setRowsPerPage(parseInt(e.target.value, 10)); setPage(0); }}
+              />
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedRun} onClose={() => setSelectedRun(null)} maxWidth="md" fullWidth>
+        {selectedRun && (
+          <>
+            <DialogTitle>
+              {selectedRun.job} — {new Date(selectedRun.startedAt).toLocaleString()}
+            </DialogTitle>
+            <DialogContent>
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+                <RunStatus run={selectedRun} />
+                <Typography variant="body2">
+                  {describeTrigger(selectedRun)}, {formatDuration(selectedRun.durationMs)}
+                  {selectedRun.instance && `, on ${selectedRun.instance}`}
+                </Typography>
+              </Box>
+              {selectedRun.status === 'skipped' && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Not run, {selectedRun.lockHolder || 'another instance'} held the job lock.
+                </Alert>
+              )}
+              {selectedRun.error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  <Typography variant="body2">{selectedRun.error.message}</Typography>
+                  {selectedRun.error.stack && (
+                    <Box component="pre" sx={{ fontSize: 12, whiteSpace: 'pre-wrap', m: 0, mt: 1 }}>
+                      {selectedRun.error.stack}
+                    </Box>
+                  )}
+                </Alert>
+              )}
+              {selectedRun.failures.length > 0 && (
+                <Box sx={{ mb: 2 }}>
+                  <Typography variant="subtitle2" gutterBottom>Errors the job recovered from</Typography>
+                  {selectedRun.failures.map((failure, index) => (
+                    <Typography key={index} variant="body2" color="error">
+                      {new Date(failure.at).toLocaleTimeString()} {failure.message}
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+              <Typography variant="subtitle2" gutterBottom>Result</Typography>
+              <Box component="pre" sx={{ fontSize: 12, bgcolor: 'grey.100', p: 2, borderRadius: 1, overflow: 'auto' }}>
+                {selectedRun.result ? JSON.stringify(selectedRun.result, null, 2) : 'No result'}
+              </Box>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setSelectedRun(null)}>Close</Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Jobs;
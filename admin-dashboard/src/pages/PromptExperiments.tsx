@@ -0,0 +1,549 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  EmojiEvents as PromoteIcon,
+  PlayArrow as StartIcon,
+  Refresh as RefreshIcon,
+  Stop as StopIcon
+} from '@mui/icons-material';
+import { categoryAPI, promptExperimentAPI } from '../services/api';
+import type { Category, PromptExperiment, PromptExperimentResults, PromptExperimentVariant } from '../types';
+
+interface ExperimentForm {
+  name: string;
+  description: string;
+  category: string;
+  confidenceLevel: number;
+  variants: PromptExperimentVariant[];
+}
+
+const emptyVariant = (name: string, promptText = ''): PromptExperimentVariant => ({ name, promptText, weight: 1 });
+
+const emptyExperimentForm: ExperimentForm = {
+  name: '',
+  description: '',
+  category: '',
+  confidenceLevel: 0.95,
+  variants: [emptyVariant('Control'), emptyVariant('Variant B')]
+};
+
+const statusColors: Record<PromptExperiment['status'], 'default' | 'success' | 'warning' | 'info'> = {
+  draft: 'default',
+  running: 'success',
+  stopped: 'warning',
+  completed: 'info'
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const formatPercent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+const experimentCategoryName = (experiment: PromptExperiment) =>
+  experiment.category && typeof experiment.category === 'object' ? experiment.category.name : 'Unknown category';
+
+/**
+ * Prompt experiments page
+ * - A/B tests of prompt variants per category
+ * - Like rate per variant with a significance test against the control
+ * - Promotes the winning variant to the category prompt
+ */
+const PromptExperiments: React.FC = () => {
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PromptExperiment | null>(null);
+  const [results, setResults] = useState<PromptExperimentResults | null>(null);
+  const [resultsLoading, setResultsLoading] = useState(false);
+  const [form, setForm] = useState<ExperimentForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchExperiments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await promptExperimentAPI.getExperiments(categoryFilter ? { category: categoryFilter } : undefined);
+      setExperiments(response.data?.experiments || []);
+    } catch (err) {
+      console.error('Error fetching prompt experiments:', err);
+      setError(errorMessage(err, 'Failed to load prompt experiments'));
+    } finally {
+      setLoading(false);
+    }
+  }, [categoryFilter]);
+
+  useEffect(() => {
+    fetchExperiments();
+  }, [fetchExperiments]);
+
+  useEffect(() => {
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+  }, []);
+
+  const loadResults = async (experimentId: string) => {
+    try {
+      setResultsLoading(true);
+      const response = await promptExperimentAPI.getExperiment(experimentId);
+      setSelected(response.data?.experiment || null);
+      setResults(response.data?.results || null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load experiment results'));
+    } finally {
+      setResultsLoading(false);
+    }
+  };
+
+  const refreshAll = () => {
+    fetchExperiments();
+    if (selected) loadResults(selected._id);
+  };
+
+  const openForm = () => {
+    setFormError(null);
+    setForm(emptyExperimentForm);
+  };
+
+  // The control starts with the current category prompt
+  const handleFormCategory = (categoryId: string) => {
+    if (!form) return;
+    const category = categories.find(item => item._id === categoryId);
+    const variants = [...form.variants];
+    if (!variants[0].promptText && category) {
+      variants[0] = { ...variants[0], promptText: category.singlePrompt || category.prompt || '' };
+    }
+    setForm({ ...form, category: categoryId, variants });
+  };
+
+  const updateVariant = (index: number, changes: Partial<PromptExperimentVariant>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      variants: form.variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant))
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim() || !form.category) {
+      setFormError('An experiment needs a name and a category');
+      return;
+    }
+
+    if (form.variants.some(variant => !variant.name.trim() || !variant.promptText.trim())) {
+      setFormError('Every variant needs a name and prompt text');
+      return;
+    }
+
+    try {
+      await promptExperimentAPI.createExperiment({
+        name: form.name,
+        description: form.description,
+        category: form.category,
+        confidenceLevel: form.confidenceLevel,
+        variants: form.variants
+      });
+      setForm(null);
+      fetchExperiments();
+    } catch (err) {
+      setFormError(errorMessage(err, 'Failed to create experiment'));
+    }
+  };
+
+  const runAction = async (action: () => Promise<unknown>, message: string, fallback: string) => {
+    try {
+      await action();
+      setSuccess(message);
+      refreshAll();
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+    }
+  };
+
+  const handleDelete = async (experiment: PromptExperiment) => {
+    if (!window.confirm(`Delete the experiment "${experiment.name}"?`)) return;
+
+    await runAction(() => promptExperimentAPI.deleteExperiment(experiment._id), 'Experiment deleted', 'Failed to delete experiment');
+    if (selected?._id === experiment._id) {
+      setSelected(null);
+      setResults(null);
+    }
+  };
+
+  const handlePromote = async (variantId: string, variantName: string) => {
+    if (!selected) return;
+    if (!window.confirm(`Make "${variantName}" the default prompt of ${experimentCategoryName(selected)} and complete the experiment?`)) return;
+
+    await runAction(
+      () => promptExperimentAPI.promoteVariant(selected._id, variantId),
+      `"${variantName}" is now the category prompt`,
+      'Failed to promote variant'
+    );
+  };
+
+  const recommended = results?.variants.find(variant => variant._id === results.recommendedVariant);
+  const canPromote = selected && ['running', 'stopped'].includes(selected.status);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          Prompt Experiments
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Category</InputLabel>
+            <Select
+              label="Category"
+              value={categoryFilter}
+              onChange={(e) => setCategoryFilter(e.target.value)}
+            >
+              <MenuItem value="">All categories</MenuItem>
+              {categories.map(category => (
+                <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <IconButton onClick={refreshAll} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={openForm}>
+            New Experiment
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12 }}>
+          <Paper>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Variants</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Started</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {loading && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        <CircularProgress size={24} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {!loading && experiments.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        No experiments yet. Categories use their default prompt.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {!loading && experiments.map(experiment => (
+                    <TableRow
+                      key={experiment._id}
+                      hover
+                      selected={selected?._id === experiment._id}
+                      sx={{ cursor: 'pointer' }}
+                      onClick={() => loadResults(experiment._id)}
+                    >
+                      <TableCell>{experiment.name}</TableCell>
+                      <TableCell>{experimentCategoryName(experiment)}</TableCell>
+                      <TableCell>{experiment.variants.map(variant => variant.name).join(', ')}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={experiment.status} color={statusColors[experiment.status]} />
+                      </TableCell>
+                      <TableCell>{experiment.startedAt ? new Date(experiment.startedAt).toLocaleDateString() : '-'}</TableCell>
+                      <TableCell align="right" onClick={(e) => e.stopPropagation()}>
+                        {experiment.status === 'draft' && (
+                          <>
+                            <Tooltip title="Start">
+                              <IconButton
+                                size="small"
+                                color="success"
+                                onClick={() => runAction(() => promptExperimentAPI.startExperiment(experiment._id), `"${experiment.name}" is running`, 'Failed to start experiment')}
+                              >
+                                <StartIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Delete">
+                              <IconButton size="small" color="error" onClick={() => handleDelete(experiment)}>
+                                <DeleteIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </>
+                        )}
+                        {experiment.status === 'running' && (
+                          <Tooltip title="Stop">
+                            <IconButton
+                              size="small"
+                              color="warning"
+                              onClick={() => runAction(() => promptExperimentAPI.stopExperiment(experiment._id), `"${experiment.name}" stopped`, 'Failed to stop experiment')}
+                            >
+                              <StopIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </Grid>
+
+        {selected && (
+          <Grid size={{ xs: 12 }}>
+            <Card>
+              <CardHeader
+                title={`Results: ${selected.name}`}
+                subheader={`${experimentCategoryName(selected)} - ${Math.round(selected.confidenceLevel * 100)}% confidence required`}
+              />
+              <Divider />
+              <CardContent>
+                {resultsLoading || !results ? (
+                  <Box display="flex" justifyContent="center" p={3}>
+                    <CircularProgress />
+                  </Box>
+                ) : (
+                  <>
+                    {recommended ? (
+                      <Alert severity="success" sx={{ mb: 2 }}>
+                        "{recommended.name}" beats the control with a like rate of {formatPercent(recommended.likeRate)}
+                        {' '}({formatPercent(recommended.upliftVsControl)} uplift, p = {recommended.pValue}).
+                      </Alert>
+                    ) : (
+                      <Alert severity="info" sx={{ mb: 2 }}>
+                        No variant is significantly better than the control yet.
+                      </Alert>
+                    )}
+                    <TableContainer>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Variant</TableCell>
+                            <TableCell align="right">Weight</TableCell>
+                            <TableCell align="right">Items</TableCell>
+                            <TableCell align="right">Likes</TableCell>
+                            <TableCell align="right">Dislikes</TableCell>
+                            <TableCell align="right">Maybe</TableCell>
+                            <TableCell align="right">Like rate</TableCell>
+                            <TableCell align="right">Uplift</TableCell>
+                            <TableCell align="right">p-value</TableCell>
+                            <TableCell>Significance</TableCell>
+                            <TableCell align="right">Actions</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {results.variants.map(variant => (
+                            <TableRow key={variant._id} selected={variant._id === results.recommendedVariant}>
+                              <TableCell>
+                                {variant.name}
+                                {variant.isControl && <Chip size="small" label="Control" sx={{ ml: 1 }} />}
+                                {selected.winner === variant._id && <Chip size="small" color="info" label="Promoted" sx={{ ml: 1 }} />}
+                              </TableCell>
+                              <TableCell align="right">{variant.weight}</TableCell>
+                              <TableCell align="right">{variant.items}</TableCell>
+                              <TableCell align="right">{variant.likes}</TableCell>
+                              <TableCell align="right">{variant.dislikes}</TableCell>
+                              <TableCell align="right">{variant.maybes}</TableCell>
+                              <TableCell align="right">{formatPercent(variant.likeRate)}</TableCell>
+                              <TableCell align="right">{variant.isControl ? '-' : formatPercent(variant.upliftVsControl)}</TableCell>
+                              <TableCell align="right">{variant.pValue === null ? '-' : variant.pValue}</TableCell>
+                              <TableCell>
+                                {!variant.isControl && (
+                                  <Chip
+                                    size="small"
+                                    label={variant.significant ? 'Significant' : 'Not significant'}
+                                    color={variant.significant ? 'success' : 'default'}
+                                  />
+                                )}
+                              </TableCell>
+                              <TableCell align="right">
+                                {canPromote && (
+                                  <Button
+                                    size="small"
+                                    startIcon={<PromoteIcon />}
+                                    onClick={() => handlePromote(variant._id, variant.name)}
+                                  >
+                                    Promote
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </TableContainer>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </Grid>
+        )}
+      </Grid>
+
+      <Dialog open={!!form} onClose={() => setForm(null)} fullWidth maxWidth="md">
+        <DialogTitle>New Experiment</DialogTitle>
+        {form && (
+          <DialogContent>
+            {formError && (
+              <Alert severity="error" sx={{ mb: 2 }}>{formError}</Alert>
+            )}
+            <TextField
+              label="Name"
+              fullWidth
+              margin="dense"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <TextField
+              label="Description"
+              fullWidth
+              margin="dense"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <FormControl fullWidth margin="dense">
+                <InputLabel>Category</InputLabel>
+                <Select
+                  label="Category"
+                  value={form.category}
+                  onChange={(e) => handleFormCategory(e.target.value)}
+                >
+                  {categories.map(category => (
+                    <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl fullWidth margin="dense">
+                <InputLabel>Confidence</InputLabel>
+                <Select
+                  label="Confidence"
+                  value={form.confidenceLevel}
+                  onChange={(e) => setForm({ ...form, confidenceLevel: Number(e.target.value) })}
+                >
+                  <MenuItem value={0.9}>90%</MenuItem>
+                  <MenuItem value={0.95}>95%</MenuItem>
+                  <MenuItem value={0.99}>99%</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+
+            {form.variants.map((variant, index) => (
+              <Paper key={index} variant="outlined" sx={{ p: 2, mt: 2 }}>
+                <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                  <TextField
+                    label={index === 0 ? 'Control name' : 'Variant name'}
+                    size="small"
+                    value={variant.name}
+                    onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  />
+                  <TextField
+                    label="Traffic weight"
+                    type="number"
+                    size="small"
+                    sx={{ width: 140 }}
+                    value={variant.weight}
+                    onChange={(e) => updateVariant(index, { weight: Math.max(0, Number(e.target.value)) })}
+                  />
+                  <Box flexGrow={1} />
+                  {form.variants.length > 2 && (
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => setForm({ ...form, variants: form.variants.filter((_, i) => i !== index) })}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  )}
+                </Box>
+                <TextField
+                  label="Prompt"
+                  fullWidth
+                  multiline
+                  minRows={4}
+                  margin="dense"
+                  value={variant.promptText}
+                  onChange={(e) => updateVariant(index, { promptText: e.target.value })}
+                  helperText={index === 0 ? 'The control is compared against every other variant' : undefined}
+                />
+              </Paper>
+            ))}
+            <Button
+              startIcon={<AddIcon />}
+              sx={{ mt: 2 }}
+              onClick={() => setForm({
+                ...form,
+                variants: [...form.variants, emptyVariant(`Variant ${String.fromCharCode(65 + form.variants.length)}`)]
+              })}
+            >
+              Add Variant
+            </Button>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave}>Create</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PromptExperiments;
@@ -1,34 +1,657 @@
-import React, { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Box, Typography, CircularProgress } from '@mui/material';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  ContentCopy as CloneIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  FileDownload as ImportIcon,
+  PlayArrow as TestRunIcon,
+  Refresh as RefreshIcon,
+  Visibility as PreviewIcon
+} from '@mui/icons-material';
+import PromptEditor from '../components/PromptEditor';
+import { categoryAPI, promptAPI } from '../services/api';
+import type { Category, PromptPreview, PromptTemplate, PromptTestRun } from '../types';
 
+const CONTENT_TYPES: PromptTemplate['contentType'][] = ['hack', 'hack2', 'tip', 'tip2', 'quote', 'trend'];
+
+interface TemplateForm {
+  _id?: string;
+  name: string;
+  category: string;
+  contentType: PromptTemplate['contentType'];
+  description: string;
+  promptText: string;
+  isActive: boolean;
+  changeNote: string;
+}
+
+const emptyTemplateForm: TemplateForm = {
+  name: '',
+  category: '',
+  contentType: 'hack',
+  description: '',
+  promptText: '',
+  isActive: true,
+  changeNote: ''
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const templateCategoryId = (template: PromptTemplate) =>
+  template.category && typeof template.category === 'object' ? (template.category._id || '') : (template.category || '');
+
+const templateCategoryName = (template: PromptTemplate) =>
+  template.category && typeof template.category === 'object' ? template.category.name : template.categoryName;
+
+interface PromptTryPanelProps {
+  category: string;
+  contentType: string;
+  promptText: string;
+}
+
+/**
+ * Renders a prompt for its category and optionally generates a sample with it.
+ * Nothing is saved, but test runs call the model and show up in AI usage.
+ */
+const PromptTryPanel: React.FC<PromptTryPanelProps> = ({ category, contentType, promptText }) => {
+  const [difficulty, setDifficulty] = useState('beginner');
+  const [count, setCount] = useState(1);
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [testRun, setTestRun] = useState<PromptTestRun | null>(null);
+  const [running, setRunning] = useState<'preview' | 'test' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const disabled = !category || !promptText.trim() || running !== null;
+
+  const handlePreview = async () => {
+    try {
+      setRunning('preview');
+      setError(null);
+      setTestRun(null);
+      const response = await promptAPI.previewPrompt({ category, promptText, contentType, count, difficulty });
+      setPreview(response.data || null);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to preview prompt'));
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const handleTestRun = async () => {
+    try {
+      setRunning('test');
+      setError(null);
+      const response = await promptAPI.testRunPrompt({ category, promptText, contentType, count, difficulty });
+      setTestRun(response.data || null);
+      setPreview(null);
+    } catch (err) {
+      setError(errorMessage(err, 'Test run failed'));
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Difficulty</InputLabel>
+          <Select label="Difficulty" value={difficulty} onChange={(e) => setDifficulty(e.target.value)}>
+            <MenuItem value="beginner">Beginner</MenuItem>
+            <MenuItem value="intermediate">Intermediate</MenuItem>
+            <MenuItem value="advanced">Advanced</MenuItem>
+          </Select>
+        </FormControl>
+        <TextField
+          label="Items"
+          type="number"
+          size="small"
+          sx={{ width: 100 }}
+          value={count}
+          onChange={(e) => setCount(Math.min(Math.max(Number(e.target.value) || 1, 1), 5))}
+        />
+        <Button
+          startIcon={running === 'preview' ? <CircularProgress size={16} /> : <PreviewIcon />}
+          disabled={disabled}
+          onClick={handlePreview}
+        >
+          Preview
+        </Button>
+        <Button
+          variant="outlined"
+          startIcon={running === 'test' ? <CircularProgress size={16} /> : <TestRunIcon />}
+          disabled={disabled}
+          onClick={handleTestRun}
+        >
+          Test Run
+        </Button>
+      </Box>
+      {!category && (
+        <Typography variant="caption" color="text.secondary">Select a category to preview the prompt.</Typography>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>{error}</Alert>
+      )}
+
+      {preview && (
+        <Box sx={{ mt: 2 }}>
+          {preview.unknownVariables.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              Unknown variables are sent as written: {preview.unknownVariables.map(name => `{${name}}`).join(', ')}
+            </Alert>
+          )}
+          {preview.missingPartials.length > 0 && (
+            <Alert severity="warning" sx={{ mb: 1 }}>
+              Missing partials are left out: {preview.missingPartials.join(', ')}
+            </Alert>
+          )}
+          <Paper variant="outlined" sx={{ p: 2, whiteSpace: 'pre-wrap', fontFamily: 'monospace', fontSize: 13, maxHeight: 320, overflow: 'auto' }}>
+            {preview.prompt}
+          </Paper>
+        </Box>
+      )}
+
+      {testRun && (
+        <Box sx={{ mt: 2 }}>
+          <Typography variant="subtitle2" gutterBottom>
+            Sample output (not saved)
+          </Typography>
+          {testRun.items.map((item, index) => (
+            <Card key={index} variant="outlined" sx={{ mb: 1 }}>
+              <CardContent>
+                <Typography variant="subtitle1" fontWeight="bold">{item.title}</Typography>
+                {item.summary && (
+                  <Typography variant="body2" color="text.secondary" gutterBottom>{item.summary}</Typography>
+                )}
+                <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{item.body}</Typography>
+                {item.tags && item.tags.length > 0 && (
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 1 }}>
+                    {item.tags.map(tag => <Chip key={tag} size="small" label={tag} />)}
+                  </Box>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * Prompt library page
+ * - Browse prompt templates by category and content type
+ * - Edit with variable highlighting, preview and test runs
+ * - Activate, deactivate and clone templates to other categories
+ */
 const Prompts: React.FC = () => {
-  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [partials, setPartials] = useState<string[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [contentTypeFilter, setContentTypeFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [cloneSource, setCloneSource] = useState<PromptTemplate | null>(null);
+  const [cloneCategory, setCloneCategory] = useState('');
+  const [testTemplate, setTestTemplate] = useState<PromptTemplate | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await promptAPI.getAllPromptTemplates(categoryFilter || undefined, contentTypeFilter || undefined);
+      setTemplates(response.data?.templates || []);
+    } catch (err) {
+      console.error('Error fetching prompt templates:', err);
+      setError(errorMessage(err, 'Failed to load prompt templates'));
+    } finally {
+      setLoading(false);
+    }
+  }, [categoryFilter, contentTypeFilter]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
 
   useEffect(() => {
-    // Add a small delay before redirecting
-    const timer = setTimeout(() => {
-      navigate('/categories', { 
-        state: { 
-          message: 'Prompts are now managed within each category. Please edit category settings to manage prompts.'
-        } 
-      });
-    }, 1000);
-    
-    return () => clearTimeout(timer);
-  }, [navigate]);
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+
+    promptAPI.getPartials()
+      .then(response => {
+        const stored = response.data?.partials.map(partial => partial.name) || [];
+        setPartials([...new Set([...(response.data?.builtIn || []), ...stored])]);
+      })
+      .catch(err => console.error('Error fetching prompt partials:', err));
+  }, []);
+
+  const openForm = (template?: PromptTemplate) => {
+    setFormError(null);
+    if (!template) {
+      setForm({ ...emptyTemplateForm, category: categoryFilter });
+      return;
+    }
+
+    setForm({
+      _id: template._id,
+      name: template.name,
+      category: templateCategoryId(template),
+      contentType: template.contentType,
+      description: template.description || '',
+      promptText: template.promptText,
+      isActive: template.isActive,
+      changeNote: ''
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim() || !form.category || !form.promptText.trim()) {
+      setFormError('A prompt needs a name, a category and prompt text');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (form._id) {
+        await promptAPI.updatePromptTemplate(form._id, {
+          name: form.name,
+          contentType: form.contentType,
+          description: form.description,
+          promptText: form.promptText,
+          isActive: form.isActive,
+          changeNote: form.changeNote || undefined
+        });
+      } else {
+        await promptAPI.createPromptTemplate({
+          name: form.name,
+          category: form.category,
+          contentType: form.contentType,
+          description: form.description,
+          promptText: form.promptText,
+          isActive: form.isActive
+        });
+      }
+
+      setForm(null);
+      setSuccess(`Saved "${form.name}"`);
+      fetchTemplates();
+    } catch (err) {
+      setFormError(errorMessage(err, 'Failed to save prompt'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: PromptTemplate) => {
+    try {
+      await promptAPI.updatePromptTemplate(template._id, { isActive: !template.isActive });
+      fetchTemplates();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update prompt'));
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!window.confirm(`Delete the prompt "${template.name}"?`)) return;
+
+    try {
+      await promptAPI.deletePromptTemplate(template._id);
+      fetchTemplates();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete prompt'));
+    }
+  };
+
+  const handleClone = async () => {
+    if (!cloneSource || !cloneCategory) return;
+
+    try {
+      const response = await promptAPI.clonePromptTemplate(cloneSource._id, cloneCategory);
+      setSuccess(`Cloned to "${response.data?.template.name || 'new prompt'}"`);
+      setCloneSource(null);
+      fetchTemplates();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to clone prompt'));
+      setCloneSource(null);
+    }
+  };
+
+  const handleImportDefaults = async () => {
+    if (!window.confirm('Import the prompt templates from defaultprompts.txt?')) return;
+
+    try {
+      setLoading(true);
+      const response = await promptAPI.importDefaultTemplates();
+      setSuccess(`Imported ${response.data?.count || 0} prompt templates`);
+      fetchTemplates();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to import default prompts'));
+      setLoading(false);
+    }
+  };
+
+  const searchTerm = search.trim().toLowerCase();
+  const visibleTemplates = searchTerm
+    ? templates.filter(template =>
+      template.name.toLowerCase().includes(searchTerm) || template.promptText.toLowerCase().includes(searchTerm))
+    : templates;
 
   return (
-    <Box display="flex" flexDirection="column" justifyContent="center" alignItems="center" height="50vh">
-      <CircularProgress sx={{ mb: 3 }} />
-      <Typography variant="h6">
-        Prompts are now managed within each category.
-      </Typography>
-      <Typography variant="body1">
-        Redirecting to the Categories page...
-      </Typography>
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          Prompt Library
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <IconButton onClick={fetchTemplates} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+          <Button startIcon={<ImportIcon />} onClick={handleImportDefaults} disabled={loading}>
+            Import Defaults
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openForm()}>
+            New Prompt
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Category</InputLabel>
+              <Select label="Category" value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)}>
+                <MenuItem value="">All categories</MenuItem>
+                {categories.map(category => (
+                  <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Content type</InputLabel>
+              <Select label="Content type" value={contentTypeFilter} onChange={(e) => setContentTypeFilter(e.target.value)}>
+                <MenuItem value="">All types</MenuItem>
+                {CONTENT_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>{type}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <TextField
+              label="Search"
+              size="small"
+              fullWidth
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </Grid>
+        </Grid>
+      </Paper>
+
+      <Paper>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Category</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Active</TableCell>
+                <TableCell>Updated</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    <CircularProgress size={24} />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && visibleTemplates.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">
+                    No prompt templates match the filters.
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && visibleTemplates.map(template => (
+                <TableRow key={template._id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="medium">{template.name}</Typography>
+                    {template.description && (
+                      <Typography variant="caption" color="text.secondary">{template.description}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{templateCategoryName(template)}</TableCell>
+                  <TableCell>
+                    <Chip size="small" label={template.contentType} />
+                  </TableCell>
+                  <TableCell>
+                    <Switch size="small" checked={template.isActive} onChange={() => handleToggleActive(template)} />
+                  </TableCell>
+                  <TableCell>{new Date(template.updatedAt).toLocaleDateString()}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openForm(template)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Test run">
+                      <IconButton size="small" color="primary" onClick={() => setTestTemplate(template)}>
+                        <TestRunIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Clone to another category">
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setCloneCategory('');
+                          setCloneSource(template);
+                        }}
+                      >
+                        <CloneIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => handleDelete(template)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Paper>
+
+      <Dialog open={!!form} onClose={() => setForm(null)} fullWidth maxWidth="lg">
+        <DialogTitle>{form?._id ? 'Edit Prompt' : 'New Prompt'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            {formError && (
+              <Alert severity="error" sx={{ mb: 2 }}>{formError}</Alert>
+            )}
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid size={{ xs: 12, md: 4 }}>
+                <TextField
+                  label="Name"
+                  fullWidth
+                  size="small"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, md: 4 }}>
+                <FormControl fullWidth size="small" disabled={!!form._id}>
+                  <InputLabel>Category</InputLabel>
+                  <Select label="Category" value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })}>
+                    {categories.map(category => (
+                      <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12, md: 4 }}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Content type</InputLabel>
+                  <Select
+                    label="Content type"
+                    value={form.contentType}
+                    onChange={(e) => setForm({ ...form, contentType: e.target.value as PromptTemplate['contentType'] })}
+                  >
+                    {CONTENT_TYPES.map(type => (
+                      <MenuItem key={type} value={type}>{type}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid size={{ xs: 12 }}>
+                <TextField
+                  label="Description"
+                  fullWidth
+                  size="small"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </Grid>
+              <Grid size={{ xs: 12 }}>
+                <PromptEditor
+                  label="Prompt"
+                  value={form.promptText}
+                  onChange={(promptText) => setForm({ ...form, promptText })}
+                  partials={partials}
+                />
+              </Grid>
+              {form._id && (
+                <Grid size={{ xs: 12, md: 8 }}>
+                  <TextField
+                    label="Change note"
+                    fullWidth
+                    size="small"
+                    value={form.changeNote}
+                    onChange={(e) => setForm({ ...form, changeNote: e.target.value })}
+                    helperText="Stored with the new prompt version"
+                  />
+                </Grid>
+              )}
+              <Grid size={{ xs: 12, md: 4 }} sx={{ display: 'flex', alignItems: 'center' }}>
+                <Switch checked={form.isActive} onChange={(e) => setForm({ ...form, isActive: e.target.checked })} />
+                <Typography variant="body2">{form.isActive ? 'Active' : 'Inactive'}</Typography>
+              </Grid>
+              <Grid size={{ xs: 12 }}>
+                <PromptTryPanel category={form.category} contentType={form.contentType} promptText={form.promptText} />
+              </Grid>
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!testTemplate} onClose={() => setTestTemplate(null)} fullWidth maxWidth="md">
+        <DialogTitle>Test Run: {testTemplate?.name}</DialogTitle>
+        {testTemplate && (
+          <DialogContent>
+            <PromptEditor value={testTemplate.promptText} onChange={() => undefined} readOnly minRows={6} />
+            <Box sx={{ mt: 2 }}>
+              <PromptTryPanel
+                category={templateCategoryId(testTemplate)}
+                contentType={testTemplate.contentType}
+                promptText={testTemplate.promptText}
+              />
+            </Box>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setTestTemplate(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={!!cloneSource} onClose={() => setCloneSource(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Clone "{cloneSource?.name}"</DialogTitle>
+        <DialogContent>
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Target category</InputLabel>
+            <Select label="Target category" value={cloneCategory} onChange={(e) => setCloneCategory(e.target.value)}>
+              {categories
+                .filter(category => !cloneSource || category._id !== templateCategoryId(cloneSource))
+                .map(category => (
+                  <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCloneSource(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleClone} disabled={!cloneCategory}>Clone</Button>
+        </DialogActions>
+      </Dialog>
     </Box>
   );
 };
 
-export default Prompts; 
\ No newline at end of file
+export default Prompts;
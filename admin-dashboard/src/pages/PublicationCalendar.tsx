@@ -0,0 +1,329 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { categoryAPI, contentAPI } from '../services/api';
+import type { Category, ScheduledContent } from '../types';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const DEFAULT_COLOR = '#757575';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Days shown for a month, whole weeks from Monday to Sunday
+const getMonthDays = (month: Date) => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = addDays(first, -((first.getDay() + 6) % 7));
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const end = addDays(last, 6 - ((last.getDay() + 6) % 7));
+
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+// Same time of day on another date
+const moveToDay = (publishDate: string, day: Date) => {
+  const current = new Date(publishDate);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), current.getHours(), current.getMinutes());
+};
+
+const formatTime = (date: string) => new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+interface CalendarItemProps {
+  item: ScheduledContent;
+  overdue: boolean;
+  onDragStart: (item: ScheduledContent) => void;
+}
+
+const CalendarItem: React.FC<CalendarItemProps> = ({ item, overdue, onDragStart }) => {
+  const color = item.category?.color || DEFAULT_COLOR;
+
+  return (
+    <Tooltip
+      title={
+        <Box>
+          <Typography variant="body2" fontWeight="bold">{item.title}</Typography>
+          <Typography variant="caption" display="block">
+            {item.category?.name || 'No category'} · {item.contentType} · {item.difficulty}
+          </Typography>
+          <Typography variant="caption" display="block">
+            Publishes {new Date(item.publishDate).toLocaleString()}
+            {item.expiryDate && `, expires ${new Date(item.expiryDate).toLocaleString()}`}
+          </Typography>
+          {overdue && (
+            <Typography variant="caption" display="block">
+              Overdue: the worker leaves items with lint errors scheduled until they are fixed
+            </Typography>
+          )}
+        </Box>
+      }
+    >
+      <Box
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          onDragStart(item);
+        }}
+        sx={{
+          mb: 0.5,
+          px: 0.75,
+          py: 0.25,
+          borderRadius: 1,
+          borderLeft: `4px solid ${color}`,
+          bgcolor: overdue ? 'warning.light' : 'action.hover',
+          cursor: 'grab',
+          overflow: 'hidden',
+          whiteSpace: 'nowrap',
+          textOverflow: 'ellipsis'
+        }}
+      >
+        <Typography variant="caption">
+          <strong>{formatTime(item.publishDate)}</strong> {item.title}
+        </Typography>
+      </Box>
+    </Tooltip>
+  );
+};
+
+/**
+ * Publication calendar
+ * - Scheduled content per day, colored by category
+ * - Drag an item to another day to reschedule it at the same time of day
+ */
+const PublicationCalendar: React.FC = () => {
+  const [month, setMonth] = useState(() => new Date(new Date().getFullYear(), new Date().getMonth(), 1));
+  const [category, setCategory] = useState('');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [items, setItems] = useState<ScheduledContent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [dragged, setDragged] = useState<ScheduledContent | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = useMemo(() => getMonthDays(month), [month]);
+  const today = startOfDay(new Date());
+
+  const fetchItems = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await contentAPI.getScheduledContent({
+        from: days[0].toISOString(),
+        to: addDays(days[days.length - 1], 1).toISOString(),
+        category: category || undefined
+      });
+      setItems(response.data?.content || []);
+    } catch (err) {
+      console.error('Error fetching scheduled content:', err);
+      setError(errorMessage(err, 'Failed to load scheduled content'));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, category]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  useEffect(() => {
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+  }, []);
+
+  const itemsByDay = useMemo(() => items.reduce<Record<string, ScheduledContent[]>>((groups, item) => {
+    const key = dayKey(new Date(item.publishDate));
+    return { ...groups, [key]: [...(groups[key] || []), item] };
+  }, {}), [items]);
+
+  // Scheduled items this month per category
+  const perCategory = useMemo(() => {
+    const counts = new Map<string, { name: string; color: string; count: number }>();
+    items
+      .filter(item => new Date(item.publishDate).getMonth() === month.getMonth())
+      .forEach(item => {
+        const key = item.category?._id || 'none';
+        const entry = counts.get(key) || { name: item.category?.name || 'No category', color: item.category?.color || DEFAULT_COLOR, count: 0 };
+        counts.set(key, { ...entry, count: entry.count + 1 });
+      });
+    return [...counts.values()];
+  }, [items, month]);
+
+  const handleDrop = async (day: Date) => {
+    setDropTarget(null);
+    if (!dragged) return;
+    const item = dragged;
+    setDragged(null);
+
+    const publishDate = moveToDay(item.publishDate, day);
+    if (dayKey(publishDate) === dayKey(new Date(item.publishDate))) return;
+    if (publishDate < new Date()) {
+      setError('Content can only be rescheduled to a time that is still ahead');
+      return;
+    }
+
+    // Moved right away, put back if the API refuses
+    setItems(prev => prev.map(entry => (entry._id === item._id ? { ...entry, publishDate: publishDate.toISOString() } : entry)));
+    try {
+      setError(null);
+      await contentAPI.scheduleContent(item._id, publishDate.toISOString());
+      setSuccess(`"${item.title}" now publishes ${publishDate.toLocaleString()}`);
+    } catch (err) {
+      setItems(prev => prev.map(entry => (entry._id === item._id ? item : entry)));
+      setError(errorMessage(err, `Failed to reschedule "${item.title}"`));
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Publication Calendar</Typography>
+        <IconButton onClick={fetchItems}>
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <IconButton onClick={() => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() - 1, 1))}>
+            <ChevronLeftIcon />
+          </IconButton>
+          <Typography variant="h6" sx={{ minWidth: 180, textAlign: 'center' }}>
+            {month.toLocaleDateString([], { month: 'long', year: 'numeric' })}
+          </Typography>
+          <IconButton onClick={() => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + 1, 1))}>
+            <ChevronRightIcon />
+          </IconButton>
+          <Button size="small" onClick={() => setMonth(new Date(today.getFullYear(), today.getMonth(), 1))}>
+            Today
+          </Button>
+        </Box>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Category</InputLabel>
+          <Select label="Category" value={category} onChange={(e) => setCategory(e.target.value)}>
+            <MenuItem value="">All categories</MenuItem>
+            {categories.map(entry => (
+              <MenuItem key={entry._id} value={entry._id}>{entry.name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {loading && <CircularProgress size={24} />}
+      </Box>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        {perCategory.length === 0 && !loading && (
+          <Typography variant="body2" color="text.secondary">Nothing scheduled this month</Typography>
+        )}
+        {perCategory.map(entry => (
+          <Chip
+            key={entry.name}
+            size="small"
+            label={`${entry.name}: ${entry.count}`}
+            sx={{ borderLeft: `4px solid ${entry.color}` }}
+            variant="outlined"
+          />
+        ))}
+      </Box>
+
+      <Paper sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))' }}>
+        {WEEKDAYS.map(weekday => (
+          <Box key={weekday} sx={{ p: 1, borderBottom: 1, borderColor: 'divider' }}>
+            <Typography variant="subtitle2" color="text.secondary">{weekday}</Typography>
+          </Box>
+        ))}
+        {days.map(day => {
+          const key = dayKey(day);
+          const past = day < today;
+          const dayItems = itemsByDay[key] || [];
+
+          return (
+            <Box
+              key={key}
+              onDragOver={(e) => {
+                if (!dragged || past) return;
+                e.preventDefault();
+                setDropTarget(key);
+              }}
+              onDragLeave={() => setDropTarget(prev => (prev === key ? null : prev))}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(day);
+              }}
+              sx={{
+                minHeight: 110,
+                p: 0.5,
+                borderRight: 1,
+                borderBottom: 1,
+                borderColor: 'divider',
+                bgcolor: dropTarget === key ? 'action.selected' : past ? 'action.disabledBackground' : undefined,
+                opacity: day.getMonth() === month.getMonth() ? 1 : 0.6
+              }}
+            >
+              <Typography
+                variant="caption"
+                fontWeight={key === dayKey(today) ? 'bold' : undefined}
+                color={key === dayKey(today) ? 'primary' : 'text.secondary'}
+              >
+                {day.getDate()}
+              </Typography>
+              {dayItems.map(item => (
+                <CalendarItem
+                  key={item._id}
+                  item={item}
+                  overdue={new Date(item.publishDate) < new Date()}
+                  onDragStart={setDragged}
+                />
+              ))}
+            </Box>
+          );
+        })}
+      </Paper>
+
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+        Times are in your browser's time zone. The publication worker publishes scheduled content within a minute of its time
+        and archives content once its expiry date has passed.
+      </Typography>
+    </Box>
+  );
+};
+
+export default PublicationCalendar;
@@ -0,0 +1,500 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  Grid,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { categoryAPI, safetyAPI } from '../services/api';
+import type { Category, SafetyReasonSource, SafetyReport, SafetyRule, SafetyRuleInput } from '../types';
+
+interface RuleForm extends SafetyRuleInput {
+  _id?: string;
+}
+
+const emptyRuleForm: RuleForm = {
+  name: '',
+  type: 'keyword',
+  pattern: '',
+  reason: '',
+  categories: [],
+  enabled: true
+};
+
+const PERIODS = [7, 30, 90];
+
+const SOURCE_LABELS: Record<SafetyReasonSource, string> = {
+  'banned-topic': 'Banned topic',
+  keyword: 'Keyword',
+  regex: 'Regex',
+  classifier: 'Classifier'
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+/**
+ * Safety screening page
+ * - Keyword and regex rules generated content is screened against
+ * - Report of the items held back for moderation and why
+ */
+const Safety: React.FC = () => {
+  const [rules, setRules] = useState<SafetyRule[]>([]);
+  const [classifier, setClassifier] = useState<string | null>(null);
+  const [report, setReport] = useState<SafetyReport | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [periodDays, setPeriodDays] = useState(30);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await safetyAPI.getRules();
+      setRules(response.data?.rules || []);
+      setClassifier(response.data?.classifier || null);
+    } catch (err) {
+      console.error('Error fetching safety rules:', err);
+      setError(errorMessage(err, 'Failed to load safety rules'));
+    }
+  }, []);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const from = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+      const response = await safetyAPI.getReport({ from, category: categoryFilter || undefined });
+      setReport(response.data || null);
+    } catch (err) {
+      console.error('Error fetching safety report:', err);
+      setError(errorMessage(err, 'Failed to load safety report'));
+    } finally {
+      setLoading(false);
+    }
+  }, [periodDays, categoryFilter]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  useEffect(() => {
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+  }, []);
+
+  const openRuleForm = (rule?: SafetyRule) => {
+    setFormError(null);
+    setRuleForm(rule ? {
+      _id: rule._id,
+      name: rule.name,
+      type: rule.type,
+      pattern: rule.pattern,
+      reason: rule.reason,
+      categories: rule.categories.map(category => category._id || ''),
+      enabled: rule.enabled
+    } : { ...emptyRuleForm });
+  };
+
+  const handleSaveRule = async () => {
+    if (!ruleForm) return;
+
+    if (!ruleForm.name.trim() || !ruleForm.pattern.trim()) {
+      setFormError('A rule needs a name and a pattern');
+      return;
+    }
+
+    const { _id, ...data } = ruleForm;
+    try {
+      setWorking(true);
+      if (_id) {
+        await safetyAPI.updateRule(_id, data);
+      } else {
+        await safetyAPI.createRule(data);
+      }
+      setRuleForm(null);
+      await fetchRules();
+    } catch (err) {
+      setFormError(errorMessage(err, 'Failed to save rule'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: SafetyRule) => {
+    try {
+      const response = await safetyAPI.updateRule(rule._id, { enabled: !rule.enabled });
+      const updated = response.data?.rule;
+      if (updated) {
+        setRules(current => current.map(entry => (entry._id === updated._id ? updated : entry)));
+      }
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to update rule'));
+    }
+  };
+
+  const handleDeleteRule = async (rule: SafetyRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    try {
+      await safetyAPI.deleteRule(rule._id);
+      setRules(current => current.filter(entry => entry._id !== rule._id));
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to delete rule'));
+    }
+  };
+
+  const categoriesWithBannedTopics = categories.filter(category => (category.bannedTopics || []).length > 0);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          Safety Screening
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Period</InputLabel>
+            <Select label="Period" value={periodDays} onChange={(e) => setPeriodDays(Number(e.target.value))}>
+              {PERIODS.map(days => (
+                <MenuItem key={days} value={days}>Last {days} days</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Category</InputLabel>
+            <Select label="Category" value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value)}>
+              <MenuItem value="">All categories</MenuItem>
+              {categories.map(category => (
+                <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <IconButton onClick={() => { fetchRules(); fetchReport(); }} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Alert severity="info" sx={{ mb: 3 }}>
+        Generated content is screened for the banned topics of its category, the rules below
+        and {classifier ? `the "${classifier}" classifier` : 'no classifier (set SAFETY_CLASSIFIER on the server to add one)'}.
+        Flagged items are saved as pending with the reasons in their moderation notes.
+      </Alert>
+
+      {loading && !report ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="30vh">
+          <CircularProgress />
+        </Box>
+      ) : report && (
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card sx={{ height: '100%' }}>
+              <CardContent>
+                <Typography color="text.secondary" gutterBottom>Held for review</Typography>
+                <Typography variant="h3">{report.total}</Typography>
+                <Box sx={{ mt: 2, display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                  {report.bySource.map(entry => (
+                    <Chip key={entry.source} size="small" label={`${SOURCE_LABELS[entry.source]}: ${entry.count}`} />
+                  ))}
+                </Box>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card sx={{ height: '100%' }}>
+              <CardHeader title="By reason" titleTypographyProps={{ variant: 'subtitle1' }} />
+              <Divider />
+              <Table size="small">
+                <TableBody>
+                  {report.byRule.length === 0 && (
+                    <TableRow><TableCell>Nothing flagged</TableCell></TableRow>
+                  )}
+                  {report.byRule.slice(0, 10).map(entry => (
+                    <TableRow key={`${entry.source}-${entry.rule}`}>
+                      <TableCell>{entry.rule}</TableCell>
+                      <TableCell>{SOURCE_LABELS[entry.source]}</TableCell>
+                      <TableCell align="right">{entry.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Card sx={{ height: '100%' }}>
+              <CardHeader title="By category" titleTypographyProps={{ variant: 'subtitle1' }} />
+              <Divider />
+              <Table size="small">
+                <TableBody>
+                  {report.byCategory.length === 0 && (
+                    <TableRow><TableCell>Nothing flagged</TableCell></TableRow>
+                  )}
+                  {report.byCategory.map(entry => (
+                    <TableRow key={entry.categoryId || 'none'}>
+                      <TableCell>{entry.categoryName}</TableCell>
+                      <TableCell align="right">{entry.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          </Grid>
+          <Grid size={{ xs: 12 }}>
+            <Card>
+              <CardHeader title="Recently held" subheader="Approve or reject these items on the Content page" />
+              <Divider />
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>When</TableCell>
+                      <TableCell>Title</TableCell>
+                      <TableCell>Category</TableCell>
+                      <TableCell>Reasons</TableCell>
+                      <TableCell>Status now</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.items.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} align="center">Nothing was held back in this period.</TableCell>
+                      </TableRow>
+                    )}
+                    {report.items.map(item => (
+                      <TableRow key={item._id}>
+                        <TableCell>{new Date(item.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {item.title}
+                          {item.operation === 'rewrite' && <Chip size="small" label="rewrite" sx={{ ml: 1 }} />}
+                        </TableCell>
+                        <TableCell>{item.category?.name || 'Unknown'}</TableCell>
+                        <TableCell>
+                          {item.reasons.map((reason, index) => (
+                            <Tooltip key={index} title={reason.match || ''}>
+                              <Chip
+                                size="small"
+                                color={reason.source === 'classifier' ? 'secondary' : 'warning'}
+                                label={`${SOURCE_LABELS[reason.source]}: ${reason.rule}`}
+                                sx={{ mr: 0.5, mb: 0.5 }}
+                              />
+                            </Tooltip>
+                          ))}
+                        </TableCell>
+                        <TableCell>{item.content ? item.content.status : 'deleted'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </Card>
+          </Grid>
+        </Grid>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardHeader
+          title="Rules"
+          subheader="Keywords match whole words and phrases, regular expressions are case-insensitive"
+          action={
+            <Button variant="contained" startIcon={<AddIcon />} onClick={() => openRuleForm()}>
+              Add Rule
+            </Button>
+          }
+        />
+        <Divider />
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Enabled</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Pattern</TableCell>
+                <TableCell>Categories</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} align="center">No rules yet.</TableCell>
+                </TableRow>
+              )}
+              {rules.map(rule => (
+                <TableRow key={rule._id}>
+                  <TableCell>
+                    <Switch size="small" checked={rule.enabled} onChange={() => handleToggleRule(rule)} />
+                  </TableCell>
+                  <TableCell>
+                    <Typography variant="body2">{rule.name}</Typography>
+                    {rule.reason && (
+                      <Typography variant="caption" color="text.secondary">{rule.reason}</Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{rule.type}</TableCell>
+                  <TableCell><code>{rule.pattern}</code></TableCell>
+                  <TableCell>
+                    {rule.categories.length === 0 ? 'All categories' : rule.categories.map(category => category.name).join(', ')}
+                  </TableCell>
+                  <TableCell align="right">
+                    <IconButton size="small" onClick={() => openRuleForm(rule)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" color="error" onClick={() => handleDeleteRule(rule)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </Card>
+
+      <Card>
+        <CardHeader title="Banned topics" subheader="Set per category on the Categories page" />
+        <Divider />
+        <CardContent>
+          {categoriesWithBannedTopics.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">No category has banned topics.</Typography>
+          ) : categoriesWithBannedTopics.map(category => (
+            <Box key={category._id} sx={{ mb: 1 }}>
+              <Typography variant="subtitle2" component="span" sx={{ mr: 1 }}>{category.name}:</Typography>
+              {(category.bannedTopics || []).map(topic => (
+                <Chip key={topic} size="small" label={topic} sx={{ mr: 0.5, mb: 0.5 }} />
+              ))}
+            </Box>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!ruleForm} onClose={() => setRuleForm(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{ruleForm?._id ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+        {ruleForm && (
+          <DialogContent>
+            {formError && (
+              <Alert severity="error" sx={{ mb: 2 }}>{formError}</Alert>
+            )}
+            <TextField
+              label="Name"
+              fullWidth
+              margin="dense"
+              value={ruleForm.name}
+              onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })}
+            />
+            <FormControl fullWidth margin="dense">
+              <InputLabel>Type</InputLabel>
+              <Select
+                label="Type"
+                value={ruleForm.type}
+                onChange={(e) => setRuleForm({ ...ruleForm, type: e.target.value as RuleForm['type'] })}
+              >
+                <MenuItem value="keyword">Keyword or phrase</MenuItem>
+                <MenuItem value="regex">Regular expression</MenuItem>
+              </Select>
+            </FormControl>
+            <TextField
+              label="Pattern"
+              fullWidth
+              margin="dense"
+              value={ruleForm.pattern}
+              onChange={(e) => setRuleForm({ ...ruleForm, pattern: e.target.value })}
+              helperText={ruleForm.type === 'regex' ? 'e.g. \\d+\\s*mg' : 'e.g. track their phone'}
+            />
+            <TextField
+              label="Reason"
+              fullWidth
+              margin="dense"
+              value={ruleForm.reason}
+              onChange={(e) => setRuleForm({ ...ruleForm, reason: e.target.value })}
+              helperText="Why matching content is risky"
+            />
+            <FormControl fullWidth margin="dense">
+              <InputLabel>Applies to</InputLabel>
+              <Select
+                multiple
+                value={ruleForm.categories}
+                onChange={(e) => setRuleForm({ ...ruleForm, categories: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value })}
+                input={<OutlinedInput label="Applies to" />}
+                displayEmpty
+                renderValue={(value) => value.length === 0
+                  ? 'All categories'
+                  : categories.filter(category => category._id && value.includes(category._id)).map(category => category.name).join(', ')}
+              >
+                {categories.map(category => (
+                  <MenuItem key={category._id} value={category._id}>
+                    <Checkbox size="small" checked={!!category._id && ruleForm.categories.includes(category._id)} />
+                    {category.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={ruleForm.enabled}
+                  onChange={(e) => setRuleForm({ ...ruleForm, enabled: e.target.checked })}
+                />
+              }
+              label="Enabled"
+            />
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setRuleForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveRule} disabled={working}>Save</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Safety;
@@ -0,0 +1,253 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CircularProgress,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Replay as ReplayIcon, Save as SaveIcon } from '@mui/icons-material';
+import { jobAPI } from '../services/api';
+import type { JobSettings, ScheduledJob } from '../types';
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+// Fields are edited as text, parameters are sent as numbers
+interface JobForm {
+  schedule: string;
+  timezone: string;
+  params: Record<string, string>;
+}
+
+const toForm = (job: ScheduledJob): JobForm => ({
+  schedule: job.schedule,
+  timezone: job.timezone || '',
+  params: Object.fromEntries(Object.entries(job.params).map(([name, value]) => [name, String(value)]))
+});
+
+interface JobScheduleRowProps {
+  job: ScheduledJob;
+  onSave: (name: string, settings: Partial<JobSettings>) => Promise<void>;
+  onReset: (name: string) => Promise<void>;
+}
+
+const JobScheduleRow: React.FC<JobScheduleRowProps> = ({ job, onSave, onReset }) => {
+  const [form, setForm] = useState<JobForm>(() => toForm(job));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(toForm(job));
+  }, [job]);
+
+  const dirty = JSON.stringify(form) !== JSON.stringify(toForm(job));
+
+  const save = async (settings: Partial<JobSettings>) => {
+    setSaving(true);
+    try {
+      await onSave(job.name, settings);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => save({
+    schedule: form.schedule,
+    timezone: form.timezone.trim() || null,
+    params: Object.fromEntries(Object.entries(form.params).map(([name, value]) => [name, Number(value)]))
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Switch checked={job.enabled} disabled={saving} onChange={(e) => save({ enabled: e.target.checked })} />
+      </TableCell>
+      <TableCell>
+        <Typography variant="body2" fontWeight="bold">{job.name}</Typography>
+        <Typography variant="caption" color="text.secondary">{job.description}</Typography>
+      </TableCell>
+      <TableCell>
+        <TextField
+          size="small"
+          value={form.schedule}
+          onChange={(e) => setForm(prev => ({ ...prev, schedule: e.target.value }))}
+          helperText={`Default ${job.defaults.schedule}`}
+          sx={{ width: 150 }}
+          inputProps={{ style: { fontFamily: 'monospace' } }}
+        />
+      </TableCell>
+      <TableCell>
+        <TextField
+          size="small"
+          value={form.timezone}
+          placeholder="Server time"
+          onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))}
+          helperText="e.g. Europe/Istanbul"
+          sx={{ width: 180 }}
+        />
+      </TableCell>
+      <TableCell>
+        {Object.entries(job.paramDefinitions).length === 0 && (
+          <Typography variant="body2" color="text.secondary">None</Typography>
+        )}
+        {Object.entries(job.paramDefinitions).map(([name, definition]) => (
+          <Tooltip key={name} title={definition.description}>
+            <TextField
+              size="small"
+              type="number"
+              label={name}
+              value={form.params[name] ?? ''}
+              onChange={(e) => setForm(prev => ({ ...prev, params: { ...prev.params, [name]: e.target.value } }))}
+              inputProps={{ min: definition.min, max: definition.max }}
+              helperText={`${definition.min}–${definition.max}`}
+              sx={{ width: 110, mr: 1 }}
+            />
+          </Tooltip>
+        ))}
+      </TableCell>
+      <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+        <Button
+          size="small"
+          variant="contained"
+          startIcon={saving ? <CircularProgress size={16} /> : <SaveIcon />}
+          disabled={!dirty || saving}
+          onClick={handleSave}
+        >
+          Save
+        </Button>
+        <Tooltip title="Back to the defaults">
+          <span>
+            <Button size="small" startIcon={<ReplayIcon />} disabled={saving || !job.updatedAt} onClick={() => onReset(job.name)} sx={{ ml: 1 }}>
+              Reset
+            </Button>
+          </span>
+        </Tooltip>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+/**
+ * Settings page
+ * - Schedules of the scheduled jobs: cron expression, time zone, parameters, enabled
+ */
+const Settings: React.FC = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [schedulerEnabled, setSchedulerEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await jobAPI.getJobs();
+      setJobs(response.data?.jobs || []);
+      setSchedulerEnabled(response.data?.schedulerEnabled ?? true);
+    } catch (err) {
+      console.error('Error fetching jobs:', err);
+      setError(errorMessage(err, 'Failed to load job schedules'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const replaceJob = (job: ScheduledJob) => {
+    setJobs(prev => prev.map(entry => (entry.name === job.name ? { ...job, lastRun: entry.lastRun } : entry)));
+  };
+
+  const handleSave = async (name: string, settings: Partial<JobSettings>) => {
+    try {
+      setError(null);
+      const response = await jobAPI.updateJob(name, settings);
+      if (response.data?.job) replaceJob(response.data.job);
+      setSuccess(`Saved the schedule of ${name}`);
+    } catch (err) {
+      setError(errorMessage(err, `Failed to save ${name}`));
+    }
+  };
+
+  const handleReset = async (name: string) => {
+    try {
+      setError(null);
+      const response = await jobAPI.resetJob(name);
+      if (response.data?.job) replaceJob(response.data.job);
+      setSuccess(`${name} is back to its default schedule`);
+    } catch (err) {
+      setError(errorMessage(err, `Failed to reset ${name}`));
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 3 }}>Settings</Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader
+          title="Scheduled jobs"
+          subheader="Cron expressions are minute hour day-of-month month day-of-week. Changes apply to running schedulers within a minute."
+        />
+        <CardContent>
+          {!schedulerEnabled && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              The scheduler is off on this server (ENABLE_SCHEDULER), schedules only apply where it is on.
+            </Alert>
+          )}
+          {loading ? (
+            <Box display="flex" justifyContent="center" p={3}>
+              <CircularProgress />
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Enabled</TableCell>
+                    <TableCell>Job</TableCell>
+                    <TableCell>Schedule</TableCell>
+                    <TableCell>Time zone</TableCell>
+                    <TableCell>Parameters</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {jobs.map(job => (
+                    <JobScheduleRow key={job.name} job={job} onSave={handleSave} onReset={handleReset} />
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </CardContent>
+      </Card>
+    </Box>
+  );
+};
+
+export default Settings;
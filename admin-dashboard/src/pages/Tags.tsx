@@ -0,0 +1,433 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardHeader,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  CallMerge as MergeIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  Refresh as RefreshIcon
+} from '@mui/icons-material';
+import { categoryAPI, tagAPI } from '../services/api';
+import type { Category, Tag, UntrackedTag } from '../types';
+
+interface TagForm {
+  _id?: string;
+  name: string;
+  synonyms: string;
+  categories: string[];
+}
+
+const emptyTagForm: TagForm = {
+  name: '',
+  synonyms: '',
+  categories: []
+};
+
+const errorMessage = (err: unknown, fallback: string) =>
+  err instanceof Error && err.message ? err.message : fallback;
+
+const splitSynonyms = (text: string) => text.split(',').map(synonym => synonym.trim()).filter(Boolean);
+
+/**
+ * Tag taxonomy page
+ * - Canonical tags with synonyms, category scope and usage counts
+ * - Tags content carries that are not in the taxonomy yet
+ * - Rename, merge and delete across all content
+ */
+const Tags: React.FC = () => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [untracked, setUntracked] = useState<UntrackedTag[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [tagForm, setTagForm] = useState<TagForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [mergeTarget, setMergeTarget] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await tagAPI.getTags();
+      setTags(response.data?.tags || []);
+      setUntracked(response.data?.untracked || []);
+    } catch (err) {
+      console.error('Error fetching tags:', err);
+      setError(errorMessage(err, 'Failed to load tags'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  useEffect(() => {
+    categoryAPI.getAllCategories()
+      .then(response => setCategories(response.data?.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+  }, []);
+
+  // Runs a taxonomy change, then reloads the usage counts
+  const runChange = async (change: () => Promise<{ message?: string }>, fallback: string) => {
+    try {
+      setWorking(true);
+      const response = await change();
+      setMessage(response.message || null);
+      setSelected([]);
+      await fetchTags();
+      return true;
+    } catch (err) {
+      setError(errorMessage(err, fallback));
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(current => current.includes(name)
+      ? current.filter(entry => entry !== name)
+      : [...current, name]);
+  };
+
+  const openTagForm = (tag?: Tag, name = '') => {
+    setFormError(null);
+    setTagForm(tag ? {
+      _id: tag._id,
+      name: tag.name,
+      synonyms: tag.synonyms.join(', '),
+      categories: tag.categories.map(category => category._id || '')
+    } : { ...emptyTagForm, name });
+  };
+
+  const handleSaveTag = async () => {
+    if (!tagForm) return;
+
+    if (!tagForm.name.trim()) {
+      setFormError('A tag needs a name');
+      return;
+    }
+
+    const data = {
+      name: tagForm.name.trim(),
+      synonyms: splitSynonyms(tagForm.synonyms),
+      categories: tagForm.categories
+    };
+
+    try {
+      setWorking(true);
+      const response = tagForm._id
+        ? await tagAPI.updateTag(tagForm._id, data)
+        : await tagAPI.createTag(data);
+      setMessage(response.message || null);
+      setTagForm(null);
+      await fetchTags();
+    } catch (err) {
+      setFormError(errorMessage(err, 'Failed to save tag'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTarget) return;
+
+    const sources = selected.filter(name => name !== mergeTarget);
+    const merged = await runChange(() => tagAPI.mergeTags(mergeTarget, sources), 'Failed to merge tags');
+    if (merged) setMergeTarget(null);
+  };
+
+  const handleRemoveSelected = () => {
+    if (!window.confirm(`Remove ${selected.length} tags from all content?`)) return;
+    runChange(() => tagAPI.removeTags(selected), 'Failed to remove tags');
+  };
+
+  const handleDeleteTag = (tag: Tag) => {
+    if (!window.confirm(`Delete "${tag.name}" and remove it from ${tag.usageCount} content items?`)) return;
+    runChange(async () => {
+      await tagAPI.deleteTag(tag._id);
+      return { message: `Deleted "${tag.name}"` };
+    }, 'Failed to delete tag');
+  };
+
+  const query = search.trim().toLowerCase();
+  const matches = (name: string, synonyms: string[] = []) =>
+    !query || [name, ...synonyms].some(entry => entry.toLowerCase().includes(query));
+
+  const visibleTags = tags.filter(tag => matches(tag.name, tag.synonyms));
+  const visibleUntracked = untracked.filter(tag => matches(tag.name));
+
+  const selectionCell = (name: string) => (
+    <TableCell padding="checkbox">
+      <Checkbox size="small" checked={selected.includes(name)} onChange={() => toggleSelected(name)} />
+    </TableCell>
+  );
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          Tags
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <TextField
+            label="Search"
+            size="small"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+          <Button
+            startIcon={<MergeIcon />}
+            disabled={selected.length < 2 || working}
+            onClick={() => setMergeTarget(selected[0])}
+          >
+            Merge selected
+          </Button>
+          <Button
+            color="error"
+            startIcon={<DeleteIcon />}
+            disabled={selected.length === 0 || working}
+            onClick={handleRemoveSelected}
+          >
+            Remove selected
+          </Button>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openTagForm()}>
+            Add Tag
+          </Button>
+          <IconButton onClick={fetchTags} disabled={loading}>
+            <RefreshIcon />
+          </IconButton>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      {loading && tags.length === 0 && untracked.length === 0 ? (
+        <Box display="flex" justifyContent="center" alignItems="center" height="50vh">
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Card sx={{ mb: 3 }}>
+            <CardHeader
+              title="Taxonomy"
+              subheader="Content tags matching a name or synonym are stored under the name"
+            />
+            <Divider />
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Name</TableCell>
+                    <TableCell>Synonyms</TableCell>
+                    <TableCell>Categories</TableCell>
+                    <TableCell align="right">Content</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleTags.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} align="center">
+                        {tags.length === 0 ? 'No tags yet. Track the tags content already uses below.' : 'No tags match the search.'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {visibleTags.map(tag => (
+                    <TableRow key={tag._id}>
+                      {selectionCell(tag.name)}
+                      <TableCell>{tag.name}</TableCell>
+                      <TableCell>
+                        {tag.synonyms.map(synonym => (
+                          <Chip key={synonym} size="small" label={synonym} sx={{ mr: 0.5, mb: 0.5 }} />
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {tag.categories.length === 0 ? 'All categories' : tag.categories.map(category => category.name).join(', ')}
+                      </TableCell>
+                      <TableCell align="right">{tag.usageCount}</TableCell>
+                      <TableCell align="right">
+                        <IconButton size="small" onClick={() => openTagForm(tag)}>
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" color="error" onClick={() => handleDeleteTag(tag)}>
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+
+          <Card>
+            <CardHeader
+              title="Untracked Tags"
+              subheader="Tags content carries that are not in the taxonomy. Track them or merge them into a tag."
+            />
+            <Divider />
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Tag</TableCell>
+                    <TableCell align="right">Content</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleUntracked.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} align="center">
+                        Every tag in use is in the taxonomy.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {visibleUntracked.map(tag => (
+                    <TableRow key={tag.name}>
+                      {selectionCell(tag.name)}
+                      <TableCell>{tag.name}</TableCell>
+                      <TableCell align="right">{tag.usageCount}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Add to the taxonomy">
+                          <IconButton size="small" onClick={() => openTagForm(undefined, tag.name)}>
+                            <AddIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={!!tagForm} onClose={() => setTagForm(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{tagForm?._id ? 'Edit Tag' : 'Add Tag'}</DialogTitle>
+        {tagForm && (
+          <DialogContent>
+            {formError && (
+              <Alert severity="error" sx={{ mb: 2 }}>{formError}</Alert>
+            )}
+            <TextField
+              label="Name"
+              fullWidth
+              margin="dense"
+              value={tagForm.name}
+              onChange={(e) => setTagForm({ ...tagForm, name: e.target.value })}
+              helperText={tagForm._id ? 'Renaming retags all content and keeps the old name as a synonym' : undefined}
+            />
+            <TextField
+              label="Synonyms"
+              fullWidth
+              margin="dense"
+              value={tagForm.synonyms}
+              onChange={(e) => setTagForm({ ...tagForm, synonyms: e.target.value })}
+              helperText="Comma separated, e.g. money-saving, saving tips"
+            />
+            <FormControl fullWidth margin="dense">
+              <InputLabel>Synonyms apply to</InputLabel>
+              <Select
+                multiple
+                value={tagForm.categories}
+                onChange={(e) => setTagForm({ ...tagForm, categories: typeof e.target.value === 'string' ? e.target.value.split(',') : e.target.value })}
+                input={<OutlinedInput label="Synonyms apply to" />}
+                displayEmpty
+                renderValue={(value) => value.length === 0
+                  ? 'All categories'
+                  : categories.filter(category => category._id && value.includes(category._id)).map(category => category.name).join(', ')}
+              >
+                {categories.map(category => (
+                  <MenuItem key={category._id} value={category._id}>
+                    <Checkbox size="small" checked={!!category._id && tagForm.categories.includes(category._id)} />
+                    {category.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setTagForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveTag} disabled={working}>Save</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={mergeTarget !== null} onClose={() => setMergeTarget(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Merge Tags</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Content tagged with the other tags is retagged, and their names become synonyms of the tag you keep.
+          </Typography>
+          <FormControl fullWidth margin="dense">
+            <InputLabel>Keep</InputLabel>
+            <Select
+              label="Keep"
+              value={mergeTarget || ''}
+              onChange={(e) => setMergeTarget(e.target.value)}
+            >
+              {selected.map(name => (
+                <MenuItem key={name} value={name}>{name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMergeTarget(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleMerge} disabled={working}>Merge</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Tags;
@@ -7,8 +7,45 @@ import type {
   User, 
   Category, 
   Content,
+  ContentTranslation,
+  ContentLocale,
+  ContentRevision,
+  ContentRevisionDiff,
   SubscriptionPlan,
-  PromptTemplate
+  PromptTemplate,
+  PromptPreview,
+  PromptTestRun,
+  PromptPartial,
+  GenerationJob,
+  GenerationBatchEntry,
+  Topic,
+  TopicCoverage,
+  TopicAddResult,
+  Tag,
+  UntrackedTag,
+  TagInput,
+  ContentLint,
+  LintOverride,
+  BlockedContent,
+  LintRule,
+  LintRuleSettings,
+  SafetyRule,
+  SafetyRuleInput,
+  SafetyReport,
+  ImagePurpose,
+  UploadedImage,
+  ScheduledJob,
+  JobSettings,
+  JobRun,
+  JobRunStatus,
+  DailyRefreshPreview,
+  ScheduledContent,
+  AIUsageAnalytics,
+  AIUsageRecord,
+  AIBudget,
+  PromptExperiment,
+  PromptExperimentResults,
+  PromptExperimentVariant
 } from '../types';
 
 // API base URL
@@ -23,7 +60,8 @@ const api = axios.create({
   },
 });
 
-// Create a separate instance with longer timeout for content generation
+// Create a separate instance with longer timeout for single-item AI rewrites, prompt test runs and topic suggestions
+// (bulk generation runs as background jobs, see generationJobAPI)
 const longRunningApi = axios.create({
   baseURL: API_URL,
   timeout: 120000,
@@ -206,6 +244,20 @@ const handleApiError = (error: any, operation: string) => {
   throw error;
 };
 
+// Message of a failed request: the server's own, otherwise the error's
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.message || error.message || fallback;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+};
+
+// Lint errors the server sent when it refused to publish, null for any other error
+export const getLintErrors = (error: unknown): ContentLint | null => {
+  if (!axios.isAxiosError(error)) return null;
+  return error.response?.data?.data?.lint ?? null;
+};
+
 // Authentication APIs
 export const authAPI = {
   login: async (credentials: LoginCredentials): Promise<ApiResponse<{ user: User }>> => {
@@ -384,6 +436,51 @@ export const categoryAPI = {
       console.error('Error activating all categories:', error);
       throw error;
     }
+  },
+
+  getTopics: async (categoryId: string): Promise<ApiResponse<{ coverage: TopicCoverage, topics: Topic[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ coverage: TopicCoverage, topics: Topic[] }>>(`/categories/${categoryId}/topics`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching topics');
+    }
+  },
+
+  addTopics: async (categoryId: string, topics: string[]): Promise<ApiResponse<TopicAddResult>> => {
+    try {
+      const response = await api.post<ApiResponse<TopicAddResult>>(`/categories/${categoryId}/topics`, { topics });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'adding topics');
+    }
+  },
+
+  suggestTopics: async (categoryId: string, count: number = 50): Promise<ApiResponse<TopicAddResult>> => {
+    try {
+      const response = await longRunningApi.post<ApiResponse<TopicAddResult>>(`/categories/${categoryId}/topics/suggest`, { count });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'suggesting topics');
+    }
+  },
+
+  updateTopic: async (categoryId: string, topicId: string, changes: Partial<Pick<Topic, 'name' | 'status'>>): Promise<ApiResponse<{ topic: Topic }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ topic: Topic }>>(`/categories/${categoryId}/topics/${topicId}`, changes);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating topic');
+    }
+  },
+
+  deleteTopic: async (categoryId: string, topicId: string): Promise<ApiResponse<null>> => {
+    try {
+      const response = await api.delete<ApiResponse<null>>(`/categories/${categoryId}/topics/${topicId}`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'deleting topic');
+    }
   }
 };
 
@@ -543,7 +640,8 @@ export const contentAPI = {
     }
   },
   
-  updateContent: async (contentId: string, contentData: Partial<Content>): Promise<ApiResponse<{ content: Content }>> => {
+  // overrideReason publishes despite lint errors when the update publishes the content
+  updateContent: async (contentId: string, contentData: Partial<Content> & { overrideReason?: string }): Promise<ApiResponse<{ content: Content }>> => {
     try {
       const response = await api.patch<ApiResponse<{ content: Content }>>(`/content/${contentId}`, contentData);
       return response.data;
@@ -553,6 +651,15 @@ export const contentAPI = {
     }
   },
   
+  getContentLint: async (contentId: string): Promise<ApiResponse<{ lint: ContentLint, lintOverride: LintOverride | null }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ lint: ContentLint, lintOverride: LintOverride | null }>>(`/content/${contentId}/lint`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'checking content');
+    }
+  },
+  
   deleteContent: async (contentId: string): Promise<ApiResponse<null>> => {
     try {
       console.log(`Attempting to delete content with ID: ${contentId}`);
@@ -579,11 +686,12 @@ export const contentAPI = {
     }
   },
   
-  moderateContent: async (contentId: string, action: 'approve' | 'reject', notes?: string): Promise<ApiResponse<{ content: Content }>> => {
+  moderateContent: async (contentId: string, action: 'approve' | 'reject', notes?: string, overrideReason?: string): Promise<ApiResponse<{ content: Content }>> => {
     try {
       const response = await api.patch<ApiResponse<{ content: Content }>>(`/admin/content/${contentId}/moderate`, {
         action,
-        moderationNotes: notes
+        moderationNotes: notes,
+        overrideReason
       });
       return response.data;
     } catch (error) {
@@ -592,61 +700,84 @@ export const contentAPI = {
     }
   },
   
+  // Queues a generation job, poll it with generationJobAPI.getJob
   generateContent: async (params: { 
     categoryIds: string[], 
     contentType?: string, 
     count?: number 
-  }): Promise<ApiResponse<{ content: Content[] }>> => {
+  }): Promise<ApiResponse<{ job: GenerationJob }>> => {
     try {
-      // Use longRunningApi for content generation which may take longer
-      const response = await longRunningApi.post<ApiResponse<{ content: Content[] }>>('/admin/content/generate', params);
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>('/admin/content/generate', params);
       return response.data;
     } catch (error) {
       return handleApiError(error, 'generating content');
     }
   },
   
-  generateMultipleContent: async (categoryId: string, contentType?: string, count: number = 10, difficulty: string = 'beginner', model?: string): Promise<ApiResponse<{ content: Content[] }>> => {
-    // Add retry logic with exponential backoff
-    const maxRetries = 3;
-    let retries = 0;
-    let lastError: any;
+  // Queues one job for several categories with their own settings, poll it with generationJobAPI.getJob
+  generateBatchContent: async (entries: GenerationBatchEntry[]): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>('/content/generate-batch', { entries });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'queueing batch generation');
+    }
+  },
 
-    while (retries <= maxRetries) {
-      try {
-        if (retries > 0) {
-          // Exponential backoff: 2 seconds, 4 seconds, 8 seconds...
-          const backoffTime = Math.pow(2, retries) * 1000;
-          console.log(`Retrying API call (${retries}/${maxRetries}) after ${backoffTime}ms delay due to rate limiting...`);
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
-        }
+  // Queues a generation job for one or more categories, poll it with generationJobAPI.getJob
+  generateMultipleContent: async (categoryIds: string | string[], contentType?: string, count?: number, difficulty: string = 'beginner', model?: string): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>('/content/generate-multiple', {
+        categoryIds: Array.isArray(categoryIds) ? categoryIds : [categoryIds],
+        contentType,
+        count,
+        difficulty,
+        model
+      });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'generating content');
+    }
+  },
 
-        // Use longRunningApi for content generation which may take longer
-        const response = await longRunningApi.post<ApiResponse<{ content: Content[] }>>('/content/generate-multiple', {
-          categoryId,
-          contentType,
-          count,
-          difficulty,
-          model
-        });
-        return response.data;
-      } catch (error: any) {
-        lastError = error;
-        
-        // If it's a rate limit error (429), retry
-        if (error.response && error.response.status === 429) {
-          console.warn('Rate limit hit (429), will retry with backoff...');
-          retries++;
-          continue;
-        }
-        
-        // For other errors, don't retry
-        break;
-      }
+  // Queues the daily refresh as a generation job, poll it with generationJobAPI.getJob
+  triggerDailyRefresh: async (): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>('/admin/trigger-daily-refresh');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'triggering daily content refresh');
+    }
+  },
+
+  // Dry run of the daily refresh: what it would do, nothing is changed
+  previewDailyRefresh: async (): Promise<ApiResponse<{ preview: DailyRefreshPreview }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ preview: DailyRefreshPreview }>>('/admin/trigger-daily-refresh', { dryRun: true });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'previewing daily content refresh');
+    }
+  },
+
+  // Scheduled publications with a publish date in [from, to), for the calendar
+  getScheduledContent: async (params: { from: string, to: string, category?: string }): Promise<ApiResponse<{ content: ScheduledContent[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ content: ScheduledContent[] }>>('/admin/content/scheduled', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching scheduled content');
+    }
+  },
+
+  // The publication worker publishes the content at publishDate and archives it at expiryDate
+  scheduleContent: async (contentId: string, publishDate: string, expiryDate?: string | null): Promise<ApiResponse<{ content: ScheduledContent }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ content: ScheduledContent }>>(`/admin/content/${contentId}/schedule`, { publishDate, expiryDate });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'scheduling content');
     }
-    
-    // If we've exhausted all retries or had a different error, handle it
-    return handleApiError(lastError, 'generating content');
   },
 
   getContentByPool: async (pool: string = 'regular', category?: string, contentType?: string): Promise<ApiResponse<{ content: Content[] }>> => {
@@ -683,6 +814,87 @@ export const contentAPI = {
     }
   },
   
+  generateCoverImage: async (contentId: string): Promise<ApiResponse<{ image: UploadedImage, content: Content }>> => {
+    try {
+      const response = await longRunningApi.post<ApiResponse<{ image: UploadedImage, content: Content }>>(`/content/${contentId}/cover-image`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'generating cover image');
+    }
+  },
+  
+  getLocales: async (): Promise<ApiResponse<{ locales: ContentLocale[], defaultLocale: string }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ locales: ContentLocale[], defaultLocale: string }>>('/content/locales');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching content locales:', error);
+      throw error;
+    }
+  },
+  
+  saveTranslation: async (contentId: string, locale: string, translation: Pick<ContentTranslation, 'title' | 'summary' | 'body' | 'quoteText'>): Promise<ApiResponse<{ content: Content }>> => {
+    try {
+      const response = await api.put<ApiResponse<{ content: Content }>>(`/content/${contentId}/translations/${locale}`, translation);
+      return response.data;
+    } catch (error) {
+      console.error(`Error saving ${locale} translation of content ${contentId}:`, error);
+      throw error;
+    }
+  },
+  
+  generateTranslation: async (contentId: string, locale: string, model?: string): Promise<ApiResponse<{ content: Content }>> => {
+    try {
+      const response = await longRunningApi.post<ApiResponse<{ content: Content }>>(`/content/${contentId}/translations/${locale}/generate`, { model });
+      return response.data;
+    } catch (error) {
+      console.error(`Error translating content ${contentId} to ${locale}:`, error);
+      throw error;
+    }
+  },
+  
+  deleteTranslation: async (contentId: string, locale: string): Promise<ApiResponse<{ content: Content }>> => {
+    try {
+      const response = await api.delete<ApiResponse<{ content: Content }>>(`/content/${contentId}/translations/${locale}`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error deleting ${locale} translation of content ${contentId}:`, error);
+      throw error;
+    }
+  },
+  
+  getRevisions: async (contentId: string): Promise<ApiResponse<{ revisions: ContentRevision[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ revisions: ContentRevision[] }>>(`/content/${contentId}/revisions`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching revisions of content ${contentId}:`, error);
+      throw error;
+    }
+  },
+  
+  diffRevisions: async (contentId: string, from: string, to?: string): Promise<ApiResponse<ContentRevisionDiff>> => {
+    try {
+      const response = await api.get<ApiResponse<ContentRevisionDiff>>(`/content/${contentId}/revisions/diff`, {
+        params: { from, to }
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error comparing revisions of content ${contentId}:`, error);
+      throw error;
+    }
+  },
+  
+  restoreRevision: async (contentId: string, revisionId: string): Promise<ApiResponse<{ revision: ContentRevision, content: Content }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ revision: ContentRevision, content: Content }>>(`/content/${contentId}/revisions/${revisionId}/restore`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error restoring revision ${revisionId} of content ${contentId}:`, error);
+      throw error;
+    }
+  },
+  
   // Move published content to deleted status for a specific category
   movePublishedToDeleted: async (categoryId: string, count: number = 10): Promise<ApiResponse<{ categoryId: string, totalFound: number, movedToDeleted: number }>> => {
     try {
@@ -709,10 +921,12 @@ export const contentAPI = {
   },
   
   // New function to bulk publish content
-  bulkPublishContent: async (contentIds: string[]): Promise<ApiResponse<{ totalUpdated: number }>> => {
+  // Items with lint errors come back in blocked unless an overrideReason is given
+  bulkPublishContent: async (contentIds: string[], overrideReason?: string): Promise<ApiResponse<{ totalUpdated: number, blocked: BlockedContent[] }>> => {
     try {
-      const response = await api.post<ApiResponse<{ totalUpdated: number }>>('/admin/content/bulk-publish', {
-        contentIds
+      const response = await api.post<ApiResponse<{ totalUpdated: number, blocked: BlockedContent[] }>>('/admin/content/bulk-publish', {
+        contentIds,
+        overrideReason
       });
       return response.data;
     } catch (error) {
@@ -721,7 +935,7 @@ export const contentAPI = {
         success: false,
         status: 'error',
         message: error instanceof Error ? error.message : 'Unknown error bulk publishing content',
-        data: { totalUpdated: 0 }
+        data: { totalUpdated: 0, blocked: [] }
       };
     }
   },
@@ -941,11 +1155,451 @@ export const promptAPI = {
   
   seedPromptsFromDefaultFile: async (): Promise<ApiResponse<{ updatedCategories: number; newPrompts: number }>> => {
     try {
-      const response = await api.post<ApiResponse<{ updatedCategories: number; newPrompts: number }>>('/prompts/seed-default');
+      const response = await api.post<ApiResponse<{ updatedCategories: number; newPrompts: number }>>('/admin/prompts/seed-from-file');
       return response.data;
     } catch (error) {
       console.error('Error seeding prompts from default file:', error);
       throw error;
     }
+  },
+
+  importDefaultTemplates: async (): Promise<ApiResponse<{ count: number; promptIds: string[] }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ count: number; promptIds: string[] }>>('/prompts/import-defaults');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'importing default prompt templates');
+    }
+  },
+
+  createPromptTemplate: async (template: Pick<PromptTemplate, 'name' | 'contentType' | 'promptText'> & { category: string; description?: string; isActive?: boolean; changeNote?: string }): Promise<ApiResponse<{ template: PromptTemplate }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ template: PromptTemplate }>>('/prompts', template);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'creating prompt template');
+    }
+  },
+
+  updatePromptTemplate: async (templateId: string, template: Partial<Pick<PromptTemplate, 'name' | 'contentType' | 'promptText' | 'description' | 'isActive'>> & { changeNote?: string }): Promise<ApiResponse<{ template: PromptTemplate }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ template: PromptTemplate }>>(`/prompts/${templateId}`, template);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating prompt template');
+    }
+  },
+
+  deletePromptTemplate: async (templateId: string): Promise<void> => {
+    try {
+      await api.delete(`/prompts/${templateId}`);
+    } catch (error) {
+      handleApiError(error, 'deleting prompt template');
+    }
+  },
+
+  clonePromptTemplate: async (templateId: string, category: string, name?: string): Promise<ApiResponse<{ template: PromptTemplate }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ template: PromptTemplate }>>(`/prompts/${templateId}/clone`, { category, name });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'cloning prompt template');
+    }
+  },
+
+  previewPrompt: async (options: { category: string; promptText?: string; contentType?: string; count?: number; difficulty?: string; topic?: string }): Promise<ApiResponse<PromptPreview>> => {
+    try {
+      const response = await api.post<ApiResponse<PromptPreview>>('/prompts/preview', options);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'previewing prompt');
+    }
+  },
+
+  testRunPrompt: async (options: { category: string; promptText?: string; template?: string; contentType?: string; count?: number; difficulty?: string; topic?: string; model?: string }): Promise<ApiResponse<PromptTestRun>> => {
+    try {
+      const response = await longRunningApi.post<ApiResponse<PromptTestRun>>('/prompts/test-run', options);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'running prompt test');
+    }
+  },
+
+  getPartials: async (): Promise<ApiResponse<{ partials: PromptPartial[]; builtIn: string[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ partials: PromptPartial[]; builtIn: string[] }>>('/prompts/partials');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching prompt partials');
+    }
+  }
+};
+
+// Generation job APIs
+export const generationJobAPI = {
+  getJobs: async (params?: { status?: string; type?: string; page?: number; limit?: number }): Promise<ApiResponse<{ jobs: GenerationJob[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ jobs: GenerationJob[] }>>('/generation-jobs', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching generation jobs');
+    }
+  },
+
+  getJob: async (jobId: string): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ job: GenerationJob }>>(`/generation-jobs/${jobId}`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching generation job');
+    }
+  },
+
+  cancelJob: async (jobId: string): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>(`/generation-jobs/${jobId}/cancel`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'cancelling generation job');
+    }
+  },
+
+  retryJob: async (jobId: string): Promise<ApiResponse<{ job: GenerationJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: GenerationJob }>>(`/generation-jobs/${jobId}/retry`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'retrying generation job');
+    }
+  }
+};
+
+// AI usage ledger and budget APIs
+export const aiUsageAPI = {
+  getAnalytics: async (params?: { from?: string; to?: string }): Promise<ApiResponse<AIUsageAnalytics>> => {
+    try {
+      const response = await api.get<ApiResponse<AIUsageAnalytics>>('/admin/ai-usage', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching AI usage analytics');
+    }
+  },
+
+  getRecords: async (params?: { from?: string; to?: string; category?: string; model?: string; outcome?: string; source?: string; page?: number; limit?: number }): Promise<ApiResponse<{ records: AIUsageRecord[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ records: AIUsageRecord[] }>>('/admin/ai-usage/records', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching AI usage records');
+    }
+  },
+
+  getBudgets: async (): Promise<ApiResponse<{ budgets: AIBudget[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ budgets: AIBudget[] }>>('/admin/ai-budgets');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching AI budgets');
+    }
+  },
+
+  createBudget: async (budget: Pick<AIBudget, 'name' | 'scope' | 'monthlyLimit' | 'action' | 'warnAt'> & { category?: string | null }): Promise<ApiResponse<{ budget: AIBudget }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ budget: AIBudget }>>('/admin/ai-budgets', budget);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'creating AI budget');
+    }
+  },
+
+  updateBudget: async (budgetId: string, budget: Partial<Pick<AIBudget, 'name' | 'monthlyLimit' | 'action' | 'warnAt' | 'active'>>): Promise<ApiResponse<{ budget: AIBudget }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ budget: AIBudget }>>(`/admin/ai-budgets/${budgetId}`, budget);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating AI budget');
+    }
+  },
+
+  deleteBudget: async (budgetId: string): Promise<void> => {
+    try {
+      await api.delete(`/admin/ai-budgets/${budgetId}`);
+    } catch (error) {
+      handleApiError(error, 'deleting AI budget');
+    }
   }
-};
\ No newline at end of file
+};
+
+// Prompt experiment APIs
+export const promptExperimentAPI = {
+  getExperiments: async (params?: { category?: string; status?: string }): Promise<ApiResponse<{ experiments: PromptExperiment[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ experiments: PromptExperiment[] }>>('/prompts/experiments', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching prompt experiments');
+    }
+  },
+
+  getExperiment: async (experimentId: string): Promise<ApiResponse<{ experiment: PromptExperiment; results: PromptExperimentResults }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ experiment: PromptExperiment; results: PromptExperimentResults }>>(`/prompts/experiments/${experimentId}`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching prompt experiment');
+    }
+  },
+
+  createExperiment: async (experiment: { name: string; description?: string; category: string; variants: PromptExperimentVariant[]; confidenceLevel?: number }): Promise<ApiResponse<{ experiment: PromptExperiment }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ experiment: PromptExperiment }>>('/prompts/experiments', experiment);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'creating prompt experiment');
+    }
+  },
+
+  updateExperiment: async (experimentId: string, experiment: Partial<Pick<PromptExperiment, 'name' | 'description' | 'variants' | 'confidenceLevel'>>): Promise<ApiResponse<{ experiment: PromptExperiment }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ experiment: PromptExperiment }>>(`/prompts/experiments/${experimentId}`, experiment);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating prompt experiment');
+    }
+  },
+
+  deleteExperiment: async (experimentId: string): Promise<void> => {
+    try {
+      await api.delete(`/prompts/experiments/${experimentId}`);
+    } catch (error) {
+      handleApiError(error, 'deleting prompt experiment');
+    }
+  },
+
+  startExperiment: async (experimentId: string): Promise<ApiResponse<{ experiment: PromptExperiment }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ experiment: PromptExperiment }>>(`/prompts/experiments/${experimentId}/start`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'starting prompt experiment');
+    }
+  },
+
+  stopExperiment: async (experimentId: string): Promise<ApiResponse<{ experiment: PromptExperiment }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ experiment: PromptExperiment }>>(`/prompts/experiments/${experimentId}/stop`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'stopping prompt experiment');
+    }
+  },
+
+  promoteVariant: async (experimentId: string, variantId: string): Promise<ApiResponse<{ experiment: PromptExperiment; category: Category }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ experiment: PromptExperiment; category: Category }>>(`/prompts/experiments/${experimentId}/promote`, { variantId });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'promoting prompt variant');
+    }
+  }
+};
+
+// Tag taxonomy APIs (Admin)
+export const tagAPI = {
+  getTags: async (): Promise<ApiResponse<{ tags: Tag[], untracked: UntrackedTag[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ tags: Tag[], untracked: UntrackedTag[] }>>('/admin/tags');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching tags');
+    }
+  },
+
+  createTag: async (tag: TagInput): Promise<ApiResponse<{ tag: Tag, contentUpdated: number }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ tag: Tag, contentUpdated: number }>>('/admin/tags', tag);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'creating tag');
+    }
+  },
+
+  updateTag: async (tagId: string, tag: Partial<TagInput>): Promise<ApiResponse<{ tag: Tag, contentUpdated: number }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ tag: Tag, contentUpdated: number }>>(`/admin/tags/${tagId}`, tag);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating tag');
+    }
+  },
+
+  mergeTags: async (into: string, tags: string[]): Promise<ApiResponse<{ tag: Tag, merged: string[], contentUpdated: number }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ tag: Tag, merged: string[], contentUpdated: number }>>('/admin/tags/merge', { into, tags });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'merging tags');
+    }
+  },
+
+  removeTags: async (tags: string[]): Promise<ApiResponse<{ removed: number, tagsDeleted: number, contentUpdated: number }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ removed: number, tagsDeleted: number, contentUpdated: number }>>('/admin/tags/remove', { tags });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'removing tags');
+    }
+  },
+
+  deleteTag: async (tagId: string): Promise<ApiResponse<null>> => {
+    try {
+      const response = await api.delete<ApiResponse<null>>(`/admin/tags/${tagId}`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'deleting tag');
+    }
+  }
+};
+
+// Content lint rule APIs (Admin)
+export const lintRuleAPI = {
+  getRules: async (): Promise<ApiResponse<{ rules: LintRule[] }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ rules: LintRule[] }>>('/admin/lint-rules');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching lint rules');
+    }
+  },
+
+  updateRule: async (ruleId: string, settings: Partial<LintRuleSettings>): Promise<ApiResponse<{ rule: LintRule }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ rule: LintRule }>>(`/admin/lint-rules/${ruleId}`, settings);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating lint rule');
+    }
+  },
+
+  resetRule: async (ruleId: string): Promise<ApiResponse<{ rule: LintRule }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ rule: LintRule }>>(`/admin/lint-rules/${ruleId}/reset`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'resetting lint rule');
+    }
+  }
+};
+
+// Safety screening APIs (Admin)
+export const safetyAPI = {
+  getRules: async (): Promise<ApiResponse<{ rules: SafetyRule[], classifier: string | null }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ rules: SafetyRule[], classifier: string | null }>>('/admin/safety/rules');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching safety rules');
+    }
+  },
+
+  createRule: async (rule: SafetyRuleInput): Promise<ApiResponse<{ rule: SafetyRule }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ rule: SafetyRule }>>('/admin/safety/rules', rule);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'creating safety rule');
+    }
+  },
+
+  updateRule: async (ruleId: string, rule: Partial<SafetyRuleInput>): Promise<ApiResponse<{ rule: SafetyRule }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ rule: SafetyRule }>>(`/admin/safety/rules/${ruleId}`, rule);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating safety rule');
+    }
+  },
+
+  deleteRule: async (ruleId: string): Promise<ApiResponse<null>> => {
+    try {
+      const response = await api.delete<ApiResponse<null>>(`/admin/safety/rules/${ruleId}`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'deleting safety rule');
+    }
+  },
+
+  getReport: async (params: { from?: string, to?: string, category?: string } = {}): Promise<ApiResponse<SafetyReport>> => {
+    try {
+      const response = await api.get<ApiResponse<SafetyReport>>('/admin/safety/report', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching safety report');
+    }
+  }
+};
+
+// Image uploads
+export const uploadAPI = {
+  uploadImage: async (file: File, purpose: ImagePurpose): Promise<ApiResponse<{ image: UploadedImage }>> => {
+    try {
+      const formData = new FormData();
+      formData.append('image', file);
+      formData.append('purpose', purpose);
+      const response = await api.post<ApiResponse<{ image: UploadedImage }>>('/uploads/images', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' }
+      });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'uploading image');
+    }
+  }
+};
+
+// Scheduled jobs and their run history (Admin)
+export const jobAPI = {
+  getJobs: async (): Promise<ApiResponse<{ jobs: ScheduledJob[], schedulerEnabled: boolean }>> => {
+    try {
+      const response = await api.get<ApiResponse<{ jobs: ScheduledJob[], schedulerEnabled: boolean }>>('/admin/jobs');
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching scheduled jobs');
+    }
+  },
+
+  getRuns: async (params: { job?: string, status?: JobRunStatus, page?: number, limit?: number } = {}): Promise<ApiResponse<{ runs: JobRun[] }> & { pagination?: { total: number, page: number, pages: number } }> => {
+    try {
+      const response = await api.get<ApiResponse<{ runs: JobRun[] }> & { pagination?: { total: number, page: number, pages: number } }>('/admin/jobs/runs', { params });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'fetching job runs');
+    }
+  },
+
+  updateJob: async (name: string, settings: Partial<JobSettings>): Promise<ApiResponse<{ job: ScheduledJob }>> => {
+    try {
+      const response = await api.patch<ApiResponse<{ job: ScheduledJob }>>(`/admin/jobs/${name}`, settings);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'updating job schedule');
+    }
+  },
+
+  resetJob: async (name: string): Promise<ApiResponse<{ job: ScheduledJob }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ job: ScheduledJob }>>(`/admin/jobs/${name}/reset`);
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'resetting job schedule');
+    }
+  },
+
+  runJob: async (name: string, options: { dryRun?: boolean } = {}): Promise<ApiResponse<{ run: JobRun }>> => {
+    try {
+      const response = await api.post<ApiResponse<{ run: JobRun }>>(`/admin/jobs/${name}/run`, { dryRun: options.dryRun === true });
+      return response.data;
+    } catch (error) {
+      return handleApiError(error, 'starting job');
+    }
+  }
+};
@@ -19,6 +19,8 @@ export interface User {
   createdAt: string;
   updatedAt: string;
   lastLogin: string;
+  // IANA time zone of the user's device
+  timezone?: string;
 }
 
 export interface Subscription {
@@ -73,6 +75,8 @@ export interface Category {
   name: string;
   description: string;
   icon: string;
+  // Thumbnail of an uploaded icon image
+  iconThumbnail?: string | null;
   color: string;
   slug?: string;
   priority: number;
@@ -83,6 +87,7 @@ export interface Category {
   prompt?: string;
   singlePrompt?: string;
   multiplePrompt?: string;
+  bannedTopics?: string[];
   promptType?: 'single' | 'multiple';
   defaultNumToGenerate?: number;
   contentType?: 'hack' | 'hack2' | 'tip' | 'tip2';
@@ -95,10 +100,73 @@ export interface Category {
   };
   isFeatured?: boolean;
   lastGenerated?: string;
+  rotation?: RotationPolicy;
+  // Last time the daily refresh rotated the category's content
+  lastRotatedAt?: string | null;
   createdBy?: string | User;
 }
 
 // Content types
+export interface ContentTranslation {
+  locale: string;
+  title: string;
+  summary?: string | null;
+  body: string;
+  quoteText?: string | null;
+  source: 'ai' | 'human';
+  stale: boolean;
+  updatedBy?: string | null;
+  updatedAt: string;
+}
+
+export interface ContentRevision {
+  _id: string;
+  content: string;
+  revision: number;
+  title: string;
+  summary: string;
+  body: string;
+  tags?: string[];
+  difficulty?: string | null;
+  quoteText?: string | null;
+  author?: string | null;
+  sourceTitle?: string | null;
+  sourceYear?: number | null;
+  source: 'initial' | 'manual' | 'ai-rewrite' | 'bulk' | 'restore';
+  model?: string | null;
+  editedBy?: { _id: string; name: string; email: string } | null;
+  changedFields: string[];
+  restoredFrom?: number | null;
+  createdAt: string;
+}
+
+export interface TextDiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ContentRevisionFieldDiff {
+  changed: boolean;
+  from: string | number | string[] | null;
+  to: string | number | string[] | null;
+  diff?: {
+    lines: TextDiffLine[];
+    added: number;
+    removed: number;
+  };
+}
+
+export interface ContentRevisionDiff {
+  from: ContentRevision;
+  to: ContentRevision;
+  fields: Record<string, ContentRevisionFieldDiff>;
+}
+
+export interface ContentLocale {
+  code: string;
+  name: string;
+}
+
 export interface Content {
   _id: string;
   title: string;
@@ -107,7 +175,18 @@ export interface Content {
   category: string | Category;
   status: 'draft' | 'pending' | 'published' | 'rejected';
   contentType: 'hack' | 'tip' | 'hack2' | 'tip2' | 'quote';
+  // Structured attribution of quote content
+  quoteText?: string | null;
+  author?: string | null;
+  sourceTitle?: string | null;
+  sourceYear?: number | null;
+  // Locale of title/summary/body and the translations into other locales
+  locale?: string;
+  translations?: ContentTranslation[];
   tags: string[];
+  // Card image and its thumbnail, set by uploads and cover image generation
+  image?: string | null;
+  imageThumbnail?: string | null;
   authorId: string;
   moderatorId?: string;
   moderationNotes?: string;
@@ -140,6 +219,10 @@ export interface Content {
   isDuplicate?: boolean;
   originalContentId?: string;
   reason?: 'manual_delete' | 'auto_delete' | 'duplicate' | 'category_deleted' | 'other';
+  // Lint result, only included for staff
+  lint?: ContentLint;
+  // Set when the content was published despite lint errors
+  lintOverride?: LintOverride | null;
 }
 
 // Subscription plan types
@@ -222,14 +305,550 @@ export interface AnalyticsData {
 export interface PromptTemplate {
   _id: string;
   name: string;
+  slug?: string;
   category: string | Category;
-  contentType: 'hack' | 'tip' | 'hack2' | 'tip2' | 'quote';
+  categoryName: string;
+  contentType: 'hack' | 'tip' | 'hack2' | 'tip2' | 'quote' | 'trend';
   isSingle: boolean;
-  templateText: string;
+  promptText: string;
   description: string;
   createdBy: string | User;
   updatedBy?: string | User;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
-} 
\ No newline at end of file
+}
+
+export interface PromptPreview {
+  prompt: string;
+  promptSource: string | null;
+  contentType: string;
+  count: number;
+  variables: Record<string, unknown>;
+  unknownVariables: string[];
+  missingPartials: string[];
+}
+
+export interface PromptTestRunItem {
+  title: string;
+  body: string;
+  summary?: string;
+  tags?: string[];
+}
+
+export interface PromptTestRun {
+  prompt: string;
+  items: PromptTestRunItem[];
+  usageId: string | null;
+}
+
+export interface PromptPartial {
+  _id: string;
+  name: string;
+  text: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Generation job types
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface GenerationJobParams {
+  contentType?: string | null;
+  difficulty?: string;
+  model?: string;
+}
+
+// One entry of a batch generation request
+export interface GenerationBatchEntry {
+  categoryId: string;
+  contentType?: string;
+  count?: number;
+  difficulty?: string;
+  model?: string;
+}
+
+export interface GenerationJobCategorySummary {
+  category: string | null;
+  categoryName: string;
+  contentType: string | null;
+  difficulty: string | null;
+  model: string | null;
+  requested: number;
+  generated: number;
+  duplicatesRejected: number;
+  status: 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+  errors: string[];
+}
+
+export interface GenerationJobItem {
+  _id: string;
+  label: string;
+  category: string | null;
+  categoryName: string | null;
+  count: number;
+  params?: GenerationJobParams | null;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  contentIds: Array<string | Content>;
+  stats?: {
+    generated: number;
+    cleanedUp?: number;
+    published?: number;
+    duplicatesRejected?: number;
+    safetyFlagged?: number;
+  } | null;
+  error: string | null;
+  attempts: number;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface GenerationJob {
+  _id: string;
+  type: 'generate-multiple' | 'generate-batch' | 'daily-refresh';
+  status: GenerationJobStatus;
+  params: GenerationJobParams & {
+    entries?: number;
+  };
+  items: GenerationJobItem[];
+  progress: {
+    total: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    generated: number;
+  };
+  result?: {
+    generated?: number;
+    duplicatesRejected?: number;
+    safetyFlagged?: number;
+    errors?: string[];
+    byCategory?: GenerationJobCategorySummary[];
+    categories?: number;
+    cleanedUp?: number;
+    published?: number;
+    duplicates?: {
+      processed?: number;
+      detected?: number;
+      deleted: number;
+    };
+  } | null;
+  error: string | null;
+  cancelRequested: boolean;
+  attempts: number;
+  createdBy: string | User;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// AI usage ledger types
+export interface AIUsageBreakdown {
+  _id: string | null;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  errors: number;
+  avgLatencyMs: number;
+  categoryName?: string;
+}
+
+export interface AIBudget {
+  _id: string;
+  name: string;
+  scope: 'global' | 'category';
+  category: string | Category | null;
+  monthlyLimit: number;
+  action: 'warn' | 'block';
+  warnAt: number;
+  active: boolean;
+  spent?: number;
+  ratio?: number;
+  exceeded?: boolean;
+  warning?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AIUsageAnalytics {
+  range: {
+    $gte: string;
+    $lte: string;
+  };
+  totals: Omit<AIUsageBreakdown, '_id' | 'categoryName'>;
+  byDay: AIUsageBreakdown[];
+  byModel: AIUsageBreakdown[];
+  byCategory: AIUsageBreakdown[];
+  byOutcome: Array<{ _id: string; calls: number }>;
+  bySource: AIUsageBreakdown[];
+  budgets: AIBudget[];
+}
+
+export interface AIUsageRecord {
+  _id: string;
+  provider: string;
+  model: string;
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  outcome: 'success' | 'error' | 'timeout' | 'rate_limited' | 'parse_error' | 'blocked';
+  error: string | null;
+  estimatedCost: number;
+  source: 'user' | 'job' | 'scheduler' | 'system';
+  category: { _id: string; name: string } | null;
+  user: { _id: string; name: string; email: string } | null;
+  generationJob: string | null;
+  schedulerRun: string | null;
+  contentIds: string[];
+  budgetWarnings: string[];
+  createdAt: string;
+}
+
+export interface PromptExperimentVariant {
+  _id?: string;
+  name: string;
+  promptText: string;
+  weight: number;
+}
+
+export interface PromptExperiment {
+  _id: string;
+  name: string;
+  description?: string;
+  category: string | Category;
+  variants: PromptExperimentVariant[];
+  status: 'draft' | 'running' | 'stopped' | 'completed';
+  confidenceLevel: number;
+  startedAt: string | null;
+  endedAt: string | null;
+  winner: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptExperimentVariantResult {
+  _id: string;
+  name: string;
+  weight: number;
+  items: number;
+  likes: number;
+  dislikes: number;
+  maybes: number;
+  reactions: number;
+  likeRate: number | null;
+  isControl: boolean;
+  upliftVsControl: number | null;
+  zScore: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface PromptExperimentResults {
+  confidenceLevel: number;
+  variants: PromptExperimentVariantResult[];
+  recommendedVariant: string | null;
+}
+
+export interface Topic {
+  _id: string;
+  category: string;
+  name: string;
+  status: 'open' | 'covered' | 'retired';
+  source: 'editor' | 'ai';
+  content: Array<Pick<Content, '_id' | 'title' | 'status' | 'contentType' | 'createdAt'>>;
+  coveredAt: string | null;
+  lastDrawnAt: string | null;
+  timesDrawn: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TopicCoverage {
+  total: number;
+  open: number;
+  covered: number;
+  retired: number;
+  coveredPercent: number;
+}
+
+export interface TopicAddResult {
+  added: Topic[];
+  skipped: string[];
+  coverage: TopicCoverage;
+}
+
+export interface Tag {
+  _id: string;
+  name: string;
+  key: string;
+  synonyms: string[];
+  categories: Array<Pick<Category, '_id' | 'name'>>;
+  usageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UntrackedTag {
+  name: string;
+  usageCount: number;
+}
+
+export interface TagInput {
+  name: string;
+  synonyms: string[];
+  categories: string[];
+}
+
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  rule: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface ContentLint {
+  errors: number;
+  warnings: number;
+  issues: LintIssue[];
+}
+
+export interface LintOverride {
+  reason: string;
+  user: string | null;
+  at: string;
+  rules: string[];
+}
+
+// Content held back from publishing by lint errors
+export interface BlockedContent {
+  _id: string;
+  title: string;
+  lint: ContentLint;
+}
+
+export interface LintRuleSettings {
+  enabled: boolean;
+  severity: LintSeverity;
+  options: Record<string, number | string[]>;
+  contentTypes: string[];
+}
+
+export interface LintRule extends LintRuleSettings {
+  id: string;
+  description: string;
+  defaults: LintRuleSettings;
+}
+
+export type SafetyReasonSource = 'banned-topic' | 'keyword' | 'regex' | 'classifier';
+
+export interface SafetyRule {
+  _id: string;
+  name: string;
+  type: 'keyword' | 'regex';
+  pattern: string;
+  reason: string;
+  categories: Array<Pick<Category, '_id' | 'name'>>;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SafetyRuleInput {
+  name: string;
+  type: 'keyword' | 'regex';
+  pattern: string;
+  reason: string;
+  categories: string[];
+  enabled: boolean;
+}
+
+export interface SafetyReason {
+  source: SafetyReasonSource;
+  rule: string;
+  match: string;
+}
+
+// Generated content the safety screening held back for moderation
+export interface SafetyScreening {
+  _id: string;
+  content: { _id: string; status: Content['status'] } | null;
+  category: Pick<Category, '_id' | 'name'> | null;
+  title: string;
+  contentType: string;
+  operation: 'generate' | 'rewrite';
+  reasons: SafetyReason[];
+  classifier: string | null;
+  createdAt: string;
+}
+
+export interface SafetyReport {
+  period: { from: string; to: string };
+  total: number;
+  bySource: Array<{ source: SafetyReasonSource; count: number }>;
+  byRule: Array<{ source: SafetyReasonSource; rule: string; count: number }>;
+  byCategory: Array<{ categoryId: string | null; categoryName: string; count: number }>;
+  items: SafetyScreening[];
+}
+
+// Image uploads, resized by the API to a card and a thumbnail variant
+export type ImagePurpose = 'content' | 'category';
+
+export interface ImageVariant {
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export interface UploadedImage {
+  url: string;
+  thumbnailUrl: string;
+  storage: string;
+  original: { format: string; width: number; height: number; bytes: number };
+  variants: { card: ImageVariant; thumbnail: ImageVariant };
+  // Set for generated cover images
+  provider?: string;
+  model?: string | null;
+}
+
+// Scheduled jobs and their run history
+// skipped: another API instance held the job lock
+export type JobRunStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface JobRun {
+  _id: string;
+  job: string;
+  trigger: 'cron' | 'manual';
+  triggeredBy: Pick<User, 'name' | 'email'> | string | null;
+  status: JobRunStatus;
+  // Instance that ran the job, and the one holding the lock when skipped
+  instance: string | null;
+  lockHolder: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  params: Record<string, number> | null;
+  // The result is a preview, nothing was changed
+  dryRun: boolean;
+  result: Record<string, unknown> | null;
+  error: { message: string; stack?: string } | null;
+  failures: Array<{ message: string; at: string }>;
+}
+
+export interface JobParamDefinition {
+  default: number;
+  min: number;
+  max: number;
+  description: string;
+}
+
+export interface JobSettings {
+  schedule: string;
+  timezone: string | null;
+  enabled: boolean;
+  params: Record<string, number>;
+}
+
+export interface ScheduledJob extends JobSettings {
+  name: string;
+  description: string;
+  paramDefinitions: Record<string, JobParamDefinition>;
+  defaults: JobSettings;
+  supportsDryRun: boolean;
+  running: boolean;
+  // Lease of the instance running the job
+  lock: { holder: string; acquiredAt: string; heartbeatAt: string; expiresAt: string } | null;
+  updatedAt: string | null;
+  // Only included in the job list
+  lastRun?: JobRun | null;
+}
+
+// Dry run of the daily refresh: what it would retire, publish and remove as duplicates
+export interface RefreshPreviewItem {
+  _id: string;
+  title: string;
+  status: Content['status'];
+}
+
+export interface RefreshPreviewCategory {
+  category: { _id: string; name: string | null };
+  // false for categories not due by their cadence or only affected by the duplicate cleanup
+  refreshed: boolean;
+  due: boolean;
+  nextRotationAt: string | null;
+  // null for categories only affected by the duplicate cleanup
+  policy: RotationPolicy | null;
+  generate: { count: number; difficulties: Partial<Record<RotationDifficulty, number>>; contentTypes: Partial<Record<RotationContentType, number>> };
+  retire: RefreshPreviewItem[];
+  // Top performers the policy keeps published
+  keep: RefreshPreviewItem[];
+  // Items of decks still showing in some time zone
+  live: RefreshPreviewItem[];
+  // Existing drafts the run publishes, oldest first
+  publish: RefreshPreviewItem[];
+  // Slots left for the items the run generates
+  publishNew: number;
+  eligibleDrafts: number;
+  lintBlocked: Array<RefreshPreviewItem & { errors: number }>;
+  duplicates: Array<RefreshPreviewItem & { duplicateOf: RefreshPreviewItem; similarity: number }>;
+}
+
+export interface DailyRefreshPreview {
+  dryRun: true;
+  // Date (YYYY-MM-DD) of the deck the run stages, each region sees it from its own midnight
+  deckDate: string;
+  totals: {
+    categories: number;
+    notDue: number;
+    generated: number;
+    cleanedUp: number;
+    kept: number;
+    live: number;
+    published: number;
+    publishedNew: number;
+    lintBlocked: number;
+    duplicates: number;
+  };
+  categories: RefreshPreviewCategory[];
+}
+
+// How the daily refresh rotates a category's content
+export type RotationCadence = 'daily' | 'every_n_days' | 'weekly';
+export type RotationDifficulty = 'beginner' | 'intermediate' | 'advanced';
+export type RotationContentType = 'hack' | 'hack2' | 'tip' | 'tip2' | 'quote';
+
+export interface RotationPolicy {
+  publishCount: number;
+  generateCount: number;
+  cadence: RotationCadence;
+  // Days between rotations for the every_n_days cadence
+  intervalDays: number;
+  // Shares of the generated items, all zero means the defaults
+  difficultyMix: Record<RotationDifficulty, number>;
+  // All zero means the category's content type only
+  contentTypeMix: Partial<Record<RotationContentType, number>>;
+  keepTopPerformers: boolean;
+}
+
+// Content the publication worker publishes at its publish date, shown on the calendar
+export interface ScheduledContent {
+  _id: string;
+  title: string;
+  summary?: string;
+  category: Pick<Category, '_id' | 'name' | 'slug' | 'icon' | 'color'> | null;
+  contentType: Content['contentType'];
+  difficulty: Content['difficulty'];
+  status: 'pending';
+  publishDate: string;
+  // When the worker archives it again
+  expiryDate: string | null;
+  moderationNotes?: string;
+}
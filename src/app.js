@@ -8,6 +8,9 @@ const adminRoutes = require('./routes/admin.routes');
 const subscriptionRoutes = require('./routes/subscription.routes');
 const promptRoutes = require('./routes/prompt.routes');
 const duplicateRoutes = require('./routes/duplicate.routes');
+const generationJobRoutes = require('./routes/generationJob.routes');
+const uploadRoutes = require('./routes/upload.routes');
+const localFileStorage = require('./services/storage/local.storage');
 
 const app = express();
 
@@ -22,4 +25,9 @@ app.use('/api/categories', categoryRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/subscription', subscriptionRoutes);
 app.use('/api/prompts', promptRoutes);
-app.use('/api/duplicates', duplicateRoutes); 
\ No newline at end of file
+app.use('/api/duplicates', duplicateRoutes);
+app.use('/api/generation-jobs', generationJobRoutes);
+app.use('/api/uploads', uploadRoutes);
+
+// Images stored by the local storage driver
+app.use('/uploads', express.static(localFileStorage.getUploadDir()));
@@ -5,7 +5,12 @@ const { SubscriptionPlan, SubscriptionTransaction } = require('../models/subscri
 const AppError = require('../utils/appError');
 const catchAsync = require('../utils/catchAsync');
 const contentService = require('../services/content.service');
+const publicationService = require('../services/publication.service');
 const promptService = require('../services/prompt.service');
+const generationJobService = require('../services/generationJob.service');
+const llm = require('../services/llm');
+const aiUsageService = require('../services/aiUsage.service');
+const contentLintService = require('../services/contentLint.service');
 
 // Content moderation
 exports.getPendingContent = catchAsync(async (req, res, next) => {
@@ -51,7 +56,7 @@ exports.getPendingContent = catchAsync(async (req, res, next) => {
 // Approve or reject content
 exports.moderateContent = catchAsync(async (req, res, next) => {
   const { id } = req.params;
-  const { action, notes } = req.body;
+  const { action, notes, overrideReason } = req.body;
   
   if (!['approve', 'reject'].includes(action)) {
     return next(new AppError('Action must be either approve or reject', 400));
@@ -63,6 +68,21 @@ exports.moderateContent = catchAsync(async (req, res, next) => {
     return next(new AppError('Content not found', 404));
   }
   
+  // Approving publishes, so lint errors block it unless overridden with a reason
+  if (action === 'approve') {
+    const check = await contentLintService.checkPublishable(content, { overrideReason, user: req.user });
+    if (!check.allowed) {
+      return res.status(400).json({
+        status: 'fail',
+        message: `Content has ${check.lint.errors} lint errors. Fix them or give a reason to publish anyway.`,
+        data: {
+          lint: check.lint,
+        },
+      });
+    }
+    content.lintOverride = check.lintOverride;
+  }
+  
   // Update content status based on action
   content.status = action === 'approve' ? 'published' : 'rejected';
   content.moderatorId = req.user.id;
@@ -91,14 +111,16 @@ exports.moderateContent = catchAsync(async (req, res, next) => {
 // Schedule content publication
 exports.scheduleContent = catchAsync(async (req, res, next) => {
   const { id } = req.params;
-  const { publishDate } = req.body;
+  const { publishDate, expiryDate } = req.body;
   
   if (!publishDate) {
     return next(new AppError('Publish date is required', 400));
   }
   
   try {
-    const scheduledContent = await contentService.scheduleContent(id, new Date(publishDate));
+    const scheduledContent = await contentService.scheduleContent(id, new Date(publishDate), {
+      expiryDate: expiryDate === undefined ? undefined : expiryDate && new Date(expiryDate),
+    });
     
     res.status(200).json({
       status: 'success',
@@ -112,6 +134,32 @@ exports.scheduleContent = catchAsync(async (req, res, next) => {
   }
 });
 
+// Scheduled publications in a date range, for the calendar
+exports.getScheduledContent = catchAsync(async (req, res, next) => {
+  const { from, to, category } = req.query;
+  const start = from ? new Date(from) : new Date();
+  const end = to ? new Date(to) : new Date(start.getTime() + 31 * 24 * 60 * 60 * 1000);
+  
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return next(new AppError('from and to must be dates', 400));
+  }
+  if (end <= start) {
+    return next(new AppError('to must be after from', 400));
+  }
+  
+  const content = await publicationService.getScheduledContent({ from: start, to: end, category });
+  
+  res.status(200).json({
+    status: 'success',
+    results: content.length,
+    data: {
+      from: start,
+      to: end,
+      content,
+    },
+  });
+});
+
 // Analytics: Content Performance
 exports.getContentAnalytics = catchAsync(async (req, res, next) => {
   const { timeframe = 'week', category } = req.query;
@@ -450,117 +498,107 @@ exports.generateContent = catchAsync(async (req, res, next) => {
     return next(new AppError('Please provide at least one category ID', 400));
   }
 
-  // Verify OpenAI API is properly configured
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("CRITICAL ERROR: OPENAI_API_KEY is missing in environment variables");
-    return next(new AppError('OpenAI API key is not configured. Please check your environment variables.', 500));
+  // Verify the LLM provider is properly configured
+  const provider = llm.getProvider();
+  if (!provider.isConfigured()) {
+    console.error(`CRITICAL ERROR: LLM provider "${provider.name}" is not configured`);
+    return next(new AppError(`LLM provider "${provider.name}" is not configured. Please check your environment variables.`, 500));
   }
   
   // Limit the count to prevent abuse
   const sanitizedCount = Math.min(Math.max(parseInt(count), 1), 50);
   
-  try {
-    const generatedContent = [];
-    const errors = [];
-    
-    // Process each category
-    for (const categoryId of categoryIds) {
-      try {
-        // Find the category
-        const category = await Category.findById(categoryId);
-        if (!category) {
-          errors.push(`Category with ID ${categoryId} not found`);
-          continue;
-        }
-        
-        console.log(`Generating content for category: ${category.name} (${categoryId})`);
-        
-        // Generate content for this category using the real OpenAI API
-        const contentService = require('../services/content.service');
-        const categoryContent = await contentService.generateMultipleContent(
-          category,
-          req.user,
-          contentType,
-          Math.ceil(sanitizedCount / categoryIds.length), // Distribute count across categories
-          'beginner',
-          'gpt-4-turbo-preview' // Force use of specific model
-        );
-        
-        console.log(`Generated ${categoryContent.length} content items for ${category.name}`);
-        generatedContent.push(...categoryContent);
-      } catch (err) {
-        console.error(`Error generating content for category ${categoryId}:`, err);
-        errors.push(`Error generating content for category ${categoryId}: ${err.message}`);
-      }
-    }
-    
-    if (generatedContent.length === 0) {
-      return next(new AppError(`Failed to generate content: ${errors.join('; ')}`, 500));
-    }
-    
-    res.status(201).json({
-      status: 'success',
-      data: {
-        content: generatedContent,
-        generated: generatedContent.length,
-        errors: errors.length > 0 ? errors : undefined
-      }
-    });
-  } catch (error) {
-    console.error("Content generation failed:", error);
-    return next(new AppError(`Content generation failed: ${error.message}`, 500));
+  const categories = await Category.find({ _id: { $in: categoryIds } });
+  
+  if (categories.length === 0) {
+    return next(new AppError('None of the provided categories were found', 404));
   }
+  
+  // Generation runs in the background worker, the client polls the job for progress
+  const job = await generationJobService.createGenerateMultipleJob({
+    categories,
+    user: req.user,
+    contentType,
+    count: Math.ceil(sanitizedCount / categories.length), // Distribute count across categories
+    difficulty: 'beginner',
+    model: 'gpt-4-turbo-preview' // Force use of specific model
+  });
+  
+  const missing = categoryIds.length - categories.length;
+  
+  res.status(202).json({
+    status: 'success',
+    message: 'Content generation job queued',
+    data: {
+      job,
+      errors: missing > 0 ? [`${missing} categories not found`] : undefined
+    }
+  });
 });
 
-// Test OpenAI API connection
+// Test the connection to the configured LLM provider
 exports.testOpenAIConnection = catchAsync(async (req, res, next) => {
+  const provider = llm.getProvider();
+  const model = req.query.model || 'gpt-4-turbo-preview';
+  const usageContext = { operation: 'test', user: req.user._id, source: 'user' };
+  let startTime = Date.now();
+  
   try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Check if the provider is configured
+    if (!provider.isConfigured()) {
       return res.status(500).json({
         status: 'fail',
-        message: 'OpenAI API key is not configured in environment variables'
+        message: `LLM provider "${provider.name}" is not configured in environment variables`
       });
     }
     
-    // Initialize OpenAI
-    const OpenAI = require('openai');
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: 30000,
-      maxRetries: 1,
-    });
-    
     // Make a simple test request
-    const startTime = Date.now();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo-preview",
+    startTime = Date.now();
+    const completion = await provider.complete({
+      model,
       messages: [
         { role: "system", content: "You are a helpful assistant." },
-        { role: "user", content: "Return the text 'OpenAI API is working correctly!' without any additional text." }
+        { role: "user", content: "Return the text 'LLM API is working correctly!' without any additional text." }
       ],
-      max_tokens: 20
+      maxTokens: 20
     });
     
     const responseTime = Date.now() - startTime;
-    const responseText = completion.choices[0].message.content.trim();
+    
+    await aiUsageService.recordUsage({
+      provider,
+      model: completion.model || model,
+      usage: completion.usage,
+      latencyMs: responseTime,
+      context: usageContext,
+    });
     
     res.status(200).json({
       status: 'success',
       data: {
-        message: 'OpenAI API test successful',
-        response: responseText,
+        message: 'LLM API test successful',
+        provider: provider.name,
+        response: completion.text,
         responseTime: `${responseTime}ms`,
         apiKeyConfigured: true,
-        model: "gpt-4-turbo-preview"
+        model: completion.model
       }
     });
   } catch (error) {
-    console.error('OpenAI API test error:', error);
+    console.error('LLM API test error:', error);
+    
+    await aiUsageService.recordUsage({
+      provider,
+      model,
+      latencyMs: Date.now() - startTime,
+      outcome: error.status === 429 ? 'rate_limited' : 'error',
+      error: error.message,
+      context: usageContext,
+    });
     
     res.status(500).json({
       status: 'fail',
-      message: `OpenAI API test failed: ${error.message}`,
+      message: `LLM API test failed (${provider.name}): ${error.message}`,
       error: {
         name: error.name,
         message: error.message,
@@ -687,7 +725,7 @@ exports.movePublishedToDeleted = catchAsync(async (req, res, next) => {
 
 // Bulk publish content items from draft to published status
 exports.bulkPublishContent = catchAsync(async (req, res, next) => {
-  const { contentIds } = req.body;
+  const { contentIds, overrideReason } = req.body;
   
   if (!contentIds || !Array.isArray(contentIds) || contentIds.length === 0) {
     return next(new AppError('Please provide an array of content IDs to publish', 400));
@@ -699,9 +737,22 @@ exports.bulkPublishContent = catchAsync(async (req, res, next) => {
   // Track successfully updated items
   let totalUpdated = 0;
   
+  // Items held back by lint errors, published only with an override reason
+  const blocked = [];
+  const lintRules = await contentLintService.getRules();
+  
   // Process each content ID
   for (const contentId of contentIds) {
     try {
+      const draft = await Content.findOne({ _id: contentId, status: 'draft' });
+      if (!draft) continue;
+      
+      const check = await contentLintService.checkPublishable(draft, { overrideReason, user: req.user, rules: lintRules });
+      if (!check.allowed) {
+        blocked.push({ _id: draft._id, title: draft.title, lint: check.lint });
+        continue;
+      }
+      
       // Find and update only if status is 'draft'
       const content = await Content.findOneAndUpdate(
         { 
@@ -712,7 +763,8 @@ exports.bulkPublishContent = catchAsync(async (req, res, next) => {
           status: 'published',
           publishDate: now,
           hasBeenPublished: true,
-          moderatorId: req.user._id
+          moderatorId: req.user._id,
+          lintOverride: check.lintOverride
         },
         {
           new: true,
@@ -731,9 +783,10 @@ exports.bulkPublishContent = catchAsync(async (req, res, next) => {
   
   res.status(200).json({
     status: 'success',
-    message: `Successfully published ${totalUpdated} out of ${contentIds.length} items`,
+    message: `Successfully published ${totalUpdated} out of ${contentIds.length} items${blocked.length > 0 ? `, ${blocked.length} held back by lint errors` : ''}`,
     data: {
-      totalUpdated
+      totalUpdated,
+      blocked
     }
   });
 });
@@ -0,0 +1,158 @@
+const AIUsage = require('../models/aiUsage.model');
+const AIBudget = require('../models/aiBudget.model');
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+const aiUsageService = require('../services/aiUsage.service');
+
+const parseDate = (value, name) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(`Invalid ${name} date`, 400);
+  }
+  return date;
+};
+
+// Spend analytics by day, model, category, outcome and source
+exports.getUsageAnalytics = catchAsync(async (req, res, next) => {
+  const from = parseDate(req.query.from, 'from');
+  const to = parseDate(req.query.to, 'to');
+
+  const analytics = await aiUsageService.getUsageAnalytics({ from, to });
+
+  res.status(200).json({
+    status: 'success',
+    data: analytics,
+  });
+});
+
+// List individual AI calls from the ledger
+exports.getUsageRecords = catchAsync(async (req, res, next) => {
+  const { category, model, outcome, source, generationJob, page = 1, limit = 50 } = req.query;
+
+  const filter = {};
+  if (category) filter.category = category;
+  if (model) filter.model = model;
+  if (outcome) filter.outcome = outcome;
+  if (source) filter.source = source;
+  if (generationJob) filter.generationJob = generationJob;
+
+  const from = parseDate(req.query.from, 'from');
+  const to = parseDate(req.query.to, 'to');
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = from;
+    if (to) filter.createdAt.$lte = to;
+  }
+
+  const skip = (page - 1) * limit;
+  const total = await AIUsage.countDocuments(filter);
+
+  const records = await AIUsage.find(filter)
+    .populate('category', 'name')
+    .populate('user', 'name email')
+    .sort('-createdAt')
+    .skip(skip)
+    .limit(parseInt(limit));
+
+  res.status(200).json({
+    status: 'success',
+    results: records.length,
+    pagination: {
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / limit),
+      limit: parseInt(limit),
+    },
+    data: {
+      records,
+    },
+  });
+});
+
+// List budgets with their spend for the current month
+exports.getBudgets = catchAsync(async (req, res, next) => {
+  const statuses = await aiUsageService.getBudgetStatus(null, { all: true });
+  const inactive = await AIBudget.find({ active: false }).populate('category', 'name');
+
+  const budgets = [
+    ...statuses.map(status => ({
+      ...status.budget.toObject(),
+      spent: status.spent,
+      ratio: Number.isFinite(status.ratio) ? status.ratio : 1,
+      exceeded: status.exceeded,
+      warning: status.warning,
+    })),
+    ...inactive.map(budget => budget.toObject()),
+  ];
+
+  res.status(200).json({
+    status: 'success',
+    results: budgets.length,
+    data: {
+      budgets,
+    },
+  });
+});
+
+// Create a monthly budget
+exports.createBudget = catchAsync(async (req, res, next) => {
+  const { name, scope, category, monthlyLimit, action, warnAt, active } = req.body;
+
+  const budget = await AIBudget.create({
+    name,
+    scope,
+    category: scope === 'category' ? category : null,
+    monthlyLimit,
+    action,
+    warnAt,
+    active,
+    createdBy: req.user.id,
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      budget,
+    },
+  });
+});
+
+// Update a monthly budget
+exports.updateBudget = catchAsync(async (req, res, next) => {
+  const allowed = ['name', 'monthlyLimit', 'action', 'warnAt', 'active'];
+  const updateData = {};
+  allowed.forEach(field => {
+    if (req.body[field] !== undefined) updateData[field] = req.body[field];
+  });
+
+  const budget = await AIBudget.findByIdAndUpdate(req.params.id, updateData, {
+    new: true,
+    runValidators: true,
+  });
+
+  if (!budget) {
+    return next(new AppError('Budget not found', 404));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      budget,
+    },
+  });
+});
+
+// Delete a monthly budget
+exports.deleteBudget = catchAsync(async (req, res, next) => {
+  const budget = await AIBudget.findByIdAndDelete(req.params.id);
+
+  if (!budget) {
+    return next(new AppError('Budget not found', 404));
+  }
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
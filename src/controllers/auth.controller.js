@@ -3,6 +3,7 @@ const { promisify } = require('util');
 const User = require('../models/user.model');
 const AppError = require('../utils/appError');
 const catchAsync = require('../utils/catchAsync');
+const { getDeviceTimezone } = require('../middleware/timezone.middleware');
 
 // Generate JWT token
 const signToken = (id) => {
@@ -42,6 +43,8 @@ exports.signup = catchAsync(async (req, res, next) => {
     name: req.body.name,
     email: req.body.email,
     password: req.body.password,
+    // Time zone of the device signing up, for the daily deck and streaks
+    timezone: getDeviceTimezone(req) || undefined,
     // Default role is 'user' as specified in schema
   });
   
@@ -74,8 +77,10 @@ exports.login = catchAsync(async (req, res, next) => {
     return next(new AppError('Your account is deactivated', 401));
   }
   
-  // Update last login time and streak
+  // Update last login time and streak, in the time zone of the device logging in
   user.lastLogin = Date.now();
+  const timezone = getDeviceTimezone(req);
+  if (timezone) user.timezone = timezone;
   user.updateStreak();
   await user.save({ validateBeforeSave: false });
   
@@ -2,6 +2,8 @@ const Category = require('../models/category.model');
 const Content = require('../models/content.model');
 const AppError = require('../utils/appError');
 const catchAsync = require('../utils/catchAsync');
+const promptVersionService = require('../services/promptVersion.service');
+const promptService = require('../services/prompt.service');
 
 // Get all categories (public)
 exports.getAllCategories = catchAsync(async (req, res, next) => {
@@ -46,6 +48,9 @@ exports.getCategory = catchAsync(async (req, res, next) => {
 
 // Create category (admin only)
 exports.createCategory = catchAsync(async (req, res, next) => {
+  // Prompts are templates, reject syntax errors before saving
+  promptVersionService.CATEGORY_PROMPT_FIELDS.forEach(field => promptService.assertValidTemplate(req.body[field], field));
+  
   try {
     // Debug contentType
     console.log('DEBUG [BACKEND_CREATE] Received data:', req.body);
@@ -64,6 +69,7 @@ exports.createCategory = catchAsync(async (req, res, next) => {
       name: req.body.name,
       description: req.body.description || `Category for ${req.body.name}`,
       icon: req.body.icon || 'default',
+      iconThumbnail: req.body.iconThumbnail || null,
       color: req.body.color || '#3498db',
       slug: req.body.slug || req.body.name.toLowerCase().replace(/[^\w\s]/gi, '').replace(/\s+/g, '-'),
       priority: req.body.priority || 0,
@@ -72,8 +78,10 @@ exports.createCategory = catchAsync(async (req, res, next) => {
       singlePrompt: req.body.singlePrompt || null,
       multiplePrompt: req.body.multiplePrompt || null,
       promptType: req.body.promptType || 'single',
+      bannedTopics: req.body.bannedTopics || [],
       defaultNumToGenerate: 1, // Always generate exactly one content item when creating a category
       contentType: req.body.contentType || 'hack',
+      rotation: req.body.rotation,
       createdBy: createdBy
     };
     
@@ -82,6 +90,19 @@ exports.createCategory = catchAsync(async (req, res, next) => {
     
     const newCategory = await Category.create(categoryData);
     
+    // Start the prompt history with the initial prompts
+    for (const field of promptVersionService.CATEGORY_PROMPT_FIELDS) {
+      if (newCategory[field]) {
+        await promptVersionService.recordVersion({
+          category: newCategory._id,
+          field,
+          text: newCategory[field],
+          author: req.user?.id || null,
+          changeNote: req.body.changeNote || 'Initial version',
+        });
+      }
+    }
+    
     console.log('DEBUG [BACKEND_CREATE] Created category:', {
       name: newCategory.name,
       contentType: newCategory.contentType
@@ -109,11 +130,15 @@ exports.createCategory = catchAsync(async (req, res, next) => {
 exports.updateCategory = catchAsync(async (req, res, next) => {
   const { id } = req.params;
   
+  // Prompts are templates, reject syntax errors before saving
+  promptVersionService.CATEGORY_PROMPT_FIELDS.forEach(field => promptService.assertValidTemplate(req.body[field], field));
+  
   // Include all updatable fields
   const updateData = {
     name: req.body.name,
     description: req.body.description,
     icon: req.body.icon,
+    iconThumbnail: req.body.iconThumbnail,
     color: req.body.color,
     priority: req.body.priority,
     active: req.body.active,
@@ -121,8 +146,10 @@ exports.updateCategory = catchAsync(async (req, res, next) => {
     singlePrompt: req.body.singlePrompt,
     multiplePrompt: req.body.multiplePrompt,
     promptType: req.body.promptType,
+    bannedTopics: req.body.bannedTopics,
     defaultNumToGenerate: req.body.defaultNumToGenerate,
-    contentType: req.body.contentType
+    contentType: req.body.contentType,
+    rotation: req.body.rotation
   };
   
   // Debug contentType
@@ -145,9 +172,17 @@ exports.updateCategory = catchAsync(async (req, res, next) => {
   
   console.log('DEBUG [BACKEND_UPDATE] Final update data:', updateData);
 
-  // Use Model.findOneAndUpdate directly with $set to force updates
+  // Load the category once; its prompts are what edits are versioned against
+  const before = await Category.findById(id);
+  
+  if (!before) {
+    return next(new AppError('Category not found', 404));
+  }
+
+  // Only apply the update if nobody saved the category since it was loaded,
+  // so every version is recorded against the text it actually replaced
   const updatedCategory = await Category.findOneAndUpdate(
-    { _id: id },
+    { _id: id, updatedAt: before.updatedAt },
     { $set: updateData },
     {
       new: true,
@@ -156,9 +191,16 @@ exports.updateCategory = catchAsync(async (req, res, next) => {
   );
   
   if (!updatedCategory) {
-    return next(new AppError('Category not found', 404));
+    return next(new AppError('Category was changed by someone else, reload it and try again', 409));
   }
   
+  await promptVersionService.recordCategoryPromptChanges(
+    before,
+    updatedCategory,
+    req.user.id,
+    req.body.changeNote || null
+  );
+  
   console.log('DEBUG [BACKEND_UPDATE] Updated category:', {
     name: updatedCategory.name,
     contentType: updatedCategory.contentType
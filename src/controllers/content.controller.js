@@ -5,8 +5,25 @@ const User = require('../models/user.model');
 const DeletedContent = require('../models/deletedContent.model');
 const AppError = require('../utils/appError');
 const catchAsync = require('../utils/catchAsync');
+const { QUOTE_FIELDS, formatQuote, pickQuoteFields } = require('../utils/quoteAttribution');
 const contentService = require('../services/content.service');
 const schedulerService = require('../services/scheduler.service');
+const generationJobService = require('../services/generationJob.service');
+const translationService = require('../services/translation.service');
+const contentRevisionService = require('../services/contentRevision.service');
+const contentLintService = require('../services/contentLint.service');
+const imageService = require('../services/image.service');
+const { getSupportedLocales, getDefaultLocale, getLocaleName } = require('../utils/locale');
+const { getDateKey, getDayWindow } = require('../utils/timezone');
+
+// Publishing was blocked by lint errors, send them so the editor can fix or override them
+const sendLintErrors = (res, lint) => res.status(400).json({
+  status: 'fail',
+  message: `Content has ${lint.errors} lint errors. Fix them or give a reason to publish anyway.`,
+  data: {
+    lint
+  }
+});
 
 // Get content types
 exports.getContentTypes = catchAsync(async (req, res) => {
@@ -19,6 +36,17 @@ exports.getContentTypes = catchAsync(async (req, res) => {
   });
 });
 
+// Get the locales content can be served in
+exports.getLocales = catchAsync(async (req, res) => {
+  res.status(200).json({
+    status: 'success',
+    data: {
+      locales: getSupportedLocales().map(code => ({ code, name: getLocaleName(code) })),
+      defaultLocale: getDefaultLocale(),
+    },
+  });
+});
+
 // Get all content with pagination and filtering
 exports.getAllContent = catchAsync(async (req, res, next) => {
   const { 
@@ -116,11 +144,17 @@ exports.getAllContent = catchAsync(async (req, res, next) => {
     .skip(skip)
     .limit(parseInt(limit));
     
+  // Lint results for the badges of the admin panel
+  const lintResults = ['admin', 'moderator', 'content-creator'].includes(req.user.role)
+    ? await contentLintService.lint(content)
+    : [];
+  
   // Process content to include formatted creation dates in the response
-  const contentWithDates = content.map(item => {
+  const contentWithDates = content.map((item, index) => {
     const contentObj = item.toObject();
     // Add formatted creation date for admin panel display
     contentObj.formattedCreatedAt = item.createdAt ? new Date(item.createdAt).toLocaleString() : 'Unknown';
+    if (lintResults[index]) contentObj.lint = lintResults[index];
     return contentObj;
   });
   
@@ -164,14 +198,14 @@ exports.getDailyContent = catchAsync(async (req, res, next) => {
     query.premium = false;
   }
   
-  // Get today's date range (start and end of day)
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  // Find content published today or recycled for today
-  query.publishDate = { $gte: today, $lt: tomorrow };
+  // Today in the user's time zone: each category's current deck, or content
+  // published during their day outside a staged deck
+  const day = getDayWindow(req.timezone);
+  const currentDecks = await contentService.getCurrentDecks(day.date, query.category ? { category: query.category } : {});
+  query.$or = [
+    ...currentDecks,
+    { deckDate: null, publishDate: { $gte: day.start, $lt: day.end } },
+  ];
   
   // Get content for user with limit based on subscription tier
   let limit = 5; // Default for free tier
@@ -204,6 +238,8 @@ exports.getDailyContent = catchAsync(async (req, res, next) => {
         status: 'published',
         _id: { $nin: [...viewedContentIds, ...content.map(c => c._id)] },
         pool,
+        // Decks other than the current ones are not shown early or late
+        $or: [{ deckDate: null }, ...currentDecks],
       };
       
       // Apply category and contentType filters
@@ -241,8 +277,11 @@ exports.getDailyContent = catchAsync(async (req, res, next) => {
   res.status(200).json({
     status: 'success',
     results: content.length,
+    locale: req.locale,
+    timezone: req.timezone,
+    date: day.date,
     data: {
-      content,
+      content: content.map(item => item.localize(req.locale)),
     },
   });
 });
@@ -494,66 +533,108 @@ exports.generateContent = async (req, res, next) => {
 };
 
 // Generate multiple content items
-exports.generateMultipleContent = async (req, res, next) => {
-  try {
-    const { categoryId, contentType, count, difficulty, model } = req.body;
-    
-    if (!categoryId) {
-      return next(new AppError('Category ID is required', 400));
+exports.generateMultipleContent = catchAsync(async (req, res, next) => {
+  const { categoryId, categoryIds, contentType, count, difficulty, model } = req.body;
+  
+  // Accept a single category or a list of categories
+  const requestedIds = Array.isArray(categoryIds) && categoryIds.length > 0
+    ? categoryIds
+    : (categoryId ? [categoryId] : []);
+  
+  if (requestedIds.length === 0) {
+    return next(new AppError('Category ID is required', 400));
+  }
+  
+  const user = req.user;
+  if (!user) {
+    return next(new AppError('Authentication required', 401));
+  }
+  
+  // Retrieve full category objects
+  const categories = await Category.find({ _id: { $in: requestedIds } });
+  
+  if (categories.length !== requestedIds.length) {
+    return next(new AppError('Category not found', 404));
+  }
+  
+  // Count is capped per category; each category falls back to its own defaultNumToGenerate
+  const effectiveCount = count ? Math.min(Math.max(parseInt(count), 1), 50) : null;
+  
+  // Log the model being used
+  const effectiveModel = model || 'gpt-4o';
+  console.log(`Queueing generation job for ${categories.length} categories with model: ${effectiveModel}`);
+  
+  // Generation runs in the background worker, the client polls the job for progress
+  const job = await generationJobService.createGenerateMultipleJob({
+    categories,
+    user,
+    contentType,
+    count: effectiveCount,
+    difficulty: difficulty || 'beginner',
+    model: effectiveModel
+  });
+  
+  res.status(202).json({
+    status: 'success',
+    message: 'Content generation job queued',
+    data: {
+      job
     }
-    
-    // Retrieve full category object
-    const category = await Category.findById(categoryId);
-    
-    if (!category) {
-      return next(new AppError('Category not found', 404));
+  });
+});
+
+// Queue one generation job for several categories, each entry with its own settings.
+// The job runs on the server, the dashboard follows it through /generation-jobs.
+exports.generateBatchContent = catchAsync(async (req, res, next) => {
+  const { entries } = req.body;
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return next(new AppError('Provide entries as a list of { categoryId, contentType, count, difficulty, model }', 400));
+  }
+
+  const contentTypes = Content.schema.path('contentType').enumValues;
+  const difficulties = Content.schema.path('difficulty').enumValues;
+
+  for (const entry of entries) {
+    if (!entry || !entry.categoryId) {
+      return next(new AppError('Every batch entry needs a categoryId', 400));
     }
-    
-    // Use category's contentType if not explicitly provided
-    // This makes the contentType in the request optional
-    const effectiveContentType = contentType || category.contentType || 'hack';
-    
-    console.log(`Using content type: ${effectiveContentType} for category: ${category.name}`);
-    
-    // Use category's defaultNumToGenerate if count not provided
-    const effectiveCount = count || category.defaultNumToGenerate || 5;
-    
-    // Log the model being used
-    const effectiveModel = model || 'gpt-4o';
-    console.log(`Making OpenAI API call with model: ${effectiveModel}`);
-    
-    const user = req.user;
-    if (!user) {
-      return next(new AppError('Authentication required', 401));
+    if (entry.contentType && !contentTypes.includes(entry.contentType)) {
+      return next(new AppError(`Unknown content type "${entry.contentType}". Use one of: ${contentTypes.join(', ')}`, 400));
     }
-    
-    try {
-      const contentService = require('../services/content.service');
-      const generatedContent = await contentService.generateMultipleContent(
-        category,
-        user,
-        effectiveContentType,
-        effectiveCount,
-        difficulty || 'beginner',
-        effectiveModel // Pass the model parameter
-      );
-      
-      res.status(201).json({
-        status: 'success',
-        results: generatedContent.length,
-        data: {
-          content: generatedContent
-        }
-      });
-    } catch (genError) {
-      console.error('Error in content generation service:', genError);
-      return next(new AppError(`Generation service error: ${genError.message}`, 500));
+    if (entry.difficulty && !difficulties.includes(entry.difficulty)) {
+      return next(new AppError(`Unknown difficulty "${entry.difficulty}". Use one of: ${difficulties.join(', ')}`, 400));
     }
-  } catch (error) {
-    console.error('Error in content generation controller:', error);
-    return next(new AppError(`Failed to generate content: ${error.message}`, 500));
   }
-};
+
+  const categoryIds = [...new Set(entries.map(entry => String(entry.categoryId)))];
+  const categories = await Category.find({ _id: { $in: categoryIds } });
+
+  if (categories.length !== categoryIds.length) {
+    return next(new AppError('Category not found', 404));
+  }
+
+  const job = await generationJobService.createBatchJob({
+    entries: entries.map(entry => ({
+      category: categories.find(category => category._id.toString() === String(entry.categoryId)),
+      contentType: entry.contentType,
+      count: entry.count,
+      difficulty: entry.difficulty,
+      model: entry.model,
+    })),
+    user: req.user,
+  });
+
+  console.log(`Queued batch generation job ${job._id} with ${entries.length} entries`);
+
+  res.status(202).json({
+    status: 'success',
+    message: 'Batch generation job queued',
+    data: {
+      job
+    }
+  });
+});
 
 // Add an endpoint for retrieving content by pool
 exports.getContentByPool = catchAsync(async (req, res, next) => {
@@ -579,8 +660,9 @@ exports.getContentByPool = catchAsync(async (req, res, next) => {
     status: 'success',
     success: true,
     results: content.length,
+    locale: req.locale,
     data: {
-      content,
+      content: content.map(item => item.localize(req.locale)),
     },
   });
 });
@@ -598,50 +680,14 @@ exports.rewriteContent = catchAsync(async (req, res, next) => {
   }
   
   try {
-    // Get the content service
-    const contentService = require('../services/content.service');
-    
-    // Create a custom rewrite prompt
-    const rewritePrompt = `
-You are a content rewriting assistant. Take the following content and rewrite it completely 
-to make it unique while preserving the core information and value. Use different wording, 
-structure, and examples, but maintain the same overall message and advice.
-
-Original Content:
-Title: ${content.title}
-Body: ${content.body}
-
-Rewrite this content to be completely unique. Return your response as valid JSON with 
-title, body, and summary fields.
-`;
-    
-    // Generate new content based on the old one
-    const newContent = await contentService.generateWithAI(
-      content.category, // Pass the category for context
-      null, // No specific topic
-      content.difficulty, // Keep same difficulty
-      rewritePrompt, // Custom rewrite prompt
-      model // Use the specified model
-    );
-    
-    // Update the content with new version
-    content.title = newContent.title;
-    content.body = newContent.body;
-    content.summary = newContent.summary;
-    content.updatedAt = Date.now();
-    content.lastRewriteDate = Date.now();
-    
-    // If tags were generated, use them, otherwise keep existing
-    if (newContent.tags && newContent.tags.length > 0) {
-      content.tags = newContent.tags;
-    }
-    
-    // Save the updated content
-    await content.save();
+    // Rewrite through the content service so the configured LLM provider is used
+    await contentService.rewriteContent(content, model, { user: req.user._id, source: 'user' });
     
     res.status(200).json({
       status: 'success',
-      message: 'Content rewritten successfully',
+      message: content.status === 'pending'
+        ? 'Content rewritten and held for review by safety screening'
+        : 'Content rewritten successfully',
       data: {
         content
       }
@@ -682,6 +728,17 @@ exports.getContentByCategory = catchAsync(async (req, res, next) => {
     filter.status = status;
   }
   
+  // Published items of the category's current deck in the device's time zone,
+  // staged decks show from their day until the next one replaces them
+  const currentDecks = mongoose.Types.ObjectId.isValid(categoryId)
+    ? await contentService.getCurrentDecks(getDateKey(new Date(), req.timezone), { category: new mongoose.Types.ObjectId(categoryId) })
+    : [];
+  filter.$or = [
+    { status: { $ne: 'published' } },
+    { deckDate: null },
+    ...currentDecks,
+  ];
+  
   // İçerik tipi filtresi için gelişmiş mantık ekleyelim
   if (contentType) {
     // Tutarsızlıkları gidermek için benzer içerik tiplerini birleştirelim
@@ -717,7 +774,7 @@ exports.getContentByCategory = catchAsync(async (req, res, next) => {
   // Find content matching the filter - BUT REMOVE LIMIT TEMPORARILY for debugging purposes
   const content = await Content.find(filter)
     .sort('-publishDate')
-    .select('title body summary category contentType status difficulty tags pool stats hasBeenPublished publishDate');
+    .select('title body summary quoteText author sourceTitle sourceYear locale translations category contentType status difficulty tags pool stats hasBeenPublished publishDate');
   
   // Log detailed results
   console.log(`API.getContentByCategory - Found ${content.length} content items with filter:`, JSON.stringify(filter));
@@ -727,12 +784,14 @@ exports.getContentByCategory = catchAsync(async (req, res, next) => {
   console.log(`API.getContentByCategory - Items with hasBeenPublished=true: ${hasBeenPublishedCount}`);
   
   // Limit results for actual response to avoid performance issues
-  const limitedContent = content.slice(0, parseInt(limit));
+  // Served in the requested locale; quotes always carry their attribution as separate fields
+  const limitedContent = content.slice(0, parseInt(limit)).map(item => item.localize(req.locale));
   
   // Return empty array instead of 404 when no content found
   res.status(200).json({
     status: 'success',
     results: limitedContent.length,
+    locale: req.locale,
     debug: {
       totalInCategory,
       publishedInCategory,
@@ -1277,6 +1336,7 @@ exports.createContent = catchAsync(async (req, res, next) => {
   }
   
   const newContent = await Content.create(contentData);
+  await contentRevisionService.recordRevision(newContent, { source: 'initial', user: req.user._id });
   
   res.status(201).json({
     status: 'success',
@@ -1291,6 +1351,43 @@ exports.updateContent = catchAsync(async (req, res, next) => {
   const { id } = req.params;
   const updateData = req.body;
   
+  const existing = await Content.findById(id);
+  if (!existing) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  // The body of a structured quote follows its attribution
+  if (QUOTE_FIELDS.some(field => field in updateData)) {
+    const quote = pickQuoteFields(existing);
+    QUOTE_FIELDS.filter(field => field in updateData).forEach(field => {
+      quote[field] = updateData[field];
+    });
+    if ((updateData.contentType || existing.contentType) === 'quote' && quote.quoteText) {
+      updateData.body = formatQuote(quote);
+    }
+  }
+  
+  // Publishing through an edit passes the same lint check as publishContent
+  const { overrideReason } = updateData;
+  delete updateData.overrideReason;
+  delete updateData.lintOverride;
+  if (updateData.status === 'published' && existing.status !== 'published') {
+    const check = await contentLintService.checkPublishable({ ...existing.toObject(), ...updateData }, { overrideReason, user: req.user });
+    if (!check.allowed) {
+      return sendLintErrors(res, check.lint);
+    }
+    updateData.lintOverride = check.lintOverride;
+  }
+  
+  // Translations no longer match once the original text changes
+  const staleTranslations = ['title', 'summary', 'body', 'quoteText'].some(field => field in updateData) && !('translations' in updateData);
+  
+  // Keep the state before the edit, so it can be restored
+  const revisesContent = contentRevisionService.REVISION_FIELDS.some(field => field in updateData);
+  if (revisesContent) {
+    await contentRevisionService.ensureCurrentRevision(existing);
+  }
+  
   const content = await Content.findByIdAndUpdate(id, updateData, {
     new: true, // Return updated document
     runValidators: true // Run validators against update
@@ -1300,6 +1397,21 @@ exports.updateContent = catchAsync(async (req, res, next) => {
     return next(new AppError('Content not found', 404));
   }
   
+  // A separate update, $[] fails on content saved before it had translations
+  if (staleTranslations && content.translations && content.translations.length > 0) {
+    await Content.updateOne(
+      { _id: content._id, 'translations.0': { $exists: true } },
+      { $set: { 'translations.$[].stale': true } }
+    );
+    content.translations.forEach(translation => {
+      translation.stale = true;
+    });
+  }
+  
+  if (revisesContent) {
+    await contentRevisionService.recordRevision(content, { source: 'manual', user: req.user._id });
+  }
+  
   res.status(200).json({
     status: 'success',
     data: {
@@ -1366,10 +1478,40 @@ exports.deleteContent = catchAsync(async (req, res, next) => {
   });
 });
 
+// Check a content item against the lint rules
+exports.getContentLint = catchAsync(async (req, res, next) => {
+  const content = await Content.findById(req.params.id);
+  
+  if (!content) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  const lint = await contentLintService.lint(content);
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      lint,
+      lintOverride: content.lintOverride
+    }
+  });
+});
+
 // Publish content
 exports.publishContent = catchAsync(async (req, res, next) => {
   const { id } = req.params;
-  const { publishDate } = req.body;
+  const { publishDate, overrideReason } = req.body;
+  
+  const existing = await Content.findById(id);
+  if (!existing) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  // Lint errors block publishing unless overridden with a reason
+  const check = await contentLintService.checkPublishable(existing, { overrideReason, user: req.user });
+  if (!check.allowed) {
+    return sendLintErrors(res, check.lint);
+  }
   
   // Set default publish date to now if not provided
   const effectivePublishDate = publishDate ? new Date(publishDate) : new Date();
@@ -1380,7 +1522,8 @@ exports.publishContent = catchAsync(async (req, res, next) => {
       status: 'published',
       publishDate: effectivePublishDate,
       hasBeenPublished: true,
-      moderatorId: req.user._id
+      moderatorId: req.user._id,
+      lintOverride: check.lintOverride
     },
     {
       new: true,
@@ -1392,6 +1535,10 @@ exports.publishContent = catchAsync(async (req, res, next) => {
     return next(new AppError('Content not found', 404));
   }
   
+  // Translations into AUTO_TRANSLATE_LOCALES are made in the background
+  translationService.autoTranslate(content, req.user)
+    .catch(error => console.error(`Automatic translation of content ${id} failed:`, error.message));
+  
   res.status(200).json({
     status: 'success',
     data: {
@@ -1450,6 +1597,10 @@ exports.archiveContent = catchAsync(async (req, res, next) => {
     return next(new AppError('Content not found', 404));
   }
   
+  // Translations into AUTO_TRANSLATE_LOCALES are made in the background
+  translationService.autoTranslate(content, req.user)
+    .catch(error => console.error(`Automatic translation of content ${id} failed:`, error.message));
+  
   res.status(200).json({
     status: 'success',
     data: {
@@ -1603,34 +1754,151 @@ exports.markPromptExpiredPublic = catchAsync(async (req, res) => {
 
 // Manual trigger for daily content refresh - protected admin endpoint
 exports.triggerDailyContentRefresh = catchAsync(async (req, res, next) => {
-  try {
-    // Only allow admins to trigger this
-    if (req.user.role !== 'admin') {
-      return next(new AppError('Not authorized. Only admins can trigger daily content refresh.', 403));
-    }
-    
-    console.log('Manual trigger of daily content refresh requested by admin:', req.user.name);
-    
-    // Call the cleanupAndRefreshContent function directly
-    const results = await schedulerService.cleanupAndRefreshContent();
+  // Only allow admins to trigger this
+  if (req.user.role !== 'admin') {
+    return next(new AppError('Not authorized. Only admins can trigger daily content refresh.', 403));
+  }
+  
+  // A dry run returns what the refresh would do, nothing is changed and no AI is called.
+  // Like the refresh it previews, it rotates every category whatever its cadence.
+  if (req.body.dryRun === true || req.query.dryRun === 'true') {
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true, ignoreCadence: true });
     
-    // Return results
-    res.status(200).json({
+    return res.status(200).json({
       status: 'success',
-      message: 'Daily content refresh completed successfully',
       data: {
-        categories: results.categories,
-        generated: results.generated,
-        cleanedUp: results.cleanedUp,
-        published: results.published,
-        duplicates: results.duplicates || {
-          processed: 0,
-          deleted: 0
-        }
+        preview
       }
     });
-  } catch (error) {
-    console.error('Error during manual content refresh:', error);
-    return next(new AppError(`Failed to complete daily content refresh: ${error.message}`, 500));
   }
-});
\ No newline at end of file
+  
+  console.log('Manual trigger of daily content refresh requested by admin:', req.user.name);
+  
+  // The refresh runs in the background worker, the client polls the job for progress
+  const { job, existing } = await generationJobService.createDailyRefreshJob(req.user);
+  
+  res.status(202).json({
+    status: 'success',
+    message: existing
+      ? 'A daily content refresh is already in progress'
+      : 'Daily content refresh job queued',
+    data: {
+      job
+    }
+  });
+});
+
+// Add or replace a hand-written translation
+exports.saveTranslation = catchAsync(async (req, res, next) => {
+  const content = await Content.findById(req.params.id);
+  
+  if (!content) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  await translationService.setTranslation(content, req.params.locale, req.body, { source: 'human', user: req.user._id });
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      content
+    }
+  });
+});
+
+// Translate content into a locale with AI
+exports.generateTranslation = catchAsync(async (req, res, next) => {
+  const content = await Content.findById(req.params.id);
+  
+  if (!content) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  await translationService.translateContent(content, req.params.locale, { model: req.body.model, user: req.user });
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      content
+    }
+  });
+});
+
+// Remove a translation
+exports.deleteTranslation = catchAsync(async (req, res, next) => {
+  const content = await Content.findById(req.params.id);
+  
+  if (!content) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  await translationService.removeTranslation(content, req.params.locale);
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      content
+    }
+  });
+});
+
+// List the revisions of a content item
+exports.getContentRevisions = catchAsync(async (req, res, next) => {
+  const revisions = await contentRevisionService.listRevisions(req.params.id);
+  
+  res.status(200).json({
+    status: 'success',
+    results: revisions.length,
+    data: {
+      revisions
+    }
+  });
+});
+
+// Compare two revisions of a content item
+exports.diffContentRevisions = catchAsync(async (req, res, next) => {
+  const { from, to } = req.query;
+  
+  if (!from) {
+    return next(new AppError('The revision to compare from is required', 400));
+  }
+  
+  const result = await contentRevisionService.diffRevisions(req.params.id, from, to);
+  
+  res.status(200).json({
+    status: 'success',
+    data: result
+  });
+});
+
+// Restore an older revision of a content item
+exports.restoreContentRevision = catchAsync(async (req, res, next) => {
+  const { revision, content } = await contentRevisionService.restoreRevision(req.params.id, req.params.revisionId, req.user._id);
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      revision,
+      content
+    }
+  });
+});
+
+// Generate a cover image from the title with the image generation provider
+exports.generateCoverImage = catchAsync(async (req, res, next) => {
+  const content = await Content.findById(req.params.id).populate('category', 'name');
+  
+  if (!content) {
+    return next(new AppError('Content not found', 404));
+  }
+  
+  const image = await imageService.generateCoverImage(content);
+  
+  res.status(200).json({
+    status: 'success',
+    data: {
+      image,
+      content
+    }
+  });
+});
@@ -0,0 +1,108 @@
+const GenerationJob = require('../models/generationJob.model');
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+const generationJobService = require('../services/generationJob.service');
+
+// Admins and moderators can see every job, other users only their own
+const canAccessJob = (user, job) => {
+  if (['admin', 'moderator'].includes(user.role)) return true;
+  const ownerId = job.createdBy && job.createdBy._id ? job.createdBy._id : job.createdBy;
+  return ownerId && ownerId.toString() === user.id;
+};
+
+const loadAccessibleJob = async (req) => {
+  const job = await GenerationJob.findById(req.params.id).select('createdBy');
+
+  if (!job) {
+    throw new AppError('Generation job not found', 404);
+  }
+
+  if (!canAccessJob(req.user, job)) {
+    throw new AppError('You do not have permission to access this job', 403);
+  }
+
+  return job;
+};
+
+// List generation jobs
+exports.getAllJobs = catchAsync(async (req, res, next) => {
+  const { status, type, page = 1, limit = 20 } = req.query;
+
+  const filter = {};
+  if (status) filter.status = status;
+  if (type) filter.type = type;
+
+  if (!['admin', 'moderator'].includes(req.user.role)) {
+    filter.createdBy = req.user.id;
+  }
+
+  const skip = (page - 1) * limit;
+  const total = await GenerationJob.countDocuments(filter);
+
+  const jobs = await GenerationJob.find(filter)
+    .select('-items.contentIds')
+    .populate('createdBy', 'name email')
+    .sort('-createdAt')
+    .skip(skip)
+    .limit(parseInt(limit));
+
+  res.status(200).json({
+    status: 'success',
+    results: jobs.length,
+    pagination: {
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / limit),
+      limit: parseInt(limit),
+    },
+    data: {
+      jobs,
+    },
+  });
+});
+
+// Get a job with per-item progress and the content generated so far
+exports.getJob = catchAsync(async (req, res, next) => {
+  await loadAccessibleJob(req);
+
+  const job = await generationJobService.getJob(req.params.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      job,
+    },
+  });
+});
+
+// Cancel a queued or running job
+exports.cancelJob = catchAsync(async (req, res, next) => {
+  await loadAccessibleJob(req);
+
+  const job = await generationJobService.cancelJob(req.params.id);
+
+  res.status(200).json({
+    status: 'success',
+    message: job.status === 'cancelled'
+      ? 'Generation job cancelled'
+      : 'Cancellation requested, the job will stop after the current item',
+    data: {
+      job,
+    },
+  });
+});
+
+// Retry the failed and cancelled items of a job
+exports.retryJob = catchAsync(async (req, res, next) => {
+  await loadAccessibleJob(req);
+
+  const job = await generationJobService.retryJob(req.params.id);
+
+  res.status(202).json({
+    status: 'success',
+    message: 'Generation job queued for retry',
+    data: {
+      job,
+    },
+  });
+});
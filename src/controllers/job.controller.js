@@ -0,0 +1,90 @@
+const catchAsync = require('../utils/catchAsync');
+const schedulerService = require('../services/scheduler.service');
+const jobRunService = require('../services/jobRun.service');
+
+// Scheduled jobs with their settings and latest run
+exports.getJobs = catchAsync(async (req, res, next) => {
+  const jobs = await schedulerService.getJobs();
+  const latestRuns = await jobRunService.getLatestRuns(jobs.map(job => job.name));
+
+  res.status(200).json({
+    status: 'success',
+    results: jobs.length,
+    data: {
+      jobs: jobs.map(job => ({ ...job, lastRun: latestRuns[job.name] || null })),
+      schedulerEnabled: process.env.ENABLE_SCHEDULER === 'true',
+    },
+  });
+});
+
+// Change the schedule, time zone, parameters or enabled flag of a job
+exports.updateJob = catchAsync(async (req, res, next) => {
+  const { schedule, timezone, enabled, params } = req.body;
+
+  const job = await schedulerService.updateJob(req.params.name, { schedule, timezone, enabled, params }, req.user);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      job,
+    },
+  });
+});
+
+// Back to the default settings of a job
+exports.resetJob = catchAsync(async (req, res, next) => {
+  const job = await schedulerService.resetJob(req.params.name);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      job,
+    },
+  });
+});
+
+// Run history, optionally of one job
+exports.getJobRuns = catchAsync(async (req, res, next) => {
+  const { job, status, page, limit } = req.query;
+
+  const { runs, total, page: currentPage, pages } = await jobRunService.listRuns({ job, status, page, limit });
+
+  res.status(200).json({
+    status: 'success',
+    results: runs.length,
+    pagination: {
+      total,
+      page: currentPage,
+      pages,
+    },
+    data: {
+      runs,
+    },
+  });
+});
+
+exports.getJobRun = catchAsync(async (req, res, next) => {
+  const run = await jobRunService.getRun(req.params.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      run,
+    },
+  });
+});
+
+// Start a job now, the run is returned while it is still running.
+// With dryRun the run only records what the job would do.
+exports.runJob = catchAsync(async (req, res, next) => {
+  const dryRun = req.body.dryRun === true || req.query.dryRun === 'true';
+  const run = await schedulerService.runJob(req.params.name, { trigger: 'manual', user: req.user, wait: false, dryRun });
+
+  res.status(202).json({
+    status: 'success',
+    message: dryRun ? `Dry run of job ${req.params.name} started` : `Job ${req.params.name} started`,
+    data: {
+      run,
+    },
+  });
+});
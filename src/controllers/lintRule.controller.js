@@ -0,0 +1,41 @@
+const catchAsync = require('../utils/catchAsync');
+const contentLintService = require('../services/contentLint.service');
+
+// Content lint rules with their current settings
+exports.getLintRules = catchAsync(async (req, res, next) => {
+  const rules = await contentLintService.getRules();
+
+  res.status(200).json({
+    status: 'success',
+    results: rules.length,
+    data: {
+      rules,
+    },
+  });
+});
+
+// Enable, disable or tune a lint rule
+exports.updateLintRule = catchAsync(async (req, res, next) => {
+  const { enabled, severity, options, contentTypes } = req.body;
+
+  const rule = await contentLintService.updateRule(req.params.rule, { enabled, severity, options, contentTypes }, req.user);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      rule,
+    },
+  });
+});
+
+// Go back to the default settings of a lint rule
+exports.resetLintRule = catchAsync(async (req, res, next) => {
+  const rule = await contentLintService.resetRule(req.params.rule);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      rule,
+    },
+  });
+});
@@ -1,7 +1,10 @@
 const PromptTemplate = require('../models/prompt.model');
+const PromptPartial = require('../models/promptPartial.model');
 const Category = require('../models/category.model');
 const AppError = require('../utils/appError');
 const catchAsync = require('../utils/catchAsync');
+const promptVersionService = require('../services/promptVersion.service');
+const promptService = require('../services/prompt.service');
 const fs = require('fs').promises;
 const path = require('path');
 
@@ -61,8 +64,18 @@ exports.createPromptTemplate = catchAsync(async (req, res, next) => {
     }
   }
   
+  promptService.assertValidTemplate(req.body.promptText, 'Prompt text');
+  
   const newTemplate = await PromptTemplate.create(req.body);
   
+  await promptVersionService.recordVersion({
+    template: newTemplate._id,
+    field: 'promptText',
+    text: newTemplate.promptText,
+    author: req.user.id,
+    changeNote: req.body.changeNote || 'Initial version',
+  });
+  
   res.status(201).json({
     status: 'success',
     data: {
@@ -84,6 +97,16 @@ exports.updatePromptTemplate = catchAsync(async (req, res, next) => {
     }
   }
   
+  if (req.body.promptText !== undefined) {
+    promptService.assertValidTemplate(req.body.promptText, 'Prompt text');
+  }
+  
+  const existingTemplate = await PromptTemplate.findById(req.params.id);
+  
+  if (!existingTemplate) {
+    return next(new AppError('No prompt template found with that ID', 404));
+  }
+  
   const template = await PromptTemplate.findByIdAndUpdate(req.params.id, req.body, {
     new: true,
     runValidators: true,
@@ -93,6 +116,18 @@ exports.updatePromptTemplate = catchAsync(async (req, res, next) => {
     return next(new AppError('No prompt template found with that ID', 404));
   }
   
+  // Store the edit as a new version (and the previous text, if it was never versioned)
+  if (template.promptText !== existingTemplate.promptText) {
+    await promptVersionService.ensureCurrentVersion({ template: existingTemplate._id, field: 'promptText' }, existingTemplate.promptText);
+    await promptVersionService.recordVersion({
+      template: template._id,
+      field: 'promptText',
+      text: template.promptText,
+      author: req.user.id,
+      changeNote: req.body.changeNote || null,
+    });
+  }
+  
   res.status(200).json({
     status: 'success',
     data: {
@@ -115,6 +150,58 @@ exports.deletePromptTemplate = catchAsync(async (req, res, next) => {
   });
 });
 
+// Copy a prompt template to another category
+exports.clonePromptTemplate = catchAsync(async (req, res, next) => {
+  const template = await PromptTemplate.findById(req.params.id);
+  
+  if (!template) {
+    return next(new AppError('No prompt template found with that ID', 404));
+  }
+  
+  const category = await Category.findById(req.body.category || template.category);
+  
+  if (!category) {
+    return next(new AppError('Category not found', 404));
+  }
+  
+  const newTemplate = await PromptTemplate.create({
+    name: req.body.name || `${template.name} (${category.name})`,
+    contentType: template.contentType,
+    category: category._id,
+    categoryName: category.name,
+    isSingle: template.isSingle,
+    promptText: template.promptText,
+    description: template.description,
+    isActive: req.body.isActive !== undefined ? req.body.isActive : template.isActive,
+    createdBy: req.user.id,
+  });
+  
+  await promptVersionService.recordVersion({
+    template: newTemplate._id,
+    field: 'promptText',
+    text: newTemplate.promptText,
+    author: req.user.id,
+    changeNote: `Cloned from "${template.name}"`,
+  });
+  
+  res.status(201).json({
+    status: 'success',
+    data: {
+      template: newTemplate,
+    },
+  });
+});
+
+// Generate a sample with a prompt without saving it
+exports.testRunPrompt = catchAsync(async (req, res, next) => {
+  const result = await promptService.testRunPrompt(req.body, req.user);
+  
+  res.status(200).json({
+    status: 'success',
+    data: result,
+  });
+});
+
 // Import default prompts from file
 exports.importDefaultPrompts = catchAsync(async (req, res, next) => {
   try {
@@ -270,4 +357,137 @@ async function ensureCategory(categoryName) {
   }
   
   return category;
-} 
\ No newline at end of file
+} 
+
+// List the versions of a category's prompts or of a prompt template
+exports.getPromptVersions = catchAsync(async (req, res, next) => {
+  const { category, template, field } = req.query;
+
+  const versions = await promptVersionService.listVersions({ category, template, field });
+
+  res.status(200).json({
+    status: 'success',
+    results: versions.length,
+    data: {
+      versions,
+    },
+  });
+});
+
+// Compare two prompt versions (the second one defaults to the latest version)
+exports.diffPromptVersions = catchAsync(async (req, res, next) => {
+  const { from, to } = req.query;
+
+  if (!from) {
+    return next(new AppError('The version to compare from is required', 400));
+  }
+
+  const result = await promptVersionService.diffVersions(from, to);
+
+  res.status(200).json({
+    status: 'success',
+    data: result,
+  });
+});
+
+// Restore the text of an older prompt version
+exports.rollbackPromptVersion = catchAsync(async (req, res, next) => {
+  const { version, target } = await promptVersionService.rollback(req.params.versionId, req.user.id, req.body.changeNote);
+
+  res.status(200).json({
+    status: 'success',
+    message: `Prompt restored to version ${version.rolledBackFrom || version.version}`,
+    data: {
+      version,
+      target,
+    },
+  });
+});
+
+// Render the final prompt for a category without calling the model
+exports.previewPrompt = catchAsync(async (req, res, next) => {
+  const preview = await promptService.previewPrompt(req.body);
+
+  res.status(200).json({
+    status: 'success',
+    data: preview,
+  });
+});
+
+// List stored prompt partials and the names of the built-in ones
+exports.getPromptPartials = catchAsync(async (req, res, next) => {
+  const partials = await PromptPartial.find()
+    .populate('updatedBy', 'name')
+    .sort('name');
+
+  res.status(200).json({
+    status: 'success',
+    results: partials.length,
+    data: {
+      partials,
+      builtIn: promptService.BUILT_IN_PARTIALS,
+    },
+  });
+});
+
+// Create a prompt partial
+exports.createPromptPartial = catchAsync(async (req, res, next) => {
+  promptService.assertValidTemplate(req.body.text, 'Partial');
+
+  const partial = await PromptPartial.create({
+    name: req.body.name,
+    text: req.body.text,
+    description: req.body.description,
+    createdBy: req.user.id,
+    updatedBy: req.user.id,
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      partial,
+    },
+  });
+});
+
+// Update a prompt partial
+exports.updatePromptPartial = catchAsync(async (req, res, next) => {
+  if (req.body.text !== undefined) {
+    promptService.assertValidTemplate(req.body.text, 'Partial');
+  }
+
+  const updates = { updatedBy: req.user.id };
+  ['name', 'text', 'description'].forEach((field) => {
+    if (req.body[field] !== undefined) updates[field] = req.body[field];
+  });
+
+  const partial = await PromptPartial.findByIdAndUpdate(req.params.id, updates, {
+    new: true,
+    runValidators: true,
+  });
+
+  if (!partial) {
+    return next(new AppError('No prompt partial found with that ID', 404));
+  }
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      partial,
+    },
+  });
+});
+
+// Delete a prompt partial
+exports.deletePromptPartial = catchAsync(async (req, res, next) => {
+  const partial = await PromptPartial.findByIdAndDelete(req.params.id);
+
+  if (!partial) {
+    return next(new AppError('No prompt partial found with that ID', 404));
+  }
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
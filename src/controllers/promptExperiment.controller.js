@@ -0,0 +1,133 @@
+const PromptExperiment = require('../models/promptExperiment.model');
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+const promptExperimentService = require('../services/promptExperiment.service');
+
+// List prompt experiments
+exports.getExperiments = catchAsync(async (req, res, next) => {
+  const { category, status } = req.query;
+
+  const filter = {};
+  if (category) filter.category = category;
+  if (status) filter.status = status;
+
+  const experiments = await PromptExperiment.find(filter)
+    .populate('category', 'name')
+    .populate('createdBy', 'name')
+    .sort('-createdAt');
+
+  res.status(200).json({
+    status: 'success',
+    results: experiments.length,
+    data: {
+      experiments,
+    },
+  });
+});
+
+// Get an experiment with its results per variant
+exports.getExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await PromptExperiment.findById(req.params.id)
+    .populate('category', 'name singlePrompt')
+    .populate('createdBy', 'name')
+    .populate('promotedBy', 'name');
+
+  if (!experiment) {
+    return next(new AppError('Prompt experiment not found', 404));
+  }
+
+  const results = await promptExperimentService.getExperimentResults(experiment);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      experiment,
+      results,
+    },
+  });
+});
+
+// Create an experiment in draft status
+exports.createExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await promptExperimentService.createExperiment(req.body, req.user.id);
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      experiment,
+    },
+  });
+});
+
+// Update an experiment (variants only before it starts)
+exports.updateExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await promptExperimentService.updateExperiment(req.params.id, req.body);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      experiment,
+    },
+  });
+});
+
+// Delete an experiment that never ran
+exports.deleteExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await PromptExperiment.findById(req.params.id);
+
+  if (!experiment) {
+    return next(new AppError('Prompt experiment not found', 404));
+  }
+
+  if (experiment.status !== 'draft') {
+    return next(new AppError('Only draft experiments can be deleted, stop this one instead', 400));
+  }
+
+  await experiment.deleteOne();
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
+
+// Start an experiment
+exports.startExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await promptExperimentService.startExperiment(req.params.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      experiment,
+    },
+  });
+});
+
+// Stop an experiment without promoting a variant
+exports.stopExperiment = catchAsync(async (req, res, next) => {
+  const experiment = await promptExperimentService.stopExperiment(req.params.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      experiment,
+    },
+  });
+});
+
+// Make a variant the category's default prompt
+exports.promoteVariant = catchAsync(async (req, res, next) => {
+  if (!req.body.variantId) {
+    return next(new AppError('The variant to promote is required', 400));
+  }
+
+  const { experiment, category } = await promptExperimentService.promoteVariant(req.params.id, req.body.variantId, req.user.id);
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      experiment,
+      category,
+    },
+  });
+});
@@ -0,0 +1,107 @@
+const Content = require('../models/content.model');
+const QuarantinedContent = require('../models/quarantinedContent.model');
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+
+// List AI output that failed schema validation
+exports.getQuarantinedContent = catchAsync(async (req, res, next) => {
+  const { status = 'pending', category, page = 1, limit = 20 } = req.query;
+
+  const filter = {};
+  if (status) filter.status = status;
+  if (category) filter.category = category;
+
+  const skip = (page - 1) * limit;
+  const total = await QuarantinedContent.countDocuments(filter);
+
+  const items = await QuarantinedContent.find(filter)
+    .populate('category', 'name')
+    .sort('-createdAt')
+    .skip(skip)
+    .limit(parseInt(limit));
+
+  res.status(200).json({
+    status: 'success',
+    results: items.length,
+    pagination: {
+      total,
+      page: parseInt(page),
+      pages: Math.ceil(total / limit),
+      limit: parseInt(limit),
+    },
+    data: {
+      items,
+    },
+  });
+});
+
+// Turn a quarantined item into a draft, optionally with corrected fields
+exports.releaseQuarantinedContent = catchAsync(async (req, res, next) => {
+  const quarantined = await QuarantinedContent.findById(req.params.id);
+
+  if (!quarantined) {
+    return next(new AppError('Quarantined content not found', 404));
+  }
+
+  if (quarantined.status !== 'pending') {
+    return next(new AppError(`Quarantined content was already ${quarantined.status}`, 400));
+  }
+
+  if (!quarantined.category) {
+    return next(new AppError('Quarantined content has no category and cannot be released', 400));
+  }
+
+  const item = { ...(quarantined.item || {}), ...req.body };
+
+  if (!item.title || !item.body) {
+    return next(new AppError('A title and body are required to release quarantined content', 400));
+  }
+
+  const content = await Content.create({
+    title: item.title,
+    body: item.body,
+    summary: item.summary || item.title.substring(0, 100),
+    category: quarantined.category,
+    contentType: quarantined.contentType,
+    difficulty: quarantined.difficulty,
+    tags: Array.isArray(item.tags) ? item.tags : [],
+    status: 'draft',
+    source: 'ai',
+    authorId: req.user.id,
+  });
+
+  quarantined.status = 'released';
+  quarantined.releasedContent = content._id;
+  quarantined.reviewedBy = req.user.id;
+  quarantined.reviewedAt = new Date();
+  await quarantined.save();
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      content,
+      item: quarantined,
+    },
+  });
+});
+
+// Discard a quarantined item
+exports.discardQuarantinedContent = catchAsync(async (req, res, next) => {
+  const quarantined = await QuarantinedContent.findById(req.params.id);
+
+  if (!quarantined) {
+    return next(new AppError('Quarantined content not found', 404));
+  }
+
+  quarantined.status = 'discarded';
+  quarantined.reviewedBy = req.user.id;
+  quarantined.reviewedAt = new Date();
+  await quarantined.save();
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      item: quarantined,
+    },
+  });
+});
@@ -0,0 +1,66 @@
+const catchAsync = require('../utils/catchAsync');
+const safetyService = require('../services/safety.service');
+const safetyClassifiers = require('../services/safety');
+
+// Keyword and regex rules generated content is screened against
+exports.getSafetyRules = catchAsync(async (req, res, next) => {
+  const rules = await safetyService.listRules();
+
+  res.status(200).json({
+    status: 'success',
+    results: rules.length,
+    data: {
+      rules,
+      classifier: safetyClassifiers.getClassifierName(),
+    },
+  });
+});
+
+// Add a keyword or regex rule
+exports.createSafetyRule = catchAsync(async (req, res, next) => {
+  const { name, type, pattern, reason, categories, enabled } = req.body;
+
+  const rule = await safetyService.createRule({ name, type, pattern, reason, categories, enabled }, req.user);
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      rule,
+    },
+  });
+});
+
+// Change a rule, or enable and disable it
+exports.updateSafetyRule = catchAsync(async (req, res, next) => {
+  const { name, type, pattern, reason, categories, enabled } = req.body;
+
+  const rule = await safetyService.updateRule(req.params.id, { name, type, pattern, reason, categories, enabled });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      rule,
+    },
+  });
+});
+
+exports.deleteSafetyRule = catchAsync(async (req, res, next) => {
+  await safetyService.deleteRule(req.params.id);
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
+
+// What the screening held back for moderation and why
+exports.getSafetyReport = catchAsync(async (req, res, next) => {
+  const { from, to, category, limit } = req.query;
+
+  const report = await safetyService.getReport({ from, to, category, limit });
+
+  res.status(200).json({
+    status: 'success',
+    data: report,
+  });
+});
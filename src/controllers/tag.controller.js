@@ -0,0 +1,82 @@
+const catchAsync = require('../utils/catchAsync');
+const tagService = require('../services/tag.service');
+
+// Taxonomy tags and untracked content tags with usage counts
+exports.getTags = catchAsync(async (req, res, next) => {
+  const { tags, untracked } = await tagService.listTags();
+
+  res.status(200).json({
+    status: 'success',
+    results: tags.length,
+    data: {
+      tags,
+      untracked,
+    },
+  });
+});
+
+// Add a canonical tag with its synonyms
+exports.createTag = catchAsync(async (req, res, next) => {
+  const { name, synonyms, categories } = req.body;
+
+  const { tag, contentUpdated } = await tagService.createTag({ name, synonyms, categories }, req.user);
+
+  res.status(201).json({
+    status: 'success',
+    message: `Tag created, ${contentUpdated} content items retagged`,
+    data: {
+      tag,
+      contentUpdated,
+    },
+  });
+});
+
+// Rename a tag or change its synonyms and categories
+exports.updateTag = catchAsync(async (req, res, next) => {
+  const { name, synonyms, categories } = req.body;
+
+  const { tag, contentUpdated } = await tagService.updateTag(req.params.id, { name, synonyms, categories });
+
+  res.status(200).json({
+    status: 'success',
+    message: `Tag updated, ${contentUpdated} content items retagged`,
+    data: {
+      tag,
+      contentUpdated,
+    },
+  });
+});
+
+// Merge tags into one across all content
+exports.mergeTags = catchAsync(async (req, res, next) => {
+  const { into, tags } = req.body;
+
+  const result = await tagService.mergeTags(into, tags, req.user);
+
+  res.status(200).json({
+    status: 'success',
+    message: `Merged ${result.merged.length} tags into "${result.tag.name}", ${result.contentUpdated} content items retagged`,
+    data: result,
+  });
+});
+
+// Remove tags by name from all content, tracked or not
+exports.removeTags = catchAsync(async (req, res, next) => {
+  const result = await tagService.removeTags(req.body.tags);
+
+  res.status(200).json({
+    status: 'success',
+    message: `Removed ${result.removed} tags from ${result.contentUpdated} content items`,
+    data: result,
+  });
+});
+
+// Delete a tag and remove it from all content
+exports.deleteTag = catchAsync(async (req, res, next) => {
+  await tagService.deleteTag(req.params.id);
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
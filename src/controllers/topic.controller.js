@@ -0,0 +1,98 @@
+const Category = require('../models/category.model');
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+const topicService = require('../services/topic.service');
+
+const loadCategory = async (req) => {
+  const category = await Category.findById(req.params.id);
+
+  if (!category) {
+    throw new AppError('Category not found', 404);
+  }
+
+  return category;
+};
+
+// Topic backlog of a category with its coverage
+exports.getTopics = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req);
+
+  const [topics, coverage] = await Promise.all([
+    topicService.listTopics(category._id, { status: req.query.status }),
+    topicService.getCoverage(category._id),
+  ]);
+
+  res.status(200).json({
+    status: 'success',
+    results: topics.length,
+    data: {
+      coverage,
+      topics,
+    },
+  });
+});
+
+// Add topics to the backlog, one per entry or one per line of `text`
+exports.addTopics = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req);
+  const { topics, text } = req.body;
+
+  const names = Array.isArray(topics)
+    ? topics
+    : (text || '').split('\n');
+
+  const result = await topicService.addTopics(category._id, names, { user: req.user });
+
+  res.status(201).json({
+    status: 'success',
+    message: `Added ${result.added.length} topics${result.skipped.length > 0 ? `, skipped ${result.skipped.length} already in the backlog` : ''}`,
+    data: {
+      ...result,
+      coverage: await topicService.getCoverage(category._id),
+    },
+  });
+});
+
+// Ask the AI for sub-topics and add the new ones to the backlog
+exports.suggestTopics = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req);
+  const { count = 50, model } = req.body;
+
+  const result = await topicService.suggestTopics(category, { count, model, user: req.user });
+
+  res.status(201).json({
+    status: 'success',
+    message: `Added ${result.added.length} suggested topics`,
+    data: {
+      ...result,
+      coverage: await topicService.getCoverage(category._id),
+    },
+  });
+});
+
+// Rename a topic, retire it or open it again
+exports.updateTopic = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req);
+  const { name, status } = req.body;
+
+  const topic = await topicService.updateTopic(category._id, req.params.topicId, { name, status });
+
+  res.status(200).json({
+    status: 'success',
+    data: {
+      topic,
+    },
+  });
+});
+
+// Remove a topic from the backlog
+exports.deleteTopic = catchAsync(async (req, res, next) => {
+  const category = await loadCategory(req);
+
+  await topicService.removeTopic(category._id, req.params.topicId);
+
+  res.status(204).json({
+    status: 'success',
+    data: null,
+  });
+});
@@ -0,0 +1,21 @@
+const AppError = require('../utils/appError');
+const catchAsync = require('../utils/catchAsync');
+const imageService = require('../services/image.service');
+
+// Upload an image, resized to the card and thumbnail sizes of its purpose
+exports.uploadImage = catchAsync(async (req, res, next) => {
+  if (!req.file) {
+    return next(new AppError('No image was uploaded', 400));
+  }
+
+  const image = await imageService.processImage(req.file.buffer, {
+    purpose: req.body.purpose || 'content',
+  });
+
+  res.status(201).json({
+    status: 'success',
+    data: {
+      image
+    }
+  });
+});
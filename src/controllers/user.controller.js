@@ -22,7 +22,8 @@ exports.updateProfile = catchAsync(async (req, res, next) => {
   const filteredBody = filterObj(
     req.body,
     'name',
-    'avatar'
+    'avatar',
+    'timezone'
   );
   
   const updatedUser = await User.findByIdAndUpdate(
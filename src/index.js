@@ -13,6 +13,7 @@ dotenv.config();
 // Debug environment variables
 console.log('Environment:', process.env.NODE_ENV);
 console.log('MongoDB URI:', process.env.MONGODB_URI ? 'Set' : 'Not set');
+console.log('LLM Provider:', process.env.LLM_PROVIDER || 'openai');
 console.log('OpenAI API Key:', process.env.OPENAI_API_KEY ? 'Set' : 'Not set');
 console.log('OpenAI Key length:', process.env.OPENAI_API_KEY ? process.env.OPENAI_API_KEY.length : 0);
 
@@ -28,9 +29,13 @@ const categoryRoutes = require('./routes/category.routes');
 const adminRoutes = require('./routes/admin.routes');
 const subscriptionRoutes = require('./routes/subscription.routes');
 const promptRoutes = require('./routes/prompt.routes');
+const generationJobRoutes = require('./routes/generationJob.routes');
+const uploadRoutes = require('./routes/upload.routes');
+const localFileStorage = require('./services/storage/local.storage');
 
 // Import scheduler service
 const schedulerService = require('./services/scheduler.service');
+const generationJobService = require('./services/generationJob.service');
 
 // Initialize express app
 const app = express();
@@ -92,6 +97,8 @@ const isAdminOrigin = (req) => {
 // Apply admin limiter directly to admin routes
 app.use('/api/admin', adminLimiter);
 app.use('/api/content/deleted', adminLimiter);
+// Generation jobs are polled while they run
+app.use('/api/generation-jobs', adminLimiter);
 
 // Apply conditional rate limiting to auth routes based on origin
 app.use('/api/auth', (req, res, next) => {
@@ -107,6 +114,7 @@ app.use('/api/users', apiLimiter);
 app.use('/api/categories', apiLimiter);
 app.use('/api/subscriptions', apiLimiter);
 app.use('/api/prompts', apiLimiter);
+app.use('/api/uploads', apiLimiter);
 
 // Mount routes
 app.use('/api/auth', authRoutes);
@@ -116,6 +124,13 @@ app.use('/api/categories', categoryRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 app.use('/api/prompts', promptRoutes);
+app.use('/api/generation-jobs', generationJobRoutes);
+app.use('/api/uploads', uploadRoutes);
+
+// Images stored by the local storage driver, loaded by the dashboard and apps from other origins
+app.use('/uploads', express.static(localFileStorage.getUploadDir(), {
+  setHeaders: (res) => res.set('Cross-Origin-Resource-Policy', 'cross-origin'),
+}));
 
 // Apply global error handler
 app.use(errorHandler);
@@ -141,23 +156,20 @@ mongoose
       schedulerService.initScheduler();
     }
     
+    // Start the generation job worker (AI generation runs here instead of inside HTTP requests)
+    try {
+      await generationJobService.startWorker();
+    } catch (error) {
+      console.error('Failed to start generation worker:', error);
+    }
+    
     // Start server
     const PORT = process.env.PORT || 5010;
     const HOST = process.env.HOST || '0.0.0.0'; // Listen on all network interfaces
-    const server = app.listen(PORT, HOST, () => {
+    app.listen(PORT, HOST, () => {
       console.log(`Server running on ${HOST}:${PORT}`);
       console.log(`Access from other devices via http://${process.env.YOUR_LOCAL_IP || '192.168.1.34'}:${PORT}`);
     });
-    
-    // Increase server timeout settings to handle long-running AI requests
-    server.timeout = 180000; // 3 minutes timeout for long AI generations
-    server.keepAliveTimeout = 120000; // 2 minutes keep-alive timeout
-    server.headersTimeout = 120000; // 2 minutes headers timeout
-    
-    console.log('Server timeout settings:');
-    console.log(`Timeout: ${server.timeout}ms`);
-    console.log(`Keep-alive timeout: ${server.keepAliveTimeout}ms`);
-    console.log(`Headers timeout: ${server.headersTimeout}ms`);
   })
   .catch((error) => {
     console.error('MongoDB connection error:', error);
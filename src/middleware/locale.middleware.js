@@ -0,0 +1,36 @@
+const { getDefaultLocale, matchLocale, parseAcceptLanguage } = require('../utils/locale');
+
+/**
+ * Work out the locale a request wants content in. An explicit `locale` query
+ * parameter wins over the Accept-Language header; anything unsupported falls
+ * back to the default locale.
+ * @param {Object} req - Express request
+ * @returns {String} Supported locale
+ */
+const resolveLocale = (req) => {
+  const requested = req.query && req.query.locale;
+  if (requested) {
+    return matchLocale(requested) || getDefaultLocale();
+  }
+
+  const header = req.headers && req.headers['accept-language'];
+  for (const tag of parseAcceptLanguage(header)) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+
+  return getDefaultLocale();
+};
+
+/**
+ * Middleware that sets req.locale for locale-aware responses
+ */
+const detectLocale = (req, res, next) => {
+  req.locale = resolveLocale(req);
+  next();
+};
+
+module.exports = {
+  resolveLocale,
+  detectLocale,
+};
@@ -0,0 +1,42 @@
+const { getDefaultTimezone, isValidTimezone } = require('../utils/timezone');
+
+/**
+ * Time zone the device sends, as a `timezone` query parameter or an
+ * X-Timezone header. Unknown time zones are ignored.
+ * @param {Object} req - Express request
+ * @returns {String|null} Time zone name or null
+ */
+const getDeviceTimezone = (req) => {
+  const requested = (req.query && req.query.timezone) || (req.headers && req.headers['x-timezone']);
+  return isValidTimezone(requested) ? requested : null;
+};
+
+/**
+ * Work out the time zone a request's day is read in: the device's time zone,
+ * then the signed-in user's saved one, then the default time zone
+ * @param {Object} req - Express request
+ * @returns {String} Time zone name
+ */
+const resolveTimezone = (req) => {
+  const device = getDeviceTimezone(req);
+  if (device) return device;
+
+  if (req.user && isValidTimezone(req.user.timezone)) return req.user.timezone;
+
+  return getDefaultTimezone();
+};
+
+/**
+ * Middleware that sets req.timezone for day-based responses. Runs after
+ * protect where the user's saved time zone should count.
+ */
+const detectTimezone = (req, res, next) => {
+  req.timezone = resolveTimezone(req);
+  next();
+};
+
+module.exports = {
+  getDeviceTimezone,
+  resolveTimezone,
+  detectTimezone,
+};
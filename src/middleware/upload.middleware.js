@@ -0,0 +1,39 @@
+const multer = require('multer');
+const AppError = require('../utils/appError');
+const imageService = require('../services/image.service');
+
+// Files are kept in memory, they are resized before anything is stored
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: imageService.getMaxBytes(), files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!file.mimetype || !file.mimetype.startsWith('image/')) {
+      return cb(new AppError('Only image files can be uploaded', 400));
+    }
+    cb(null, true);
+  },
+});
+
+/**
+ * Accept a single image in the given multipart field as req.file, with
+ * multer errors turned into AppErrors
+ * @param {String} field - Form field name
+ * @returns {Function} Middleware
+ */
+exports.singleImage = (field = 'image') => (req, res, next) => {
+  imageUpload.single(field)(req, res, (err) => {
+    if (!err) return next();
+
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return next(imageService.tooLargeError());
+      }
+      if (err.code === 'LIMIT_UNEXPECTED_FILE') {
+        return next(new AppError(`Send the image in the "${field}" field`, 400));
+      }
+      return next(new AppError(err.message, 400));
+    }
+
+    next(err);
+  });
+};
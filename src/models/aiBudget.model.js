@@ -0,0 +1,60 @@
+const mongoose = require('mongoose');
+
+// Monthly spending limit for AI calls, either for everything or for one category
+const aiBudgetSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'A budget must have a name'],
+      trim: true,
+    },
+    scope: {
+      type: String,
+      enum: ['global', 'category'],
+      default: 'global',
+    },
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      required: [function() { return this.scope === 'category'; }, 'A category budget must have a category'],
+    },
+    // Limit in USD per calendar month (UTC)
+    monthlyLimit: {
+      type: Number,
+      required: [true, 'A budget must have a monthly limit'],
+      min: [0, 'Monthly limit cannot be negative'],
+    },
+    // What happens once the limit is reached
+    action: {
+      type: String,
+      enum: ['warn', 'block'],
+      default: 'warn',
+    },
+    // Share of the limit (0-1) at which a warning starts
+    warnAt: {
+      type: Number,
+      default: 0.8,
+      min: 0,
+      max: 1,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One budget per scope (and category)
+aiBudgetSchema.index({ scope: 1, category: 1 }, { unique: true });
+
+const AIBudget = mongoose.model('AIBudget', aiBudgetSchema);
+
+module.exports = AIBudget;
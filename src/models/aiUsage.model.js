@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+
+// One record per AI call, used for cost tracking and budgets
+const aiUsageSchema = new mongoose.Schema(
+  {
+    provider: {
+      type: String,
+      required: true,
+    },
+    model: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    // What the call was made for
+    operation: {
+      type: String,
+      enum: ['generate', 'rewrite', 'translate', 'suggest', 'classify', 'test', 'other'],
+      default: 'generate',
+    },
+    promptTokens: {
+      type: Number,
+      default: 0,
+    },
+    completionTokens: {
+      type: Number,
+      default: 0,
+    },
+    totalTokens: {
+      type: Number,
+      default: 0,
+    },
+    latencyMs: {
+      type: Number,
+      default: 0,
+    },
+    outcome: {
+      type: String,
+      enum: ['success', 'error', 'timeout', 'rate_limited', 'parse_error', 'blocked'],
+      default: 'success',
+      index: true,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    // Estimated cost in USD
+    estimatedCost: {
+      type: Number,
+      default: 0,
+    },
+    // Who or what triggered the call
+    source: {
+      type: String,
+      enum: ['user', 'job', 'scheduler', 'system'],
+      default: 'system',
+      index: true,
+    },
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      index: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    generationJob: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'GenerationJob',
+      default: null,
+    },
+    // Identifier of the scheduler run that made the call
+    schedulerRun: {
+      type: String,
+      default: null,
+    },
+    // Content documents created from this call
+    contentIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+    }],
+    // Budget warnings that applied when the call was made
+    budgetWarnings: [String],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+aiUsageSchema.index({ createdAt: -1 });
+aiUsageSchema.index({ category: 1, createdAt: -1 });
+
+const AIUsage = mongoose.model('AIUsage', aiUsageSchema);
+
+module.exports = AIUsage;
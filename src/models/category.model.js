@@ -1,4 +1,36 @@
 const mongoose = require('mongoose');
+const { CADENCES } = require('../utils/rotationPolicy');
+
+const share = { type: Number, min: 0, max: 100 };
+
+// How the daily refresh rotates the category's content (see utils/rotationPolicy)
+const rotationPolicySchema = new mongoose.Schema(
+  {
+    // Items published per rotation, top performers kept count towards it
+    publishCount: { type: Number, min: 0, max: 100, default: 10 },
+    generateCount: { type: Number, min: 0, max: 50, default: 10 },
+    cadence: { type: String, enum: CADENCES, default: 'daily' },
+    // Days between rotations for the every_n_days cadence
+    intervalDays: { type: Number, min: 1, max: 30, default: 2 },
+    // Shares of the generated items, all zero means the defaults
+    difficultyMix: {
+      beginner: { ...share, default: 60 },
+      intermediate: { ...share, default: 30 },
+      advanced: { ...share, default: 10 },
+    },
+    // All zero means the category's contentType only
+    contentTypeMix: {
+      hack: { ...share, default: 0 },
+      hack2: { ...share, default: 0 },
+      tip: { ...share, default: 0 },
+      tip2: { ...share, default: 0 },
+      quote: { ...share, default: 0 },
+    },
+    // Published items in the highly_liked pool stay published instead of being retired
+    keepTopPerformers: { type: Boolean, default: false },
+  },
+  { _id: false }
+);
 
 const categorySchema = new mongoose.Schema(
   {
@@ -17,6 +49,10 @@ const categorySchema = new mongoose.Schema(
       type: String, // URL to icon image
       default: null,
     },
+    iconThumbnail: {
+      type: String, // URL to the thumbnail of an uploaded icon
+      default: null,
+    },
     color: {
       type: String, // Hex color code
       default: '#3498db',
@@ -65,6 +101,15 @@ const categorySchema = new mongoose.Schema(
     lastGenerated: {
       type: Date,
     },
+    rotation: {
+      type: rotationPolicySchema,
+      default: () => ({}),
+    },
+    // Last time the daily refresh rotated the category's content
+    lastRotatedAt: {
+      type: Date,
+      default: null,
+    },
     prompt: {
       type: String,
       trim: true,
@@ -89,6 +134,11 @@ const categorySchema = new mongoose.Schema(
       type: Number,
       default: 1,
     },
+    // Topics the AI must not write about, available to prompts as {bannedTopics}
+    bannedTopics: {
+      type: [String],
+      default: [],
+    },
     contentType: {
       type: String,
       enum: ['hack', 'hack2', 'tip', 'tip2'],
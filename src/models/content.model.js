@@ -1,4 +1,57 @@
 const mongoose = require('mongoose');
+const { formatQuote, parseQuote } = require('../utils/quoteAttribution');
+const { getDefaultLocale } = require('../utils/locale');
+const Tag = require('./tag.model');
+
+// Text of a content item in another locale
+const translationSchema = new mongoose.Schema(
+  {
+    locale: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    summary: {
+      type: String,
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: true,
+    },
+    quoteText: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    source: {
+      type: String,
+      enum: ['ai', 'human'],
+      default: 'human',
+    },
+    // Set when the original changes after the translation was made
+    stale: {
+      type: Boolean,
+      default: false,
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
 
 const contentSchema = new mongoose.Schema(
   {
@@ -53,11 +106,45 @@ const contentSchema = new mongoose.Schema(
       default: 'hack',
       index: true,
     },
+    // Structured attribution of quote content, body holds the formatted quote
+    quoteText: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    author: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    sourceTitle: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    sourceYear: {
+      type: Number,
+      min: -3000,
+      max: 3000,
+      default: null,
+    },
+    // Locale of title, summary and body; other locales live in translations
+    locale: {
+      type: String,
+      lowercase: true,
+      trim: true,
+      default: getDefaultLocale,
+    },
+    translations: [translationSchema],
     tags: [String],
     image: {
       type: String, // URL to image
       default: null,
     },
+    imageThumbnail: {
+      type: String, // URL to the thumbnail of an uploaded image
+      default: null,
+    },
     source: {
       type: String,
       enum: ['ai', 'human', 'imported'],
@@ -68,6 +155,22 @@ const contentSchema = new mongoose.Schema(
       ref: 'User',
       required: true,
     },
+    // Prompt version that produced AI-generated content
+    promptVersion: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
+    // Prompt experiment and variant that produced the content
+    promptExperiment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PromptExperiment',
+      default: null,
+    },
+    promptVariant: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
     moderatorId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -77,6 +180,17 @@ const contentSchema = new mongoose.Schema(
       type: String,
       default: null,
     },
+    // Set when content was published despite lint errors
+    lintOverride: {
+      type: {
+        reason: { type: String, required: true, trim: true },
+        user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+        at: { type: Date, default: Date.now },
+        rules: [String],
+        _id: false,
+      },
+      default: null,
+    },
     hasBeenPublished: {
       type: Boolean,
       default: false,
@@ -89,6 +203,13 @@ const contentSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    // Calendar date (YYYY-MM-DD) of the daily deck the refresh staged the item
+    // for, each user sees it on that date in their own time zone
+    deckDate: {
+      type: String,
+      default: null,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Deck date must be YYYY-MM-DD'],
+    },
     metadata: {
       type: Map,
       of: String,
@@ -160,12 +281,96 @@ const contentSchema = new mongoose.Schema(
 // Indexes for faster queries
 contentSchema.index({ category: 1, status: 1, publishDate: -1 });
 contentSchema.index({ status: 1, publishDate: -1 });
+contentSchema.index({ status: 1, deckDate: 1 });
 contentSchema.index({ 'stats.likes': -1, 'stats.views': -1 });
 contentSchema.index({ tags: 1 });
 contentSchema.index({ premium: 1, status: 1 });
 contentSchema.index({ authorId: 1 });
 contentSchema.index({ contentType: 1, category: 1, status: 1 });
 contentSchema.index({ pool: 1, category: 1, lastUsedDate: 1 });
+contentSchema.index({ promptExperiment: 1, promptVariant: 1 }, { sparse: true });
+
+// Quote content keeps its body in step with the structured attribution
+contentSchema.pre('validate', function(next) {
+  if (this.contentType === 'quote' && this.quoteText) {
+    const attributionChanged = ['quoteText', 'author', 'sourceTitle', 'sourceYear'].some(field => this.isModified(field));
+    if (attributionChanged || !this.body) {
+      this.body = formatQuote(this);
+    }
+    if (!this.summary) {
+      this.summary = this.quoteText.substring(0, 150);
+    }
+  }
+  next();
+});
+
+// Tags from AI output and manual edits are stored under their canonical names
+contentSchema.pre('save', async function() {
+  if (this.isModified('tags')) {
+    this.tags = await Tag.normalize(this.tags, this.category);
+  }
+});
+
+contentSchema.pre('findOneAndUpdate', async function() {
+  const update = this.getUpdate() || {};
+  const target = update.$set && 'tags' in update.$set ? update.$set : update;
+  if (!Array.isArray(target.tags)) return;
+
+  let category = target.category || (update.$set && update.$set.category);
+  if (!category) {
+    const current = await this.model.findOne(this.getQuery()).select('category').lean();
+    category = current && current.category;
+  }
+
+  target.tags = await Tag.normalize(target.tags, category);
+});
+
+// Structured form of a quote, parsed from the body for quotes stored as free text
+contentSchema.methods.getQuote = function() {
+  if (this.contentType !== 'quote') return null;
+
+  if (this.quoteText) {
+    return {
+      quoteText: this.quoteText,
+      author: this.author,
+      sourceTitle: this.sourceTitle,
+      sourceYear: this.sourceYear,
+    };
+  }
+
+  return parseQuote(this.body);
+};
+
+// Translation of the content into a locale, if there is one
+contentSchema.methods.getTranslation = function(locale) {
+  return (this.translations || []).find(translation => translation.locale === locale) || null;
+};
+
+// Plain copy of the content in the requested locale, falling back to the original text
+contentSchema.methods.localize = function(locale) {
+  const { translations = [], ...content } = this.toObject();
+  const originalLocale = content.locale || getDefaultLocale();
+  const translation = locale !== originalLocale ? this.getTranslation(locale) : null;
+  const quote = this.getQuote();
+
+  if (quote) {
+    Object.assign(content, quote);
+  }
+
+  if (translation) {
+    content.title = translation.title;
+    content.summary = translation.summary || content.summary;
+    content.body = translation.body;
+    if (quote && translation.quoteText) {
+      content.quoteText = translation.quoteText;
+    }
+  }
+
+  content.locale = translation ? translation.locale : originalLocale;
+  content.availableLocales = [originalLocale, ...translations.map(entry => entry.locale)];
+
+  return content;
+};
 
 // Virtual for rating calculated from likes/dislikes
 contentSchema.virtual('rating').get(function() {
@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+
+// Immutable snapshot of the editable fields of a content item. A revision is
+// stored on every manual edit, AI rewrite, bulk change and restore, so earlier
+// wording can be compared and brought back.
+const contentRevisionSchema = new mongoose.Schema(
+  {
+    content: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+      required: true,
+      immutable: true,
+    },
+    // Increments per content item, starting at 1
+    revision: {
+      type: Number,
+      required: true,
+      immutable: true,
+    },
+    title: { type: String, default: '', immutable: true },
+    summary: { type: String, default: '', immutable: true },
+    body: { type: String, default: '', immutable: true },
+    tags: { type: [String], default: undefined, immutable: true },
+    difficulty: { type: String, default: null, immutable: true },
+    quoteText: { type: String, default: null, immutable: true },
+    author: { type: String, default: null, immutable: true },
+    sourceTitle: { type: String, default: null, immutable: true },
+    sourceYear: { type: Number, default: null, immutable: true },
+    // What made the change
+    source: {
+      type: String,
+      enum: ['initial', 'manual', 'ai-rewrite', 'bulk', 'restore'],
+      required: true,
+      immutable: true,
+    },
+    // AI model used for ai-rewrite revisions
+    model: {
+      type: String,
+      default: null,
+      immutable: true,
+    },
+    editedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      immutable: true,
+    },
+    // Fields that differ from the previous revision
+    changedFields: {
+      type: [String],
+      default: [],
+      immutable: true,
+    },
+    // Set when this revision restored an older one
+    restoredFrom: {
+      type: Number,
+      default: null,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+contentRevisionSchema.index({ content: 1, revision: -1 }, { unique: true });
+
+// Revisions are never edited after they are written
+const rejectUpdate = function(next) {
+  next(new Error('Content revisions are immutable'));
+};
+contentRevisionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectUpdate);
+
+const ContentRevision = mongoose.model('ContentRevision', contentRevisionSchema);
+
+module.exports = ContentRevision;
@@ -34,6 +34,11 @@ const deletedContentSchema = new mongoose.Schema(
       default: 'hack',
       index: true,
     },
+    // Structured attribution of quote content
+    quoteText: { type: String, default: null },
+    author: { type: String, default: null },
+    sourceTitle: { type: String, default: null },
+    sourceYear: { type: Number, default: null },
     tags: [String],
     image: {
       type: String, // URL to image
@@ -49,6 +54,21 @@ const deletedContentSchema = new mongoose.Schema(
       ref: 'User',
       required: true,
     },
+    // Prompt attribution, kept so experiment results include deleted content
+    promptVersion: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
+    promptExperiment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PromptExperiment',
+      default: null,
+    },
+    promptVariant: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
     moderatorId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -82,6 +102,10 @@ const deletedContentSchema = new mongoose.Schema(
       likes: { type: Number, default: 0 },
       dislikes: { type: Number, default: 0 },
     },
+    // Mobile reactions at the time of deletion
+    likeCount: { type: Number, default: 0 },
+    dislikeCount: { type: Number, default: 0 },
+    maybeCount: { type: Number, default: 0 },
     premium: {
       type: Boolean,
       default: false,
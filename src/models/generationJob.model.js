@@ -0,0 +1,230 @@
+const mongoose = require('mongoose');
+
+// A single unit of work inside a job (one AI call for a category batch,
+// or one category of a daily refresh)
+const jobItemSchema = new mongoose.Schema(
+  {
+    label: {
+      type: String,
+      required: true,
+    },
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+    },
+    categoryName: {
+      type: String,
+      default: null,
+    },
+    // Number of content items requested from this unit
+    count: {
+      type: Number,
+      default: 1,
+    },
+    // Per-unit generation settings of a batch job (contentType, difficulty, model),
+    // falling back to the job's params when not set
+    params: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+      default: 'pending',
+    },
+    // Content created by this unit (partial results are visible while the job runs)
+    contentIds: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+    }],
+    // Free-form stats reported by the unit (e.g. daily refresh counters)
+    stats: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: true }
+);
+
+const generationJobSchema = new mongoose.Schema(
+  {
+    type: {
+      type: String,
+      enum: ['generate-multiple', 'generate-batch', 'daily-refresh'],
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+      default: 'queued',
+      index: true,
+    },
+    // Request parameters (contentType, difficulty, model...)
+    params: {
+      type: mongoose.Schema.Types.Mixed,
+      default: () => ({}),
+    },
+    items: [jobItemSchema],
+    progress: {
+      total: { type: Number, default: 0 },
+      completed: { type: Number, default: 0 },
+      failed: { type: Number, default: 0 },
+      cancelled: { type: Number, default: 0 },
+      generated: { type: Number, default: 0 },
+    },
+    // Aggregated result once the job has finished
+    result: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    cancelRequested: {
+      type: Boolean,
+      default: false,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    // Instance running the job and when it last reported in, a job whose
+    // heartbeat stopped is re-queued by the other instances
+    owner: {
+      type: String,
+      default: null,
+    },
+    heartbeatAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Worker picks the oldest queued job first
+generationJobSchema.index({ status: 1, createdAt: 1 });
+
+/**
+ * Recalculate progress counters from the items
+ */
+generationJobSchema.methods.updateProgress = function() {
+  const counts = { total: this.items.length, completed: 0, failed: 0, cancelled: 0, generated: 0 };
+
+  this.items.forEach(item => {
+    if (item.status === 'completed') counts.completed++;
+    if (item.status === 'failed') counts.failed++;
+    if (item.status === 'cancelled') counts.cancelled++;
+    counts.generated += item.contentIds.length;
+  });
+
+  this.progress = counts;
+  return this.progress;
+};
+
+/**
+ * Generation settings of an item: its own params over the job's
+ * @param {Object} item - Job item
+ * @returns {Object} { contentType, difficulty, model }
+ */
+generationJobSchema.methods.getItemParams = function(item) {
+  const params = { ...(this.params || {}) };
+  Object.entries(item.params || {}).forEach(([key, value]) => {
+    if (value !== null && value !== undefined) params[key] = value;
+  });
+  return params;
+};
+
+/**
+ * Results per requested category (and settings, a batch can ask for one
+ * category twice with different content types)
+ * @returns {Array} [{ category, categoryName, contentType, difficulty, model,
+ *   requested, generated, duplicatesRejected, status, errors }]
+ */
+generationJobSchema.methods.getCategorySummary = function() {
+  const summary = new Map();
+
+  this.items.forEach(item => {
+    const params = this.getItemParams(item);
+    const key = [item.category || item.label, params.contentType, params.difficulty, params.model].join('|');
+    const entry = summary.get(key) || {
+      category: item.category,
+      categoryName: item.categoryName || item.label,
+      contentType: params.contentType || null,
+      difficulty: params.difficulty || null,
+      model: params.model || null,
+      requested: 0,
+      generated: 0,
+      duplicatesRejected: 0,
+      statuses: [],
+      errors: [],
+    };
+
+    entry.requested += item.count;
+    entry.generated += item.contentIds.length;
+    entry.duplicatesRejected += (item.stats && item.stats.duplicatesRejected) || 0;
+    entry.statuses.push(item.status);
+    if (item.error) entry.errors.push(item.error);
+    summary.set(key, entry);
+  });
+
+  return Array.from(summary.values()).map(({ statuses, ...entry }) => {
+    let status = 'failed';
+    if (statuses.every(value => value === 'completed')) {
+      status = 'completed';
+    } else if (statuses.some(value => ['pending', 'running'].includes(value))) {
+      status = 'running';
+    } else if (entry.generated > 0) {
+      status = 'partial';
+    } else if (statuses.includes('cancelled') && !statuses.includes('failed')) {
+      status = 'cancelled';
+    }
+    return { ...entry, status };
+  });
+};
+
+/**
+ * Whether the job is finished and will not be picked up again
+ */
+generationJobSchema.methods.isFinished = function() {
+  return ['completed', 'failed', 'cancelled'].includes(this.status);
+};
+
+const GenerationJob = mongoose.model('GenerationJob', generationJobSchema);
+
+module.exports = GenerationJob;
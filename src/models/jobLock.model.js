@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+
+// Lease on a scheduled job, held by the API instance running it. The holder
+// renews it while the job runs; once it expires another instance can take it.
+const jobLockSchema = new mongoose.Schema(
+  {
+    // Job name
+    _id: {
+      type: String,
+    },
+    // Instance holding the lease (INSTANCE_ID, or host name and process ID)
+    holder: {
+      type: String,
+      required: true,
+    },
+    // Identifies one acquisition, so a holder never renews or releases a lease it lost
+    token: {
+      type: String,
+      required: true,
+    },
+    acquiredAt: {
+      type: Date,
+      required: true,
+    },
+    heartbeatAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    run: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'JobRun',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const JobLock = mongoose.model('JobLock', jobLockSchema);
+
+module.exports = JobLock;
@@ -0,0 +1,94 @@
+const mongoose = require('mongoose');
+
+// One run of a scheduled job (daily generation, refresh, recycling...),
+// started by its cron schedule or by an admin
+const jobRunSchema = new mongoose.Schema(
+  {
+    job: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    trigger: {
+      type: String,
+      enum: ['cron', 'manual'],
+      required: true,
+    },
+    // Admin who started a manual run
+    triggeredBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    status: {
+      type: String,
+      // skipped: another instance held the job lock
+      enum: ['running', 'succeeded', 'failed', 'skipped'],
+      default: 'running',
+    },
+    // Only reported what the job would do, result is the preview
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    // Instance that ran the job, or tried to when skipped
+    instance: {
+      type: String,
+      default: null,
+    },
+    // Instance holding the job lock when the run was skipped
+    lockHolder: {
+      type: String,
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    finishedAt: {
+      type: Date,
+      default: null,
+    },
+    durationMs: {
+      type: Number,
+      default: null,
+    },
+    // Parameters the job ran with, e.g. { perCategory }
+    params: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    // Summary the job returned, e.g. { generated, cleanedUp, duplicates }
+    result: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    // Error that failed the run
+    error: {
+      type: new mongoose.Schema({
+        message: String,
+        stack: String,
+      }, { _id: false }),
+      default: null,
+    },
+    // Errors the job recovered from, e.g. one draft that could not be published
+    failures: [{
+      _id: false,
+      message: String,
+      at: {
+        type: Date,
+        default: Date.now,
+      },
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+jobRunSchema.index({ job: 1, startedAt: -1 });
+jobRunSchema.index({ startedAt: -1 });
+
+const JobRun = mongoose.model('JobRun', jobRunSchema);
+
+module.exports = JobRun;
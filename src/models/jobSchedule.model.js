@@ -0,0 +1,59 @@
+const mongoose = require('mongoose');
+const cron = require('node-cron');
+const { isValidTimezone } = require('../utils/timezone');
+
+// Admin settings of one scheduled job. Jobs without settings run with the
+// defaults of the scheduler service.
+const jobScheduleSchema = new mongoose.Schema(
+  {
+    job: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    // Cron expression, unset keeps the default
+    schedule: {
+      type: String,
+      trim: true,
+      default: undefined,
+      validate: {
+        validator: (value) => cron.validate(value),
+        message: (props) => `"${props.value}" is not a valid cron expression`,
+      },
+    },
+    // IANA time zone the schedule is read in, unset for the server time zone
+    timezone: {
+      type: String,
+      trim: true,
+      default: undefined,
+      validate: {
+        validator: isValidTimezone,
+        message: (props) => `Unknown time zone "${props.value}"`,
+      },
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    // Overrides of the job's default parameters
+    params: {
+      type: mongoose.Schema.Types.Mixed,
+      default: () => ({}),
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+jobScheduleSchema.statics.isValidTimezone = isValidTimezone;
+
+const JobSchedule = mongoose.model('JobSchedule', jobScheduleSchema);
+
+module.exports = JobSchedule;
@@ -0,0 +1,46 @@
+const mongoose = require('mongoose');
+const { RULES, SEVERITIES } = require('../utils/contentLint');
+
+// Admin settings of one content lint rule. Rules without settings use the
+// defaults from utils/contentLint.
+const lintRuleSchema = new mongoose.Schema(
+  {
+    rule: {
+      type: String,
+      enum: RULES.map(rule => rule.id),
+      required: true,
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    severity: {
+      type: String,
+      enum: SEVERITIES,
+      required: true,
+    },
+    // Overrides of the rule's default options
+    options: {
+      type: mongoose.Schema.Types.Mixed,
+      default: () => ({}),
+    },
+    // Content types the rule applies to, empty for all. Unset keeps the default.
+    contentTypes: {
+      type: [String],
+      default: undefined,
+    },
+    updatedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const LintRule = mongoose.model('LintRule', lintRuleSchema);
+
+module.exports = LintRule;
@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+
+const variantSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'A variant must have a name'],
+    trim: true,
+  },
+  // Prompt template used instead of the category prompt
+  promptText: {
+    type: String,
+    required: [true, 'A variant must have prompt text'],
+  },
+  // Share of the generation calls relative to the other variants
+  weight: {
+    type: Number,
+    default: 1,
+    min: [0, 'Variant weight cannot be negative'],
+  },
+});
+
+// A/B test of prompt variants on one category. While an experiment runs,
+// generation picks a variant by weight and tags the content with it, so the
+// mobile like/dislike results can be compared per variant.
+const promptExperimentSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'An experiment must have a name'],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      required: [true, 'An experiment must belong to a category'],
+    },
+    // The first variant is the control the others are compared with
+    variants: {
+      type: [variantSchema],
+      validate: {
+        validator: variants => variants.length >= 2,
+        message: 'An experiment needs at least two variants',
+      },
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'running', 'stopped', 'completed'],
+      default: 'draft',
+    },
+    // Confidence needed before a difference counts as significant
+    confidenceLevel: {
+      type: Number,
+      default: 0.95,
+      min: 0.5,
+      max: 0.999,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    // Variant promoted to the category prompt
+    winner: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null,
+    },
+    promotedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one experiment can run on a category at a time
+promptExperimentSchema.index(
+  { category: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+promptExperimentSchema.index({ status: 1, createdAt: -1 });
+
+const PromptExperiment = mongoose.model('PromptExperiment', promptExperimentSchema);
+
+module.exports = PromptExperiment;
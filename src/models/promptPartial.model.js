@@ -0,0 +1,38 @@
+const mongoose = require('mongoose');
+
+// Reusable prompt snippet, included in prompts as {> name}. A partial with the
+// name of a built-in one (e.g. jsonFormat) replaces it.
+const promptPartialSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'A prompt partial must have a name'],
+      trim: true,
+      unique: true,
+      match: [/^[a-zA-Z_][\w-]*$/, 'A partial name may only contain letters, numbers, dashes and underscores'],
+    },
+    text: {
+      type: String,
+      required: [true, 'A prompt partial must have text'],
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+    },
+    updatedBy: {
+      type: mongoose.Schema.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const PromptPartial = mongoose.model('PromptPartial', promptPartialSchema);
+
+module.exports = PromptPartial;
@@ -0,0 +1,73 @@
+const mongoose = require('mongoose');
+
+// Immutable snapshot of a prompt. A new version is stored on every edit of a
+// category prompt field or a prompt template, so older wording can be compared
+// and restored.
+const promptVersionSchema = new mongoose.Schema(
+  {
+    // Exactly one of category / template is set
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      immutable: true,
+    },
+    template: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'PromptTemplate',
+      default: null,
+      immutable: true,
+    },
+    // Field that holds the prompt on the category or template
+    field: {
+      type: String,
+      enum: ['singlePrompt', 'multiplePrompt', 'prompt', 'promptText'],
+      required: true,
+      immutable: true,
+    },
+    // Increments per category/template field, starting at 1
+    version: {
+      type: Number,
+      required: true,
+      immutable: true,
+    },
+    text: {
+      type: String,
+      default: '',
+      immutable: true,
+    },
+    changeNote: {
+      type: String,
+      trim: true,
+      default: null,
+      immutable: true,
+    },
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      immutable: true,
+    },
+    // Set when this version restored the text of an older one
+    rolledBackFrom: {
+      type: Number,
+      default: null,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+promptVersionSchema.index({ category: 1, template: 1, field: 1, version: -1 }, { unique: true });
+
+// Versions are never edited after they are written
+const rejectUpdate = function(next) {
+  next(new Error('Prompt versions are immutable'));
+};
+promptVersionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectUpdate);
+
+const PromptVersion = mongoose.model('PromptVersion', promptVersionSchema);
+
+module.exports = PromptVersion;
@@ -0,0 +1,86 @@
+const mongoose = require('mongoose');
+
+// AI output that still failed schema validation after the repair attempts.
+// Kept with the raw response so it can be reviewed instead of being dropped.
+const quarantinedContentSchema = new mongoose.Schema(
+  {
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      index: true,
+    },
+    contentType: {
+      type: String,
+      enum: ['hack', 'tip', 'hack2', 'tip2', 'quote'],
+      default: 'hack',
+    },
+    difficulty: {
+      type: String,
+      enum: ['beginner', 'intermediate', 'advanced'],
+      default: 'beginner',
+    },
+    // The parsed item, null when the response could not be parsed at all
+    item: {
+      type: mongoose.Schema.Types.Mixed,
+      default: null,
+    },
+    rawResponse: {
+      type: String,
+      required: true,
+    },
+    violations: [String],
+    provider: String,
+    model: String,
+    // Number of model calls made, including repair attempts
+    attempts: {
+      type: Number,
+      default: 1,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'released', 'discarded'],
+      default: 'pending',
+      index: true,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    generationJob: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'GenerationJob',
+      default: null,
+    },
+    aiUsage: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'AIUsage',
+      default: null,
+    },
+    // Draft created when the item was released
+    releasedContent: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+      default: null,
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+quarantinedContentSchema.index({ createdAt: -1 });
+
+const QuarantinedContent = mongoose.model('QuarantinedContent', quarantinedContentSchema);
+
+module.exports = QuarantinedContent;
@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+
+// Keyword or regex rule generated content is screened against before it can
+// be published. Matching items are routed to moderation.
+const safetyRuleSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    type: {
+      type: String,
+      enum: ['keyword', 'regex'],
+      required: true,
+    },
+    // Keywords match whole words, case-insensitively
+    pattern: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // Why matching content is risky, shown to moderators
+    reason: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+    // Categories the rule applies to, empty for all categories
+    categories: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+    }],
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+safetyRuleSchema.path('pattern').validate(function(pattern) {
+  if (this.type !== 'regex') return true;
+  try {
+    new RegExp(pattern, 'iu');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}, 'Pattern is not a valid regular expression');
+
+/**
+ * Regular expression the rule matches text with
+ * @returns {RegExp}
+ */
+safetyRuleSchema.methods.toRegExp = function() {
+  if (this.type === 'regex') {
+    return new RegExp(this.pattern, 'iu');
+  }
+  const escaped = this.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu');
+};
+
+/**
+ * Whether the rule applies to content of a category
+ * @param {ObjectId|String} categoryId - Category ID
+ * @returns {Boolean}
+ */
+safetyRuleSchema.methods.appliesTo = function(categoryId) {
+  return this.categories.length === 0 || this.categories.some(category => String(category) === String(categoryId));
+};
+
+const SafetyRule = mongoose.model('SafetyRule', safetyRuleSchema);
+
+module.exports = SafetyRule;
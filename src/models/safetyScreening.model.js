@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+
+// Generated content the safety screening flagged, with the reasons. Feeds the
+// report of what was held back for moderation and why.
+const safetyScreeningSchema = new mongoose.Schema(
+  {
+    content: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+      default: null,
+      index: true,
+    },
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      default: null,
+      index: true,
+    },
+    title: String,
+    contentType: String,
+    // What produced the content
+    operation: {
+      type: String,
+      enum: ['generate', 'rewrite'],
+      default: 'generate',
+    },
+    reasons: [{
+      _id: false,
+      // banned-topic, keyword, regex or classifier
+      source: {
+        type: String,
+        enum: ['banned-topic', 'keyword', 'regex', 'classifier'],
+        required: true,
+      },
+      // Banned topic, rule name or classifier label
+      rule: String,
+      // Text that matched, or the classifier's explanation
+      match: String,
+    }],
+    classifier: {
+      type: String,
+      default: null,
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    generationJob: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'GenerationJob',
+      default: null,
+    },
+    schedulerRun: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+safetyScreeningSchema.index({ createdAt: -1 });
+
+const SafetyScreening = mongoose.model('SafetyScreening', safetyScreeningSchema);
+
+module.exports = SafetyScreening;
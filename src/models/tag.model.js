@@ -0,0 +1,129 @@
+const mongoose = require('mongoose');
+
+// Canonical tag of the taxonomy. Content tags that match the name or one of
+// the synonyms are stored under the name when content is saved.
+const tagSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    // Normalized name, unique across the taxonomy
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    synonyms: [{
+      type: String,
+      trim: true,
+      maxlength: 50,
+    }],
+    synonymKeys: {
+      type: [String],
+      index: true,
+    },
+    // Categories whose content the synonyms apply to, empty for all categories
+    categories: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+    }],
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Normalize a tag for matching: case, punctuation and separators are ignored,
+ * so "Money-Saving" and "money saving" share a key
+ * @param {String} name - Tag name
+ * @returns {String} Key
+ */
+tagSchema.statics.toKey = (name) => (typeof name === 'string' ? name : '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+tagSchema.pre('validate', function(next) {
+  const toKey = this.constructor.toKey;
+
+  if (this.isModified('name')) {
+    this.key = toKey(this.name);
+  }
+
+  if (this.isModified('synonyms') || this.isModified('name')) {
+    // A synonym equal to the name or to another synonym adds nothing
+    const seen = new Set([this.key]);
+    this.synonyms = this.synonyms.filter(synonym => {
+      const key = toKey(synonym);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    this.synonymKeys = this.synonyms.map(toKey);
+  }
+
+  next();
+});
+
+/**
+ * Whether the tag applies to content of a category
+ * @param {String} categoryId - Category ID
+ * @returns {Boolean}
+ */
+tagSchema.methods.appliesTo = function(categoryId) {
+  if (this.categories.length === 0) return true;
+  return !!categoryId && this.categories.some(category => String(category) === String(categoryId));
+};
+
+/**
+ * Map tags to their canonical names. Tags outside the taxonomy are kept in
+ * their normalized form, repeats are dropped.
+ * @param {Array} tags - Tags as entered or generated
+ * @param {String} categoryId - Category of the content
+ * @returns {Array} Canonical tags
+ */
+tagSchema.statics.normalize = async function(tags, categoryId) {
+  if (!Array.isArray(tags) || tags.length === 0) return [];
+
+  const keys = [...new Set(tags.map(this.toKey).filter(Boolean))];
+  const known = await this.find({ $or: [{ key: { $in: keys } }, { synonymKeys: { $in: keys } }] });
+
+  const resolve = (key) => {
+    const matches = known.filter(tag => tag.key === key || (tag.synonymKeys.includes(key) && tag.appliesTo(categoryId)));
+    // A tag scoped to the category wins over one for all categories
+    const match = matches.find(tag => tag.key === key)
+      || matches.find(tag => tag.categories.length > 0)
+      || matches[0];
+    return match ? match.name : key;
+  };
+
+  const result = [];
+  const seen = new Set();
+  tags.forEach(tag => {
+    const key = this.toKey(tag);
+    if (!key) return;
+
+    const canonical = resolve(key);
+    const canonicalKey = this.toKey(canonical);
+    if (seen.has(canonicalKey)) return;
+
+    seen.add(canonicalKey);
+    result.push(canonical);
+  });
+
+  return result;
+};
+
+const Tag = mongoose.model('Tag', tagSchema);
+
+module.exports = Tag;
@@ -0,0 +1,87 @@
+const mongoose = require('mongoose');
+
+// One entry of a category's topic backlog. Generation draws open topics
+// round-robin and marks them covered once content about them was saved.
+const topicSchema = new mongoose.Schema(
+  {
+    category: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Category',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 150,
+    },
+    // Lowercased name without punctuation, keeps the backlog free of repeats
+    key: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['open', 'covered', 'retired'],
+      default: 'open',
+    },
+    // Added by an editor or suggested by the AI
+    source: {
+      type: String,
+      enum: ['editor', 'ai'],
+      default: 'editor',
+    },
+    // Content generated about this topic
+    content: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Content',
+    }],
+    coveredAt: {
+      type: Date,
+      default: null,
+    },
+    // Last time a generation call was given this topic
+    lastDrawnAt: {
+      type: Date,
+      default: null,
+    },
+    timesDrawn: {
+      type: Number,
+      default: 0,
+    },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+topicSchema.index({ category: 1, key: 1 }, { unique: true });
+// Drawing picks the open topic that waited longest
+topicSchema.index({ category: 1, status: 1, lastDrawnAt: 1, createdAt: 1 });
+
+/**
+ * Normalize a topic name for duplicate checks
+ * @param {String} name - Topic name
+ * @returns {String} Key
+ */
+topicSchema.statics.toKey = (name) => (name || '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+topicSchema.pre('validate', function(next) {
+  if (this.isModified('name')) {
+    this.key = this.constructor.toKey(this.name);
+  }
+  next();
+});
+
+const Topic = mongoose.model('Topic', topicSchema);
+
+module.exports = Topic;
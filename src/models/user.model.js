@@ -1,6 +1,7 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
 const validator = require('validator');
+const { isValidTimezone, getDefaultTimezone, getDateKey, addDays } = require('../utils/timezone');
 
 const userSchema = new mongoose.Schema(
   {
@@ -59,6 +60,16 @@ const userSchema = new mongoose.Schema(
     passwordResetToken: String,
     passwordResetExpires: Date,
     lastLogin: Date,
+    // IANA time zone of the user's device, their day for the daily deck and streaks
+    timezone: {
+      type: String,
+      trim: true,
+      default: undefined,
+      validate: {
+        validator: isValidTimezone,
+        message: (props) => `Unknown time zone "${props.value}"`,
+      },
+    },
     subscription: {
       tier: {
         type: String,
@@ -215,21 +226,22 @@ userSchema.methods.correctPassword = async function (candidatePassword, userPass
   return await bcrypt.compare(candidatePassword, userPassword);
 };
 
-// Method to update streak
-userSchema.methods.updateStreak = function () {
+// Method to update streak, by calendar days in the user's time zone
+userSchema.methods.updateStreak = function (timezone = this.timezone) {
   const now = new Date();
   const lastActivity = this.stats.streak.lastActivity;
+  const zone = isValidTimezone(timezone) ? timezone : getDefaultTimezone();
   
   if (!lastActivity) {
     // First activity
     this.stats.streak.current = 1;
     this.stats.streak.longest = 1;
   } else {
-    // Check if last activity was yesterday
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
+    const today = getDateKey(now, zone);
+    const lastDay = getDateKey(lastActivity, zone);
     
-    if (lastActivity.toDateString() === yesterday.toDateString()) {
+    // Check if last activity was yesterday
+    if (lastDay === addDays(today, -1)) {
       // Continue streak
       this.stats.streak.current += 1;
       
@@ -237,7 +249,7 @@ userSchema.methods.updateStreak = function () {
       if (this.stats.streak.current > this.stats.streak.longest) {
         this.stats.streak.longest = this.stats.streak.current;
       }
-    } else if (lastActivity.toDateString() === now.toDateString()) {
+    } else if (lastDay === today) {
       // Already logged in today, no streak change
       return;
     } else {
@@ -250,6 +262,16 @@ userSchema.methods.updateStreak = function () {
   this.stats.streak.lastActivity = now;
 };
 
+// Whether the streak has lapsed: no activity yesterday or today in the user's
+// time zone, the days updateStreak continues a streak from
+userSchema.methods.isStreakBroken = function (now = new Date(), timezone = this.timezone) {
+  const lastActivity = this.stats.streak.lastActivity || this.lastLogin;
+  if (!lastActivity) return false;
+  
+  const zone = isValidTimezone(timezone) ? timezone : getDefaultTimezone();
+  return getDateKey(lastActivity, zone) < addDays(getDateKey(now, zone), -1);
+};
+
 const User = mongoose.model('User', userSchema);
 
 module.exports = User; 
\ No newline at end of file
@@ -3,6 +3,12 @@ const adminController = require('../controllers/admin.controller');
 const authController = require('../controllers/auth.controller');
 const userController = require('../controllers/user.controller');
 const contentController = require('../controllers/content.controller');
+const aiUsageController = require('../controllers/aiUsage.controller');
+const quarantineController = require('../controllers/quarantine.controller');
+const tagController = require('../controllers/tag.controller');
+const lintRuleController = require('../controllers/lintRule.controller');
+const safetyController = require('../controllers/safety.controller');
+const jobController = require('../controllers/job.controller');
 
 const router = express.Router();
 
@@ -34,6 +40,7 @@ router.delete('/users/:id',
 // Content moderation routes
 router.get('/content/pending', adminController.getPendingContent);
 router.patch('/content/:id/moderate', adminController.moderateContent);
+router.get('/content/scheduled', adminController.getScheduledContent);
 router.patch('/content/:id/schedule', adminController.scheduleContent);
 router.delete('/content/:id', adminController.deleteContent);
 router.post('/content', adminController.createContent);
@@ -44,6 +51,47 @@ router.post('/content/generate',
   adminController.generateContent
 );
 
+// AI output that failed schema validation
+router.get('/content/quarantine', quarantineController.getQuarantinedContent);
+router.post('/content/quarantine/:id/release', quarantineController.releaseQuarantinedContent);
+router.post('/content/quarantine/:id/discard', quarantineController.discardQuarantinedContent);
+
+// Tag taxonomy: canonical names, synonyms, merges across all content
+router.route('/tags')
+  .get(tagController.getTags)
+  .post(tagController.createTag);
+
+router.post('/tags/merge', tagController.mergeTags);
+router.post('/tags/remove', tagController.removeTags);
+
+router.route('/tags/:id')
+  .patch(tagController.updateTag)
+  .delete(tagController.deleteTag);
+
+// Content lint rules checked before publishing
+router.get('/lint-rules', lintRuleController.getLintRules);
+router.patch('/lint-rules/:rule', authController.restrictTo('admin'), lintRuleController.updateLintRule);
+router.post('/lint-rules/:rule/reset', authController.restrictTo('admin'), lintRuleController.resetLintRule);
+
+// Safety screening of generated content: rules and report of flagged items
+router.route('/safety/rules')
+  .get(safetyController.getSafetyRules)
+  .post(authController.restrictTo('admin'), safetyController.createSafetyRule);
+
+router.route('/safety/rules/:id')
+  .patch(authController.restrictTo('admin'), safetyController.updateSafetyRule)
+  .delete(authController.restrictTo('admin'), safetyController.deleteSafetyRule);
+
+router.get('/safety/report', safetyController.getSafetyReport);
+
+// Scheduled jobs and their run history
+router.get('/jobs', jobController.getJobs);
+router.get('/jobs/runs', jobController.getJobRuns);
+router.get('/jobs/runs/:id', jobController.getJobRun);
+router.patch('/jobs/:name', authController.restrictTo('admin'), jobController.updateJob);
+router.post('/jobs/:name/reset', authController.restrictTo('admin'), jobController.resetJob);
+router.post('/jobs/:name/run', authController.restrictTo('admin'), jobController.runJob);
+
 // Move published content to deleted status
 router.post('/content/move-published-to-deleted',
   authController.restrictTo('admin'),
@@ -63,6 +111,19 @@ router.get('/analytics/users',
   adminController.getUserAnalytics
 );
 
+// AI usage ledger and spend analytics
+router.get('/ai-usage', aiUsageController.getUsageAnalytics);
+router.get('/ai-usage/records', aiUsageController.getUsageRecords);
+
+// Monthly AI budgets (Admin only)
+router.route('/ai-budgets')
+  .get(aiUsageController.getBudgets)
+  .post(authController.restrictTo('admin'), aiUsageController.createBudget);
+
+router.route('/ai-budgets/:id')
+  .patch(authController.restrictTo('admin'), aiUsageController.updateBudget)
+  .delete(authController.restrictTo('admin'), aiUsageController.deleteBudget);
+
 // Prompt seeding route (Admin only)
 router.post('/prompts/seed-from-file', 
   authController.restrictTo('admin'), 
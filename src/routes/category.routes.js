@@ -1,6 +1,7 @@
 const express = require('express');
 const categoryController = require('../controllers/category.controller');
 const authController = require('../controllers/auth.controller');
+const topicController = require('../controllers/topic.controller');
 
 const router = express.Router();
 
@@ -24,4 +25,11 @@ router.patch('/:id', categoryController.updateCategory);
 router.delete('/:id', categoryController.deleteCategory);
 router.get('/:id/stats', categoryController.getCategoryStats);
 
+// Topic backlog that generation draws from
+router.get('/:id/topics', topicController.getTopics);
+router.post('/:id/topics', topicController.addTopics);
+router.post('/:id/topics/suggest', topicController.suggestTopics);
+router.patch('/:id/topics/:topicId', topicController.updateTopic);
+router.delete('/:id/topics/:topicId', topicController.deleteTopic);
+
 module.exports = router; 
\ No newline at end of file
@@ -1,12 +1,19 @@
 const express = require('express');
 const contentController = require('../controllers/content.controller');
 const authController = require('../controllers/auth.controller');
+const { detectLocale } = require('../middleware/locale.middleware');
+const { detectTimezone } = require('../middleware/timezone.middleware');
 
 const router = express.Router();
 
+// Every content response can be localized (locale query parameter or Accept-Language)
+router.use(detectLocale);
+
 // Public route for content types (no authentication required)
 router.get('/types', contentController.getContentTypes);
-router.get('/category/:categoryId', contentController.getContentByCategory);
+router.get('/locales', contentController.getLocales);
+// Anonymous devices send their time zone so they see the deck of their own day
+router.get('/category/:categoryId', detectTimezone, contentController.getContentByCategory);
 
 // Public route for user actions (like/dislike/maybe) without authentication
 router.post('/action-public', contentController.recordUserAction);
@@ -22,7 +29,7 @@ router.use(authController.protect);
 router.get('/', contentController.getAllContent);
 
 // Daily content routes
-router.get('/daily', contentController.getDailyContent);
+router.get('/daily', detectTimezone, contentController.getDailyContent);
 
 // Get content by pool
 router.get('/pool', contentController.getContentByPool);
@@ -44,6 +51,13 @@ router.post(
   contentController.generateMultipleContent
 );
 
+// Batch generation with per-category settings, runs as a background job
+router.post(
+  '/generate-batch',
+  authController.restrictTo('admin', 'content-creator', 'moderator'),
+  contentController.generateBatchContent
+);
+
 // Deleted content routes - moved up before the /:id routes
 router.route('/deleted')
   .get(authController.restrictTo('admin', 'moderator'), contentController.getDeletedContent);
@@ -66,6 +80,36 @@ router.post(
   contentController.rewriteContent
 );
 
+// Translations
+router.route('/:id/translations/:locale')
+  .put(authController.restrictTo('admin', 'moderator'), contentController.saveTranslation)
+  .delete(authController.restrictTo('admin', 'moderator'), contentController.deleteTranslation);
+
+router.post(
+  '/:id/translations/:locale/generate',
+  authController.restrictTo('admin', 'moderator', 'content-creator'),
+  contentController.generateTranslation
+);
+
+// Revision history
+router.get('/:id/revisions', authController.restrictTo('admin', 'moderator'), contentController.getContentRevisions);
+router.get('/:id/revisions/diff', authController.restrictTo('admin', 'moderator'), contentController.diffContentRevisions);
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  authController.restrictTo('admin', 'moderator'),
+  contentController.restoreContentRevision
+);
+
+// Cover image generated from the title (IMAGE_PROVIDER)
+router.post(
+  '/:id/cover-image',
+  authController.restrictTo('admin', 'moderator', 'content-creator'),
+  contentController.generateCoverImage
+);
+
+// Lint rules checked before publishing
+router.get('/:id/lint', authController.restrictTo('admin', 'moderator', 'content-creator'), contentController.getContentLint);
+
 // Routes for marking content as duplicate
 router.route('/:id/mark-duplicate')
   .post(authController.restrictTo('admin', 'moderator'), contentController.markContentAsDuplicate);
@@ -0,0 +1,17 @@
+const express = require('express');
+const generationJobController = require('../controllers/generationJob.controller');
+const authController = require('../controllers/auth.controller');
+
+const router = express.Router();
+
+// Generation jobs are created by the content generation endpoints,
+// these routes only follow and control them
+router.use(authController.protect);
+router.use(authController.restrictTo('admin', 'content-creator', 'moderator'));
+
+router.get('/', generationJobController.getAllJobs);
+router.get('/:id', generationJobController.getJob);
+router.post('/:id/cancel', generationJobController.cancelJob);
+router.post('/:id/retry', generationJobController.retryJob);
+
+module.exports = router;
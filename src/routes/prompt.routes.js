@@ -1,6 +1,7 @@
 const express = require('express');
 const promptController = require('../controllers/prompt.controller');
 const authController = require('../controllers/auth.controller');
+const promptExperimentController = require('../controllers/promptExperiment.controller');
 
 const router = express.Router();
 
@@ -10,6 +11,20 @@ router.use(authController.protect);
 // Get all prompts (available to all authenticated users)
 router.get('/', promptController.getAllPromptTemplates);
 
+// Render the final prompt for a category without calling the model
+router.post('/preview', promptController.previewPrompt);
+
+// Shared prompt partials
+router.get('/partials', promptController.getPromptPartials);
+
+// Prompt version history and diffs
+router.get('/versions', promptController.getPromptVersions);
+router.get('/versions/diff', promptController.diffPromptVersions);
+
+// Prompt A/B experiments and their results
+router.get('/experiments', promptExperimentController.getExperiments);
+router.get('/experiments/:id', promptExperimentController.getExperiment);
+
 // Get single prompt by ID
 router.get('/:id', promptController.getPromptTemplate);
 
@@ -23,9 +38,29 @@ router.post(
 // Routes restricted to admin and content creators
 router.use(authController.restrictTo('admin', 'content-creator'));
 
+// Generate a sample with a prompt without saving it (calls the model)
+router.post('/test-run', promptController.testRunPrompt);
+
 // Create, update, delete prompts
 router.post('/', promptController.createPromptTemplate);
+router.post('/:id/clone', promptController.clonePromptTemplate);
 router.patch('/:id', promptController.updatePromptTemplate);
 router.delete('/:id', promptController.deletePromptTemplate);
 
+// Create, update, delete prompt partials
+router.post('/partials', promptController.createPromptPartial);
+router.patch('/partials/:id', promptController.updatePromptPartial);
+router.delete('/partials/:id', promptController.deletePromptPartial);
+
+// Manage prompt experiments
+router.post('/experiments', promptExperimentController.createExperiment);
+router.patch('/experiments/:id', promptExperimentController.updateExperiment);
+router.delete('/experiments/:id', promptExperimentController.deleteExperiment);
+router.post('/experiments/:id/start', promptExperimentController.startExperiment);
+router.post('/experiments/:id/stop', promptExperimentController.stopExperiment);
+router.post('/experiments/:id/promote', promptExperimentController.promoteVariant);
+
+// Roll a prompt back to an older version
+router.post('/versions/:versionId/rollback', promptController.rollbackPromptVersion);
+
 module.exports = router; 
\ No newline at end of file
@@ -0,0 +1,14 @@
+const express = require('express');
+const uploadController = require('../controllers/upload.controller');
+const authController = require('../controllers/auth.controller');
+const uploadMiddleware = require('../middleware/upload.middleware');
+
+const router = express.Router();
+
+router.use(authController.protect);
+router.use(authController.restrictTo('admin', 'content-creator', 'moderator'));
+
+// multipart/form-data with the file in "image" and purpose (content or category)
+router.post('/images', uploadMiddleware.singleImage('image'), uploadController.uploadImage);
+
+module.exports = router;
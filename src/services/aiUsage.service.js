@@ -0,0 +1,253 @@
+const mongoose = require('mongoose');
+const AIUsage = require('../models/aiUsage.model');
+const AIBudget = require('../models/aiBudget.model');
+const AppError = require('../utils/appError');
+const pricing = require('./llm/pricing');
+
+/**
+ * Start of the current calendar month (UTC)
+ * @param {Date} date - Reference date
+ * @returns {Date} Month start
+ */
+const getMonthStart = (date = new Date()) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const toObjectId = (value) => {
+  if (!value) return null;
+  const id = value._id || value;
+  return mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id.toString()) : null;
+};
+
+/**
+ * Record one AI call in the ledger. Ledger failures are logged and never break generation.
+ * @param {Object} entry - Call details
+ * @param {Object} entry.provider - Provider that handled the call
+ * @param {String} entry.model - Model used
+ * @param {Object} entry.usage - { promptTokens, completionTokens }
+ * @param {Number} entry.latencyMs - Call duration
+ * @param {String} entry.outcome - success, error, timeout, rate_limited, parse_error or blocked
+ * @param {String} entry.error - Error message for failed calls
+ * @param {Object} entry.category - Category (document or ID)
+ * @param {Object} entry.context - Usage context passed by the caller (user, source, operation...)
+ * @param {Array} entry.budgetWarnings - Budget warnings that applied
+ * @returns {Object|null} Ledger record
+ */
+exports.recordUsage = async ({ provider, model, usage = {}, latencyMs = 0, outcome = 'success', error = null, category = null, context = {}, budgetWarnings = [] }) => {
+  const promptTokens = usage.promptTokens || 0;
+  const completionTokens = usage.completionTokens || 0;
+
+  try {
+    const record = await AIUsage.create({
+      provider: provider.name,
+      model,
+      operation: context.operation || 'generate',
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      latencyMs,
+      outcome,
+      error,
+      estimatedCost: provider.billable ? pricing.estimateCost(model, promptTokens, completionTokens) : 0,
+      source: context.source || (context.user ? 'user' : 'system'),
+      category: toObjectId(category),
+      user: toObjectId(context.user),
+      generationJob: toObjectId(context.generationJob),
+      schedulerRun: context.schedulerRun || null,
+      contentIds: (context.contentIds || []).map(toObjectId).filter(Boolean),
+      budgetWarnings,
+    });
+
+    // Let the caller link the content it creates from this call
+    context.usageId = record._id;
+
+    return record;
+  } catch (ledgerError) {
+    console.error('Failed to record AI usage:', ledgerError.message);
+    return null;
+  }
+};
+
+/**
+ * Link content documents to the ledger record of the call that produced them
+ * @param {Object} context - Usage context that was passed to the AI call
+ * @param {Array} contentIds - Content documents or IDs
+ */
+exports.linkContent = async (context, contentIds) => {
+  if (!context || !context.usageId || !contentIds || contentIds.length === 0) {
+    return;
+  }
+
+  try {
+    await AIUsage.findByIdAndUpdate(context.usageId, {
+      $addToSet: { contentIds: { $each: contentIds.map(toObjectId).filter(Boolean) } },
+    });
+  } catch (error) {
+    console.error('Failed to link content to AI usage record:', error.message);
+  }
+};
+
+/**
+ * Spend of the current month for a budget
+ * @param {Object} budget - Budget document
+ * @returns {Number} Spent amount in USD
+ */
+const getMonthlySpend = async (budget) => {
+  const match = { createdAt: { $gte: getMonthStart() } };
+  if (budget.scope === 'category') {
+    match.category = budget.category;
+  }
+
+  const [result] = await AIUsage.aggregate([
+    { $match: match },
+    { $group: { _id: null, total: { $sum: '$estimatedCost' } } },
+  ]);
+
+  return result ? result.total : 0;
+};
+
+/**
+ * Current status of the budgets that apply to a category: the global ones and
+ * the category's own. Calls without a category only count against global budgets.
+ * @param {Object} category - Category (document or ID), optional
+ * @param {Object} options
+ * @param {Boolean} options.all - Every active budget whatever its scope, for the budget list
+ * @returns {Array} [{ budget, spent, ratio, exceeded, warning }]
+ */
+exports.getBudgetStatus = async (category = null, { all = false } = {}) => {
+  const filter = { active: true };
+  const categoryId = toObjectId(category);
+
+  if (categoryId && !all) {
+    filter.$or = [{ scope: 'global' }, { scope: 'category', category: categoryId }];
+  } else if (!all) {
+    filter.scope = 'global';
+  }
+
+  const budgets = await AIBudget.find(filter).populate('category', 'name');
+
+  return Promise.all(budgets.map(async budget => {
+    const spent = await getMonthlySpend(budget);
+    const ratio = budget.monthlyLimit > 0 ? spent / budget.monthlyLimit : (spent > 0 ? Infinity : 0);
+
+    return {
+      budget,
+      spent: Math.round(spent * 10000) / 10000,
+      ratio,
+      exceeded: ratio >= 1,
+      warning: ratio >= budget.warnAt,
+    };
+  }));
+};
+
+/**
+ * Check the budgets before making an AI call
+ * @param {Object} category - Category the call is made for
+ * @returns {Object} { blocked, blockedBy, warnings }
+ */
+exports.checkBudget = async (category = null) => {
+  const statuses = await exports.getBudgetStatus(category);
+
+  const blocking = statuses.find(status => status.exceeded && status.budget.action === 'block');
+  const warnings = statuses
+    .filter(status => status.warning)
+    .map(status => `${status.budget.name}: $${status.spent.toFixed(2)} of $${status.budget.monthlyLimit.toFixed(2)} used this month`);
+
+  return {
+    blocked: Boolean(blocking),
+    blockedBy: blocking ? blocking.budget : null,
+    warnings,
+  };
+};
+
+/**
+ * Throw when a blocking budget is exhausted, otherwise return the warnings
+ * @param {Object} category - Category the call is made for
+ * @returns {Array} Budget warnings
+ */
+exports.enforceBudget = async (category = null) => {
+  let result;
+  try {
+    result = await exports.checkBudget(category);
+  } catch (error) {
+    // A broken budget lookup must not stop generation
+    console.error('Failed to check AI budgets:', error.message);
+    return [];
+  }
+
+  if (result.blocked) {
+    throw new AppError(`Monthly AI budget "${result.blockedBy.name}" is exhausted. Raise the limit or wait for next month.`, 402);
+  }
+
+  result.warnings.forEach(warning => console.warn(`AI budget warning - ${warning}`));
+
+  return result.warnings;
+};
+
+/**
+ * Spend breakdown for the analytics dashboard
+ * @param {Object} options
+ * @param {Date} options.from - Start date (defaults to the start of the month)
+ * @param {Date} options.to - End date (defaults to now)
+ * @returns {Object} Totals and breakdowns by day, model, category, outcome and source
+ */
+exports.getUsageAnalytics = async ({ from, to } = {}) => {
+  const match = {
+    createdAt: {
+      $gte: from || getMonthStart(),
+      $lte: to || new Date(),
+    },
+  };
+
+  const sums = {
+    calls: { $sum: 1 },
+    promptTokens: { $sum: '$promptTokens' },
+    completionTokens: { $sum: '$completionTokens' },
+    totalTokens: { $sum: '$totalTokens' },
+    cost: { $sum: '$estimatedCost' },
+    errors: { $sum: { $cond: [{ $eq: ['$outcome', 'success'] }, 0, 1] } },
+    avgLatencyMs: { $avg: '$latencyMs' },
+  };
+
+  const [totals, byDay, byModel, byCategory, byOutcome, bySource] = await Promise.all([
+    AIUsage.aggregate([{ $match: match }, { $group: { _id: null, ...sums } }]),
+    AIUsage.aggregate([
+      { $match: match },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...sums } },
+      { $sort: { _id: 1 } },
+    ]),
+    AIUsage.aggregate([
+      { $match: match },
+      { $group: { _id: '$model', ...sums } },
+      { $sort: { cost: -1 } },
+    ]),
+    AIUsage.aggregate([
+      { $match: match },
+      { $group: { _id: '$category', ...sums } },
+      { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category' } },
+      { $unwind: { path: '$category', preserveNullAndEmptyArrays: true } },
+      { $addFields: { categoryName: { $ifNull: ['$category.name', 'No category'] } } },
+      { $project: { category: 0 } },
+      { $sort: { cost: -1 } },
+    ]),
+    AIUsage.aggregate([{ $match: match }, { $group: { _id: '$outcome', calls: { $sum: 1 } } }]),
+    AIUsage.aggregate([{ $match: match }, { $group: { _id: '$source', ...sums } }]),
+  ]);
+
+  const budgets = await exports.getBudgetStatus(null, { all: true });
+
+  return {
+    range: match.createdAt,
+    totals: totals[0] || { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, errors: 0, avgLatencyMs: 0 },
+    byDay,
+    byModel,
+    byCategory,
+    byOutcome,
+    bySource,
+    budgets: budgets.map(status => ({
+      ...status.budget.toObject(),
+      spent: status.spent,
+      ratio: Number.isFinite(status.ratio) ? status.ratio : 1,
+      exceeded: status.exceeded,
+      warning: status.warning,
+    })),
+  };
+};
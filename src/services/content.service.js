@@ -1,53 +1,106 @@
-const OpenAI = require('openai');
 const Content = require('../models/content.model');
+const QuarantinedContent = require('../models/quarantinedContent.model');
 const AppError = require('../utils/appError');
+const llm = require('./llm');
+const outputSchema = require('./llm/outputSchema');
+const aiUsageService = require('./aiUsage.service');
+const promptVersionService = require('./promptVersion.service');
+const topicService = require('./topic.service');
+const safetyService = require('./safety.service');
+const { formatQuote, pickQuoteFields } = require('../utils/quoteAttribution');
 
-// IMPORTANT: OPENAI API KEY MUST BE SET IN ENVIRONMENT VARIABLES
-if (!process.env.OPENAI_API_KEY) {
-  console.error("-------------------------------------------");
-  console.error("CRITICAL ERROR: OPENAI_API_KEY IS NOT SET");
-  console.error("Content generation WILL FAIL until fixed");
-  console.error("-------------------------------------------");
-  
-  // Deliberately throw an error at startup to prevent server from running without API key
-  throw new Error('OpenAI API key (OPENAI_API_KEY) is not set in environment variables');
-}
+// How many times the model is asked to fix output that fails the schema
+const getRepairAttempts = () => {
+  const attempts = parseInt(process.env.LLM_REPAIR_ATTEMPTS, 10);
+  return Number.isNaN(attempts) || attempts < 0 ? 2 : attempts;
+};
 
-// Initialize OpenAI client directly with the API key - ALWAYS use real API
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 120000, // 2 minute timeout for API calls
-  maxRetries: 3, // Allow 3 retries for failed API calls
-});
-
-console.log("-------------------------------------------");
-console.log("OpenAI API initialized with real API key");
-console.log("MOCK DATA COMPLETELY REMOVED - REAL API ONLY");
-console.log("-------------------------------------------");
-
-
-// Find the validateGeneratedContent function or add it if it doesn't exist
-const validateGeneratedContent = (content) => {
-  if (Array.isArray(content)) {
-    // Validate an array of content items
-    if (content.length === 0) {
-      throw new Error('Generated content array is empty');
-    }
+/**
+ * Parse the raw model response as JSON
+ * @param {String} responseText - Raw response text
+ * @returns {Object|Array} Parsed output
+ */
+const parseAIResponse = (responseText) => {
+  try {
+    return JSON.parse(responseText);
+  } catch (parseError) {
+    console.error('JSON parsing error:', parseError);
     
-    content.forEach((item, index) => {
-      if (!item.title || !item.body) {
-        throw new Error(`Generated content item ${index + 1} is missing required fields`);
+    // Try to extract JSON from the response if it's wrapped with other text
+    // This is useful for models that don't strictly adhere to the JSON-only instruction
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      try {
+        return JSON.parse(jsonMatch[0]);
+      } catch (extractError) {
+        throw parseError;
       }
-    });
-    
-    return content;
-  } else {
-    // Validate a single content item
-    if (!content.title || !content.body) {
-      throw new Error('Generated content is missing required fields');
     }
     
-    return content;
+    // If no JSON-like structure is found, try cleaning the string
+    const cleanedText = responseText
+      .replace(/[\u0000-\u001F\u007F-\u009F]/g, "") // Remove control characters
+      .replace(/\\(?!["\\/bfnrt])/g, "\\\\"); // Escape backslashes properly
+    
+    try {
+      return JSON.parse(cleanedText);
+    } catch (secondParseError) {
+      console.error('Second JSON parse attempt failed:', secondParseError);
+      throw new Error('Could not parse AI-generated content');
+    }
+  }
+};
+
+/**
+ * Follow-up prompt listing what was wrong with the previous response
+ * @param {Array} violations - Schema violations
+ * @param {Number} count - Number of items requested
+ * @returns {String} Repair prompt
+ */
+const buildRepairPrompt = (violations, count) => `Your previous response did not match the required format:
+${violations.map(violation => `- ${violation}`).join('\n')}
+
+Fix these problems and return the complete corrected response as ${count > 1 ? `a JSON array of exactly ${count} items` : 'a single JSON object'}, without any text before or after it.`;
+
+/**
+ * Version of the category prompt used for a generation call. Prompts that were
+ * set before versioning existed get their first version here.
+ * @returns {ObjectId|null} PromptVersion ID, null when it cannot be resolved
+ */
+const resolvePromptVersion = async (category, field, text) => {
+  try {
+    const version = await promptVersionService.ensureCurrentVersion({ category: category._id, field }, text);
+    return version ? version._id : null;
+  } catch (error) {
+    // Attribution must never block generation
+    console.error(`Failed to resolve prompt version for ${field}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Keep output that failed validation for review instead of dropping it
+ * @param {Array} entries - [{ item, violations }]
+ * @param {Object} details - Category, content type, raw response and call details
+ */
+const quarantineItems = async (entries, { category, contentType, difficulty, rawResponse, provider, model, attempts, usageContext = {} }) => {
+  try {
+    await QuarantinedContent.insertMany(entries.map(entry => ({
+      category: category && category._id ? category._id : category,
+      contentType,
+      difficulty,
+      item: entry.item,
+      rawResponse,
+      violations: entry.violations,
+      provider: provider.name,
+      model,
+      attempts,
+      user: usageContext.user || null,
+      generationJob: usageContext.generationJob || null,
+      aiUsage: usageContext.usageId || null,
+    })));
+  } catch (error) {
+    console.error('Failed to quarantine AI output:', error.message);
   }
 };
 
@@ -56,48 +109,78 @@ module.exports = {
   findRecyclableContent: exports.findRecyclableContent,
   recycleContent: exports.recycleContent,
   scheduleContent: exports.scheduleContent,
+  getCurrentDecks: exports.getCurrentDecks,
   generateDailyContent: exports.generateDailyContent,
   generateMultipleContent: exports.generateMultipleContent,
+  rewriteContent: exports.rewriteContent,
   getPromptForCategoryAndType: exports.getPromptForCategoryAndType,
   movePublishedToDeleted: exports.movePublishedToDeleted
 };
 
 /**
- * Generate content using OpenAI API
+ * Generate content using the configured LLM provider
  * @param {Object} category - Category document
- * @param {String} topic - Specific topic (optional)
+ * @param {String|Array} topic - Specific topic, or one topic per requested item (optional)
  * @param {String} difficulty - Difficulty level (beginner, intermediate, advanced)
  * @param {String} customPrompt - Custom prompt to override default
  * @param {String} model - AI model to use for generation
- * @returns {Object} Generated content
+ * @param {Object} usageContext - Who triggered the call, recorded in the AI usage ledger
+ *   ({ operation, user, source, schedulerRun, generationJob }). Receives usageId once recorded.
+ * @param {Object} outputOptions - Expected output
+ * @param {String} outputOptions.contentType - Content type whose schema the output must match
+ *   (defaults to the category's content type)
+ * @param {Number} outputOptions.count - Number of items the prompt asks for (defaults to 1)
+ * @param {Boolean} outputOptions.quarantine - Keep invalid output for review (defaults to true, off for test runs)
+ * @param {String} outputOptions.schema - Output schema to validate against instead of the content type's
+ * @returns {Object|Array} Generated content, an array of valid items when several were requested
  */
-exports.generateWithAI = async (category, topic, difficulty = 'beginner', customPrompt = null, model = 'gpt-4-turbo-preview') => {
-  const AppError = require('../utils/appError');
+exports.generateWithAI = async (category, topic, difficulty = 'beginner', customPrompt = null, model = 'gpt-4-turbo-preview', usageContext = {}, outputOptions = {}) => {
+  const provider = llm.getProvider();
+  const contentType = outputOptions.contentType || (category && category.contentType) || 'hack';
+  const expectedCount = outputOptions.count || 1;
+  const shouldQuarantine = outputOptions.quarantine !== false;
+  // Output that is not a content item (e.g. a translation) is checked against its own schema
+  const schemaName = outputOptions.schema || contentType;
   
-  // Force use of real OpenAI API - no mock data
-  if (!process.env.OPENAI_API_KEY) {
-    console.error("CRITICAL ERROR: No OpenAI API key provided");
-    throw new AppError('OpenAI API key is required for content generation. Please check your environment configuration.', 500);
+  if (!provider.isConfigured()) {
+    console.error(`CRITICAL ERROR: LLM provider "${provider.name}" is not configured`);
+    throw new AppError(`LLM provider "${provider.name}" is not configured for content generation. Please check your environment configuration.`, 500);
   }
   
-  console.log("Using real OpenAI API for content generation with model:", model);
+  console.log(`Using LLM provider "${provider.name}" for content generation with model:`, model);
+
+  // Stop here if a blocking monthly budget is used up
+  let budgetWarnings;
+  try {
+    budgetWarnings = await aiUsageService.enforceBudget(category);
+  } catch (error) {
+    await aiUsageService.recordUsage({ provider, model, outcome: 'blocked', error: error.message, category, context: usageContext });
+    throw error;
+  }
 
   let actualPrompt = customPrompt;
+  let promptField = null;
   
-  // If the category object is populated, determine which prompt to use
-  if (category) {
+  // A custom prompt overrides the category prompts
+  if (actualPrompt) {
+    console.log(`Generating content for category: ${category?.name || 'unknown'} with a custom prompt`);
+  } else if (category) {
+    // If the category object is populated, determine which prompt to use
     console.log(`Generating content for category: ${category.name}, promptType: ${category.promptType}`);
     
     if (category.promptType === 'single' && category.singlePrompt) {
       console.log('Using singlePrompt from category');
       actualPrompt = category.singlePrompt;
+      promptField = 'singlePrompt';
     } else if (category.promptType === 'multiple' && category.multiplePrompt) {
       console.log('Using multiplePrompt from category');
       actualPrompt = category.multiplePrompt;
+      promptField = 'multiplePrompt';
     } else if (category.prompt) {
       // Fall back to legacy prompt field
       console.log('Using legacy prompt field from category');
       actualPrompt = category.prompt;
+      promptField = 'prompt';
     } else {
       console.log('No prompt found in category');
     }
@@ -105,6 +188,38 @@ exports.generateWithAI = async (category, topic, difficulty = 'beginner', custom
     console.log('Category object is not provided or invalid');
   }
   
+  // A running experiment on the category replaces its prompt with one of the variants
+  let variant = null;
+  if (!customPrompt && category && category._id) {
+    const promptExperimentService = require('./promptExperiment.service');
+    const assignment = await promptExperimentService.assignVariant(category._id);
+    
+    if (assignment) {
+      console.log(`Using variant "${assignment.variant.name}" of prompt experiment "${assignment.experiment.name}"`);
+      variant = assignment.variant;
+      actualPrompt = variant.promptText;
+      usageContext.promptExperiment = assignment.experiment._id;
+      usageContext.promptVariant = variant._id;
+    }
+  }
+  
+  // Remember which prompt version produced the output, then fill in the template
+  if ((promptField || variant) && category._id) {
+    if (!variant) {
+      usageContext.promptVersion = await resolvePromptVersion(category, promptField, actualPrompt);
+    }
+    
+    const promptService = require('./prompt.service');
+    try {
+      const rendered = await promptService.renderPrompt(actualPrompt, category, { count: expectedCount, contentType, difficulty, topic });
+      actualPrompt = rendered.variables.includes('topic')
+        ? rendered.text
+        : promptService.withTopicInstructions(rendered.text, topic, expectedCount);
+    } catch (error) {
+      console.error('Failed to render the prompt template, using it as written:', error.message);
+    }
+  }
+  
   // If no prompt was found or provided, construct a generic one
   if (!actualPrompt) {
     console.warn(`No specific prompt found for category '${category?.name || "unknown"}' and no custom prompt provided. Using generic prompt.`);
@@ -115,129 +230,183 @@ exports.generateWithAI = async (category, topic, difficulty = 'beginner', custom
       The content should be engaging, informative, and valuable to users.
       `;
     const genericUserPrompt = topic 
-      ? `Create a life hack about "${topic}" for the ${category?.name || "lifestyle"} category.` 
+      ? `Create a life hack about "${[].concat(topic).join('", "')}" for the ${category?.name || "lifestyle"} category.` 
       : `Create an original life hack for the ${category?.name || "lifestyle"} category.`;
     actualPrompt = genericSystemPrompt + '\n\n' + genericUserPrompt; // Simplified combination
   }
   
-  // Content structure requirements - make sure this is clear and explicit for JSON formatting
-  const formatPrompt = `
-Your response must be a valid JSON object with the following fields:
-- title: A concise, engaging title (max 80 characters)
-- summary: A brief summary (max 150 characters)
-- body: Detailed content with formatting (markdown supported, 300-600 characters)
-- tags: An array of 3-5 relevant keywords/tags
+  // Output format instructions come from the declared schema of the content type
+  const finalPrompt = outputSchema.withFormatInstructions(actualPrompt, schemaName, expectedCount);
 
-FORMAT YOUR RESPONSE AS CLEAN JSON WITHOUT ANY EXPLANATION TEXT BEFORE OR AFTER IT.
-ENSURE THERE ARE NO CONTROL CHARACTERS OR INVALID ESCAPE SEQUENCES IN YOUR JSON.
-`;
+  const messages = [
+    { role: 'system', content: 'You are a content generation assistant that responds with valid, well-formatted JSON.' },
+    { role: 'user', content: finalPrompt }
+  ];
+  const maxAttempts = getRepairAttempts() + 1;
 
-  // Check if the actualPrompt already contains JSON instructions
-  const finalPrompt = actualPrompt.toLowerCase().includes('json') 
-                        ? actualPrompt 
-                        : actualPrompt + formatPrompt;
+  let startTime = Date.now();
+  let response = null;
+  let rawResponse = null;
+  let validation = null;
+  let violations = [];
+  let attempts = 0;
 
   try {
-    // First try with explicit response format (for newer models that support it)
-    const requestOptions = {
-      model: model,
-      messages: [
-        { role: 'system', content: 'You are a content generation assistant that responds with valid, well-formatted JSON.' },
-        { role: 'user', content: finalPrompt }
-      ],
-      temperature: 0.7
-    };
-
-    // Only add response_format for models that support it
-    // This list may need to be updated as OpenAI releases new models
-    const modelsWithJsonFormat = [
-      'gpt-4-turbo-preview', 'gpt-4-1106-preview', 'gpt-4-0125-preview', 
-      'gpt-4.1', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4o-mini'
-    ];
-    
-    if (modelsWithJsonFormat.includes(requestOptions.model)) {
-      requestOptions.response_format = { type: "json_object" };
-    } else {
-      // For models without response_format support, emphasize JSON format in the prompt
-      requestOptions.messages[0].content += ' Return ONLY valid JSON with no explanations before or after.';
-      requestOptions.messages[1].content += '\n\nIMPORTANT: Return ONLY a valid JSON object with no text before or after.';
-    }
-    
-    // Make the API call
-    console.log(`Making OpenAI API call with model: ${requestOptions.model}`);
-    let startTime = Date.now();
-    
-    // Add timeout handling
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('OpenAI API request timed out after 110 seconds')), 110000)
-    );
-    
-    const apiCallPromise = openai.chat.completions.create(requestOptions);
-    
-    // Race between the API call and the timeout
-    const response = await Promise.race([apiCallPromise, timeoutPromise]);
-    
-    const duration = Date.now() - startTime;
-    console.log(`OpenAI API call completed in ${duration}ms`);
-    
-    // Handle the response
-    const responseText = response.choices[0].message.content.trim();
-    
-    // Try to parse the JSON
-    let content;
-    try {
-      content = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error('JSON parsing error:', parseError);
-      console.log('Raw response:', responseText);
+    while (attempts < maxAttempts) {
+      attempts++;
+      response = null;
       
-      // Try to extract JSON from the response if it's wrapped with other text
-      // This is useful for models that don't strictly adhere to the JSON-only instruction
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        try {
-          content = JSON.parse(jsonMatch[0]);
-        } catch (extractError) {
-          // If extraction fails, continue with the cleaning approach
-          throw parseError;
-        }
-      } else {
-        // If no JSON-like structure is found, try cleaning the string
-        const cleanedText = responseText
-          .replace(/[\u0000-\u001F\u007F-\u009F]/g, "") // Remove control characters
-          .replace(/\\(?!["\\/bfnrt])/g, "\\\\"); // Escape backslashes properly
-            
-        try {
-          content = JSON.parse(cleanedText);
-        } catch (secondParseError) {
-          console.error('Second JSON parse attempt failed:', secondParseError);
-          throw new Error('Could not parse AI-generated content');
-        }
+      // Make the API call
+      console.log(`Making ${provider.name} LLM call with model: ${model} (attempt ${attempts}/${maxAttempts})`);
+      startTime = Date.now();
+      
+      // Wait for a free slot within the provider's rate limits, the timeout starts with the call
+      response = await llm.runLimited(provider, () => {
+        startTime = Date.now();
+        
+        let timeoutId;
+        const timeoutPromise = new Promise((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error('LLM request timed out after 110 seconds')), 110000);
+        });
+        
+        const apiCallPromise = provider.complete({
+          model,
+          messages,
+          temperature: 0.7,
+          json: true
+        });
+        
+        // Race between the API call and the timeout
+        return Promise.race([apiCallPromise, timeoutPromise])
+          .finally(() => clearTimeout(timeoutId));
+      });
+      
+      const duration = Date.now() - startTime;
+      console.log(`LLM call completed in ${duration}ms`);
+      
+      rawResponse = response.text;
+      validation = null;
+      
+      try {
+        validation = outputSchema.validateOutput(parseAIResponse(rawResponse), { contentType: schemaName, count: expectedCount });
+        violations = validation.violations;
+      } catch (parseError) {
+        console.log('Raw response:', rawResponse);
+        violations = [`response is not valid JSON (${parseError.message})`];
+      }
+      
+      await aiUsageService.recordUsage({
+        provider,
+        model: response.model || model,
+        usage: response.usage,
+        latencyMs: duration,
+        outcome: violations.length === 0 ? 'success' : 'parse_error',
+        error: violations.length === 0 ? null : violations.join('; '),
+        category,
+        context: usageContext,
+        budgetWarnings,
+      });
+      
+      if (violations.length === 0) {
+        break;
+      }
+      
+      console.warn(`AI output failed validation (attempt ${attempts}/${maxAttempts}):`, violations);
+      
+      // Ask the model to fix exactly what was wrong
+      if (attempts < maxAttempts) {
+        messages.push(
+          { role: 'assistant', content: rawResponse },
+          { role: 'user', content: buildRepairPrompt(violations, expectedCount) }
+        );
       }
     }
-    
-    // Validate the parsed content - could be single object or array of objects
-    return validateGeneratedContent(content);
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error(`${provider.name} LLM error:`, error);
+
+    let outcome = 'error';
+    if (error.message.includes('timed out')) {
+      outcome = 'timeout';
+    } else if (error.status === 429) {
+      outcome = 'rate_limited';
+    }
+
+    // Calls that returned were already recorded
+    if (!response) {
+      await aiUsageService.recordUsage({
+        provider,
+        model,
+        latencyMs: Date.now() - startTime,
+        outcome,
+        error: error.message,
+        category,
+        context: usageContext,
+        budgetWarnings,
+      });
+    }
     
     // Handle specific error types
     if (error.message.includes('timed out')) {
-      console.error('OpenAI API request timed out');
+      console.error('LLM request timed out');
       throw new AppError('Content generation timed out. Please try again or reduce the number of items to generate.', 408);
     }
     
     // Check if it's a rate limit error
     if (error.status === 429) {
-      console.error('OpenAI API rate limit exceeded');
-      throw new AppError('OpenAI API rate limit exceeded. Please try again in a few minutes.', 429);
+      console.error('LLM rate limit exceeded');
+      throw new AppError('LLM rate limit exceeded. Please try again in a few minutes.', 429);
     }
     
-    // NEVER fall back to mock data - force the use of the real API
-    console.error("OpenAI API call failed - no fallback to mock data is available");
+    // Configuration errors from the provider are already operational
+    if (error.isOperational) {
+      throw error;
+    }
     
     throw new AppError(`Failed to generate content with AI: ${error.message}`, 500);
   }
+
+  const quarantineDetails = {
+    category,
+    contentType,
+    difficulty,
+    rawResponse,
+    provider,
+    model: response.model || model,
+    attempts,
+    usageContext,
+  };
+
+  // Nothing could be parsed even after the repair attempts
+  if (!validation) {
+    if (shouldQuarantine) {
+      await quarantineItems([{ item: null, violations }], quarantineDetails);
+    }
+    throw new AppError('Failed to generate content with AI: Could not parse AI-generated content', 500);
+  }
+
+  const validItems = validation.items.filter(entry => entry.violations.length === 0).map(entry => entry.item);
+  const invalidItems = validation.items.filter(entry => entry.violations.length > 0);
+
+  if (invalidItems.length > 0 && shouldQuarantine) {
+    console.warn(`Quarantining ${invalidItems.length} AI-generated item(s) that failed validation after ${attempts} attempt(s)`);
+    await quarantineItems(invalidItems, quarantineDetails);
+  }
+
+  if (validItems.length === 0) {
+    throw new AppError(`AI output failed validation after ${attempts} attempt(s): ${violations.join('; ')}`, 500);
+  }
+
+  // Never hand back more items than were asked for
+  const items = validItems.slice(0, expectedCount);
+
+  // Quotes come back as structured fields, the body shows them formatted
+  if (schemaName === 'quote') {
+    items.forEach(item => {
+      item.body = formatQuote(item);
+    });
+  }
+
+  return expectedCount === 1 ? items[0] : items;
 };
 
 /**
@@ -270,17 +439,33 @@ exports.recycleContent = async (contentIds) => {
 };
 
 /**
- * Schedule content publication
+ * Schedule content publication, the publication worker publishes it when the date comes
  * @param {String} contentId - Content ID to schedule
  * @param {Date} publishDate - Date to publish content
+ * @param {Object} options
+ * @param {Date|null} options.expiryDate - Date it leaves rotation, undefined keeps the current one
  * @returns {Object} Updated content document
  */
-exports.scheduleContent = async (contentId, publishDate) => {
+exports.scheduleContent = async (contentId, publishDate, { expiryDate } = {}) => {
+  const isValidDate = (date) => date instanceof Date && !Number.isNaN(date.getTime());
+  if (!isValidDate(publishDate)) {
+    throw new AppError('Publish date is not a valid date', 400);
+  }
+  if (expiryDate && !isValidDate(expiryDate)) {
+    throw new AppError('Expiry date is not a valid date', 400);
+  }
+  
   const content = await Content.findById(contentId);
   
   if (!content) {
     throw new AppError('Content not found', 404);
   }
+  if (expiryDate !== undefined) {
+    content.expiryDate = expiryDate;
+  }
+  if (content.expiryDate && content.expiryDate <= publishDate) {
+    throw new AppError('Expiry date must be after the publish date', 400);
+  }
   
   content.publishDate = publishDate;
   content.status = 'pending';
@@ -290,22 +475,48 @@ exports.scheduleContent = async (contentId, publishDate) => {
   return content;
 };
 
+/**
+ * Deck each category is on at a date: the latest one staged for that date or
+ * before it. A category that is not due for rotation keeps showing its deck
+ * until a new one replaces it.
+ * @param {String} date - YYYY-MM-DD
+ * @param {Object} filter - Further conditions on the content, e.g. { category }
+ * @returns {Promise<Array>} Conditions matching the current decks, [{ category, deckDate }]
+ */
+exports.getCurrentDecks = async (date, filter = {}) => {
+  const decks = await Content.aggregate([
+    { $match: { ...filter, status: 'published', deckDate: { $ne: null, $lte: date } } },
+    { $group: { _id: '$category', deckDate: { $max: '$deckDate' } } },
+  ]);
+  
+  return decks.map(deck => ({ category: deck._id, deckDate: deck.deckDate }));
+};
+
 /**
  * Automatically generate daily content for all categories
  * @param {Number} perCategory - Number of items to generate per category
+ * @param {Object} options
+ * @param {Function} options.onError - Called with the message of each item that failed
  * @returns {Object} Summary of generated content
  */
-exports.generateDailyContent = async (perCategory = 10) => {
+exports.generateDailyContent = async (perCategory = 10, { onError = () => {} } = {}) => {
   const Category = require('../models/category.model');
   const categories = await Category.find({ active: true });
+  const schedulerRun = `daily-${Date.now()}`;
   
   const summary = {
     total: 0,
     byCategory: {},
+    duplicatesRejected: 0,
+    safetyFlagged: 0,
   };
 
+  const duplicateDetectorService = require('./duplicate-detector.service');
+
   for (const category of categories) {
     summary.byCategory[category.name] = 0;
+    const duplicateGate = await duplicateDetectorService.createDuplicateGate(category._id);
+    const safetyScreen = await safetyService.createSafetyScreen(category);
     
     // Generate content for each category
     for (let i = 0; i < perCategory; i++) {
@@ -314,31 +525,58 @@ exports.generateDailyContent = async (perCategory = 10) => {
         const difficulty = i < perCategory * 0.6 ? 'beginner' : 
                           i < perCategory * 0.9 ? 'intermediate' : 'advanced';
         
+        const usageContext = { source: 'scheduler', schedulerRun };
+        // Next open topic of the category backlog, if it has one
+        const [topic] = await topicService.drawTopics(category._id, 1);
         const generatedContent = await exports.generateWithAI(
           category,
-          null, // No specific topic
+          topic ? topic.name : null,
           difficulty,
           null, // No custom prompt
-          'gpt-4o' // Use gpt-4o model as default for daily generation
+          'gpt-4o', // Use gpt-4o model as default for daily generation
+          usageContext
         );
         
-        // Create new content in draft status
-        await Content.create({
+        // Skip items that repeat live or retired content of the category
+        if (duplicateGate.check(generatedContent)) {
+          summary.duplicatesRejected++;
+          console.log(`Rejected near-duplicate "${generatedContent.title}" for ${category.name}`);
+          continue;
+        }
+        
+        // Create new content in draft status, flagged items wait for moderation
+        const screening = await safetyScreen.screen(generatedContent, usageContext);
+        const newContent = await Content.create(safetyService.applyScreening({
           title: generatedContent.title,
           body: generatedContent.body,
           summary: generatedContent.summary,
+          ...pickQuoteFields(generatedContent),
           category: category._id,
           status: 'draft', // Requires human moderation
+          contentType: category.contentType || 'hack',
           source: 'ai',
           authorId: process.env.ADMIN_USER_ID, // Default to system admin
           tags: generatedContent.tags,
           difficulty,
-        });
+          promptVersion: usageContext.promptVersion || null,
+          promptExperiment: usageContext.promptExperiment || null,
+          promptVariant: usageContext.promptVariant || null,
+        }, screening));
+        await aiUsageService.linkContent(usageContext, [newContent._id]);
+        if (screening.flagged) {
+          await safetyService.recordFlagged(newContent, screening, { classifier: safetyScreen.classifier, context: usageContext });
+          summary.safetyFlagged++;
+        }
+        duplicateGate.remember(newContent);
+        if (topic) {
+          await topicService.markCovered(topic, [newContent._id]);
+        }
         
         summary.total++;
         summary.byCategory[category.name]++;
       } catch (error) {
         console.error(`Error generating content for ${category.name}:`, error);
+        onError(`Generating content for ${category.name}: ${error.message}`);
       }
     }
   }
@@ -354,9 +592,12 @@ exports.generateDailyContent = async (perCategory = 10) => {
  * @param {Number} count - Number of items to generate
  * @param {String} difficulty - Difficulty level
  * @param {String} model - AI model to use for generation
+ * @param {Object} usageContext - Usage ledger context (source, generationJob, schedulerRun)
+ * @param {Object} report - Receives run details (duplicates: { checked, rejected, regenerations, matches },
+ *   safety: { screened, flagged })
  * @returns {Array} Array of generated content documents
  */
-exports.generateMultipleContent = async (category, user, contentType, count = 10, difficulty = 'beginner', model = 'gpt-4-turbo-preview') => {
+exports.generateMultipleContent = async (category, user, contentType, count = 10, difficulty = 'beginner', model = 'gpt-4-turbo-preview', usageContext = {}, report = {}) => {
   const promptService = require('./prompt.service');
   const generatedContent = [];
   
@@ -382,10 +623,22 @@ exports.generateMultipleContent = async (category, user, contentType, count = 10
   const effectiveContentType = contentType || fullCategory.contentType || 'hack';
   console.log(`Content generation using effective content type: ${effectiveContentType}`);
   
+  // One backlog topic per requested item, as far as the backlog has open topics
+  let topics = await topicService.drawTopics(fullCategory._id, count || fullCategory.defaultNumToGenerate || 1);
+  
+  // A running prompt experiment on the category decides the prompt of this batch
+  const promptExperimentService = require('./promptExperiment.service');
+  const assignment = await promptExperimentService.assignVariant(fullCategory._id);
+  const promptOptions = { difficulty, topic: topics.map(topic => topic.name) };
+  if (assignment) {
+    console.log(`Using variant "${assignment.variant.name}" of prompt experiment "${assignment.experiment.name}"`);
+    promptOptions.promptText = assignment.variant.promptText;
+  }
+  
   // Get the appropriate prompt strategy for this category with the number of items to generate
   let promptStrategy;
   try {
-    promptStrategy = await promptService.generatePromptForContent(fullCategory, count, effectiveContentType);
+    promptStrategy = await promptService.generatePromptForContent(fullCategory, count, effectiveContentType, promptOptions);
     console.log(`Using content type: ${effectiveContentType}, generating ${promptStrategy.count} items`);
   } catch (error) {
     console.error(`Error getting prompt strategy: ${error.message}`);
@@ -393,73 +646,213 @@ exports.generateMultipleContent = async (category, user, contentType, count = 10
       promptText: null, // Will use default prompt in generateWithAI
       isSingle: true,
       count: count,
-      contentType: effectiveContentType
+      contentType: effectiveContentType,
+      promptSource: null
     };
   }
   
-  try {
-    // Generate content using AI
-    const content = await exports.generateWithAI(
-      fullCategory,
-      null, // No specific topic
-      difficulty,
-      promptStrategy.promptText, // Use the category-specific prompt with numToGenerate variable
-      model
-    );
+  // Every call is recorded against the creator unless the caller says otherwise
+  const context = { user: user && user._id, source: 'user', ...usageContext };
+  
+  if (assignment) {
+    context.promptExperiment = assignment.experiment._id;
+    context.promptVariant = assignment.variant._id;
+  }
+  
+  // The category prompt is passed as a custom prompt, so its version is resolved here
+  if (promptStrategy.promptSource) {
+    context.promptVersion = await resolvePromptVersion(fullCategory, promptStrategy.promptSource, fullCategory[promptStrategy.promptSource]);
+  }
+  
+  // New items are checked against live and deleted content of the category before they are saved
+  const duplicateDetectorService = require('./duplicate-detector.service');
+  const duplicateGate = await duplicateDetectorService.createDuplicateGate(fullCategory._id);
+  const maxRegenerations = duplicateGate.retries;
+  // Items the safety screening flags are saved as pending for a moderator
+  const safetyScreen = await safetyService.createSafetyScreen(fullCategory);
+  const avoidTitles = [];
+  let prompt = promptStrategy.promptText;
+  let requested = promptStrategy.count;
+  let regenerations = 0;
+  
+  while (requested > 0) {
+    let content;
+    try {
+      // Generate content using AI
+      content = await exports.generateWithAI(
+        fullCategory,
+        topics.length > 0 ? topics.map(topic => topic.name) : null,
+        difficulty,
+        prompt, // Use the category-specific prompt with numToGenerate variable
+        model,
+        context,
+        { contentType: effectiveContentType, count: requested }
+      );
+    } catch (error) {
+      console.error(`Error generating content: ${error.message}`);
+      // Keep what the earlier rounds produced
+      if (generatedContent.length > 0) {
+        break;
+      }
+      // Keep the budget status so callers can tell a blocked call from a failure
+      if (error.statusCode === 402) {
+        throw error;
+      }
+      throw new AppError(`Failed to generate content: ${error.message}`, 500);
+    }
     
-    // Check if the response is an array (multiple items) or a single object
-    if (Array.isArray(content)) {
-      console.log(`Received ${content.length} content items from AI response`);
-      
-      // Process each item in the array
-      for (const item of content) {
-        if (item.title && item.body) {
-          // Create content in database
-          const newContent = await Content.create({
-            title: item.title,
-            body: item.body,
-            summary: item.summary || item.title.substring(0, 100),
-            category: fullCategory._id,
-            status: 'draft',
-            contentType: effectiveContentType,
-            source: 'ai',
-            tags: item.tags || [],
-            authorId: user._id,
-            difficulty: difficulty
-          });
-          
-          generatedContent.push(newContent);
-        }
+    const items = Array.isArray(content) ? content : [content];
+    console.log(`Received ${items.length} content items from AI response`);
+    // Invalid items are left out of the response, after a gap the positions no
+    // longer tell which topic an item covers, so the topics stay open
+    const matchesTopics = items.length === requested;
+    
+    const roundContent = [];
+    for (const [index, item] of items.entries()) {
+      const duplicate = duplicateGate.check(item);
+      if (duplicate) {
+        console.warn(`Rejected near-duplicate "${item.title}" (${Math.round(duplicate.similarity * 100)}% similar to ${duplicate.source} "${duplicate.title}")`);
+        avoidTitles.push(item.title, duplicate.title);
+        continue;
       }
-    } else {
-      // Handle as a single item
-      const newContent = await Content.create({
-        title: content.title,
-        body: content.body,
-        summary: content.summary || content.title.substring(0, 100),
+      
+      // Create content in database
+      const screening = await safetyScreen.screen(item, context);
+      const newContent = await Content.create(safetyService.applyScreening({
+        title: item.title,
+        body: item.body,
+        summary: item.summary || item.title.substring(0, 100),
+        ...pickQuoteFields(item),
         category: fullCategory._id,
         status: 'draft',
         contentType: effectiveContentType,
         source: 'ai',
+        tags: item.tags || [],
         authorId: user._id,
-        tags: content.tags || [],
         difficulty: difficulty,
-      });
+        promptVersion: context.promptVersion || null,
+        promptExperiment: context.promptExperiment || null,
+        promptVariant: context.promptVariant || null
+      }, screening));
+      await safetyService.recordFlagged(newContent, screening, { classifier: safetyScreen.classifier, context });
+      
+      duplicateGate.remember(newContent);
+      roundContent.push(newContent);
       
-      generatedContent.push(newContent);
+      // Items come back in the order of the topics they were asked for
+      if (matchesTopics && topics[index]) {
+        await topicService.markCovered(topics[index], [newContent._id]);
+      }
     }
-  } catch (error) {
-    console.error(`Error generating content: ${error.message}`);
-    throw new AppError(`Failed to generate content: ${error.message}`, 500);
+    
+    await aiUsageService.linkContent(context, roundContent.map(item => item._id));
+    generatedContent.push(...roundContent);
+    
+    requested = promptStrategy.count - generatedContent.length;
+    if (requested <= 0 || regenerations >= maxRegenerations || avoidTitles.length === 0) {
+      break;
+    }
+    
+    // Ask again for the rejected items, steering away from what already exists
+    regenerations++;
+    console.log(`Regenerating ${requested} items rejected as duplicates (round ${regenerations}/${maxRegenerations})`);
+    topics = await topicService.drawTopics(fullCategory._id, requested);
+    promptOptions.topic = topics.map(topic => topic.name);
+    const retryStrategy = await promptService.generatePromptForContent(fullCategory, requested, effectiveContentType, promptOptions)
+      .catch(() => ({ promptText: promptStrategy.promptText }));
+    prompt = `${retryStrategy.promptText || ''}
+
+The following ideas already exist in this category. Do not repeat them or write close variations of them:
+${[...new Set(avoidTitles)].slice(-20).map(title => `- ${title}`).join('\n')}`;
   }
   
+  report.duplicates = {
+    checked: duplicateGate.stats.checked,
+    rejected: duplicateGate.stats.rejected,
+    regenerations,
+    matches: duplicateGate.stats.matches,
+  };
+  report.safety = { ...safetyScreen.stats };
+  
   if (generatedContent.length === 0) {
-    throw new AppError('Failed to generate any content items', 500);
+    throw new AppError(duplicateGate.stats.rejected > 0
+      ? `All ${duplicateGate.stats.rejected} generated items were rejected as duplicates of existing content`
+      : 'Failed to generate any content items', 500);
   }
   
   return generatedContent;
 };
 
+/**
+ * Rewrite an existing content item with AI to make it unique
+ * @param {Object} content - Content document to rewrite
+ * @param {String} model - AI model to use for the rewrite
+ * @param {Object} usageContext - Usage ledger context (user, source)
+ * @returns {Object} Updated content document
+ */
+exports.rewriteContent = async (content, model = 'gpt-4-turbo-preview', usageContext = {}) => {
+  // Create a custom rewrite prompt
+  const rewritePrompt = `
+You are a content rewriting assistant. Take the following content and rewrite it completely 
+to make it unique while preserving the core information and value. Use different wording, 
+structure, and examples, but maintain the same overall message and advice.
+
+Original Content:
+Title: ${content.title}
+Body: ${content.body}
+
+Rewrite this content to be completely unique.
+`;
+  
+  // Keep the wording before the rewrite, so it can be restored
+  const contentRevisionService = require('./contentRevision.service');
+  await contentRevisionService.ensureCurrentRevision(content);
+  
+  // Generate new content based on the old one
+  const newContent = await exports.generateWithAI(
+    content.category, // Pass the category for context
+    null, // No specific topic
+    content.difficulty, // Keep same difficulty
+    rewritePrompt, // Custom rewrite prompt
+    model, // Use the specified model
+    { ...usageContext, operation: 'rewrite', contentIds: [content._id] },
+    { contentType: content.contentType }
+  );
+  
+  // A flagged rewrite goes back to moderation
+  const Category = require('../models/category.model');
+  const category = content.category && content.category.name ? content.category : await Category.findById(content.category);
+  const safetyScreen = await safetyService.createSafetyScreen(category || content.category);
+  const screening = await safetyScreen.screen(newContent, usageContext);
+  if (screening.flagged) {
+    content.status = 'pending';
+    // Without a publish date it waits for review instead of the publication worker
+    content.publishDate = null;
+    content.moderationNotes = safetyService.describeReasons(screening.reasons);
+  }
+  
+  // Update the content with new version
+  content.title = newContent.title;
+  content.body = newContent.body;
+  content.summary = newContent.summary;
+  content.set(pickQuoteFields(newContent));
+  (content.translations || []).forEach(translation => {
+    translation.stale = true;
+  });
+  
+  // If tags were generated, use them, otherwise keep existing
+  if (newContent.tags && newContent.tags.length > 0) {
+    content.tags = newContent.tags;
+  }
+  
+  // Save the updated content
+  await content.save();
+  await contentRevisionService.recordRevision(content, { source: 'ai-rewrite', user: usageContext.user, model });
+  await safetyService.recordFlagged(content, screening, { classifier: safetyScreen.classifier, operation: 'rewrite', context: usageContext });
+  
+  return content;
+};
+
 /**
  * Get appropriate prompt for a category and content type
  * @param {String} categoryName - Name of the category
@@ -604,8 +997,10 @@ module.exports = {
   findRecyclableContent: exports.findRecyclableContent,
   recycleContent: exports.recycleContent,
   scheduleContent: exports.scheduleContent,
+  getCurrentDecks: exports.getCurrentDecks,
   generateDailyContent: exports.generateDailyContent,
   generateMultipleContent: exports.generateMultipleContent,
+  rewriteContent: exports.rewriteContent,
   getPromptForCategoryAndType: exports.getPromptForCategoryAndType,
   movePublishedToDeleted: exports.movePublishedToDeleted
 };
\ No newline at end of file
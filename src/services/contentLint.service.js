@@ -0,0 +1,140 @@
+const LintRule = require('../models/lintRule.model');
+const Content = require('../models/content.model');
+const AppError = require('../utils/appError');
+const { RULES, SEVERITIES, lintContent, getDefaultRules } = require('../utils/contentLint');
+
+/**
+ * Lint rules with the admin settings applied over the defaults
+ * @returns {Array} { id, description, enabled, severity, options, contentTypes, defaults }
+ */
+exports.getRules = async () => {
+  const settings = await LintRule.find();
+
+  return getDefaultRules().map(defaults => {
+    const setting = settings.find(entry => entry.rule === defaults.id);
+    if (!setting) return { ...defaults, defaults };
+
+    return {
+      ...defaults,
+      enabled: setting.enabled,
+      severity: setting.severity,
+      options: { ...defaults.options, ...setting.options },
+      contentTypes: setting.contentTypes !== undefined ? setting.contentTypes : defaults.contentTypes,
+      defaults,
+    };
+  });
+};
+
+/**
+ * Change the settings of a lint rule
+ * @param {String} ruleId - Rule ID
+ * @param {Object} changes - { enabled, severity, options, contentTypes }
+ * @param {Object} user - User changing the rule
+ * @returns {Object} Rule with its settings
+ */
+exports.updateRule = async (ruleId, { enabled, severity, options, contentTypes } = {}, user = null) => {
+  const definition = RULES.find(rule => rule.id === ruleId);
+  if (!definition) {
+    throw new AppError(`Unknown lint rule "${ruleId}"`, 404);
+  }
+
+  if (severity !== undefined && !SEVERITIES.includes(severity)) {
+    throw new AppError(`Severity must be one of: ${SEVERITIES.join(', ')}`, 400);
+  }
+
+  // Options keep the type of their default, so a rule never runs with a bad value
+  if (options !== undefined) {
+    Object.entries(options).forEach(([name, value]) => {
+      if (!(name in definition.options)) {
+        throw new AppError(`Lint rule "${ruleId}" has no option "${name}"`, 400);
+      }
+      const expected = definition.options[name];
+      const valid = Array.isArray(expected)
+        ? Array.isArray(value) && value.every(entry => typeof entry === 'string')
+        : typeof value === typeof expected && !(typeof value === 'number' && (Number.isNaN(value) || value < 0));
+      if (!valid) {
+        throw new AppError(`Invalid value for option "${name}" of lint rule "${ruleId}"`, 400);
+      }
+    });
+  }
+
+  const contentTypeValues = Content.schema.path('contentType').enumValues;
+  if (contentTypes !== undefined && (!Array.isArray(contentTypes) || contentTypes.some(type => !contentTypeValues.includes(type)))) {
+    throw new AppError(`Content types must be among: ${contentTypeValues.join(', ')}`, 400);
+  }
+
+  const setting = await LintRule.findOne({ rule: ruleId }) || new LintRule({ rule: ruleId, severity: definition.severity });
+  if (enabled !== undefined) setting.enabled = !!enabled;
+  if (severity !== undefined) setting.severity = severity;
+  if (options !== undefined) setting.options = { ...setting.options, ...options };
+  if (contentTypes !== undefined) setting.contentTypes = contentTypes;
+  setting.updatedBy = user ? user._id : null;
+  await setting.save();
+
+  const rules = await exports.getRules();
+  return rules.find(rule => rule.id === ruleId);
+};
+
+/**
+ * Go back to the default settings of a lint rule
+ * @param {String} ruleId - Rule ID
+ * @returns {Object} Rule with its default settings
+ */
+exports.resetRule = async (ruleId) => {
+  if (!RULES.some(rule => rule.id === ruleId)) {
+    throw new AppError(`Unknown lint rule "${ruleId}"`, 404);
+  }
+
+  await LintRule.deleteOne({ rule: ruleId });
+
+  const rules = await exports.getRules();
+  return rules.find(rule => rule.id === ruleId);
+};
+
+/**
+ * Lint content items
+ * @param {Array|Object} content - Content items
+ * @param {Array} rules - Rules to use, loaded when not given
+ * @returns {Array|Object} Lint result per item, { errors, warnings, issues }
+ */
+exports.lint = async (content, rules = null) => {
+  const activeRules = rules || await exports.getRules();
+
+  return Array.isArray(content)
+    ? content.map(item => lintContent(item, activeRules))
+    : lintContent(content, activeRules);
+};
+
+/**
+ * Decide whether content can be published. Lint errors block publishing
+ * unless the publisher gives a reason to override them.
+ * @param {Object} content - Content to publish
+ * @param {Object} options
+ * @param {String} options.overrideReason - Why the errors are accepted
+ * @param {Object} options.user - User publishing
+ * @param {Array} options.rules - Rules to use, loaded when not given
+ * @returns {Object} { allowed, lint, lintOverride } - lintOverride is set on the content when publishing with errors
+ */
+exports.checkPublishable = async (content, { overrideReason, user = null, rules = null } = {}) => {
+  const lint = await exports.lint(content, rules);
+
+  if (lint.errors === 0) {
+    return { allowed: true, lint, lintOverride: null };
+  }
+
+  const reason = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+  if (!reason) {
+    return { allowed: false, lint, lintOverride: null };
+  }
+
+  return {
+    allowed: true,
+    lint,
+    lintOverride: {
+      reason,
+      user: user ? user._id : null,
+      at: new Date(),
+      rules: [...new Set(lint.issues.filter(issue => issue.severity === 'error').map(issue => issue.rule))],
+    },
+  };
+};
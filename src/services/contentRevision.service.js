@@ -0,0 +1,182 @@
+const ContentRevision = require('../models/contentRevision.model');
+const AppError = require('../utils/appError');
+const { diffLines } = require('../utils/textDiff');
+
+// Content fields a revision keeps
+const REVISION_FIELDS = ['title', 'summary', 'body', 'tags', 'difficulty', 'quoteText', 'author', 'sourceTitle', 'sourceYear'];
+
+exports.REVISION_FIELDS = REVISION_FIELDS;
+
+const toId = (value) => (value && value._id ? value._id : value) || null;
+
+const normalize = (field, value) => {
+  if (field === 'tags') return Array.isArray(value) ? [...value] : [];
+  if (value === undefined || value === '') return null;
+  return value;
+};
+
+const snapshot = (content) => REVISION_FIELDS.reduce((fields, field) => {
+  fields[field] = normalize(field, content[field]);
+  return fields;
+}, {});
+
+const isSame = (field, a, b) => (field === 'tags'
+  ? normalize(field, a).join('\n') === normalize(field, b).join('\n')
+  : normalize(field, a) === normalize(field, b));
+
+/**
+ * Latest revision of a content item
+ * @param {String} contentId - Content ID
+ * @returns {Object|null} Revision document
+ */
+exports.getLatestRevision = async (contentId) =>
+  ContentRevision.findOne({ content: toId(contentId) }).sort('-revision');
+
+/**
+ * Store a revision when the content differs from its latest revision
+ * @param {Object} content - Content document after the change
+ * @param {Object} options
+ * @param {String} options.source - initial, manual, ai-rewrite, bulk or restore
+ * @param {String} options.user - User who made the change
+ * @param {String} options.model - AI model used for the change
+ * @param {Number} options.restoredFrom - Revision whose fields are restored
+ * @returns {Object} The new revision, or the latest one when nothing changed
+ */
+exports.recordRevision = async (content, { source = 'manual', user = null, model = null, restoredFrom = null } = {}) => {
+  const latest = await exports.getLatestRevision(content._id);
+  const fields = snapshot(content);
+  const changedFields = latest
+    ? REVISION_FIELDS.filter(field => !isSame(field, latest[field], fields[field]))
+    : [];
+
+  if (latest && changedFields.length === 0) {
+    return latest;
+  }
+
+  try {
+    return await ContentRevision.create({
+      content: content._id,
+      revision: latest ? latest.revision + 1 : 1,
+      ...fields,
+      source,
+      model,
+      editedBy: toId(user),
+      changedFields,
+      restoredFrom,
+    });
+  } catch (error) {
+    // Another request stored a revision at the same time
+    if (error.code === 11000) {
+      return exports.recordRevision(content, { source, user, model, restoredFrom });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Make sure the current state of content has a revision before it is changed,
+ * e.g. content created before revisions existed or generated by AI
+ * @param {Object} content - Content document before the change
+ * @returns {Object} Revision matching the current state
+ */
+exports.ensureCurrentRevision = async (content) => {
+  const latest = await exports.getLatestRevision(content._id);
+  if (latest) {
+    const current = snapshot(content);
+    if (REVISION_FIELDS.every(field => isSame(field, latest[field], current[field]))) {
+      return latest;
+    }
+  }
+
+  return exports.recordRevision(content, { source: latest ? 'manual' : 'initial' });
+};
+
+/**
+ * List the revisions of a content item, newest first
+ * @param {String} contentId - Content ID
+ * @returns {Array} Revisions
+ */
+exports.listRevisions = async (contentId) =>
+  ContentRevision.find({ content: contentId })
+    .populate('editedBy', 'name email')
+    .sort('-revision');
+
+/**
+ * Compare two revisions of the same content item field by field
+ * @param {String} contentId - Content ID
+ * @param {String} fromId - Older revision ID
+ * @param {String} toRevisionId - Newer revision ID (defaults to the latest revision)
+ * @returns {Object} { from, to, fields: { [field]: { changed, from, to, diff? } } }
+ */
+exports.diffRevisions = async (contentId, fromId, toRevisionId = null) => {
+  const from = await ContentRevision.findOne({ _id: fromId, content: contentId });
+  if (!from) {
+    throw new AppError('Content revision not found', 404);
+  }
+
+  const to = toRevisionId
+    ? await ContentRevision.findOne({ _id: toRevisionId, content: contentId })
+    : await exports.getLatestRevision(contentId);
+  if (!to) {
+    throw new AppError('Content revision not found', 404);
+  }
+
+  const fields = {};
+  REVISION_FIELDS.forEach(field => {
+    const entry = {
+      changed: !isSame(field, from[field], to[field]),
+      from: normalize(field, from[field]),
+      to: normalize(field, to[field]),
+    };
+
+    if (['title', 'summary', 'body', 'quoteText'].includes(field)) {
+      entry.diff = diffLines(entry.from || '', entry.to || '');
+    }
+
+    fields[field] = entry;
+  });
+
+  return { from, to, fields };
+};
+
+/**
+ * Restore the fields of an older revision. The restore is stored as a new revision.
+ * @param {String} contentId - Content ID
+ * @param {String} revisionId - Revision to restore
+ * @param {String} user - User who restores it
+ * @returns {Object} { revision, content } with the new revision and the updated content
+ */
+exports.restoreRevision = async (contentId, revisionId, user) => {
+  const Content = require('../models/content.model');
+
+  const revision = await ContentRevision.findOne({ _id: revisionId, content: contentId });
+  if (!revision) {
+    throw new AppError('Content revision not found', 404);
+  }
+
+  const content = await Content.findById(contentId);
+  if (!content) {
+    throw new AppError('Content not found', 404);
+  }
+
+  await exports.ensureCurrentRevision(content);
+
+  REVISION_FIELDS.forEach(field => {
+    const value = normalize(field, revision[field]);
+    // Keep the current difficulty when the revision predates it
+    if (field === 'difficulty' && !value) return;
+    content[field] = value;
+  });
+  (content.translations || []).forEach(translation => {
+    translation.stale = true;
+  });
+  await content.save();
+
+  const newRevision = await exports.recordRevision(content, {
+    source: 'restore',
+    user,
+    restoredFrom: revision.revision,
+  });
+
+  return { revision: newRevision, content };
+};
@@ -135,9 +135,132 @@ const duplicateDetectorService = {
       keptContent: keepContentId,
       markedAsDuplicates: results.map(content => content._id)
     };
+  },
+
+  /**
+   * Build a duplicate gate for new AI output in a category.
+   * Existing content and deleted content of the category are loaded once, so the
+   * gate can check many generated items without querying again.
+   * @param {String} categoryId - Category the new items belong to
+   * @param {Object} options
+   * @param {Number} options.threshold - Similarity (0-1) from which an item counts as a duplicate
+   * @param {Number} options.retries - How many times callers should regenerate rejected items
+   * @returns {Promise<Object>} Gate with check(item), remember(item), stats and retries
+   */
+  createDuplicateGate: async (categoryId, { threshold = getGateThreshold(), retries = getGateRetries() } = {}) => {
+    const DeletedContent = require('../models/deletedContent.model');
+
+    const [liveContent, deletedContent] = await Promise.all([
+      Content.find({ category: categoryId }).select('title body'),
+      DeletedContent.find({ category: categoryId }).select('title body'),
+    ]);
+
+    const pool = [
+      ...liveContent.map(item => toFingerprint(item, 'content')),
+      ...deletedContent.map(item => toFingerprint(item, 'deleted')),
+    ];
+
+    const stats = { checked: 0, rejected: 0, matches: [] };
+
+    return {
+      stats,
+      retries,
+
+      /**
+       * Find the closest existing item above the threshold
+       * @param {Object} item - Generated item ({ title, body })
+       * @returns {Object|null} { _id, title, source, similarity } or null when the item is new
+       */
+      check: (item) => {
+        stats.checked++;
+        const candidate = toFingerprint(item, 'new');
+
+        let best = null;
+        for (const existing of pool) {
+          const similarity = candidate.title && candidate.title === existing.title
+            ? 1
+            : (calculateWordSimilarity(candidate.bodyWords, existing.bodyWords) * 0.7) +
+              (calculateWordSimilarity(candidate.titleWords, existing.titleWords) * 0.3);
+
+          if (similarity >= threshold && (!best || similarity > best.similarity)) {
+            best = { _id: existing._id, title: existing.rawTitle, source: existing.source, similarity };
+          }
+        }
+
+        if (best) {
+          stats.rejected++;
+          stats.matches.push({ title: item.title, duplicateOf: best.title, source: best.source, similarity: Math.round(best.similarity * 100) / 100 });
+        }
+
+        return best;
+      },
+
+      /**
+       * Add an accepted item so later items in the same run are checked against it
+       * @param {Object} item - Accepted item or created content
+       */
+      remember: (item) => {
+        pool.push(toFingerprint(item, 'new'));
+      },
+    };
   }
 };
 
+// Similarity from which new AI output is rejected as a near-duplicate
+function getGateThreshold() {
+  const threshold = parseFloat(process.env.DUPLICATE_GATE_THRESHOLD);
+  return Number.isNaN(threshold) ? 0.7 : threshold;
+}
+
+// How many times rejected items are regenerated before giving up
+function getGateRetries() {
+  const retries = parseInt(process.env.DUPLICATE_GATE_RETRIES, 10);
+  return Number.isNaN(retries) || retries < 0 ? 1 : retries;
+}
+
+/**
+ * Split text into a set of significant words
+ * @param {String} text - Text to split
+ * @returns {Set} Lowercase words longer than 3 characters
+ */
+function toWordSet(text) {
+  return new Set((text || '').toLowerCase().split(/\s+/).filter(word => word.length > 3));
+}
+
+/**
+ * Precompute what the duplicate gate compares
+ * @param {Object} item - Content, deleted content or generated item
+ * @param {String} source - Where the item comes from (content, deleted, new)
+ * @returns {Object} Fingerprint
+ */
+function toFingerprint(item, source) {
+  return {
+    _id: item._id || null,
+    rawTitle: item.title,
+    title: (item.title || '').toLowerCase().trim(),
+    titleWords: toWordSet(item.title),
+    bodyWords: toWordSet(item.body),
+    source,
+  };
+}
+
+/**
+ * Jaccard similarity of two word sets
+ * @param {Set} words1 - First word set
+ * @param {Set} words2 - Second word set
+ * @returns {Number} Similarity score (0-1)
+ */
+function calculateWordSimilarity(words1, words2) {
+  if (words1.size === 0 || words2.size === 0) return 0;
+
+  let intersection = 0;
+  words1.forEach(word => {
+    if (words2.has(word)) intersection++;
+  });
+
+  return intersection / (words1.size + words2.size - intersection);
+}
+
 /**
  * Calculate similarity between two titles
  * @param {String} title1 - First title
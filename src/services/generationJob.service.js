@@ -0,0 +1,686 @@
+const GenerationJob = require('../models/generationJob.model');
+const Category = require('../models/category.model');
+const User = require('../models/user.model');
+const jobLockService = require('./jobLock.service');
+const jobRunService = require('./jobRun.service');
+const AppError = require('../utils/appError');
+
+// Number of items requested from the AI in a single call of a generate-multiple job
+const BATCH_SIZE = parseInt(process.env.GENERATION_JOB_BATCH_SIZE, 10) || 5;
+
+// Number of items of a generation job that run at the same time. AI calls are
+// additionally limited per provider (see llm/rateLimiter).
+const CONCURRENCY = Math.max(parseInt(process.env.GENERATION_JOB_CONCURRENCY, 10) || 2, 1);
+
+// Limits of a batch request
+const MAX_BATCH_ENTRIES = 50;
+const MAX_COUNT_PER_ENTRY = 50;
+
+// How often the worker looks for queued jobs when nobody kicks it
+const POLL_INTERVAL_MS = parseInt(process.env.GENERATION_WORKER_INTERVAL_MS, 10) || 5000;
+
+// Scheduler job whose lock a daily refresh job takes, so it never runs alongside
+// the scheduled refresh on any instance
+const DAILY_REFRESH_JOB = 'daily-content-refresh';
+
+let workerTimer = null;
+let isProcessing = false;
+
+/**
+ * Split a requested count into batches of at most BATCH_SIZE
+ * @param {Number} count - Total number of items
+ * @returns {Array} Batch sizes
+ */
+const splitIntoBatches = (count) => {
+  const batches = [];
+  let remaining = count;
+
+  while (remaining > 0) {
+    const size = Math.min(BATCH_SIZE, remaining);
+    batches.push(size);
+    remaining -= size;
+  }
+
+  return batches;
+};
+
+/**
+ * Queue a job that generates content for one or more categories
+ * @param {Object} options
+ * @param {Array} options.categories - Category documents
+ * @param {Object} options.user - User that requested the generation
+ * @param {String} options.contentType - Content type (defaults to each category's type)
+ * @param {Number} options.count - Number of items per category
+ * @param {String} options.difficulty - Difficulty level
+ * @param {String} options.model - AI model
+ * @returns {Object} Created job
+ */
+exports.createGenerateMultipleJob = async ({ categories, user, contentType, count, difficulty = 'beginner', model }) => {
+  if (!categories || categories.length === 0) {
+    throw new AppError('At least one category is required', 400);
+  }
+
+  const items = [];
+
+  categories.forEach(category => {
+    const categoryCount = count || category.defaultNumToGenerate || 5;
+    const batches = splitIntoBatches(categoryCount);
+
+    batches.forEach((size, index) => {
+      items.push({
+        label: batches.length > 1
+          ? `${category.name} (batch ${index + 1} of ${batches.length})`
+          : category.name,
+        category: category._id,
+        categoryName: category.name,
+        count: size,
+      });
+    });
+  });
+
+  const job = await GenerationJob.create({
+    type: 'generate-multiple',
+    params: {
+      contentType: contentType || null,
+      difficulty,
+      model,
+    },
+    items,
+    progress: { total: items.length },
+    createdBy: user._id,
+  });
+
+  exports.kickWorker();
+
+  return job;
+};
+
+/**
+ * Queue a job that generates content for a list of entries, each with its own
+ * category, content type, count, difficulty and model
+ * @param {Object} options
+ * @param {Array} options.entries - [{ category, contentType, count, difficulty, model }]
+ *   with category documents
+ * @param {Object} options.user - User that requested the generation
+ * @returns {Object} Created job
+ */
+exports.createBatchJob = async ({ entries, user }) => {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new AppError('At least one batch entry is required', 400);
+  }
+
+  if (entries.length > MAX_BATCH_ENTRIES) {
+    throw new AppError(`A batch can have at most ${MAX_BATCH_ENTRIES} entries`, 400);
+  }
+
+  const items = [];
+
+  entries.forEach(({ category, contentType, count, difficulty, model }) => {
+    const entryCount = count
+      ? Math.min(Math.max(parseInt(count, 10) || 1, 1), MAX_COUNT_PER_ENTRY)
+      : category.defaultNumToGenerate || 5;
+    const params = {
+      contentType: contentType || category.contentType || 'hack',
+      difficulty: difficulty || 'beginner',
+      model: model || 'gpt-4o',
+    };
+    const batches = splitIntoBatches(entryCount);
+    const name = `${category.name} (${params.contentType})`;
+
+    batches.forEach((size, index) => {
+      items.push({
+        label: batches.length > 1 ? `${name} (batch ${index + 1} of ${batches.length})` : name,
+        category: category._id,
+        categoryName: category.name,
+        count: size,
+        params,
+      });
+    });
+  });
+
+  const job = await GenerationJob.create({
+    type: 'generate-batch',
+    params: {
+      entries: entries.length,
+    },
+    items,
+    progress: { total: items.length },
+    createdBy: user._id,
+  });
+
+  exports.kickWorker();
+
+  return job;
+};
+
+/**
+ * Queue a daily content refresh. Only one refresh can be queued or running at a time.
+ * @param {Object} user - User that requested the refresh
+ * @returns {Object} { job, existing } - existing is true when a refresh was already in progress
+ */
+exports.createDailyRefreshJob = async (user) => {
+  const activeJob = await GenerationJob.findOne({
+    type: 'daily-refresh',
+    status: { $in: ['queued', 'running'] },
+  });
+
+  if (activeJob) {
+    return { job: activeJob, existing: true };
+  }
+
+  const held = (await jobLockService.getActiveLocks())[DAILY_REFRESH_JOB];
+  if (held) {
+    throw new AppError(`The daily content refresh is already running on ${held.holder}`, 409);
+  }
+
+  const categories = await Category.find({ active: true }).select('name');
+
+  const job = await GenerationJob.create({
+    type: 'daily-refresh',
+    items: categories.map(category => ({
+      label: category.name,
+      category: category._id,
+      categoryName: category.name,
+      count: 0,
+    })),
+    progress: { total: categories.length },
+    createdBy: user._id,
+  });
+
+  exports.kickWorker();
+
+  return { job, existing: false };
+};
+
+/**
+ * Get a job with the content created so far
+ * @param {String} jobId - Job ID
+ * @returns {Object} Job
+ */
+exports.getJob = async (jobId) => {
+  const job = await GenerationJob.findById(jobId)
+    .populate('items.contentIds', 'title summary status contentType category difficulty createdAt')
+    .populate('createdBy', 'name email');
+
+  if (!job) {
+    throw new AppError('Generation job not found', 404);
+  }
+
+  return job;
+};
+
+/**
+ * Cancel a job. Queued jobs stop immediately, running jobs stop after the current item.
+ * @param {String} jobId - Job ID
+ * @returns {Object} Updated job
+ */
+exports.cancelJob = async (jobId) => {
+  const job = await GenerationJob.findById(jobId);
+
+  if (!job) {
+    throw new AppError('Generation job not found', 404);
+  }
+
+  if (job.isFinished()) {
+    throw new AppError(`Job is already ${job.status}`, 400);
+  }
+
+  // Claim the job atomically so the worker cannot start it at the same time
+  const claimed = await GenerationJob.findOneAndUpdate(
+    { _id: jobId, status: 'queued' },
+    { $set: { status: 'cancelled', completedAt: new Date() } },
+    { new: true }
+  );
+
+  if (claimed) {
+    claimed.items.forEach(item => {
+      if (item.status === 'pending') {
+        item.status = 'cancelled';
+      }
+    });
+    claimed.updateProgress();
+    await claimed.save();
+    return claimed;
+  }
+
+  // Job is running, the worker checks this flag between items
+  return GenerationJob.findByIdAndUpdate(jobId, { $set: { cancelRequested: true } }, { new: true });
+};
+
+/**
+ * Re-queue the failed and cancelled items of a finished job
+ * @param {String} jobId - Job ID
+ * @returns {Object} Updated job
+ */
+exports.retryJob = async (jobId) => {
+  const job = await GenerationJob.findById(jobId);
+
+  if (!job) {
+    throw new AppError('Generation job not found', 404);
+  }
+
+  if (!['failed', 'cancelled'].includes(job.status)) {
+    throw new AppError('Only failed or cancelled jobs can be retried', 400);
+  }
+
+  let retried = 0;
+  job.items.forEach(item => {
+    if (['failed', 'cancelled'].includes(item.status)) {
+      item.status = 'pending';
+      item.error = null;
+      item.startedAt = null;
+      item.completedAt = null;
+      retried++;
+    }
+  });
+
+  if (retried === 0) {
+    throw new AppError('Job has no failed or cancelled items to retry', 400);
+  }
+
+  job.status = 'queued';
+  job.error = null;
+  job.cancelRequested = false;
+  job.completedAt = null;
+  job.updateProgress();
+  await job.save();
+
+  exports.kickWorker();
+
+  return job;
+};
+
+/**
+ * Generate the content for one item of a generate-multiple job
+ */
+const runGenerateItem = async (job, item, user) => {
+  const contentService = require('./content.service');
+
+  const category = await Category.findById(item.category);
+  if (!category) {
+    throw new AppError(`Category ${item.categoryName || item.category} not found`, 404);
+  }
+
+  const params = job.getItemParams(item);
+  const report = {};
+  const generated = await contentService.generateMultipleContent(
+    category,
+    user,
+    params.contentType || category.contentType || 'hack',
+    item.count,
+    params.difficulty || 'beginner',
+    params.model,
+    { source: 'job', generationJob: job._id },
+    report
+  );
+
+  item.contentIds.push(...generated.map(content => content._id));
+  item.stats = {
+    generated: generated.length,
+    duplicatesRejected: report.duplicates ? report.duplicates.rejected : 0,
+    safetyFlagged: report.safety ? report.safety.flagged : 0,
+  };
+};
+
+/**
+ * Pick the next pending item. Items of categories that are not being generated
+ * right now go first, so parallel batches of one category do not come up with
+ * the same ideas before the duplicate gate sees them.
+ */
+const takeNextItem = (job) => {
+  const busy = new Set(job.items
+    .filter(item => item.status === 'running')
+    .map(item => String(item.category)));
+  const pending = job.items.filter(item => item.status === 'pending');
+
+  return pending.find(item => !busy.has(String(item.category))) || pending[0] || null;
+};
+
+/**
+ * Run a generate-multiple or generate-batch job, CONCURRENCY items at a time,
+ * saving after each item
+ */
+const runGenerateMultipleJob = async (job) => {
+  const user = await User.findById(job.createdBy);
+  if (!user) {
+    throw new AppError('The user that created this job no longer exists', 404);
+  }
+
+  // Saves of one document must not overlap
+  let saving = Promise.resolve();
+  const saveJob = () => {
+    saving = saving.catch(() => {}).then(() => job.save());
+    return saving;
+  };
+
+  let stopped = false;
+
+  const runItems = async () => {
+    while (!stopped) {
+      if (await isCancelRequested(job._id)) {
+        // Pending items are marked cancelled by finishJob
+        stopped = true;
+        return;
+      }
+
+      const item = takeNextItem(job);
+      if (!item) return;
+
+      item.status = 'running';
+      item.startedAt = new Date();
+      item.attempts++;
+      await saveJob();
+
+      try {
+        await runGenerateItem(job, item, user);
+        item.status = 'completed';
+      } catch (error) {
+        console.error(`Generation job ${job._id}: item "${item.label}" failed:`, error.message);
+        item.status = 'failed';
+        item.error = error.message;
+      }
+
+      item.completedAt = new Date();
+      job.updateProgress();
+      await saveJob();
+    }
+  };
+
+  const pendingCount = job.items.filter(item => item.status === 'pending').length;
+  // Let every runner stop before a failure is reported, the job is saved again afterwards
+  const outcomes = await Promise.allSettled(Array.from({ length: Math.min(CONCURRENCY, pendingCount) }, runItems));
+  const failure = outcomes.find(outcome => outcome.status === 'rejected');
+  if (failure) {
+    throw failure.reason;
+  }
+};
+
+/**
+ * Rotate the pending categories of a daily refresh job
+ */
+const refreshCategories = async (job) => {
+  const schedulerService = require('./scheduler.service');
+
+  const pendingItems = job.items.filter(item => item.status === 'pending');
+  const findItem = (category) => pendingItems.find(item => item.category.equals(category._id));
+
+  const results = await schedulerService.cleanupAndRefreshContent({
+    categoryIds: pendingItems.map(item => item.category),
+    // Started by an admin, every category rotates whatever its cadence
+    ignoreCadence: true,
+    shouldStop: () => isCancelRequested(job._id),
+    usageContext: { source: 'job', generationJob: job._id, user: job.createdBy },
+    onCategoryStart: async (category) => {
+      const item = findItem(category);
+      if (!item) return;
+      item.status = 'running';
+      item.startedAt = new Date();
+      item.attempts++;
+      await job.save();
+    },
+    onCategoryComplete: async (category, stats) => {
+      const item = findItem(category);
+      if (!item) return;
+      item.status = 'completed';
+      item.completedAt = new Date();
+      item.contentIds.push(...stats.contentIds);
+      item.stats = {
+        generated: stats.generated,
+        cleanedUp: stats.cleanedUp,
+        published: stats.published,
+        duplicatesRejected: stats.duplicatesRejected,
+        safetyFlagged: stats.safetyFlagged,
+      };
+      job.updateProgress();
+      await job.save();
+    },
+  });
+
+  // Categories that were deactivated or deleted after the job was queued
+  if (!results.stopped) {
+    pendingItems.forEach(item => {
+      if (item.status === 'pending') {
+        item.status = 'failed';
+        item.error = 'Category is no longer active';
+      }
+    });
+  }
+
+  job.result = {
+    duplicates: results.duplicates,
+  };
+};
+
+/**
+ * Run a daily refresh job, one item per category, under the scheduled
+ * refresh's lock. When another instance holds it, the attempt is recorded as a
+ * skipped run of that job and the job fails.
+ */
+const runDailyRefreshJob = async (job) => {
+  const instance = jobLockService.getInstanceId();
+  const lock = await jobLockService.acquire(DAILY_REFRESH_JOB, { holder: instance });
+  if (!lock) {
+    const held = (await jobLockService.getActiveLocks())[DAILY_REFRESH_JOB];
+    const lockHolder = held ? held.holder : null;
+    await jobRunService.recordSkipped(DAILY_REFRESH_JOB, { trigger: 'manual', user: { _id: job.createdBy }, instance, lockHolder });
+    throw new AppError(`Skipped, the daily content refresh is running on ${lockHolder || 'another instance'}`, 409);
+  }
+
+  const stopHeartbeat = jobLockService.startHeartbeat(lock, {
+    onLost: () => console.error(`Daily refresh job ${job._id} lost the lock of ${DAILY_REFRESH_JOB}`),
+  });
+  try {
+    await refreshCategories(job);
+  } finally {
+    stopHeartbeat();
+    await jobLockService.release(lock).catch((error) => {
+      console.error(`Failed to release the lock of ${DAILY_REFRESH_JOB}:`, error.message);
+    });
+  }
+};
+
+/**
+ * Check the cancel flag without overwriting the in-memory job
+ */
+const isCancelRequested = async (jobId) => {
+  const current = await GenerationJob.findById(jobId).select('cancelRequested');
+  return Boolean(current && current.cancelRequested);
+};
+
+/**
+ * Work out the final job status and aggregated result once all items ran
+ */
+const finishJob = async (job) => {
+  job.items.forEach(item => {
+    if (['pending', 'running'].includes(item.status)) {
+      item.status = 'cancelled';
+    }
+  });
+
+  const progress = job.updateProgress();
+
+  if (job.type === 'daily-refresh') {
+    const totals = { categories: 0, generated: 0, cleanedUp: 0, published: 0, duplicatesRejected: 0, safetyFlagged: 0 };
+    job.items.forEach(item => {
+      if (item.status !== 'completed' || !item.stats) return;
+      totals.categories++;
+      totals.generated += item.stats.generated || 0;
+      totals.cleanedUp += item.stats.cleanedUp || 0;
+      totals.published += item.stats.published || 0;
+      totals.duplicatesRejected += item.stats.duplicatesRejected || 0;
+      totals.safetyFlagged += item.stats.safetyFlagged || 0;
+    });
+    job.result = { ...totals, duplicates: (job.result && job.result.duplicates) || { processed: 0, deleted: 0 } };
+  } else {
+    job.result = {
+      generated: progress.generated,
+      duplicatesRejected: job.items.reduce((sum, item) => sum + ((item.stats && item.stats.duplicatesRejected) || 0), 0),
+      safetyFlagged: job.items.reduce((sum, item) => sum + ((item.stats && item.stats.safetyFlagged) || 0), 0),
+      errors: job.items.filter(item => item.error).map(item => `${item.label}: ${item.error}`),
+      byCategory: job.getCategorySummary(),
+    };
+  }
+
+  if (progress.cancelled > 0) {
+    job.status = 'cancelled';
+  } else if (progress.failed > 0) {
+    job.status = 'failed';
+    job.error = `${progress.failed} of ${progress.total} items failed`;
+  } else {
+    job.status = 'completed';
+  }
+
+  job.completedAt = new Date();
+  job.markModified('result');
+  await job.save();
+};
+
+/**
+ * Report in for a running job until stopped, so other instances leave it alone
+ * @param {Object} job - Job document in running state
+ * @returns {Function} Stops the heartbeat
+ */
+const startJobHeartbeat = (job) => {
+  const timer = setInterval(() => {
+    GenerationJob.updateOne({ _id: job._id, status: 'running' }, { $set: { heartbeatAt: new Date() } })
+      .catch(error => console.error(`Failed to renew the heartbeat of generation job ${job._id}:`, error.message));
+  }, Math.max(Math.floor(jobLockService.getTtlMs() / 3), 1000));
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+/**
+ * Run a claimed job to completion
+ * @param {Object} job - Job document in running state
+ */
+exports.processJob = async (job) => {
+  console.log(`Processing generation job ${job._id} (${job.type}, ${job.items.length} items)`);
+
+  const stopHeartbeat = startJobHeartbeat(job);
+  try {
+    if (job.type === 'daily-refresh') {
+      await runDailyRefreshJob(job);
+    } else {
+      await runGenerateMultipleJob(job);
+    }
+
+    await finishJob(job);
+  } catch (error) {
+    console.error(`Generation job ${job._id} failed:`, error);
+    job.items.forEach(item => {
+      if (['pending', 'running'].includes(item.status)) {
+        item.status = 'failed';
+        item.error = item.error || error.message;
+      }
+    });
+    job.updateProgress();
+    job.status = 'failed';
+    job.error = error.message;
+    job.completedAt = new Date();
+    await job.save();
+  } finally {
+    stopHeartbeat();
+  }
+
+  console.log(`Generation job ${job._id} finished with status ${job.status}`);
+  return job;
+};
+
+/**
+ * Claim and run queued jobs one at a time until the queue is empty
+ */
+exports.processQueue = async () => {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    let job;
+    do {
+      job = await GenerationJob.findOneAndUpdate(
+        { status: 'queued' },
+        { $set: { status: 'running', startedAt: new Date(), owner: jobLockService.getInstanceId(), heartbeatAt: new Date() }, $inc: { attempts: 1 } },
+        { sort: { createdAt: 1 }, new: true }
+      );
+
+      if (job) {
+        await exports.processJob(job);
+      }
+    } while (job);
+  } catch (error) {
+    console.error('Generation worker error:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Ask the worker to look at the queue now instead of waiting for the next poll
+ */
+exports.kickWorker = () => {
+  if (!workerTimer) return;
+  setImmediate(() => exports.processQueue());
+};
+
+/**
+ * Re-queue running jobs whose worker stopped: their heartbeat is older than the
+ * job lock TTL, or they ran on this instance before it restarted
+ * @param {Object} options
+ * @param {Boolean} options.restarted - This instance just started, none of its jobs are running
+ * @returns {Promise<Number>} Jobs re-queued
+ */
+exports.requeueStaleJobs = async ({ restarted = false } = {}) => {
+  const expired = [
+    { heartbeatAt: null },
+    { heartbeatAt: { $lte: new Date(Date.now() - jobLockService.getTtlMs()) } },
+  ];
+  if (restarted) expired.push({ owner: jobLockService.getInstanceId() });
+
+  const staleJobs = await GenerationJob.find({ status: 'running', $or: expired });
+  for (const job of staleJobs) {
+    job.items.forEach(item => {
+      if (item.status === 'running') {
+        item.status = 'pending';
+      }
+    });
+    job.status = 'queued';
+    job.owner = null;
+    job.updateProgress();
+    await job.save();
+  }
+
+  if (staleJobs.length > 0) {
+    console.log(`Re-queued ${staleJobs.length} generation jobs whose worker stopped`);
+  }
+
+  return staleJobs.length;
+};
+
+/**
+ * Start the in-process worker. Jobs whose worker stopped, on this or another
+ * instance, are re-queued now and on every poll.
+ */
+exports.startWorker = async () => {
+  if (workerTimer) return;
+
+  await exports.requeueStaleJobs({ restarted: true });
+
+  workerTimer = setInterval(() => {
+    exports.requeueStaleJobs()
+      .catch(error => console.error('Failed to re-queue stale generation jobs:', error.message))
+      .then(() => exports.processQueue());
+  }, POLL_INTERVAL_MS);
+  console.log(`Generation worker started (polling every ${POLL_INTERVAL_MS}ms)`);
+
+  exports.kickWorker();
+};
+
+/**
+ * Stop polling for jobs
+ */
+exports.stopWorker = () => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
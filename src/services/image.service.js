@@ -0,0 +1,154 @@
+const crypto = require('crypto');
+const sharp = require('sharp');
+const AppError = require('../utils/appError');
+const storage = require('./storage');
+
+// Formats accepted for uploads, checked on the decoded file rather than the
+// name or the MIME type the browser sent
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp', 'gif', 'avif'];
+
+// Sizes each upload is resized to, per what the image is for
+const VARIANT_SIZES = {
+  content: {
+    card: { width: 1200, height: 675 },
+    thumbnail: { width: 400, height: 225 },
+  },
+  category: {
+    card: { width: 512, height: 512 },
+    thumbnail: { width: 128, height: 128 },
+  },
+};
+
+exports.ACCEPTED_FORMATS = ACCEPTED_FORMATS;
+
+exports.PURPOSES = Object.keys(VARIANT_SIZES);
+
+/**
+ * Largest accepted upload in bytes (IMAGE_MAX_BYTES, defaults to 5 MB)
+ * @returns {Number} Bytes
+ */
+exports.getMaxBytes = () => parseInt(process.env.IMAGE_MAX_BYTES, 10) || 5 * 1024 * 1024;
+
+/**
+ * Error for an upload over the size limit
+ * @returns {AppError} 413 error naming the limit
+ */
+exports.tooLargeError = () => {
+  const bytes = exports.getMaxBytes();
+  const limit = bytes >= 1024 * 1024 ? `${Number((bytes / 1024 / 1024).toFixed(1))} MB` : `${Math.ceil(bytes / 1024)} KB`;
+  return new AppError(`Image is larger than the ${limit} limit`, 413);
+};
+
+/**
+ * Validate an image and store it resized to the card and thumbnail sizes of
+ * its purpose. Variants are cropped to the size and saved as WebP under new
+ * keys, so they can be cached forever.
+ * @param {Buffer} buffer - Image file
+ * @param {Object} options
+ * @param {String} options.purpose - content or category
+ * @param {Boolean} options.checkSize - Apply the upload size limit (off for generated images)
+ * @returns {Promise<Object>} { url, thumbnailUrl, storage, original, variants }
+ */
+exports.processImage = async (buffer, { purpose = 'content', checkSize = true } = {}) => {
+  const sizes = VARIANT_SIZES[purpose];
+  if (!sizes) {
+    throw new AppError(`Invalid image purpose "${purpose}". Use one of: ${exports.PURPOSES.join(', ')}`, 400);
+  }
+
+  if (!buffer || buffer.length === 0) {
+    throw new AppError('No image was uploaded', 400);
+  }
+  if (checkSize && buffer.length > exports.getMaxBytes()) {
+    throw exports.tooLargeError();
+  }
+
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch (error) {
+    throw new AppError('File is not a valid image', 400);
+  }
+
+  if (!ACCEPTED_FORMATS.includes(metadata.format)) {
+    throw new AppError(`Unsupported image type "${metadata.format}". Use one of: ${ACCEPTED_FORMATS.join(', ')}`, 400);
+  }
+
+  const adapter = storage.getStorage();
+  const id = `${Date.now().toString(36)}-${crypto.randomBytes(6).toString('hex')}`;
+  const variants = {};
+
+  for (const [variant, size] of Object.entries(sizes)) {
+    // rotate() applies the EXIF orientation of phone photos before cropping
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .resize({ ...size, fit: 'cover', position: 'attention' })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+
+    const stored = await adapter.put({
+      key: `images/${purpose}/${id}-${variant}.webp`,
+      body: data,
+      contentType: 'image/webp',
+    });
+
+    variants[variant] = {
+      key: stored.key,
+      url: stored.url,
+      width: info.width,
+      height: info.height,
+      bytes: info.size,
+    };
+  }
+
+  return {
+    url: variants.card.url,
+    thumbnailUrl: variants.thumbnail.url,
+    storage: adapter.name,
+    original: {
+      format: metadata.format,
+      width: metadata.width,
+      height: metadata.height,
+      bytes: buffer.length,
+    },
+    variants,
+  };
+};
+
+/**
+ * Create a cover image for a content item from its title with the image
+ * generation provider (IMAGE_PROVIDER) and set it as the item's image
+ * @param {Object} content - Content document
+ * @returns {Promise<Object>} Stored image, as returned by processImage
+ */
+exports.generateCoverImage = async (content) => {
+  // Required here so the image service works without any generation provider
+  const imageGeneration = require('./imageGeneration');
+  const provider = imageGeneration.getProvider();
+
+  if (!provider) {
+    throw new AppError('No image generation provider is configured. Set IMAGE_PROVIDER to enable cover images.', 400);
+  }
+
+  const categoryName = content.category && content.category.name ? content.category.name : null;
+  const prompt = [
+    `A clean, modern cover illustration for a short lifestyle article titled "${content.title}".`,
+    categoryName ? `Topic: ${categoryName}.` : '',
+    'No text, letters or logos in the image.',
+  ].filter(Boolean).join(' ');
+
+  let generated;
+  try {
+    generated = await provider.generate({ prompt, title: content.title });
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new AppError(`Image generation failed: ${error.message}`, 502);
+  }
+
+  const image = await exports.processImage(generated.data, { purpose: 'content', checkSize: false });
+
+  content.image = image.url;
+  content.imageThumbnail = image.thumbnailUrl;
+  await content.save();
+
+  return { ...image, provider: provider.name, model: generated.model || null };
+};
@@ -0,0 +1,50 @@
+const crypto = require('crypto');
+const sharp = require('sharp');
+
+const escapeXml = (text) => text.replace(/[<>&"']/g, char => ({
+  '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;',
+}[char]));
+
+// Break the title into lines of at most 28 characters, three lines at most
+const wrapTitle = (title) => {
+  const lines = [];
+  String(title || '').split(/\s+/).filter(Boolean).forEach(word => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= 28) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+  return lines.slice(0, 3);
+};
+
+/**
+ * Offline provider for development and tests: renders the title on a
+ * gradient whose colors are derived from the title, without any network call
+ */
+const fakeImageProvider = {
+  name: 'fake',
+
+  isConfigured: () => true,
+
+  generate: async ({ title }) => {
+    const hash = crypto.createHash('md5').update(String(title || '')).digest();
+    const hue = hash[0] * 360 / 256;
+    const lines = wrapTitle(title);
+    const text = lines.map((line, index) => (
+      `<text x="800" y="${512 + (index - (lines.length - 1) / 2) * 110}" font-size="88" font-family="sans-serif" font-weight="bold" fill="#fff" text-anchor="middle" dominant-baseline="middle">${escapeXml(line)}</text>`
+    )).join('');
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="1024">
+      <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+        <stop offset="0" stop-color="hsl(${hue}, 65%, 45%)"/>
+        <stop offset="1" stop-color="hsl(${(hue + 50) % 360}, 70%, 30%)"/>
+      </linearGradient></defs>
+      <rect width="100%" height="100%" fill="url(#g)"/>${text}</svg>`;
+
+    return { data: await sharp(Buffer.from(svg)).png().toBuffer(), model: 'fake' };
+  },
+};
+
+module.exports = fakeImageProvider;
@@ -0,0 +1,45 @@
+const AppError = require('../../utils/appError');
+
+// Providers are loaded on demand so an unused provider never runs any setup code
+const providerLoaders = {
+  openai: () => require('./openai.provider'),
+  fake: () => require('./fake.provider'),
+};
+
+/**
+ * Name of the provider selected through IMAGE_PROVIDER, null when cover
+ * images are not generated (none or unset)
+ * @returns {String|null} Provider name
+ */
+exports.getProviderName = () => {
+  const name = (process.env.IMAGE_PROVIDER || '').toLowerCase();
+  return name && name !== 'none' ? name : null;
+};
+
+/**
+ * Get an image generation provider. Every provider exposes:
+ * - name
+ * - isConfigured() -> Boolean
+ * - generate({ prompt, title }) -> { data: Buffer, model }
+ * @param {String} name - Provider name (defaults to the configured provider)
+ * @returns {Object|null} Provider, null when none is configured
+ */
+exports.getProvider = (name = exports.getProviderName()) => {
+  if (!name) {
+    return null;
+  }
+
+  const loader = providerLoaders[name];
+
+  if (!loader) {
+    throw new AppError(`Unknown image provider "${name}". Use one of: none, ${Object.keys(providerLoaders).join(', ')}`, 500);
+  }
+
+  return loader();
+};
+
+/**
+ * List the available provider names
+ * @returns {Array} Provider names
+ */
+exports.getAvailableProviders = () => Object.keys(providerLoaders);
@@ -0,0 +1,61 @@
+const OpenAI = require('openai');
+const AppError = require('../../utils/appError');
+
+let client = null;
+
+// The client is created on first use so that a missing key never
+// prevents the server from starting
+const getClient = () => {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new AppError('OPENAI_API_KEY is not configured for the "openai" image provider.', 500);
+  }
+
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      timeout: 120000,
+      maxRetries: 2,
+    });
+  }
+
+  return client;
+};
+
+/**
+ * Cover images from the OpenAI images API (IMAGE_MODEL, defaults to gpt-image-1)
+ */
+const openaiImageProvider = {
+  name: 'openai',
+
+  isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+
+  /**
+   * Generate a landscape image
+   * @param {Object} request
+   * @param {String} request.prompt - Image prompt
+   * @returns {Object} { data: Buffer, model }
+   */
+  generate: async ({ prompt }) => {
+    const model = process.env.IMAGE_MODEL || 'gpt-image-1';
+    const request = { model, prompt, n: 1 };
+
+    // gpt-image models always answer with base64, DALL·E has to be asked to
+    if (model.startsWith('dall-e')) {
+      request.size = '1792x1024';
+      request.response_format = 'b64_json';
+    } else {
+      request.size = '1536x1024';
+    }
+
+    const response = await getClient().images.generate(request);
+    const image = response.data && response.data[0];
+
+    if (!image || !image.b64_json) {
+      throw new AppError('The image provider returned no image', 502);
+    }
+
+    return { data: Buffer.from(image.b64_json, 'base64'), model };
+  },
+};
+
+module.exports = openaiImageProvider;
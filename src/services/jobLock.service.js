@@ -0,0 +1,133 @@
+const crypto = require('crypto');
+const os = require('os');
+const JobLock = require('../models/jobLock.model');
+const JobRun = require('../models/jobRun.model');
+
+/**
+ * Name of this API instance in job locks and runs (INSTANCE_ID, defaults to
+ * the host name and process ID, the container ID in Docker)
+ * @returns {String} Instance ID
+ */
+exports.getInstanceId = () => process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`;
+
+/**
+ * Lease duration (JOB_LOCK_TTL_SECONDS, defaults to 2 minutes). Holders renew
+ * it every third of that while the job runs.
+ * @returns {Number} Milliseconds
+ */
+exports.getTtlMs = () => (parseInt(process.env.JOB_LOCK_TTL_SECONDS, 10) || 120) * 1000;
+
+/**
+ * Take the lease on a job unless another instance holds it
+ * @param {String} job - Job name
+ * @param {Object} options
+ * @param {String} options.holder - Instance taking the lease (defaults to this one)
+ * @param {Number} options.ttlMs - Lease duration
+ * @returns {Promise<Object|null>} Lock { job, holder, token, expiresAt }, null when held elsewhere
+ */
+exports.acquire = async (job, { holder = exports.getInstanceId(), ttlMs = exports.getTtlMs() } = {}) => {
+  const now = new Date();
+  const lock = {
+    job,
+    holder,
+    token: crypto.randomBytes(12).toString('hex'),
+    expiresAt: new Date(now.getTime() + ttlMs),
+  };
+
+  let previous;
+  try {
+    // Matches a missing or expired lease; a live one makes the upsert hit the unique _id
+    previous = await JobLock.findOneAndUpdate(
+      { _id: job, expiresAt: { $lte: now } },
+      { $set: { holder, token: lock.token, acquiredAt: now, heartbeatAt: now, expiresAt: lock.expiresAt, run: null } },
+      { upsert: true, new: false }
+    );
+  } catch (error) {
+    if (error.code === 11000) return null;
+    throw error;
+  }
+
+  // The previous holder stopped renewing while its run was going, it will never finish it
+  if (previous && previous.run) {
+    await JobRun.updateOne(
+      { _id: previous.run, status: 'running' },
+      { $set: { status: 'failed', finishedAt: now, error: { message: `Lock expired, ${previous.holder} stopped renewing it` } } }
+    );
+  }
+
+  return lock;
+};
+
+/**
+ * Link the run a lock was taken for, so it can be closed if the holder dies
+ * @param {Object} lock - Lock from acquire
+ * @param {String} runId - JobRun ID
+ */
+exports.attachRun = async (lock, runId) => {
+  await JobLock.updateOne({ _id: lock.job, token: lock.token }, { $set: { run: runId } });
+};
+
+/**
+ * Extend a lease
+ * @param {Object} lock - Lock from acquire
+ * @param {Number} ttlMs - Lease duration from now
+ * @returns {Promise<Boolean>} Whether the lease is still held
+ */
+exports.renew = async (lock, ttlMs = exports.getTtlMs()) => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  const result = await JobLock.updateOne(
+    { _id: lock.job, token: lock.token },
+    { $set: { heartbeatAt: now, expiresAt } }
+  );
+
+  if (result.matchedCount === 0) return false;
+  lock.expiresAt = expiresAt;
+  return true;
+};
+
+/**
+ * Give up a lease
+ * @param {Object} lock - Lock from acquire
+ */
+exports.release = async (lock) => {
+  await JobLock.deleteOne({ _id: lock.job, token: lock.token });
+};
+
+/**
+ * Renew a lease in the background until stopped
+ * @param {Object} lock - Lock from acquire
+ * @param {Object} options
+ * @param {Function} options.onLost - Called once if the lease could not be renewed
+ * @returns {Function} Stops the heartbeat
+ */
+exports.startHeartbeat = (lock, { onLost = () => {} } = {}) => {
+  const ttlMs = exports.getTtlMs();
+  const timer = setInterval(async () => {
+    try {
+      if (!await exports.renew(lock, ttlMs)) {
+        clearInterval(timer);
+        onLost();
+      }
+    } catch (error) {
+      // A failed renewal is retried on the next beat, the lease outlives a few of them
+      console.error(`Failed to renew the lock of job ${lock.job}:`, error.message);
+    }
+  }, Math.max(Math.floor(ttlMs / 3), 1000));
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+/**
+ * Leases currently held
+ * @returns {Promise<Object>} Job name -> { holder, acquiredAt, heartbeatAt, expiresAt }
+ */
+exports.getActiveLocks = async () => {
+  const locks = await JobLock.find({ expiresAt: { $gt: new Date() } });
+
+  return locks.reduce((active, lock) => ({
+    ...active,
+    [lock._id]: { holder: lock.holder, acquiredAt: lock.acquiredAt, heartbeatAt: lock.heartbeatAt, expiresAt: lock.expiresAt },
+  }), {});
+};
@@ -0,0 +1,146 @@
+const mongoose = require('mongoose');
+const JobRun = require('../models/jobRun.model');
+const AppError = require('../utils/appError');
+
+// Recovered errors kept per run, a broken run can report one per item
+const MAX_FAILURES = 100;
+
+/**
+ * Record the start of a job run
+ * @param {String} job - Job name
+ * @param {Object} options
+ * @param {String} options.trigger - cron or manual
+ * @param {Object} options.user - Admin starting a manual run
+ * @param {Object} options.params - Parameters the job runs with
+ * @param {String} options.instance - Instance running the job
+ * @param {Boolean} options.dryRun - Only a preview of the job
+ * @returns {Promise<Object>} Running JobRun
+ */
+exports.startRun = async (job, { trigger = 'cron', user = null, params = null, instance = null, dryRun = false } = {}) => JobRun.create({
+  job,
+  trigger,
+  triggeredBy: user ? user._id : null,
+  params,
+  dryRun,
+  instance,
+  status: 'running',
+  startedAt: new Date(),
+});
+
+/**
+ * Record a run that did not start because another instance held the job lock
+ * @param {String} job - Job name
+ * @param {Object} options
+ * @param {String} options.trigger - cron or manual
+ * @param {Object} options.user - Admin starting a manual run
+ * @param {String} options.instance - Instance that tried to run the job
+ * @param {String} options.lockHolder - Instance holding the lock
+ * @returns {Promise<Object>} Skipped JobRun
+ */
+exports.recordSkipped = async (job, { trigger = 'cron', user = null, instance = null, lockHolder = null } = {}) => {
+  const now = new Date();
+
+  return JobRun.create({
+    job,
+    trigger,
+    triggeredBy: user ? user._id : null,
+    instance,
+    lockHolder,
+    status: 'skipped',
+    startedAt: now,
+    finishedAt: now,
+    durationMs: 0,
+  });
+};
+
+/**
+ * Record the end of a job run
+ * @param {Object} run - JobRun from startRun
+ * @param {Object} outcome
+ * @param {Object} outcome.result - Summary the job returned
+ * @param {Error} outcome.error - Error that failed the job
+ * @param {Array} outcome.failures - Messages of errors the job recovered from
+ * @returns {Promise<Object>} Finished JobRun
+ */
+exports.finishRun = async (run, { result = null, error = null, failures = [] } = {}) => {
+  run.finishedAt = new Date();
+  run.durationMs = run.finishedAt - run.startedAt;
+  run.status = error ? 'failed' : 'succeeded';
+  run.result = result;
+  run.error = error ? { message: error.message, stack: error.stack } : null;
+  run.failures = failures.slice(0, MAX_FAILURES).map(failure => (
+    typeof failure === 'string' ? { message: failure } : failure
+  ));
+
+  return run.save();
+};
+
+/**
+ * Remove a run that did nothing worth keeping
+ * @param {Object} run - JobRun document
+ */
+exports.discardRun = async (run) => {
+  await JobRun.deleteOne({ _id: run._id });
+};
+
+/**
+ * List job runs, newest first
+ * @param {Object} filters
+ * @param {String} filters.job - Only runs of this job
+ * @param {String} filters.status - running, succeeded, failed or skipped
+ * @param {Number} filters.page - Page number (1-based)
+ * @param {Number} filters.limit - Runs per page
+ * @returns {Promise<Object>} { runs, total, page, pages }
+ */
+exports.listRuns = async ({ job, status, page = 1, limit = 20 } = {}) => {
+  const filter = {};
+  if (job) filter.job = job;
+  if (status) filter.status = status;
+
+  const pageNumber = Math.max(parseInt(page, 10) || 1, 1);
+  const pageSize = Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100);
+
+  const [runs, total] = await Promise.all([
+    JobRun.find(filter)
+      .populate('triggeredBy', 'name email')
+      .sort({ startedAt: -1 })
+      .skip((pageNumber - 1) * pageSize)
+      .limit(pageSize),
+    JobRun.countDocuments(filter),
+  ]);
+
+  return { runs, total, page: pageNumber, pages: Math.ceil(total / pageSize) };
+};
+
+/**
+ * Get a job run
+ * @param {String} runId - JobRun ID
+ * @returns {Promise<Object>} JobRun
+ */
+exports.getRun = async (runId) => {
+  if (!mongoose.Types.ObjectId.isValid(runId)) {
+    throw new AppError('Invalid job run ID', 400);
+  }
+
+  const run = await JobRun.findById(runId).populate('triggeredBy', 'name email');
+  if (!run) {
+    throw new AppError('Job run not found', 404);
+  }
+
+  return run;
+};
+
+/**
+ * Latest run of each job
+ * @param {Array} jobs - Job names
+ * @returns {Promise<Object>} Job name -> latest JobRun (missing when never run)
+ */
+exports.getLatestRuns = async (jobs) => {
+  const latest = await JobRun.aggregate([
+    { $match: { job: { $in: jobs } } },
+    { $sort: { startedAt: -1 } },
+    { $group: { _id: '$job', run: { $first: '$$ROOT' } } },
+  ]);
+
+  return latest.reduce((runs, { _id, run }) => ({ ...runs, [_id]: run }), {});
+};
@@ -0,0 +1,136 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const AppError = require('../../utils/appError');
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+// Calls per prompt, so repeated identical prompts walk through the fixture
+// items instead of returning the same one every time
+const callCounts = new Map();
+
+let cachedFixtures = null;
+let cachedFixturesDir = null;
+
+/**
+ * Load fixture files from LLM_FIXTURES_DIR (or the bundled fixtures).
+ * Each file is { match: [keywords], priority, items: [{ title, summary, body, tags }] }.
+ * A fixture without keywords is used when nothing else matches.
+ * @returns {Array} Fixtures sorted by priority (highest first), then file name
+ */
+const loadFixtures = () => {
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  if (cachedFixtures && cachedFixturesDir === fixturesDir) {
+    return cachedFixtures;
+  }
+
+  let files;
+  try {
+    files = fs.readdirSync(fixturesDir).filter(file => file.endsWith('.json')).sort();
+  } catch (error) {
+    throw new AppError(`Could not read LLM fixtures directory: ${fixturesDir}`, 500);
+  }
+
+  const fixtures = files.map(file => {
+    const fixture = JSON.parse(fs.readFileSync(path.join(fixturesDir, file), 'utf-8'));
+    return {
+      name: path.basename(file, '.json'),
+      match: (fixture.match || []).map(keyword => keyword.toLowerCase()),
+      priority: fixture.priority || 0,
+      items: fixture.items || [],
+    };
+  }).filter(fixture => fixture.items.length > 0)
+    .sort((a, b) => b.priority - a.priority);
+
+  if (fixtures.length === 0) {
+    throw new AppError(`No LLM fixtures found in ${fixturesDir}`, 500);
+  }
+
+  cachedFixtures = fixtures;
+  cachedFixturesDir = fixturesDir;
+
+  return fixtures;
+};
+
+/**
+ * Work out how many items the prompt asks for
+ * @param {String} prompt - Prompt text
+ * @returns {Number} Requested item count (1 when not specified)
+ */
+const detectRequestedCount = (prompt) => {
+  const patterns = [
+    /json array (?:with|of) (?:exactly )?(\d+)/i,
+    /generate (\d+) (?:different |unique |new )?(?:items|hacks|tips|quotes)/i,
+    /exactly (\d+) (?:items|objects)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = prompt.match(pattern);
+    if (match) {
+      return Math.max(parseInt(match[1], 10), 1);
+    }
+  }
+
+  return 1;
+};
+
+// Rough token estimate, close enough for cost and budget bookkeeping
+const estimateTokens = (text) => Math.ceil((text || '').length / 4);
+
+/**
+ * Deterministic provider that answers from fixture files.
+ * Used for local development and tests, it never touches the network.
+ */
+const fakeProvider = {
+  name: 'fake',
+
+  // Fixture answers never cost anything, whatever model was requested
+  billable: false,
+
+  isConfigured: () => true,
+
+  complete: async ({ model, messages }) => {
+    const prompt = messages.map(message => message.content).join('\n');
+    const lowerPrompt = prompt.toLowerCase();
+    const fixtures = loadFixtures();
+
+    const fixture = fixtures.find(candidate =>
+      candidate.match.some(keyword => lowerPrompt.includes(keyword))
+    ) || fixtures.find(candidate => candidate.match.length === 0) || fixtures[0];
+
+    const promptHash = crypto.createHash('sha1').update(prompt).digest('hex');
+    const callIndex = callCounts.get(promptHash) || 0;
+    callCounts.set(promptHash, callIndex + 1);
+
+    const count = detectRequestedCount(prompt);
+    const offset = parseInt(promptHash.slice(0, 8), 16) + callIndex * count;
+    const items = [];
+
+    for (let i = 0; i < count; i++) {
+      items.push(fixture.items[(offset + i) % fixture.items.length]);
+    }
+
+    const text = JSON.stringify(count > 1 ? items : items[0]);
+
+    return {
+      text,
+      model: model || 'fake',
+      usage: {
+        promptTokens: estimateTokens(prompt),
+        completionTokens: estimateTokens(text),
+      },
+    };
+  },
+
+  /**
+   * Forget call counters and cached fixtures (used by tests)
+   */
+  reset: () => {
+    callCounts.clear();
+    cachedFixtures = null;
+    cachedFixturesDir = null;
+  },
+};
+
+module.exports = fakeProvider;
@@ -0,0 +1,57 @@
+const AppError = require('../../utils/appError');
+const rateLimiter = require('./rateLimiter');
+
+// Providers are loaded on demand so an unused adapter never runs any setup code
+const providerLoaders = {
+  openai: () => require('./openai.provider'),
+  local: () => require('./local.provider'),
+  fake: () => require('./fake.provider'),
+};
+
+/**
+ * Name of the provider selected through LLM_PROVIDER.
+ * Tests default to the offline fake provider.
+ * @returns {String} Provider name
+ */
+exports.getProviderName = () => {
+  if (process.env.LLM_PROVIDER) {
+    return process.env.LLM_PROVIDER.toLowerCase();
+  }
+
+  return process.env.NODE_ENV === 'test' ? 'fake' : 'openai';
+};
+
+/**
+ * Get an LLM provider. Every provider exposes:
+ * - name
+ * - billable -> Boolean, whether calls are priced in the usage ledger
+ * - isConfigured() -> Boolean
+ * - complete({ model, messages, temperature, json, maxTokens })
+ *     -> { text, model, usage: { promptTokens, completionTokens } }
+ * @param {String} name - Provider name (defaults to the configured provider)
+ * @returns {Object} Provider
+ */
+exports.getProvider = (name = exports.getProviderName()) => {
+  const loader = providerLoaders[name];
+
+  if (!loader) {
+    throw new AppError(`Unknown LLM provider "${name}". Use one of: ${Object.keys(providerLoaders).join(', ')}`, 500);
+  }
+
+  return loader();
+};
+
+/**
+ * List the available provider names
+ * @returns {Array} Provider names
+ */
+exports.getAvailableProviders = () => Object.keys(providerLoaders);
+
+/**
+ * Run a call to a provider within the provider's concurrency and rate limits
+ * (LLM_MAX_CONCURRENT_REQUESTS, LLM_REQUESTS_PER_MINUTE)
+ * @param {Object} provider - Provider from getProvider
+ * @param {Function} task - Returns a promise for the call
+ * @returns {Promise} Result of the task
+ */
+exports.runLimited = (provider, task) => rateLimiter.schedule(provider.name, task);
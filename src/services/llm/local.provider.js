@@ -0,0 +1,20 @@
+const { createOpenAICompatibleProvider } = require('./openai.provider');
+
+/**
+ * Provider for any OpenAI-compatible endpoint running locally
+ * (Ollama, LM Studio, llama.cpp server, vLLM...)
+ *
+ * LLM_BASE_URL - Base URL of the endpoint, e.g. http://localhost:11434/v1
+ * LLM_API_KEY  - Optional key, most local servers accept any value
+ * LLM_MODEL    - Model to run instead of the OpenAI model names used by callers
+ */
+const localProvider = createOpenAICompatibleProvider({
+  name: 'local',
+  getApiKey: () => process.env.LLM_API_KEY || 'local',
+  baseURL: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+  modelOverride: process.env.LLM_MODEL,
+  // Local servers differ in response_format support, so JSON is requested via the prompt
+  jsonFormatModels: [],
+});
+
+module.exports = localProvider;
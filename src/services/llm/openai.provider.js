@@ -0,0 +1,114 @@
+const OpenAI = require('openai');
+const AppError = require('../../utils/appError');
+
+// Models that accept response_format: { type: 'json_object' }
+// This list may need to be updated as OpenAI releases new models
+const MODELS_WITH_JSON_FORMAT = [
+  'gpt-4-turbo-preview', 'gpt-4-1106-preview', 'gpt-4-0125-preview',
+  'gpt-4.1', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4o-mini'
+];
+
+/**
+ * Build a provider around the official OpenAI client. Any server that speaks
+ * the OpenAI chat completions protocol can be used by passing a baseURL.
+ * @param {Object} options - Provider options
+ * @param {String} options.name - Provider name used in logs
+ * @param {Function} options.getApiKey - Returns the API key to use (read lazily)
+ * @param {String} options.baseURL - Optional base URL for OpenAI-compatible servers
+ * @param {String} options.modelOverride - Optional model to use instead of the requested one
+ * @param {Array} options.jsonFormatModels - Models that support response_format
+ * @returns {Object} Provider
+ */
+const createOpenAICompatibleProvider = ({
+  name,
+  getApiKey,
+  baseURL = undefined,
+  modelOverride = undefined,
+  jsonFormatModels = MODELS_WITH_JSON_FORMAT,
+}) => {
+  let client = null;
+
+  // The client is created on first use so that a missing key never
+  // prevents the server, scheduler or tests from starting
+  const getClient = () => {
+    const apiKey = getApiKey();
+
+    if (!apiKey) {
+      throw new AppError(`API key for the "${name}" LLM provider is not configured. Please check your environment configuration.`, 500);
+    }
+
+    if (!client) {
+      client = new OpenAI({
+        apiKey,
+        baseURL,
+        timeout: 120000, // 2 minute timeout for API calls
+        maxRetries: 3, // Allow 3 retries for failed API calls
+      });
+    }
+
+    return client;
+  };
+
+  return {
+    name,
+
+    // Calls are priced from the model name (unknown models cost 0)
+    billable: true,
+
+    isConfigured: () => Boolean(getApiKey()),
+
+    /**
+     * Run a chat completion
+     * @param {Object} request - Completion request
+     * @param {String} request.model - Requested model
+     * @param {Array} request.messages - Chat messages
+     * @param {Number} request.temperature - Sampling temperature
+     * @param {Boolean} request.json - Ask the model for a JSON response
+     * @param {Number} request.maxTokens - Optional completion token limit
+     * @returns {Object} { text, model, usage: { promptTokens, completionTokens } }
+     */
+    complete: async ({ model, messages, temperature = 0.7, json = false, maxTokens }) => {
+      const effectiveModel = modelOverride || model;
+      const requestOptions = {
+        model: effectiveModel,
+        messages: messages.map(message => ({ ...message })),
+        temperature,
+      };
+
+      if (maxTokens) {
+        requestOptions.max_tokens = maxTokens;
+      }
+
+      if (json) {
+        if (jsonFormatModels.includes(effectiveModel)) {
+          requestOptions.response_format = { type: 'json_object' };
+        } else {
+          // For models without response_format support, emphasize JSON format in the prompt
+          const system = requestOptions.messages.find(message => message.role === 'system');
+          const user = [...requestOptions.messages].reverse().find(message => message.role === 'user');
+          if (system) system.content += ' Return ONLY valid JSON with no explanations before or after.';
+          if (user) user.content += '\n\nIMPORTANT: Return ONLY a valid JSON object with no text before or after.';
+        }
+      }
+
+      const response = await getClient().chat.completions.create(requestOptions);
+
+      return {
+        text: (response.choices[0].message.content || '').trim(),
+        model: response.model || effectiveModel,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          completionTokens: response.usage?.completion_tokens || 0,
+        },
+      };
+    },
+  };
+};
+
+const openaiProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  getApiKey: () => process.env.OPENAI_API_KEY,
+});
+
+module.exports = openaiProvider;
+module.exports.createOpenAICompatibleProvider = createOpenAICompatibleProvider;
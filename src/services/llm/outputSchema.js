@@ -0,0 +1,228 @@
+// Declared shape of AI-generated content, per content type.
+// Every field rule is { type, required, minLength, maxLength } for strings and
+// { type: 'array', minItems, maxItems } (of non-empty strings) for arrays and
+// { type: 'number', min, max } for whole numbers.
+const BASE_SCHEMA = {
+  title: { type: 'string', required: true, maxLength: 80, description: 'A concise, engaging title' },
+  summary: { type: 'string', required: true, maxLength: 150, description: 'A brief summary' },
+  body: { type: 'string', required: true, minLength: 300, maxLength: 600, description: 'Detailed content with formatting (markdown supported)' },
+  tags: { type: 'array', required: true, minItems: 3, maxItems: 5, description: 'Relevant keywords/tags' },
+};
+
+// Quotes carry their attribution as separate fields, the body is built from them
+const QUOTE_SCHEMA = {
+  title: BASE_SCHEMA.title,
+  summary: { type: 'string', required: true, maxLength: 150, description: 'The takeaway of the quote in one sentence' },
+  quoteText: { type: 'string', required: true, minLength: 10, maxLength: 300, description: 'The quote itself, without quotation marks' },
+  author: { type: 'string', required: true, maxLength: 100, description: 'Full name of the person who wrote or said it' },
+  sourceTitle: { type: 'string', required: true, maxLength: 150, description: 'Title of the book or work it comes from' },
+  sourceYear: { type: 'number', required: false, min: -3000, max: new Date().getFullYear(), description: 'Year the source was first published' },
+  tags: BASE_SCHEMA.tags,
+};
+
+// Translations follow the length of the original, so only the fields are checked
+const TRANSLATION_SCHEMA = {
+  title: { type: 'string', required: true, maxLength: 120, description: 'The translated title' },
+  summary: { type: 'string', required: true, maxLength: 300, description: 'The translated summary' },
+  body: { type: 'string', required: true, description: 'The translated body, keeping its markdown formatting' },
+};
+
+const QUOTE_TRANSLATION_SCHEMA = {
+  title: TRANSLATION_SCHEMA.title,
+  summary: TRANSLATION_SCHEMA.summary,
+  quoteText: { type: 'string', required: true, maxLength: 400, description: 'The translated quote, without quotation marks' },
+};
+
+// Sub-topics suggested for a category's topic backlog
+const TOPIC_SUGGESTION_SCHEMA = {
+  topic: { type: 'string', required: true, maxLength: 150, description: 'A specific sub-topic, a few words long' },
+};
+
+const OUTPUT_SCHEMAS = {
+  hack: BASE_SCHEMA,
+  tip: BASE_SCHEMA,
+  hack2: BASE_SCHEMA,
+  tip2: BASE_SCHEMA,
+  quote: QUOTE_SCHEMA,
+  translation: TRANSLATION_SCHEMA,
+  quoteTranslation: QUOTE_TRANSLATION_SCHEMA,
+  topicSuggestion: TOPIC_SUGGESTION_SCHEMA,
+};
+
+/**
+ * Get the output schema of a content type (or of a translation or topic suggestion)
+ * @param {String} contentType - Content type or schema name (falls back to hack)
+ * @returns {Object} Field rules keyed by field name
+ */
+exports.getOutputSchema = (contentType) => OUTPUT_SCHEMAS[contentType] || OUTPUT_SCHEMAS.hack;
+
+const describeRule = (field, rule) => {
+  if (rule.type === 'array') {
+    return `- ${field}: ${rule.description}, an array of ${rule.minItems}-${rule.maxItems} strings`;
+  }
+
+  if (rule.type === 'number') {
+    return `- ${field}: ${rule.description}, a whole number${rule.required ? '' : ', optional'}`;
+  }
+
+  let limits = '';
+  if (rule.minLength && rule.maxLength) {
+    limits = ` (${rule.minLength}-${rule.maxLength} characters)`;
+  } else if (rule.maxLength) {
+    limits = ` (max ${rule.maxLength} characters)`;
+  }
+
+  return `- ${field}: ${rule.description}${limits}${rule.required ? '' : ', optional'}`;
+};
+
+/**
+ * Format instructions for the prompt, generated from the schema
+ * @param {String} contentType - Content type
+ * @param {Number} count - Number of items requested
+ * @returns {String} Prompt text
+ */
+exports.describeOutputSchema = (contentType, count = 1) => {
+  const schema = exports.getOutputSchema(contentType);
+  const fields = Object.entries(schema).map(([field, rule]) => describeRule(field, rule)).join('\n');
+  const shape = count > 1
+    ? `Your response must be a JSON array of exactly ${count} objects, each with the following fields:`
+    : 'Your response must be a valid JSON object with the following fields:';
+
+  return `
+${shape}
+${fields}
+
+FORMAT YOUR RESPONSE AS CLEAN JSON WITHOUT ANY EXPLANATION TEXT BEFORE OR AFTER IT.
+ENSURE THERE ARE NO CONTROL CHARACTERS OR INVALID ESCAPE SEQUENCES IN YOUR JSON.
+`;
+};
+
+/**
+ * Append the format instructions. A prompt that asks for JSON in its own words
+ * still gets them, it rarely states the fields and their limits.
+ * @param {String} prompt - Prompt text
+ * @param {String} contentType - Content type
+ * @param {Number} count - Number of items requested
+ * @returns {String} Final prompt text
+ */
+exports.withFormatInstructions = (prompt, contentType, count = 1) => (
+  prompt + exports.describeOutputSchema(contentType, count)
+);
+
+// Providers in JSON object mode can't answer with a bare array, they wrap it
+// in an object such as { "items": [...] }
+const unwrapArray = (output) => {
+  if (!output || typeof output !== 'object' || Array.isArray(output)) return output;
+
+  const values = Object.values(output);
+  return values.length === 1 && Array.isArray(values[0]) ? values[0] : output;
+};
+
+/**
+ * Check one item against the schema
+ * @param {Object} item - Parsed item
+ * @param {Object} schema - Field rules
+ * @returns {Array} Violation messages (empty when valid)
+ */
+const validateItem = (item, schema) => {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return ['must be a JSON object'];
+  }
+
+  const violations = [];
+
+  Object.entries(schema).forEach(([field, rule]) => {
+    const value = item[field];
+
+    if (value === undefined || value === null || value === '') {
+      if (rule.required) violations.push(`${field} is missing`);
+      return;
+    }
+
+    if (rule.type === 'array') {
+      if (!Array.isArray(value)) {
+        violations.push(`${field} must be an array of strings`);
+        return;
+      }
+      if (value.some(entry => typeof entry !== 'string' || !entry.trim())) {
+        violations.push(`${field} must only contain non-empty strings`);
+      }
+      if (value.length < rule.minItems || value.length > rule.maxItems) {
+        violations.push(`${field} has ${value.length} entries, must have ${rule.minItems}-${rule.maxItems}`);
+      }
+      return;
+    }
+
+    if (rule.type === 'number') {
+      if (!Number.isInteger(value)) {
+        violations.push(`${field} must be a whole number`);
+      } else if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        violations.push(`${field} is ${value}, must be between ${rule.min} and ${rule.max}`);
+      }
+      return;
+    }
+
+    if (typeof value !== 'string') {
+      violations.push(`${field} must be a string`);
+      return;
+    }
+
+    const length = value.trim().length;
+    if (rule.minLength && length < rule.minLength) {
+      violations.push(`${field} is ${length} characters, must be at least ${rule.minLength}`);
+    }
+    if (rule.maxLength && length > rule.maxLength) {
+      violations.push(`${field} is ${length} characters, must be at most ${rule.maxLength}`);
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * Validate parsed AI output against the schema of a content type.
+ * A single item may come as an object or an array of one; several items must
+ * come as an array of exactly `count` objects, or an object holding only that array.
+ * @param {Object|Array} output - Parsed AI output
+ * @param {Object} options
+ * @param {String} options.contentType - Content type
+ * @param {Number} options.count - Number of items requested
+ * @returns {Object} { valid, items: [{ item, index, violations }], violations }
+ */
+exports.validateOutput = (output, { contentType = 'hack', count = 1 } = {}) => {
+  const schema = exports.getOutputSchema(contentType);
+  const violations = [];
+  let candidates;
+
+  const response = count > 1 ? unwrapArray(output) : output;
+
+  if (Array.isArray(response)) {
+    candidates = response;
+    if (response.length !== count) {
+      violations.push(`response has ${response.length} items, must have exactly ${count}`);
+    }
+  } else if (count === 1) {
+    candidates = [response];
+  } else {
+    candidates = [response];
+    violations.push(`response must be a JSON array of exactly ${count} items`);
+  }
+
+  const items = candidates.map((item, index) => ({
+    item,
+    index,
+    violations: validateItem(item, schema),
+  }));
+
+  items.forEach(({ index, violations: itemViolations }) => {
+    itemViolations.forEach(violation => {
+      violations.push(candidates.length > 1 ? `item ${index + 1}: ${violation}` : violation);
+    });
+  });
+
+  return {
+    valid: violations.length === 0,
+    items,
+    violations,
+  };
+};
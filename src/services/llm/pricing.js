@@ -0,0 +1,67 @@
+// USD per 1M tokens. Used to estimate the cost of each AI call in the usage ledger.
+// Prices can be overridden or extended with LLM_PRICING, e.g.
+// LLM_PRICING={"my-local-model":{"input":0,"output":0}}
+const DEFAULT_PRICING = {
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o3': { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+};
+
+let cachedOverrides = null;
+let cachedOverridesSource = null;
+
+const getOverrides = () => {
+  const source = process.env.LLM_PRICING || '';
+
+  if (cachedOverrides && cachedOverridesSource === source) {
+    return cachedOverrides;
+  }
+
+  let overrides = {};
+  if (source) {
+    try {
+      overrides = JSON.parse(source);
+    } catch (error) {
+      console.error('Ignoring invalid LLM_PRICING value:', error.message);
+    }
+  }
+
+  cachedOverrides = overrides;
+  cachedOverridesSource = source;
+  return overrides;
+};
+
+/**
+ * Get the price of a model
+ * @param {String} model - Model name
+ * @returns {Object|null} { input, output } in USD per 1M tokens, null when unknown
+ */
+exports.getModelPricing = (model) => {
+  const pricing = { ...DEFAULT_PRICING, ...getOverrides() };
+  return pricing[model] || null;
+};
+
+/**
+ * Estimate the cost of a call
+ * @param {String} model - Model name
+ * @param {Number} promptTokens - Prompt tokens
+ * @param {Number} completionTokens - Completion tokens
+ * @returns {Number} Estimated cost in USD (0 for unknown models)
+ */
+exports.estimateCost = (model, promptTokens = 0, completionTokens = 0) => {
+  const pricing = exports.getModelPricing(model);
+
+  if (!pricing) {
+    return 0;
+  }
+
+  const cost = (promptTokens * pricing.input + completionTokens * pricing.output) / 1000000;
+  return Math.round(cost * 1000000) / 1000000;
+};
@@ -0,0 +1,81 @@
+// Keeps calls to each LLM provider within its limits, whatever runs them
+// (generation jobs working in parallel, the scheduler, editors in the dashboard).
+// LLM_MAX_CONCURRENT_REQUESTS caps the calls in flight per provider and
+// LLM_REQUESTS_PER_MINUTE spaces their starts (0 = no limit).
+
+const limiters = new Map();
+
+const getLimits = () => ({
+  maxConcurrent: Math.max(parseInt(process.env.LLM_MAX_CONCURRENT_REQUESTS, 10) || 4, 1),
+  requestsPerMinute: Math.max(parseInt(process.env.LLM_REQUESTS_PER_MINUTE, 10) || 0, 0),
+});
+
+const getLimiter = (name) => {
+  if (!limiters.has(name)) {
+    limiters.set(name, { active: 0, queue: [], nextStartAt: 0, timer: null });
+  }
+  return limiters.get(name);
+};
+
+// Start as many queued calls as the limits allow
+const drain = (limiter) => {
+  const { maxConcurrent, requestsPerMinute } = getLimits();
+  const spacingMs = requestsPerMinute > 0 ? Math.ceil(60000 / requestsPerMinute) : 0;
+
+  while (limiter.queue.length > 0 && limiter.active < maxConcurrent) {
+    const wait = limiter.nextStartAt - Date.now();
+    if (wait > 0) {
+      if (!limiter.timer) {
+        limiter.timer = setTimeout(() => {
+          limiter.timer = null;
+          drain(limiter);
+        }, wait);
+      }
+      return;
+    }
+
+    const { task, resolve, reject } = limiter.queue.shift();
+    limiter.active++;
+    limiter.nextStartAt = Date.now() + spacingMs;
+
+    Promise.resolve()
+      .then(task)
+      .then(resolve, reject)
+      .finally(() => {
+        limiter.active--;
+        drain(limiter);
+      });
+  }
+};
+
+/**
+ * Run a call to a provider once its limits allow it
+ * @param {String} name - Provider name
+ * @param {Function} task - Returns a promise for the call
+ * @returns {Promise} Result of the task
+ */
+exports.schedule = (name, task) => new Promise((resolve, reject) => {
+  const limiter = getLimiter(name);
+  limiter.queue.push({ task, resolve, reject });
+  drain(limiter);
+});
+
+/**
+ * Calls running and waiting per provider
+ * @returns {Object} { [provider]: { active, queued } }
+ */
+exports.getStats = () => {
+  const stats = {};
+  limiters.forEach((limiter, name) => {
+    stats[name] = { active: limiter.active, queued: limiter.queue.length };
+  });
+  return stats;
+};
+
+/**
+ * Forget all limiter state (tests)
+ */
+exports.reset = () => {
+  limiters.forEach(limiter => clearTimeout(limiter.timer));
+  limiters.clear();
+};
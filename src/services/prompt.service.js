@@ -2,6 +2,8 @@ const fs = require('fs');
 const path = require('path');
 const Category = require('../models/category.model');
 const AppError = require('../utils/appError');
+const promptTemplate = require('../utils/promptTemplate');
+const outputSchema = require('./llm/outputSchema');
 
 // Helper to normalize category names for matching
 const normalizeCategoryName = (name) => {
@@ -243,14 +245,134 @@ exports.seedPromptsFromDefaultFile = async () => {
   };
 };
 
+// Built-in partials, available as {> name} unless a stored partial replaces them
+const BUILT_IN_PARTIALS = {
+  multipleItems: 'IMPORTANT: Generate {numToGenerate} different items, each with its own unique title, body, and summary. Format the response as a JSON array with {numToGenerate} objects.',
+  avoidRepeats: `{#if recentTitles}These ideas were published recently. Do not repeat them or write close variations of them:
+{recentTitles}
+{/if}{#if bannedTopics}Never write about the following topics:
+{bannedTopics}
+{/if}`,
+};
+
+exports.BUILT_IN_PARTIALS = Object.keys(BUILT_IN_PARTIALS).concat('jsonFormat');
+
+// How many recently published titles {recentTitles} lists
+const getRecentTitlesLimit = () => {
+  const limit = parseInt(process.env.PROMPT_RECENT_TITLES, 10);
+  return Number.isNaN(limit) || limit < 0 ? 20 : limit;
+};
+
+/**
+ * Partials for a render: built-in ones, with stored partials taking precedence
+ * @param {String} contentType - Content type, used by the jsonFormat partial
+ * @param {Number} count - Number of items, used by the jsonFormat partial
+ * @returns {Object} Partial text by name
+ */
+exports.getPartials = async (contentType, count) => {
+  const PromptPartial = require('../models/promptPartial.model');
+  const stored = await PromptPartial.find().select('name text').lean();
+
+  return {
+    ...BUILT_IN_PARTIALS,
+    jsonFormat: outputSchema.describeOutputSchema(contentType, count).trim(),
+    ...Object.fromEntries(stored.map(partial => [partial.name, partial.text])),
+  };
+};
+
+/**
+ * Values available to prompt templates
+ * @param {Object} category - Category document
+ * @param {Object} options - { count, contentType, difficulty, topic (a topic or a list of topics) }
+ * @returns {Object} Template variables
+ */
+exports.buildPromptVariables = async (category, { count = 1, contentType = 'hack', difficulty = 'beginner', topic = null } = {}) => {
+  const Content = require('../models/content.model');
+  const limit = getRecentTitlesLimit();
+
+  const recent = limit > 0 && category._id
+    ? await Content.find({ category: category._id, status: 'published' })
+      .select('title')
+      .sort('-publishDate')
+      .limit(limit)
+      .lean()
+    : [];
+
+  return {
+    category: {
+      name: category.name,
+      description: category.description || '',
+      slug: category.slug || '',
+    },
+    numToGenerate: count,
+    contentType,
+    difficulty,
+    topic,
+    recentTitles: recent.map(item => item.title),
+    bannedTopics: category.bannedTopics || [],
+  };
+};
+
+/**
+ * Append the topics drawn from the category backlog to a prompt
+ * @param {String} text - Prompt text
+ * @param {String|Array} topic - One topic or a list of topics
+ * @param {Number} count - Number of items requested
+ * @returns {String} Prompt text
+ */
+exports.withTopicInstructions = (text, topic, count = 1) => {
+  const topics = [].concat(topic || []).filter(Boolean);
+  if (topics.length === 0) return text;
+
+  if (topics.length === 1 && count === 1) {
+    return `${text}\n\nWrite about this topic: ${topics[0]}`;
+  }
+
+  const remaining = count - topics.length;
+  return `${text}\n\nCover these topics, one item per topic and in this order${remaining > 0 ? ` (the other ${remaining} items are free to choose)` : ''}:
+${topics.map(entry => `- ${entry}`).join('\n')}`;
+};
+
+/**
+ * Reject prompt text with template syntax errors
+ * @param {String} text - Prompt text
+ * @param {String} label - Name of the prompt in the error message
+ */
+exports.assertValidTemplate = (text, label = 'Prompt') => {
+  const error = promptTemplate.validate(text);
+  if (error) {
+    throw new AppError(`${label} has a template error: ${error}`, 400);
+  }
+};
+
+/**
+ * Render a prompt template for a category
+ * @param {String} text - Prompt template
+ * @param {Object} category - Category document
+ * @param {Object} options - { count, contentType, difficulty, topic }
+ * @returns {Object} { text, values, variables, unknownVariables, missingPartials }
+ */
+exports.renderPrompt = async (text, category, options = {}) => {
+  exports.assertValidTemplate(text);
+
+  const values = await exports.buildPromptVariables(category, options);
+  const partials = await exports.getPartials(values.contentType, values.numToGenerate);
+
+  return {
+    ...promptTemplate.render(text, values, partials),
+    values,
+  };
+};
+
 /**
  * Generate content based on category prompt settings
  * @param {Object} category - Category document with prompt settings
  * @param {Number} count - Number of items to generate (defaults to category.defaultNumToGenerate)
  * @param {String} contentType - Type of content to generate (hack, tip, hack2, tip2)
+ * @param {Object} options - { difficulty, topic, promptText (renders this text instead of the category prompt) }
  * @returns {Object} Instructions for content generation
  */
-exports.generatePromptForContent = async (category, count = 1, contentType = 'hack') => {
+exports.generatePromptForContent = async (category, count = 1, contentType = 'hack', options = {}) => {
   if (!category) {
     throw new AppError('Category is required for prompt generation', 400);
   }
@@ -268,18 +390,26 @@ exports.generatePromptForContent = async (category, count = 1, contentType = 'ha
     console.log(`No content type specified, using default: ${effectiveContentType}`);
   }
 
-  // Always use single prompt and replace {numToGenerate} variable with the count
+  // Always use single prompt and render its variables with the count
   let promptText = null;
+  let promptSource = null;
   const numToGenerate = count || category.defaultNumToGenerate || 1;
 
+  // A draft prompt (e.g. in a preview) replaces the stored ones
+  if (options.promptText) {
+    promptText = options.promptText;
+    console.log('Using prompt text passed by the caller');
+  }
   // Use the category's singlePrompt if available
-  if (category.singlePrompt) {
+  else if (category.singlePrompt) {
     promptText = category.singlePrompt;
+    promptSource = 'singlePrompt';
     console.log('Using single prompt from category');
   } 
   // Fall back to legacy prompt field if type-specific prompts don't exist
   else if (category.prompt) {
     promptText = category.prompt;
+    promptSource = 'prompt';
     console.log('Using legacy prompt from category');
   }
   // If no prompts are available, generate a fallback
@@ -288,23 +418,145 @@ exports.generatePromptForContent = async (category, count = 1, contentType = 'ha
     console.log('No prompts found in category, using generated fallback prompt');
   }
 
-  // Replace the numToGenerate variable in the prompt if it exists
-  if (promptText && promptText.includes('{numToGenerate}')) {
-    promptText = promptText.replace(/\{numToGenerate\}/g, numToGenerate);
-    console.log(`Replaced {numToGenerate} with ${numToGenerate} in prompt`);
-  } else {
-    // If the variable isn't in the prompt, append instructions for generating multiple items
-    if (numToGenerate > 1) {
-      promptText += `\n\nIMPORTANT: Generate ${numToGenerate} different items, each with its own unique title, body, and summary. Format the response as a JSON array with ${numToGenerate} objects.`;
-      console.log(`Added instructions to generate ${numToGenerate} items to prompt`);
-    }
+  const rendered = await exports.renderPrompt(promptText, category, {
+    count: numToGenerate,
+    contentType: effectiveContentType,
+    difficulty: options.difficulty,
+    topic: options.topic,
+  });
+  let text = rendered.text;
+
+  // Prompts that never mention the count still need to ask for multiple items
+  if (numToGenerate > 1 && !rendered.variables.includes('numToGenerate')) {
+    text += `\n\n${promptTemplate.render(BUILT_IN_PARTIALS.multipleItems, rendered.values).text}`;
+    console.log(`Added instructions to generate ${numToGenerate} items to prompt`);
+  }
+
+  // Prompts that never mention the topic still need to be pointed at it
+  if (!rendered.variables.includes('topic')) {
+    text = exports.withTopicInstructions(text, options.topic, numToGenerate);
   }
 
   return {
-    promptText,
+    promptText: text,
     isSingle: true, // Always use single mode now
     count: numToGenerate,
-    contentType: effectiveContentType
+    contentType: effectiveContentType,
+    // Category field the prompt came from, null for the generated fallback
+    promptSource,
+    variables: rendered.values,
+    unknownVariables: rendered.unknownVariables,
+    missingPartials: rendered.missingPartials
+  };
+};
+
+// Most items a test run may ask for
+const MAX_TEST_RUN_ITEMS = 5;
+
+/**
+ * Load the category a prompt is previewed or tested for
+ * @param {String} categoryId - Category ID
+ * @returns {Object} Category document
+ */
+const findPromptCategory = async (categoryId) => {
+  if (!categoryId) {
+    throw new AppError('A category is required to preview a prompt', 400);
+  }
+
+  const category = await Category.findById(categoryId);
+  if (!category) {
+    throw new AppError('Category not found', 404);
+  }
+
+  return category;
+};
+
+/**
+ * Final prompt for a category, as a generation call would send it
+ * @param {Object} category - Category document
+ * @param {Object} options - { promptText, contentType, count, difficulty, topic }
+ * @returns {Object} Final prompt and the template details
+ */
+const buildPreview = async (category, { promptText = null, contentType = null, count = 1, difficulty = 'beginner', topic = null }) => {
+  const effectiveContentType = contentType || category.contentType || 'hack';
+  const strategy = await exports.generatePromptForContent(category, parseInt(count, 10) || 1, effectiveContentType, {
+    difficulty,
+    topic,
+    promptText,
+  });
+
+  return {
+    prompt: outputSchema.withFormatInstructions(strategy.promptText, effectiveContentType, strategy.count),
+    // Without the format instructions, generateWithAI appends them itself
+    renderedText: strategy.promptText,
+    promptSource: promptText ? null : strategy.promptSource,
+    contentType: effectiveContentType,
+    count: strategy.count,
+    variables: strategy.variables,
+    unknownVariables: strategy.unknownVariables,
+    missingPartials: strategy.missingPartials,
+  };
+};
+
+/**
+ * Render the final prompt a generation call would send, without calling the model
+ * @param {Object} options
+ * @param {String} options.category - Category ID
+ * @param {String} options.promptText - Unsaved prompt text to render instead of the category prompt
+ * @param {String} options.contentType - Content type (defaults to the category's)
+ * @param {Number} options.count - Number of items
+ * @param {String} options.difficulty - Difficulty level
+ * @param {String} options.topic - Optional topic
+ * @returns {Object} Final prompt and the template details
+ */
+exports.previewPrompt = async ({ category: categoryId, ...options }) => {
+  const category = await findPromptCategory(categoryId);
+  const { renderedText, ...preview } = await buildPreview(category, options);
+  return preview;
+};
+
+/**
+ * Generate a sample with a prompt without saving any content. The call is still
+ * recorded in the AI usage ledger and counts against the budgets.
+ * @param {Object} options - Preview options, plus template (prompt template ID) and model
+ * @param {Object} user - User who runs the test
+ * @returns {Object} { prompt, items, usageId }
+ */
+exports.testRunPrompt = async ({ template: templateId = null, model, ...options }, user) => {
+  const previewOptions = { ...options };
+
+  // A saved template supplies the text, category and content type unless they are given
+  if (templateId && !previewOptions.promptText) {
+    const PromptTemplate = require('../models/prompt.model');
+    const template = await PromptTemplate.findById(templateId);
+    if (!template) {
+      throw new AppError('No prompt template found with that ID', 404);
+    }
+    previewOptions.promptText = template.promptText;
+    previewOptions.category = previewOptions.category || template.category;
+    previewOptions.contentType = previewOptions.contentType || template.contentType;
+  }
+
+  const count = Math.min(Math.max(parseInt(previewOptions.count, 10) || 1, 1), MAX_TEST_RUN_ITEMS);
+  const category = await findPromptCategory(previewOptions.category);
+  const preview = await buildPreview(category, { ...previewOptions, count });
+
+  const contentService = require('./content.service');
+  const usageContext = { user: user && user._id, source: 'user', operation: 'test' };
+  const output = await contentService.generateWithAI(
+    category,
+    previewOptions.topic || null,
+    previewOptions.difficulty || 'beginner',
+    preview.renderedText,
+    model || undefined,
+    usageContext,
+    { contentType: preview.contentType, count: preview.count, quarantine: false }
+  );
+
+  return {
+    prompt: preview.prompt,
+    items: Array.isArray(output) ? output : [output],
+    usageId: usageContext.usageId || null,
   };
 };
 
@@ -0,0 +1,328 @@
+const PromptExperiment = require('../models/promptExperiment.model');
+const Category = require('../models/category.model');
+const Content = require('../models/content.model');
+const DeletedContent = require('../models/deletedContent.model');
+const AppError = require('../utils/appError');
+const promptService = require('./prompt.service');
+const promptVersionService = require('./promptVersion.service');
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+ * @param {Number} z - Z score
+ * @returns {Number} Probability
+ */
+const normalCdf = (z) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Two-proportion z-test of a variant's like rate against the control
+ * @returns {Object|null} { z, pValue }, null without reactions on either side
+ */
+const compareLikeRates = (control, variant) => {
+  if (control.reactions === 0 || variant.reactions === 0) return null;
+
+  const pooled = (control.likes + variant.likes) / (control.reactions + variant.reactions);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.reactions + 1 / variant.reactions));
+  if (standardError === 0) return { z: 0, pValue: 1 };
+
+  const z = (variant.likeRate - control.likeRate) / standardError;
+  return { z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+};
+
+const round = (value, digits = 4) => (value === null ? null : Number(value.toFixed(digits)));
+
+/**
+ * Check variants and their prompt templates before saving
+ * @param {Array} variants - [{ name, promptText, weight }]
+ */
+const assertValidVariants = (variants) => {
+  if (!Array.isArray(variants) || variants.length < 2) {
+    throw new AppError('An experiment needs at least two variants', 400);
+  }
+
+  variants.forEach((variant) => {
+    promptService.assertValidTemplate(variant.promptText, `Variant "${variant.name}"`);
+  });
+
+  if (!variants.some(variant => (variant.weight === undefined ? 1 : variant.weight) > 0)) {
+    throw new AppError('At least one variant needs a weight above zero', 400);
+  }
+};
+
+/**
+ * Find an experiment or fail with 404
+ * @param {String} id - Experiment ID
+ * @returns {Object} Experiment document
+ */
+const findExperiment = async (id) => {
+  const experiment = await PromptExperiment.findById(id);
+  if (!experiment) {
+    throw new AppError('Prompt experiment not found', 404);
+  }
+  return experiment;
+};
+
+/**
+ * Create an experiment in draft status
+ * @param {Object} data - { name, description, category, variants, confidenceLevel }
+ * @param {String} userId - Creator
+ * @returns {Object} Experiment document
+ */
+exports.createExperiment = async (data, userId) => {
+  assertValidVariants(data.variants);
+
+  const category = await Category.findById(data.category);
+  if (!category) {
+    throw new AppError('Category not found', 404);
+  }
+
+  return PromptExperiment.create({
+    name: data.name,
+    description: data.description,
+    category: category._id,
+    variants: data.variants,
+    confidenceLevel: data.confidenceLevel,
+    createdBy: userId,
+  });
+};
+
+/**
+ * Update an experiment. Variants can only change before it starts, weights at any time.
+ * @param {String} id - Experiment ID
+ * @param {Object} data - Fields to change
+ * @returns {Object} Experiment document
+ */
+exports.updateExperiment = async (id, data) => {
+  const experiment = await findExperiment(id);
+
+  if (['stopped', 'completed'].includes(experiment.status)) {
+    throw new AppError(`A ${experiment.status} experiment cannot be changed`, 400);
+  }
+
+  ['name', 'description', 'confidenceLevel'].forEach((field) => {
+    if (data[field] !== undefined) experiment[field] = data[field];
+  });
+
+  if (data.variants) {
+    if (experiment.status === 'running') {
+      // Changing the prompts of a running experiment would mix results, only the split can change
+      const unchanged = data.variants.length === experiment.variants.length && data.variants.every((variant, index) => {
+        const existing = experiment.variants[index];
+        return String(variant._id) === String(existing._id) && (variant.promptText === undefined || variant.promptText === existing.promptText);
+      });
+      if (!unchanged) {
+        throw new AppError('Only the traffic split of a running experiment can be changed', 400);
+      }
+      data.variants.forEach((variant, index) => {
+        if (variant.weight !== undefined) experiment.variants[index].weight = variant.weight;
+      });
+      assertValidVariants(experiment.variants);
+    } else {
+      assertValidVariants(data.variants);
+      experiment.variants = data.variants;
+    }
+  }
+
+  await experiment.save();
+  return experiment;
+};
+
+/**
+ * Start an experiment. Generation for its category uses the variants from now on.
+ * @param {String} id - Experiment ID
+ * @returns {Object} Experiment document
+ */
+exports.startExperiment = async (id) => {
+  const experiment = await findExperiment(id);
+
+  if (experiment.status !== 'draft') {
+    throw new AppError(`Only a draft experiment can be started, this one is ${experiment.status}`, 400);
+  }
+
+  const running = await PromptExperiment.findOne({ category: experiment.category, status: 'running' });
+  if (running) {
+    throw new AppError(`Experiment "${running.name}" is already running on this category`, 400);
+  }
+
+  experiment.status = 'running';
+  experiment.startedAt = new Date();
+
+  try {
+    await experiment.save();
+  } catch (error) {
+    if (error.code === 11000) {
+      throw new AppError('Another experiment is already running on this category', 400);
+    }
+    throw error;
+  }
+
+  return experiment;
+};
+
+/**
+ * Stop an experiment without promoting a variant
+ * @param {String} id - Experiment ID
+ * @returns {Object} Experiment document
+ */
+exports.stopExperiment = async (id) => {
+  const experiment = await findExperiment(id);
+
+  if (experiment.status !== 'running') {
+    throw new AppError('Only a running experiment can be stopped', 400);
+  }
+
+  experiment.status = 'stopped';
+  experiment.endedAt = new Date();
+  await experiment.save();
+
+  return experiment;
+};
+
+/**
+ * Pick a variant of the experiment running on a category, by weight
+ * @param {String} categoryId - Category ID
+ * @returns {Object|null} { experiment, variant }, null when no experiment runs
+ */
+exports.assignVariant = async (categoryId) => {
+  try {
+    const experiment = await PromptExperiment.findOne({ category: categoryId, status: 'running' });
+    if (!experiment) return null;
+
+    const total = experiment.variants.reduce((sum, variant) => sum + Math.max(variant.weight, 0), 0);
+    if (total <= 0) return null;
+
+    let pick = Math.random() * total;
+    const variant = experiment.variants.find((candidate) => {
+      pick -= Math.max(candidate.weight, 0);
+      return pick < 0;
+    }) || experiment.variants[experiment.variants.length - 1];
+
+    return { experiment, variant };
+  } catch (error) {
+    // Experiments must never block generation
+    console.error(`Failed to assign a prompt experiment variant for category ${categoryId}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Like/dislike results per variant, with a significance test against the control
+ * @param {Object|String} experimentOrId - Experiment document or ID
+ * @returns {Object} { variants, recommendedVariant, confidenceLevel }
+ */
+exports.getExperimentResults = async (experimentOrId) => {
+  const experiment = experimentOrId instanceof PromptExperiment
+    ? experimentOrId
+    : await findExperiment(experimentOrId);
+
+  // Deleted content keeps its reactions, so removing disliked items does not skew the results
+  const pipeline = [
+    { $match: { promptExperiment: experiment._id } },
+    {
+      $group: {
+        _id: '$promptVariant',
+        items: { $sum: 1 },
+        likes: { $sum: { $ifNull: ['$likeCount', 0] } },
+        dislikes: { $sum: { $ifNull: ['$dislikeCount', 0] } },
+        maybes: { $sum: { $ifNull: ['$maybeCount', 0] } },
+      },
+    },
+  ];
+  const [live, deleted] = await Promise.all([
+    Content.aggregate(pipeline),
+    DeletedContent.aggregate(pipeline),
+  ]);
+
+  const totals = {};
+  [...live, ...deleted].forEach((row) => {
+    const key = String(row._id);
+    totals[key] = totals[key] || { items: 0, likes: 0, dislikes: 0, maybes: 0 };
+    ['items', 'likes', 'dislikes', 'maybes'].forEach((field) => {
+      totals[key][field] += row[field];
+    });
+  });
+
+  const alpha = 1 - experiment.confidenceLevel;
+  const variants = experiment.variants.map((variant) => {
+    const stats = totals[String(variant._id)] || { items: 0, likes: 0, dislikes: 0, maybes: 0 };
+    const reactions = stats.likes + stats.dislikes + stats.maybes;
+    return {
+      _id: variant._id,
+      name: variant.name,
+      weight: variant.weight,
+      ...stats,
+      reactions,
+      likeRate: reactions > 0 ? stats.likes / reactions : null,
+    };
+  });
+
+  const control = variants[0];
+  variants.forEach((variant, index) => {
+    const comparison = index === 0 ? null : compareLikeRates(control, variant);
+    variant.isControl = index === 0;
+    variant.upliftVsControl = comparison && control.likeRate ? round((variant.likeRate - control.likeRate) / control.likeRate) : null;
+    variant.zScore = comparison ? round(comparison.z, 3) : null;
+    variant.pValue = comparison ? round(comparison.pValue) : null;
+    variant.significant = comparison ? comparison.pValue < alpha : false;
+    variant.likeRate = round(variant.likeRate);
+  });
+
+  // The best variant that beats the control with enough confidence
+  const better = variants
+    .filter(variant => variant.significant && variant.likeRate > control.likeRate)
+    .sort((a, b) => b.likeRate - a.likeRate);
+
+  return {
+    confidenceLevel: experiment.confidenceLevel,
+    variants,
+    recommendedVariant: better.length > 0 ? better[0]._id : null,
+  };
+};
+
+/**
+ * Make a variant the category's default prompt and complete the experiment
+ * @param {String} id - Experiment ID
+ * @param {String} variantId - Variant to promote
+ * @param {String} userId - User who promotes it
+ * @returns {Object} { experiment, category }
+ */
+exports.promoteVariant = async (id, variantId, userId) => {
+  const experiment = await findExperiment(id);
+
+  if (!['running', 'stopped'].includes(experiment.status)) {
+    throw new AppError('Only a running or stopped experiment can be promoted', 400);
+  }
+
+  const variant = experiment.variants.id(variantId);
+  if (!variant) {
+    throw new AppError('Variant not found in this experiment', 404);
+  }
+
+  const category = await Category.findById(experiment.category);
+  if (!category) {
+    throw new AppError('The category of this experiment no longer exists', 404);
+  }
+
+  const before = category.toObject();
+  category.singlePrompt = variant.promptText;
+  await category.save();
+
+  await promptVersionService.recordCategoryPromptChanges(
+    before,
+    category,
+    userId,
+    `Promoted variant "${variant.name}" of experiment "${experiment.name}"`
+  );
+
+  experiment.status = 'completed';
+  experiment.winner = variant._id;
+  experiment.promotedBy = userId;
+  experiment.endedAt = experiment.endedAt || new Date();
+  await experiment.save();
+
+  return { experiment, category };
+};
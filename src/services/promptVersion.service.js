@@ -0,0 +1,195 @@
+const PromptVersion = require('../models/promptVersion.model');
+const AppError = require('../utils/appError');
+const { diffLines } = require('../utils/textDiff');
+
+// Prompt fields stored on a category
+const CATEGORY_PROMPT_FIELDS = ['singlePrompt', 'multiplePrompt', 'prompt'];
+
+exports.CATEGORY_PROMPT_FIELDS = CATEGORY_PROMPT_FIELDS;
+
+const toId = (value) => (value && value._id ? value._id : value) || null;
+
+const targetFilter = ({ category = null, template = null, field }) => ({
+  category: toId(category),
+  template: toId(template),
+  field,
+});
+
+/**
+ * Latest version of a prompt field
+ * @param {Object} target - { category | template, field }
+ * @returns {Object|null} Version document
+ */
+exports.getLatestVersion = async (target) =>
+  PromptVersion.findOne(targetFilter(target)).sort('-version');
+
+/**
+ * Store a new version when the text differs from the latest one
+ * @param {Object} options
+ * @param {Object} options.category - Category (document or ID), for category prompts
+ * @param {Object} options.template - Prompt template (document or ID), for templates
+ * @param {String} options.field - Prompt field
+ * @param {String} options.text - New prompt text
+ * @param {String} options.author - User who made the change
+ * @param {String} options.changeNote - Why the prompt was changed
+ * @param {Number} options.rolledBackFrom - Version whose text is restored
+ * @returns {Object} The new version, or the latest one when nothing changed
+ */
+exports.recordVersion = async ({ category = null, template = null, field, text, author = null, changeNote = null, rolledBackFrom = null }) => {
+  const filter = targetFilter({ category, template, field });
+  const latest = await PromptVersion.findOne(filter).sort('-version');
+  const normalizedText = text || '';
+
+  if (latest && latest.text === normalizedText) {
+    return latest;
+  }
+
+  try {
+    return await PromptVersion.create({
+      ...filter,
+      version: latest ? latest.version + 1 : 1,
+      text: normalizedText,
+      author,
+      changeNote,
+      rolledBackFrom,
+    });
+  } catch (error) {
+    // Another request stored a version at the same time
+    if (error.code === 11000) {
+      return exports.recordVersion({ category, template, field, text, author, changeNote, rolledBackFrom });
+    }
+    throw error;
+  }
+};
+
+/**
+ * Make sure the current text of a prompt field has a version, e.g. before the
+ * first edit or after the text was changed outside the API (seeding)
+ * @param {Object} target - { category | template, field }
+ * @param {String} text - Current prompt text
+ * @returns {Object|null} Version matching the current text, null for empty prompts
+ */
+exports.ensureCurrentVersion = async ({ category = null, template = null, field }, text) => {
+  if (!text) return null;
+
+  return exports.recordVersion({
+    category,
+    template,
+    field,
+    text,
+    changeNote: 'Recorded existing prompt text',
+  });
+};
+
+/**
+ * Store versions for every prompt field of a category that an update changes
+ * @param {Object} before - Category before the update
+ * @param {Object} after - Category after the update
+ * @param {String} author - User who made the change
+ * @param {String} changeNote - Why the prompts were changed
+ * @returns {Array} New versions
+ */
+exports.recordCategoryPromptChanges = async (before, after, author, changeNote) => {
+  const versions = [];
+
+  for (const field of CATEGORY_PROMPT_FIELDS) {
+    const oldText = before[field] || '';
+    const newText = after[field] || '';
+    if (oldText === newText) continue;
+
+    // Keep the text from before versioning existed, so it can be restored
+    await exports.ensureCurrentVersion({ category: before._id, field }, oldText);
+    versions.push(await exports.recordVersion({ category: after._id, field, text: newText, author, changeNote }));
+  }
+
+  return versions;
+};
+
+/**
+ * List the versions of a category or template, newest first
+ * @param {Object} filter - { category | template, field (optional) }
+ * @returns {Array} Versions
+ */
+exports.listVersions = async ({ category, template, field }) => {
+  if (!category && !template) {
+    throw new AppError('A category or template is required to list prompt versions', 400);
+  }
+
+  const filter = category ? { category } : { template };
+  if (field) filter.field = field;
+
+  return PromptVersion.find(filter)
+    .populate('author', 'name email')
+    .sort('field -version');
+};
+
+/**
+ * Compare two versions of the same prompt
+ * @param {String} fromId - Older version ID
+ * @param {String} toId - Newer version ID (defaults to the latest version)
+ * @returns {Object} { from, to, diff }
+ */
+exports.diffVersions = async (fromId, toVersionId = null) => {
+  const from = await PromptVersion.findById(fromId);
+  if (!from) {
+    throw new AppError('Prompt version not found', 404);
+  }
+
+  const to = toVersionId
+    ? await PromptVersion.findById(toVersionId)
+    : await exports.getLatestVersion(from);
+  if (!to) {
+    throw new AppError('Prompt version not found', 404);
+  }
+
+  if (String(from.category) !== String(to.category) || String(from.template) !== String(to.template) || from.field !== to.field) {
+    throw new AppError('Only versions of the same prompt can be compared', 400);
+  }
+
+  return {
+    from,
+    to,
+    diff: diffLines(from.text, to.text),
+  };
+};
+
+/**
+ * Restore the text of an older version. The restore is stored as a new version.
+ * @param {String} versionId - Version to restore
+ * @param {String} author - User who rolls back
+ * @param {String} changeNote - Optional note
+ * @returns {Object} { version, target } with the new version and the updated category or template
+ */
+exports.rollback = async (versionId, author, changeNote = null) => {
+  const Category = require('../models/category.model');
+  const PromptTemplate = require('../models/prompt.model');
+
+  const version = await PromptVersion.findById(versionId);
+  if (!version) {
+    throw new AppError('Prompt version not found', 404);
+  }
+
+  const Model = version.category ? Category : PromptTemplate;
+  const target = await Model.findById(version.category || version.template);
+  if (!target) {
+    throw new AppError('The prompt this version belongs to no longer exists', 404);
+  }
+
+  target[version.field] = version.text || null;
+  if (version.template) {
+    target.updatedBy = author;
+  }
+  await target.save();
+
+  const newVersion = await exports.recordVersion({
+    category: version.category,
+    template: version.template,
+    field: version.field,
+    text: version.text,
+    author,
+    changeNote: changeNote || `Rolled back to version ${version.version}`,
+    rolledBackFrom: version.version,
+  });
+
+  return { version: newVersion, target };
+};
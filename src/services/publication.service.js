@@ -0,0 +1,100 @@
+const Content = require('../models/content.model');
+const contentLintService = require('./contentLint.service');
+const translationService = require('./translation.service');
+
+// Scheduled items are pending with a publish date. Pending items without one
+// wait for moderation and are never published by the worker.
+const scheduledFilter = () => ({ status: 'pending', publishDate: { $ne: null } });
+
+/**
+ * Scheduled content with a publish date in a range, for the calendar
+ * @param {Object} filters
+ * @param {Date} filters.from - Start of the range
+ * @param {Date} filters.to - End of the range (exclusive)
+ * @param {String} filters.category - Only content of this category
+ * @returns {Promise<Array>} Pending content, earliest first
+ */
+exports.getScheduledContent = async ({ from, to, category } = {}) => {
+  const filter = scheduledFilter();
+  filter.publishDate = { $ne: null, $gte: from, $lt: to };
+  if (category) filter.category = category;
+
+  return Content.find(filter)
+    .select('title summary category contentType difficulty status publishDate expiryDate lintOverride moderationNotes')
+    .populate('category', 'name slug icon color')
+    .sort('publishDate');
+};
+
+/**
+ * Publish scheduled content whose publish date has come. Items with lint
+ * errors stay scheduled unless an editor already overrode them.
+ * @param {Object} options
+ * @param {Date} options.now - Current time
+ * @param {Function} options.onError - Called with the message of each item that failed
+ * @returns {Promise<Object>} { published, lintBlocked }
+ */
+exports.publishDue = async ({ now = new Date(), onError = () => {} } = {}) => {
+  const due = await Content.find({ ...scheduledFilter(), publishDate: { $lte: now } })
+    .sort('publishDate');
+  const rules = await contentLintService.getRules();
+  const summary = { published: 0, lintBlocked: 0 };
+
+  for (const content of due) {
+    try {
+      const lint = await contentLintService.lint(content, rules);
+      // Counted but not reported as an error, it would be again every minute;
+      // the calendar shows these as overdue
+      if (lint.errors > 0 && !content.lintOverride) {
+        summary.lintBlocked++;
+        continue;
+      }
+
+      // Only moved when still scheduled, an editor may have changed it meanwhile
+      const published = await Content.findOneAndUpdate(
+        { _id: content._id, ...scheduledFilter(), publishDate: content.publishDate },
+        { $set: { status: 'published', hasBeenPublished: true } },
+        { new: true }
+      );
+      if (!published) continue;
+
+      summary.published++;
+      // Translations into AUTO_TRANSLATE_LOCALES are made in the background
+      translationService.autoTranslate(published)
+        .catch(error => console.error(`Automatic translation of content ${published._id} failed:`, error.message));
+    } catch (error) {
+      onError(`Publishing ${content._id}: ${error.message}`);
+    }
+  }
+
+  return summary;
+};
+
+/**
+ * Take content past its expiry date out of rotation. Published and still
+ * scheduled items are archived, so they stay available to editors.
+ * @param {Object} options
+ * @param {Date} options.now - Current time
+ * @returns {Promise<Number>} Items archived
+ */
+exports.retireExpired = async ({ now = new Date() } = {}) => {
+  const result = await Content.updateMany(
+    { status: { $in: ['published', 'pending'] }, expiryDate: { $ne: null, $lte: now } },
+    { $set: { status: 'archived' } }
+  );
+
+  return result.modifiedCount;
+};
+
+/**
+ * One run of the publication worker: publish what is due, then retire what expired
+ * @param {Object} options
+ * @param {Date} options.now - Current time
+ * @param {Function} options.onError - Called with the message of each item that failed
+ * @returns {Promise<Object>} { published, lintBlocked, expired }
+ */
+exports.runPublication = async ({ now = new Date(), onError } = {}) => {
+  const { published, lintBlocked } = await exports.publishDue({ now, onError });
+  const expired = await exports.retireExpired({ now });
+
+  return { published, lintBlocked, expired };
+};
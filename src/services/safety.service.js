@@ -0,0 +1,273 @@
+const mongoose = require('mongoose');
+const SafetyRule = require('../models/safetyRule.model');
+const SafetyScreening = require('../models/safetyScreening.model');
+const AppError = require('../utils/appError');
+const safetyClassifiers = require('./safety');
+
+// Fields of a generated item that are screened
+const SCREENED_FIELDS = ['title', 'summary', 'body', 'quoteText', 'author'];
+
+const toText = (item) => [
+  ...SCREENED_FIELDS.map(field => item[field]).filter(value => typeof value === 'string' && value.trim()),
+  ...(item.tags || []),
+].join('\n');
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A banned topic matches as a phrase, whatever the spacing and case
+const topicPattern = (topic) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(topic.trim()).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'iu');
+
+/**
+ * Build a safety screen for new AI output in a category.
+ * Banned topics and rules are loaded once, so the screen can check many
+ * generated items without querying again.
+ * @param {Object} category - Category document, its bannedTopics are screened for
+ * @param {Object} options
+ * @param {Object} options.classifier - Classifier to use (defaults to SAFETY_CLASSIFIER, none when null)
+ * @returns {Promise<Object>} Screen with screen(item, context), stats and classifier name
+ */
+exports.createSafetyScreen = async (category, { classifier = safetyClassifiers.getClassifier() } = {}) => {
+  const categoryId = category && category._id ? category._id : category;
+  const rules = (await SafetyRule.find({ enabled: true })).filter(rule => rule.appliesTo(categoryId));
+  const bannedTopics = ((category && category.bannedTopics) || [])
+    .filter(topic => typeof topic === 'string' && topic.trim())
+    .map(topic => ({ topic, pattern: topicPattern(topic) }));
+
+  const stats = { screened: 0, flagged: 0 };
+
+  return {
+    stats,
+    classifier: classifier ? classifier.name : null,
+
+    /**
+     * Screen a generated item
+     * @param {Object} item - Generated item ({ title, summary, body, tags })
+     * @param {Object} context - Usage context for classifier calls
+     * @returns {Promise<Object>} { flagged, reasons: [{ source, rule, match }] }
+     */
+    screen: async (item, context = {}) => {
+      stats.screened++;
+      const text = toText(item);
+      const reasons = [];
+
+      bannedTopics.forEach(({ topic, pattern }) => {
+        const match = text.match(pattern);
+        if (match) reasons.push({ source: 'banned-topic', rule: topic, match: match[0] });
+      });
+
+      rules.forEach(rule => {
+        const match = text.match(rule.toRegExp());
+        if (match) reasons.push({ source: rule.type, rule: rule.name, match: match[0] });
+      });
+
+      if (classifier) {
+        try {
+          const verdict = await classifier.classify({ text, category: category && category._id ? category : null, context });
+          if (verdict.flagged) {
+            const labels = verdict.labels.length > 0 ? verdict.labels : ['flagged'];
+            labels.forEach(label => reasons.push({ source: 'classifier', rule: label, match: verdict.reason }));
+          }
+        } catch (error) {
+          // Content the classifier could not judge goes to a person rather than out
+          console.error(`Safety classifier "${classifier.name}" failed:`, error.message);
+          reasons.push({ source: 'classifier', rule: 'unavailable', match: error.message });
+        }
+      }
+
+      if (reasons.length > 0) {
+        stats.flagged++;
+      }
+
+      return { flagged: reasons.length > 0, reasons };
+    },
+  };
+};
+
+/**
+ * Moderation note explaining why an item was held back
+ * @param {Array} reasons - Screening reasons
+ * @returns {String} Note
+ */
+exports.describeReasons = (reasons) => `Held for review by safety screening: ${reasons.map(reason => {
+  switch (reason.source) {
+    case 'banned-topic':
+      return `banned topic "${reason.rule}" ("${reason.match}")`;
+    case 'classifier':
+      return `classifier: ${reason.rule}${reason.match ? ` (${reason.match})` : ''}`;
+    default:
+      return `${reason.source} rule "${reason.rule}" ("${reason.match}")`;
+  }
+}).join('; ')}`;
+
+/**
+ * Route a flagged item to moderation: it is created as pending with the
+ * reasons in its moderation notes
+ * @param {Object} contentData - Data the content is created with
+ * @param {Object} screening - Result of screen(item)
+ * @returns {Object} Content data
+ */
+exports.applyScreening = (contentData, screening) => {
+  if (!screening.flagged) {
+    return contentData;
+  }
+
+  return {
+    ...contentData,
+    status: 'pending',
+    moderationNotes: exports.describeReasons(screening.reasons),
+  };
+};
+
+/**
+ * Keep a flagged item for the screening report. Failures are logged and never
+ * break generation.
+ * @param {Object} content - Content document created from the item
+ * @param {Object} screening - Result of screen(item)
+ * @param {Object} details - { classifier, operation, context: usage context }
+ */
+exports.recordFlagged = async (content, screening, { classifier = null, operation = 'generate', context = {} } = {}) => {
+  if (!screening.flagged) return null;
+
+  try {
+    return await SafetyScreening.create({
+      content: content._id,
+      category: content.category && content.category._id ? content.category._id : content.category,
+      title: content.title,
+      contentType: content.contentType,
+      operation,
+      reasons: screening.reasons,
+      classifier,
+      user: context.user || null,
+      generationJob: context.generationJob || null,
+      schedulerRun: context.schedulerRun || null,
+    });
+  } catch (error) {
+    console.error('Failed to record safety screening:', error.message);
+    return null;
+  }
+};
+
+/**
+ * List the keyword and regex rules
+ * @returns {Array} Rules with their categories
+ */
+exports.listRules = async () => SafetyRule.find()
+  .populate('categories', 'name')
+  .sort({ name: 1 });
+
+/**
+ * Create a keyword or regex rule
+ * @param {Object} data - { name, type, pattern, reason, categories, enabled }
+ * @param {Object} user - User creating the rule
+ * @returns {Object} Created rule
+ */
+exports.createRule = async ({ name, type, pattern, reason, categories, enabled }, user = null) => {
+  const rule = await SafetyRule.create({
+    name,
+    type,
+    pattern,
+    reason,
+    categories: categories || [],
+    enabled: enabled !== undefined ? !!enabled : true,
+    createdBy: user ? user._id : null,
+  });
+
+  return rule.populate('categories', 'name');
+};
+
+/**
+ * Update a rule
+ * @param {String} ruleId - Rule ID
+ * @param {Object} changes - { name, type, pattern, reason, categories, enabled }
+ * @returns {Object} Updated rule
+ */
+exports.updateRule = async (ruleId, changes) => {
+  const rule = await SafetyRule.findById(ruleId);
+  if (!rule) {
+    throw new AppError('Safety rule not found', 404);
+  }
+
+  ['name', 'type', 'pattern', 'reason', 'categories'].forEach(field => {
+    if (changes[field] !== undefined) rule[field] = changes[field];
+  });
+  if (changes.enabled !== undefined) rule.enabled = !!changes.enabled;
+  await rule.save();
+
+  return rule.populate('categories', 'name');
+};
+
+/**
+ * Delete a rule
+ * @param {String} ruleId - Rule ID
+ */
+exports.deleteRule = async (ruleId) => {
+  const rule = await SafetyRule.findByIdAndDelete(ruleId);
+  if (!rule) {
+    throw new AppError('Safety rule not found', 404);
+  }
+};
+
+/**
+ * Report of what the screening held back and why
+ * @param {Object} filters
+ * @param {Date} filters.from - Start of the period (defaults to 30 days ago)
+ * @param {Date} filters.to - End of the period (defaults to now)
+ * @param {String} filters.category - Only this category
+ * @param {Number} filters.limit - Number of recent items to list
+ * @returns {Object} { period, total, bySource, byRule, byCategory, items }
+ */
+exports.getReport = async ({ from, to, category, limit = 50 } = {}) => {
+  const end = to ? new Date(to) : new Date();
+  const start = from ? new Date(from) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw new AppError('Invalid report period', 400);
+  }
+
+  const match = { createdAt: { $gte: start, $lte: end } };
+  if (category) {
+    if (!mongoose.Types.ObjectId.isValid(category)) {
+      throw new AppError('Invalid category ID', 400);
+    }
+    match.category = new mongoose.Types.ObjectId(category);
+  }
+
+  const [total, bySource, byRule, byCategory, items] = await Promise.all([
+    SafetyScreening.countDocuments(match),
+    SafetyScreening.aggregate([
+      { $match: match },
+      { $unwind: '$reasons' },
+      { $group: { _id: '$reasons.source', count: { $sum: 1 } } },
+      { $project: { _id: 0, source: '$_id', count: 1 } },
+      { $sort: { count: -1 } },
+    ]),
+    SafetyScreening.aggregate([
+      { $match: match },
+      { $unwind: '$reasons' },
+      { $group: { _id: { source: '$reasons.source', rule: '$reasons.rule' }, count: { $sum: 1 } } },
+      { $project: { _id: 0, source: '$_id.source', rule: '$_id.rule', count: 1 } },
+      { $sort: { count: -1 } },
+      { $limit: 50 },
+    ]),
+    SafetyScreening.aggregate([
+      { $match: match },
+      { $group: { _id: '$category', count: { $sum: 1 } } },
+      { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category' } },
+      { $project: { _id: 0, categoryId: '$_id', categoryName: { $ifNull: [{ $arrayElemAt: ['$category.name', 0] }, 'Unknown'] }, count: 1 } },
+      { $sort: { count: -1 } },
+    ]),
+    SafetyScreening.find(match)
+      .populate('category', 'name')
+      .populate('content', 'status')
+      .sort({ createdAt: -1 })
+      .limit(Math.min(parseInt(limit, 10) || 50, 200)),
+  ]);
+
+  return {
+    period: { from: start, to: end },
+    total,
+    bySource,
+    byRule,
+    byCategory,
+    items,
+  };
+};
@@ -0,0 +1,45 @@
+const AppError = require('../../utils/appError');
+
+// Classifiers are loaded on demand, like the LLM providers
+const classifierLoaders = {
+  llm: () => require('./llm.classifier'),
+  stub: () => require('./stub.classifier'),
+};
+
+/**
+ * Name of the classifier selected through SAFETY_CLASSIFIER, null when
+ * screening runs on the banned topics and rules only
+ * @returns {String|null} Classifier name
+ */
+exports.getClassifierName = () => {
+  const name = (process.env.SAFETY_CLASSIFIER || '').trim().toLowerCase();
+  return name && name !== 'none' ? name : null;
+};
+
+/**
+ * Get the safety classifier. Every classifier exposes:
+ * - name
+ * - isConfigured() -> Boolean
+ * - classify({ text, category, context }) -> { flagged, labels: [String], reason }
+ * @param {String} name - Classifier name (defaults to the configured classifier)
+ * @returns {Object|null} Classifier, null when none is configured
+ */
+exports.getClassifier = (name = exports.getClassifierName()) => {
+  if (!name) {
+    return null;
+  }
+
+  const loader = classifierLoaders[name];
+
+  if (!loader) {
+    throw new AppError(`Unknown safety classifier "${name}". Use one of: none, ${Object.keys(classifierLoaders).join(', ')}`, 500);
+  }
+
+  return loader();
+};
+
+/**
+ * List the available classifier names
+ * @returns {Array} Classifier names
+ */
+exports.getAvailableClassifiers = () => Object.keys(classifierLoaders);
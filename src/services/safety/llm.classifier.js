@@ -0,0 +1,78 @@
+const llm = require('../llm');
+const aiUsageService = require('../aiUsage.service');
+const AppError = require('../../utils/appError');
+
+const getModel = () => process.env.SAFETY_CLASSIFIER_MODEL || 'gpt-4o-mini';
+
+const buildPrompt = (text, category) => `You review content for a lifestyle tips app${category ? ` in the category "${category.name}"` : ''} before it is published.
+Decide whether the content below gives risky advice: self-harm, violence or weapons, dangerous chemicals or medical advice, illegal activity, harassment, or manipulating and deceiving other people.
+Ethical persuasion, legal loopholes and ordinary safety tips are fine.
+
+Respond with a JSON object only: {"flagged": true or false, "labels": ["short label per problem"], "reason": "one sentence"}
+
+Content:
+${text}`;
+
+/**
+ * Classifier that asks the configured LLM provider. Calls go through the
+ * provider's rate limits and are recorded in the usage ledger as "classify".
+ */
+const llmClassifier = {
+  name: 'llm',
+
+  isConfigured: () => llm.getProvider().isConfigured(),
+
+  classify: async ({ text, category = null, context = {} }) => {
+    const provider = llm.getProvider();
+    const model = getModel();
+    const startTime = Date.now();
+    const usageContext = { ...context, operation: 'classify' };
+
+    let response;
+    try {
+      response = await llm.runLimited(provider, () => provider.complete({
+        model,
+        messages: [
+          { role: 'system', content: 'You are a content safety reviewer that responds with valid JSON.' },
+          { role: 'user', content: buildPrompt(text, category) },
+        ],
+        temperature: 0,
+        json: true,
+      }));
+    } catch (error) {
+      await aiUsageService.recordUsage({ provider, model, latencyMs: Date.now() - startTime, outcome: 'error', error: error.message, category, context: usageContext });
+      throw error;
+    }
+
+    let result = null;
+    try {
+      result = JSON.parse(response.text);
+    } catch (error) {
+      result = null;
+    }
+    const valid = !!result && typeof result.flagged === 'boolean';
+
+    await aiUsageService.recordUsage({
+      provider,
+      model: response.model || model,
+      usage: response.usage,
+      latencyMs: Date.now() - startTime,
+      outcome: valid ? 'success' : 'parse_error',
+      error: valid ? null : 'Classifier response is not a verdict',
+      category,
+      context: usageContext,
+    });
+
+    if (!valid) {
+      throw new AppError('Safety classifier returned an invalid response', 502);
+    }
+
+    return {
+      flagged: result.flagged,
+      labels: Array.isArray(result.labels) ? result.labels.filter(label => typeof label === 'string') : [],
+      reason: typeof result.reason === 'string' ? result.reason : '',
+    };
+  },
+};
+
+module.exports = llmClassifier;
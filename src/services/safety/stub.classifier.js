@@ -0,0 +1,36 @@
+// Terms per label the stub treats as risky. A rough stand-in for a real
+// classifier, good enough for local development and tests.
+const LABELS = {
+  'self-harm': ['self-harm', 'hurt yourself', 'starve yourself', 'skip meals for days'],
+  'weapons': ['homemade weapon', 'build a gun', 'explosive', 'pipe bomb'],
+  'dangerous-chemicals': ['mix bleach', 'bleach and ammonia', 'chlorine gas'],
+  'illegal-activity': ['shoplift', 'evade taxes', 'fake id', 'pick a lock that isn\'t yours', 'without paying'],
+  'manipulation': ['gaslight', 'manipulate your partner', 'make them feel worthless', 'negging'],
+  'harassment': ['stalk', 'track their phone', 'keep messaging until'],
+  'medical-risk': ['stop taking your medication', 'instead of seeing a doctor', 'cure cancer'],
+};
+
+/**
+ * Offline classifier that flags text containing known risky phrases.
+ * Used when SAFETY_CLASSIFIER=stub, it never touches the network.
+ */
+const stubClassifier = {
+  name: 'stub',
+
+  isConfigured: () => true,
+
+  classify: async ({ text }) => {
+    const lowerText = (text || '').toLowerCase();
+    const hits = Object.entries(LABELS)
+      .map(([label, terms]) => ({ label, term: terms.find(term => lowerText.includes(term)) }))
+      .filter(hit => hit.term);
+
+    return {
+      flagged: hits.length > 0,
+      labels: hits.map(hit => hit.label),
+      reason: hits.map(hit => `mentions "${hit.term}"`).join(', '),
+    };
+  },
+};
+
+module.exports = stubClassifier;
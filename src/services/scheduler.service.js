@@ -1,72 +1,366 @@
 const cron = require('node-cron');
 const contentService = require('./content.service');
+const aiUsageService = require('./aiUsage.service');
+const duplicateDetectorService = require('./duplicate-detector.service');
+const topicService = require('./topic.service');
+const contentLintService = require('./contentLint.service');
+const safetyService = require('./safety.service');
+const jobRunService = require('./jobRun.service');
+const jobLockService = require('./jobLock.service');
+const publicationService = require('./publication.service');
+const JobSchedule = require('../models/jobSchedule.model');
+const AppError = require('../utils/appError');
 const Content = require('../models/content.model');
 const Category = require('../models/category.model');
 const User = require('../models/user.model');
 const mongoose = require('mongoose');
 const DeletedContent = require('../models/deletedContent.model');
+const { pickQuoteFields } = require('../utils/quoteAttribution');
+const rotationPolicy = require('../utils/rotationPolicy');
+const { getNextDeckDate, getOldestLiveDate } = require('../utils/timezone');
 
-// Initialize scheduler service
-const initScheduler = () => {
-  // Schedule daily content generation - runs at 1:00 AM every day
-  cron.schedule('0 1 * * *', async () => {
-    console.log('Running daily content generation job');
-    try {
-      const summary = await generateDailyContent();
-      console.log('Daily content generation completed:', summary);
-    } catch (error) {
-      console.error('Error in daily content generation job:', error);
-    }
+// Scheduled jobs with their default schedule and parameters. Admins can change
+// the schedule, time zone, parameters and enabled flag (JobSchedule).
+// Every run, from the schedule or started by an admin, is recorded as a JobRun.
+// A job runs under a lease (JobLock), so with several instances only one runs it.
+// run(context) receives { params, onError(message) }, onError for errors the job recovers from.
+// preview({ params }), where defined, reports what run would do without changing anything.
+// isIdle(result), where defined, marks scheduled runs that did nothing; they and
+// scheduled runs skipped for the lock are not kept in the run history.
+const JOBS = {
+  'daily-content-generation': {
+    description: 'Generate draft content for every active category',
+    schedule: '0 1 * * *',
+    params: {
+      perCategory: { default: 10, min: 1, max: 50, description: 'Items generated per category' },
+    },
+    run: ({ params, onError }) => generateDailyContent({ perCategory: params.perCategory, onError }),
+  },
+  'content-recycling': {
+    description: 'Recycle popular and highly rated content',
+    schedule: '0 2 * * *',
+    params: {
+      limit: { default: 20, min: 1, max: 500, description: 'Items recycled per run' },
+    },
+    run: async ({ params }) => ({ recycled: await recyclePopularContent(params.limit) }),
+  },
+  'user-streak-check': {
+    description: 'Reset the streaks of users who stopped logging in',
+    schedule: '0 3 * * *',
+    run: async () => ({ updated: await checkUserStreaks() }),
+  },
+  'subscription-expiry-check': {
+    description: 'Expire ended subscriptions',
+    schedule: '0 4 * * *',
+    run: async () => ({ expired: await checkExpiredSubscriptions() }),
+  },
+  'daily-content-refresh': {
+    description: 'Stage the next day\'s deck for categories due by their rotation policy and clean duplicates',
+    schedule: '0 0 * * *',
+    run: ({ onError }) => cleanupAndRefreshContent({ onError }),
+    preview: () => cleanupAndRefreshContent({ dryRun: true }),
+  },
+  'content-publication': {
+    description: 'Publish scheduled content when its publish date comes and archive content past its expiry date',
+    schedule: '* * * * *',
+    run: ({ onError }) => publicationService.runPublication({ onError }),
+    // Items held back by lint errors stay due every minute, they don't make a run worth keeping
+    isIdle: (result) => result.published === 0 && result.expired === 0,
+  },
+};
+
+// Jobs running in this process. Across instances the job lock keeps a job from
+// running twice at once.
+const runningJobs = new Set();
+
+// Cron tasks of this process by job name, with the settings they were scheduled with
+const tasks = new Map();
+let syncTask = null;
+
+const getJobDefinition = (name) => {
+  const job = JOBS[name];
+  if (!job) {
+    throw new AppError(`Unknown job "${name}"`, 404);
+  }
+  return job;
+};
+
+const getDefaultParams = (job) => Object.entries(job.params || {}).reduce((params, [name, definition]) => ({
+  ...params,
+  [name]: definition.default,
+}), {});
+
+/**
+ * Scheduled jobs with the admin settings applied over the defaults
+ * @returns {Promise<Array>} [{ name, description, schedule, timezone, enabled, params, paramDefinitions, defaults, supportsDryRun, running, lock }]
+ */
+const getJobs = async () => {
+  const [settings, locks] = await Promise.all([JobSchedule.find(), jobLockService.getActiveLocks()]);
+
+  return Object.entries(JOBS).map(([name, job]) => {
+    const setting = settings.find(entry => entry.job === name);
+    const defaults = { schedule: job.schedule, timezone: null, enabled: true, params: getDefaultParams(job) };
+
+    return {
+      name,
+      description: job.description,
+      schedule: (setting && setting.schedule) || defaults.schedule,
+      timezone: (setting && setting.timezone) || null,
+      enabled: setting ? setting.enabled : true,
+      // Saved values of parameters the job no longer has are left out
+      params: Object.keys(defaults.params).reduce((params, param) => ({
+        ...params,
+        [param]: setting && setting.params && setting.params[param] !== undefined ? setting.params[param] : defaults.params[param],
+      }), {}),
+      paramDefinitions: job.params || {},
+      defaults,
+      supportsDryRun: Boolean(job.preview),
+      running: runningJobs.has(name) || Boolean(locks[name]),
+      // Lease of the instance running the job, on this or another instance
+      lock: locks[name] || null,
+      updatedAt: setting ? setting.updatedAt : null,
+    };
   });
+};
 
-  // Schedule content recycling - runs at 2:00 AM every day
-  cron.schedule('0 2 * * *', async () => {
-    console.log('Running content recycling job');
-    try {
-      const recycledCount = await recyclePopularContent();
-      console.log(`Content recycling completed: ${recycledCount} items recycled`);
-    } catch (error) {
-      console.error('Error in content recycling job:', error);
+/**
+ * Get a scheduled job with its settings
+ * @param {String} name - Job name
+ * @returns {Promise<Object>} Job, as listed by getJobs
+ */
+const getJob = async (name) => {
+  getJobDefinition(name);
+  const jobs = await getJobs();
+  return jobs.find(job => job.name === name);
+};
+
+/**
+ * Schedule the enabled jobs with their current settings. Jobs whose settings
+ * did not change keep their task, so this can run often.
+ */
+const syncSchedules = async () => {
+  const jobs = await getJobs();
+
+  jobs.forEach(job => {
+    const signature = `${job.enabled}|${job.schedule}|${job.timezone || ''}`;
+    const current = tasks.get(job.name);
+    if (current && current.signature === signature) return;
+
+    if (current && current.task) {
+      current.task.stop();
     }
-  });
 
-  // Schedule user streak reset check - runs at 3:00 AM every day
-  cron.schedule('0 3 * * *', async () => {
-    console.log('Running user streak check job');
-    try {
-      const updatedCount = await checkUserStreaks();
-      console.log(`User streak check completed: ${updatedCount} users updated`);
-    } catch (error) {
-      console.error('Error in user streak check job:', error);
+    // Disabled jobs are kept without a task, so they are not logged again on every sync
+    if (!job.enabled) {
+      tasks.set(job.name, { task: null, signature });
+      console.log(`Job ${job.name} is disabled`);
+      return;
     }
+
+    const task = cron.schedule(job.schedule, async () => {
+      try {
+        await runJob(job.name, { trigger: 'cron' });
+      } catch (error) {
+        console.error(`Could not start job ${job.name}:`, error.message);
+      }
+    }, { timezone: job.timezone || undefined });
+
+    tasks.set(job.name, { task, signature });
+    console.log(`Scheduled job ${job.name}: ${job.schedule}${job.timezone ? ` (${job.timezone})` : ''}`);
   });
+};
+
+/**
+ * Change the settings of a scheduled job. Running schedulers pick them up
+ * right away in this process and within a minute in other instances.
+ * @param {String} name - Job name
+ * @param {Object} changes - { schedule, timezone, enabled, params }
+ * @param {Object} user - Admin changing the job
+ * @returns {Promise<Object>} Job with its settings
+ */
+const updateJob = async (name, { schedule, timezone, enabled, params } = {}, user = null) => {
+  const job = getJobDefinition(name);
+
+  if (schedule !== undefined && (typeof schedule !== 'string' || !cron.validate(schedule.trim()))) {
+    throw new AppError(`"${schedule}" is not a valid cron expression`, 400);
+  }
+  if (timezone && (typeof timezone !== 'string' || !JobSchedule.isValidTimezone(timezone))) {
+    throw new AppError(`Unknown time zone "${timezone}"`, 400);
+  }
+
+  // Parameters are whole numbers within the bounds of their definition
+  if (params !== undefined) {
+    Object.entries(params).forEach(([param, value]) => {
+      const definition = (job.params || {})[param];
+      if (!definition) {
+        throw new AppError(`Job "${name}" has no parameter "${param}"`, 400);
+      }
+      if (!Number.isInteger(value) || value < definition.min || value > definition.max) {
+        throw new AppError(`Parameter "${param}" of job "${name}" must be a whole number from ${definition.min} to ${definition.max}`, 400);
+      }
+    });
+  }
+
+  const setting = await JobSchedule.findOne({ job: name }) || new JobSchedule({ job: name });
+  if (schedule !== undefined) setting.schedule = schedule.trim();
+  if (timezone !== undefined) setting.timezone = timezone || undefined;
+  if (enabled !== undefined) setting.enabled = !!enabled;
+  if (params !== undefined) setting.params = { ...setting.params, ...params };
+  setting.updatedBy = user ? user._id : null;
+  await setting.save();
+
+  if (syncTask) {
+    await syncSchedules();
+  }
+
+  return getJob(name);
+};
+
+/**
+ * Go back to the default settings of a scheduled job
+ * @param {String} name - Job name
+ * @returns {Promise<Object>} Job with its default settings
+ */
+const resetJob = async (name) => {
+  getJobDefinition(name);
+
+  await JobSchedule.deleteOne({ job: name });
+
+  if (syncTask) {
+    await syncSchedules();
+  }
+
+  return getJob(name);
+};
+
+/**
+ * Run a scheduled job with its current parameters and record the run. The job
+ * runs under its lock; when another instance holds it, the attempt is recorded
+ * as skipped (a manual run then fails with 409). A dry run only records the
+ * job's preview and needs no lock.
+ * @param {String} name - Job name
+ * @param {Object} options
+ * @param {String} options.trigger - cron or manual
+ * @param {Object} options.user - Admin starting a manual run
+ * @param {Boolean} options.wait - Resolve when the job is done (default) or as soon as it started
+ * @param {Boolean} options.dryRun - Report what the job would do instead of running it
+ * @returns {Promise<Object|null>} JobRun, null for a scheduled run of an idle job (see isIdle)
+ */
+const runJob = async (name, { trigger = 'cron', user = null, wait = true, dryRun = false } = {}) => {
+  const job = getJobDefinition(name);
+  if (dryRun) {
+    if (!job.preview) {
+      throw new AppError(`Job "${name}" has no dry run`, 400);
+    }
+
+    const { params } = await getJob(name);
+    const run = await jobRunService.startRun(name, { trigger, user, params, instance: jobLockService.getInstanceId(), dryRun });
+    console.log(`Dry run of job ${name} (${trigger})`);
+    const execution = (async () => {
+      try {
+        return await jobRunService.finishRun(run, { result: await job.preview({ params }) });
+      } catch (error) {
+        console.error(`Error in dry run of job ${name}:`, error);
+        return jobRunService.finishRun(run, { error });
+      }
+    })();
 
-  // Schedule expired subscription check - runs at 4:00 AM every day
-  cron.schedule('0 4 * * *', async () => {
-    console.log('Running subscription expiry check job');
+    return wait ? execution : run;
+  }
+
+  if (runningJobs.has(name)) {
+    throw new AppError(`Job "${name}" is already running`, 409);
+  }
+
+  const instance = jobLockService.getInstanceId();
+  runningJobs.add(name);
+  let run;
+  let params;
+  let lock;
+  try {
+    ({ params } = await getJob(name));
+    lock = await jobLockService.acquire(name, { holder: instance });
+    if (lock) {
+      run = await jobRunService.startRun(name, { trigger, user, params, instance });
+      await jobLockService.attachRun(lock, run._id);
+    }
+  } catch (error) {
+    runningJobs.delete(name);
+    if (lock) await jobLockService.release(lock).catch(() => {});
+    throw error;
+  }
+
+  if (!lock) {
+    runningJobs.delete(name);
+    if (job.isIdle && trigger === 'cron') return null;
+    const { lock: held } = await getJob(name);
+    const lockHolder = held ? held.holder : null;
+    const skipped = await jobRunService.recordSkipped(name, { trigger, user, instance, lockHolder });
+    console.log(`Skipped job ${name} (${trigger}), it is running on ${lockHolder || 'another instance'}`);
+
+    if (trigger === 'manual') {
+      throw new AppError(`Job "${name}" is already running on ${lockHolder || 'another instance'}`, 409);
+    }
+    return skipped;
+  }
+
+  console.log(`Running job ${name} (${trigger})`);
+  const failures = [];
+  const stopHeartbeat = jobLockService.startHeartbeat(lock, {
+    onLost: () => failures.push({ message: 'Lost the job lock, another instance may have started this job', at: new Date() }),
+  });
+  const execution = (async () => {
+    let outcome;
     try {
-      const expiredCount = await checkExpiredSubscriptions();
-      console.log(`Subscription expiry check completed: ${expiredCount} subscriptions expired`);
+      const result = await job.run({ params, onError: (message) => failures.push({ message, at: new Date() }) });
+      outcome = { result, failures };
+      console.log(`Job ${name} completed:`, result);
     } catch (error) {
-      console.error('Error in subscription expiry check job:', error);
+      outcome = { error, failures };
+      console.error(`Error in job ${name}:`, error);
+    } finally {
+      stopHeartbeat();
+      runningJobs.delete(name);
     }
-  });
 
-  // 24 saatte bir content integrity kontrolü (her gün gece yarısı)
-  cron.schedule('0 0 * * *', async () => {
-    console.log('Running DAILY content integrity check and cleaning up shown prompts');
     try {
-      await cleanupAndRefreshContent();
+      if (job.isIdle && trigger === 'cron' && outcome.result && failures.length === 0 && job.isIdle(outcome.result)) {
+        await jobRunService.discardRun(run);
+        return null;
+      }
+      return await jobRunService.finishRun(run, outcome);
     } catch (error) {
-      console.error('Error in daily content integrity job:', error);
+      console.error(`Failed to record the run of job ${name}:`, error.message);
+      return run;
+    } finally {
+      // Released after the run is recorded, the next holder sees it finished
+      await jobLockService.release(lock).catch((error) => {
+        console.error(`Failed to release the lock of job ${name}:`, error.message);
+      });
     }
+  })();
+
+  return wait ? execution : run;
+};
+
+// Initialize scheduler service
+const initScheduler = async () => {
+  try {
+    await syncSchedules();
+  } catch (error) {
+    console.error('Failed to load job schedules:', error.message);
+  }
+
+  // Settings changed on another instance are picked up within a minute
+  syncTask = cron.schedule('* * * * *', () => {
+    syncSchedules().catch(error => console.error('Failed to sync job schedules:', error.message));
   });
 
   console.log('Scheduler service initialized');
 };
 
 // Generate daily content for all active categories
-const generateDailyContent = async () => {
+const generateDailyContent = async ({ perCategory = 10, onError } = {}) => {
   // Get admin user to assign as content creator
   const admin = await User.findOne({ role: 'admin' });
   
@@ -78,14 +372,14 @@ const generateDailyContent = async () => {
   process.env.ADMIN_USER_ID = admin._id;
   
   // Generate content using content service
-  return await contentService.generateDailyContent(10); // 10 items per category
+  return await contentService.generateDailyContent(perCategory, { onError });
 };
 
 // Recycle popular and highly-rated content
-const recyclePopularContent = async () => {
+const recyclePopularContent = async (limit = 20) => {
   try {
     // Find recyclable content
-    const recyclableContent = await contentService.findRecyclableContent(20);
+    const recyclableContent = await contentService.findRecyclableContent(limit);
     
     if (recyclableContent.length === 0) {
       return 0;
@@ -107,14 +401,18 @@ const recyclePopularContent = async () => {
 // Check and update user streaks
 const checkUserStreaks = async () => {
   try {
-    const twoDaysAgo = new Date();
-    twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
-    
-    // Find users who haven't logged in for more than 1 day and have a streak > 0
-    const usersToUpdate = await User.find({
-      lastLogin: { $lt: twoDaysAgo },
-      'stats.streak.current': { $gt: 0 }
-    });
+    const now = new Date();
+    // A lapsed streak has no activity for at least a day, whatever the time
+    // zone; which of these lapsed is decided by each user's own calendar days
+    const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const candidates = await User.find({
+      'stats.streak.current': { $gt: 0 },
+      $or: [
+        { 'stats.streak.lastActivity': { $lt: dayAgo } },
+        { 'stats.streak.lastActivity': null, lastLogin: { $lt: dayAgo } }
+      ]
+    }).select('timezone lastLogin stats.streak');
+    const usersToUpdate = candidates.filter(user => user.isStreakBroken(now));
     
     // Update streaks to 0 for these users
     if (usersToUpdate.length > 0) {
@@ -168,30 +466,76 @@ const checkExpiredSubscriptions = async () => {
 };
 
 // Temizleme ve yenileme işlemleri - hem cron job hem de manuel tetiklenebilir
-const cleanupAndRefreshContent = async () => {
+/**
+ * Daily refresh: generate, retire published, publish drafts and clean duplicates.
+ * Each category follows its rotation policy (counts, cadence, mixes, kept top
+ * performers); categories not due by their cadence are skipped.
+ * @param {Object} options - Optional hooks used by generation jobs
+ * @param {Array} options.categoryIds - Only process these categories (defaults to all active)
+ * @param {Function} options.onCategoryStart - Called with the category before it is processed
+ * @param {Function} options.onCategoryComplete - Called with the category and its stats when done
+ * @param {Function} options.shouldStop - Checked before each category, stops early when it resolves true
+ * @param {Function} options.onError - Called with the message of each error the refresh recovers from
+ * @param {Number} options.perCategory - Items generated and published in every category, instead of the policies
+ * @param {Boolean} options.ignoreCadence - Rotate every category, due or not (refreshes started by an admin)
+ * @param {Object} options.usageContext - Usage ledger context for the AI calls (defaults to a scheduler run)
+ * @param {Boolean} options.dryRun - Only report what the refresh would do (see previewCleanupAndRefresh)
+ * @returns {Object} Refresh results
+ */
+const cleanupAndRefreshContent = async (options = {}) => {
+  if (options.dryRun) {
+    return previewCleanupAndRefresh(options);
+  }
+
+  const { categoryIds, onCategoryStart, onCategoryComplete, shouldStop } = options;
+  const onError = options.onError || (() => {});
+  const usageContext = options.usageContext || { source: 'scheduler', schedulerRun: `refresh-${Date.now()}` };
   // Direkt olarak fonksiyonu burada uygula
   const Content = require('../models/content.model');
   const DeletedContent = require('../models/deletedContent.model');
   const Category = require('../models/category.model');
   const User = require('../models/user.model');
-  const perCategory = 10; // Her kategori için 10 adet content
+  const now = new Date();
 
   console.log('Starting cleanup and refresh content process...');
   console.log('Step 1: Generating new content for each category');
-  console.log('Step 2: Moving published content to deleted');
-  console.log('Step 3: Selecting new content to publish');
+  console.log('Step 2: Moving published content of finished decks to deleted');
+  console.log('Step 3: Staging new content for the next deck');
   console.log('Step 4: Detecting and cleaning duplicates');
 
-  const categories = await Category.find({ active: true });
+  const categoryFilter = { active: true };
+  if (categoryIds) {
+    categoryFilter._id = { $in: categoryIds };
+  }
+  
+  const categories = await Category.find(categoryFilter);
   const admin = await User.findOne({ role: 'admin' });
   
   if (!admin) throw new Error('No admin user found');
 
+  // The deck is staged for the first date that hasn't begun anywhere, so every
+  // region flips to it at its own midnight. Decks of dates it still is
+  // somewhere stay published until that date is over everywhere.
+  const decks = getDeckDates(now);
+
   const results = {
+    deckDate: decks.next,
     cleanedUp: 0,
     generated: 0,
     published: 0,
     categories: 0,
+    // New items rejected as near-duplicates before they were saved
+    duplicatesRejected: 0,
+    // New items held for moderation by the safety screening
+    safetyFlagged: 0,
+    // Drafts not published automatically because of lint errors
+    lintBlocked: 0,
+    // Top performers left published by their category's policy
+    kept: 0,
+    // Published items of decks still showing in some time zone
+    live: 0,
+    // Categories skipped because their cadence is not due
+    notDue: 0,
     duplicates: {
       processed: 0,
       detected: 0,
@@ -199,51 +543,116 @@ const cleanupAndRefreshContent = async () => {
     }
   };
 
+  const lintRules = await contentLintService.getRules();
+
   for (const category of categories) {
+    if (shouldStop && await shouldStop()) {
+      console.log('Daily content refresh stopped before processing remaining categories');
+      results.stopped = true;
+      break;
+    }
+    
+    const policy = getCategoryPolicy(category, options);
+    if (!options.ignoreCadence && !rotationPolicy.isRotationDue(category, policy, now)) {
+      results.notDue++;
+      console.log(`Skipping category ${category.name}, next rotation ${rotationPolicy.getNextRotation(category, policy).toISOString()}`);
+      continue;
+    }
+    
+    if (onCategoryStart) {
+      await onCategoryStart(category);
+    }
+    
+    const categoryStats = { generated: 0, cleanedUp: 0, published: 0, kept: 0, duplicatesRejected: 0, safetyFlagged: 0 };
+    
     results.categories++;
     console.log(`\nProcessing category: ${category.name}`);
     
-    // 1. Generate 10 new content items for each category
-    console.log(`Generating ${perCategory} new content items for category: ${category.name}`);
+    // 1. Generate the policy's new content items, in its difficulty and content type mix
+    console.log(`Generating ${policy.generateCount} new content items for category: ${category.name}`);
     const newContentIds = [];
+    const duplicateGate = await duplicateDetectorService.createDuplicateGate(category._id);
+    const safetyScreen = await safetyService.createSafetyScreen(category);
     
-    for (let i = 0; i < perCategory; i++) {
-      try {
-        // Generate with varying difficulty levels
-        const difficulty = i < perCategory * 0.6 ? 'beginner' : 
-                        i < perCategory * 0.9 ? 'intermediate' : 'advanced';
-        
-        const generated = await contentService.generateWithAI(category, null, difficulty);
-        
-        // Create new content in draft status
-        const newContent = await Content.create({
-          title: generated.title,
-          body: generated.body,
-          summary: generated.summary || generated.title,
-          category: category._id,
-          authorId: admin._id,
-          status: 'draft',
-          source: 'ai',
-          difficulty,
-          tags: generated.tags || [],
-          publishDate: null,
-          hasBeenPublished: false
-        });
-        
-        newContentIds.push(newContent._id);
-        results.generated++;
-        console.log(`Generated content: "${generated.title.substring(0, 30)}..." (${difficulty})`);
-      } catch (genError) {
-        console.error(`Error generating content for ${category.name}:`, genError);
+    for (const { difficulty, contentType } of rotationPolicy.planGeneration(policy)) {
+      // Items that repeat existing or retired content are regenerated before they are saved
+      for (let attempt = 0; attempt <= duplicateGate.retries; attempt++) {
+        try {
+          const callContext = { user: admin._id, ...usageContext };
+          // A rejected item leaves its topic open, the next attempt draws another one
+          const [topic] = await topicService.drawTopics(category._id, 1);
+          const generated = await contentService.generateWithAI(category, topic ? topic.name : null, difficulty, null, undefined, callContext, { contentType });
+          
+          const duplicate = duplicateGate.check(generated);
+          if (duplicate) {
+            results.duplicatesRejected++;
+            categoryStats.duplicatesRejected++;
+            console.log(`Rejected near-duplicate "${generated.title.substring(0, 30)}..." (${Math.round(duplicate.similarity * 100)}% similar to ${duplicate.source} content)`);
+            continue;
+          }
+          
+          // Create new content in draft status, flagged items wait for moderation
+          const screening = await safetyScreen.screen(generated, callContext);
+          const newContent = await Content.create(safetyService.applyScreening({
+            title: generated.title,
+            body: generated.body,
+            summary: generated.summary || generated.title,
+            ...pickQuoteFields(generated),
+            category: category._id,
+            contentType,
+            authorId: admin._id,
+            status: 'draft',
+            source: 'ai',
+            difficulty,
+            tags: generated.tags || [],
+            promptVersion: callContext.promptVersion || null,
+            promptExperiment: callContext.promptExperiment || null,
+            promptVariant: callContext.promptVariant || null,
+            publishDate: null,
+            hasBeenPublished: false
+          }, screening));
+          
+          await aiUsageService.linkContent(callContext, [newContent._id]);
+          if (screening.flagged) {
+            await safetyService.recordFlagged(newContent, screening, { classifier: safetyScreen.classifier, context: callContext });
+            results.safetyFlagged++;
+            categoryStats.safetyFlagged++;
+            console.log(`Held "${generated.title.substring(0, 30)}..." for review: ${safetyService.describeReasons(screening.reasons)}`);
+          }
+          duplicateGate.remember(newContent);
+          if (topic) {
+            await topicService.markCovered(topic, [newContent._id]);
+          }
+          
+          newContentIds.push(newContent._id);
+          results.generated++;
+          categoryStats.generated++;
+          console.log(`Generated content: "${generated.title.substring(0, 30)}..." (${difficulty})`);
+        } catch (genError) {
+          console.error(`Error generating content for ${category.name}:`, genError);
+          onError(`Generating content for ${category.name}: ${genError.message}`);
+        }
+        break;
       }
     }
     
-    // 2. Move published content to deleted with reason "auto-deleted"
+    // 2. Move published content of finished decks to deleted with reason "auto-deleted", top performers may stay
     console.log(`Moving published content for category: ${category.name} to deleted`);
-    const publishedContents = await Content.find({
+    const { retire: publishedContents, keep, live } = splitPublished(await Content.find({
       category: category._id,
       status: 'published'
-    });
+    }), policy, decks);
+    if (keep.length > 0) {
+      results.kept += keep.length;
+      categoryStats.kept = keep.length;
+      // Kept items move on to the new deck
+      await Content.updateMany({ _id: { $in: keep.map(content => content._id) } }, { $set: { deckDate: decks.next } });
+      console.log(`Keeping ${keep.length} top performers published in category: ${category.name}`);
+    }
+    if (live.length > 0) {
+      results.live += live.length;
+      console.log(`Leaving ${live.length} items of decks still showing somewhere in category: ${category.name}`);
+    }
     
     for (const content of publishedContents) {
       try {
@@ -264,162 +673,361 @@ const cleanupAndRefreshContent = async () => {
         await content.deleteOne();
         
         results.cleanedUp++;
+        categoryStats.cleanedUp++;
         console.log(`Moved published content: "${content.title.substring(0, 30)}..." to deleted`);
       } catch (err) {
         console.error(`Error moving content ${content._id} to deleted:`, err);
+        onError(`Moving content ${content._id} to deleted: ${err.message}`);
       }
     }
     
-    // 3. Randomly select 10 draft contents and publish them (including new ones)
-    console.log(`Selecting ${perCategory} draft contents to publish for category: ${category.name}`);
-    const draftContents = await Content.find({
+    // 3. Select drafts to stage for the next deck, oldest first so new ones fill what is left, up to the policy's count with the kept items
+    const publishCount = Math.max(policy.publishCount - keep.length, 0);
+    console.log(`Selecting ${publishCount} draft contents to publish for category: ${category.name}`);
+    const candidates = await Content.find({
       category: category._id,
       status: 'draft'
     });
     
+    // Drafts with lint errors wait for an editor instead of going out automatically
+    const lintResults = await contentLintService.lint(candidates, lintRules);
+    const draftContents = candidates.filter((draft, index) => lintResults[index].errors === 0);
+    if (draftContents.length < candidates.length) {
+      results.lintBlocked += candidates.length - draftContents.length;
+      console.log(`Skipping ${candidates.length - draftContents.length} drafts with lint errors in category: ${category.name}`);
+    }
+    
     if (draftContents.length > 0) {
-      // Create a random subset of drafts to publish (up to perCategory)
-      const shuffled = draftContents.sort(() => 0.5 - Math.random());
-      const selected = shuffled.slice(0, perCategory);
+      const selected = selectDrafts(draftContents, publishCount);
       
       for (const draft of selected) {
         try {
           await Content.findByIdAndUpdate(draft._id, {
             status: 'published',
             publishDate: new Date(),
+            deckDate: decks.next,
             hasBeenPublished: true
           });
           
           results.published++;
+          categoryStats.published++;
           console.log(`Published draft content: "${draft.title.substring(0, 30)}..."`);
         } catch (err) {
           console.error(`Error publishing draft content ${draft._id}:`, err);
+          onError(`Publishing draft content ${draft._id}: ${err.message}`);
         }
       }
     } else {
       console.log(`No draft contents found for category: ${category.name}`);
     }
+    
+    await Category.updateOne({ _id: category._id }, { $set: { lastRotatedAt: new Date() } });
+    
+    if (onCategoryComplete) {
+      await onCategoryComplete(category, { ...categoryStats, contentIds: newContentIds });
+    }
+  }
+  
+  if (results.stopped) {
+    return results;
   }
   
   // 4. Check for duplicates and clean them up
   console.log('\nChecking for duplicate content...');
   try {
-    // Find all content
-    const allContent = await Content.find().sort('-createdAt');
+    const duplicates = findDuplicates(await Content.find().sort('-createdAt'));
+    results.duplicates.detected = duplicates.length;
     
-    // Group by category
-    const contentByCategory = {};
-    allContent.forEach(item => {
-      if (!item.category) return;
-      
-      const categoryId = typeof item.category === 'object' ? 
-        item.category._id.toString() : item.category.toString();
-      
-      if (!contentByCategory[categoryId]) {
-        contentByCategory[categoryId] = [];
-      }
-      contentByCategory[categoryId].push(item);
-    });
-    
-    // For each category, compare contents to find duplicates
-    for (const categoryId in contentByCategory) {
-      const categoryItems = contentByCategory[categoryId];
-      
-      // Skip if less than 2 items in category
-      if (categoryItems.length < 2) continue;
-      
-      // Compare each item with others in same category
-      for (let i = 0; i < categoryItems.length; i++) {
-        const itemA = categoryItems[i];
-        if (!itemA) continue;
-        
-        const bodyA = (itemA.body || '').trim().toLowerCase();
-        if (!bodyA) continue;
-        
-        const titleA = (itemA.title || '').trim().toLowerCase();
-        if (!titleA) continue;
+    // Keep the original and move duplicates to deleted
+    for (const dup of duplicates) {
+      try {
+        // Prepare data for DeletedContent
+        const contentData = dup.item.toObject();
+        const originalId = contentData._id;
+        delete contentData._id; // remove to avoid duplicate key error
         
-        // Check if this item has already been processed
-        if (itemA._id === null) continue;
+        // Add metadata
+        contentData.deletedAt = new Date();
+        contentData.originalContentId = originalId;
+        contentData.reason = 'duplicate';
         
-        const duplicatesOfA = [];
+        // Create a record in DeletedContent collection
+        await DeletedContent.create(contentData);
         
-        for (let j = i + 1; j < categoryItems.length; j++) {
-          const itemB = categoryItems[j];
-          if (!itemB || itemB._id === null) continue;
-          
-          const bodyB = (itemB.body || '').trim().toLowerCase();
-          if (!bodyB) continue;
-          
-          const titleB = (itemB.title || '').trim().toLowerCase();
-          if (!titleB) continue;
-          
-          // Calculate similarity based on body and title
-          const bodySimilarity = calculateSimilarity(bodyA, bodyB);
-          const titleSimilarity = calculateSimilarity(titleA, titleB);
-          
-          // Weight body similarity more than title
-          const overallSimilarity = (bodySimilarity * 0.7) + (titleSimilarity * 0.3);
-          
-          // If similarity is high, mark as duplicate
-          if (overallSimilarity > 0.7) { // 70% similarity threshold
-            duplicatesOfA.push({
-              item: itemB,
-              similarity: overallSimilarity
-            });
-            
-            // Mark as processed by setting id to null
-            categoryItems[j]._id = null;
-            
-            results.duplicates.detected++;
-          }
-        }
+        // Remove original content
+        await Content.findByIdAndDelete(originalId);
         
-        // Process duplicates if found
-        if (duplicatesOfA.length > 0) {
-          // Keep the original and move duplicates to deleted
-          for (const dup of duplicatesOfA) {
-            try {
-              // Prepare data for DeletedContent
-              const contentData = dup.item.toObject();
-              const originalId = contentData._id;
-              delete contentData._id; // remove to avoid duplicate key error
-              
-              // Add metadata
-              contentData.deletedAt = new Date();
-              contentData.originalContentId = originalId;
-              contentData.reason = 'duplicate';
-              
-              // Create a record in DeletedContent collection
-              await DeletedContent.create(contentData);
-              
-              // Remove original content
-              await Content.findByIdAndDelete(originalId);
-              
-              results.duplicates.deleted++;
-              console.log(`Moved duplicate content: "${dup.item.title.substring(0, 30)}..." to deleted (similarity: ${Math.round(dup.similarity * 100)}%)`);
-            } catch (err) {
-              console.error(`Error moving duplicate content to deleted:`, err);
-            }
-          }
-        }
+        results.duplicates.deleted++;
+        console.log(`Moved duplicate content: "${dup.item.title.substring(0, 30)}..." to deleted (similarity: ${Math.round(dup.similarity * 100)}%)`);
+      } catch (err) {
+        console.error(`Error moving duplicate content to deleted:`, err);
+        onError(`Moving duplicate content ${dup.item._id} to deleted: ${err.message}`);
       }
     }
   } catch (error) {
     console.error('Error in duplicate detection process:', error);
+    onError(`Duplicate detection: ${error.message}`);
   }
   
   console.log('\nDaily content refresh completed:');
+  console.log(`- Staged the deck of ${results.deckDate}`);
   console.log(`- Processed ${results.categories} categories`);
   console.log(`- Generated ${results.generated} new content items`);
+  console.log(`- Rejected ${results.duplicatesRejected} near-duplicates at generation time`);
+  console.log(`- Held ${results.safetyFlagged} new items for review after safety screening`);
   console.log(`- Moved ${results.cleanedUp} published items to deleted`);
+  console.log(`- Kept ${results.kept} top performers published`);
+  console.log(`- Left ${results.live} items of decks still showing somewhere`);
+  console.log(`- Skipped ${results.notDue} categories not due for rotation`);
   console.log(`- Published ${results.published} draft items`);
+  console.log(`- Held back ${results.lintBlocked} drafts with lint errors`);
   console.log(`- Detected ${results.duplicates.detected} duplicates`);
   console.log(`- Moved ${results.duplicates.deleted} duplicates to deleted`);
   
   return results;
 };
 
+// Rotation policy of a category, with perCategory overriding its counts
+const getCategoryPolicy = (category, options = {}) => {
+  const policy = rotationPolicy.resolvePolicy(category);
+  if (options.perCategory) {
+    policy.generateCount = options.perCategory;
+    policy.publishCount = options.perCategory;
+  }
+  return policy;
+};
+
+/**
+ * Decks a refresh at the given time works with
+ * @param {Date} now - Time of the refresh
+ * @returns {Object} { next: date the refresh stages, oldestLive: oldest date still showing somewhere }
+ */
+const getDeckDates = (now = new Date()) => ({
+  next: getNextDeckDate(now),
+  oldestLive: getOldestLiveDate(now),
+});
+
+// Whether an item belongs to a deck some time zone is still on: a deck of a
+// date it still is somewhere, or the category's latest deck, which regions show
+// until the one staged now begins for them. Items without a deck, and a deck
+// staged again before it began, are not.
+const isLiveDeck = (content, decks, latest) => Boolean(content.deckDate)
+  && (content.deckDate >= decks.oldestLive || content.deckDate === latest)
+  && content.deckDate < decks.next;
+
+// Published items a rotation retires, the highly liked ones it keeps when the
+// policy says so, and the live ones of decks still showing somewhere
+const splitPublished = (published, policy, decks) => {
+  const split = { retire: [], keep: [], live: [] };
+  const latest = published
+    .map(content => content.deckDate)
+    .filter(deckDate => deckDate && deckDate < decks.next)
+    .sort()
+    .pop();
+  published.forEach(content => {
+    if (policy.keepTopPerformers && content.pool === 'highly_liked') split.keep.push(content);
+    else if (isLiveDeck(content, decks, latest)) split.live.push(content);
+    else split.retire.push(content);
+  });
+  return split;
+};
+
+/**
+ * Drafts a rotation publishes: the ones waiting longest, so a preview picks the
+ * same existing drafts as the run after it and new ones come last
+ * @param {Array} drafts - Publishable drafts
+ * @param {Number} count - Drafts to publish
+ * @returns {Array} Selected drafts
+ */
+const selectDrafts = (drafts, count) => [...drafts]
+  .sort((a, b) => (new Date(a.createdAt) - new Date(b.createdAt)) || a._id.toString().localeCompare(b._id.toString()))
+  .slice(0, count);
+
+/**
+ * Near-duplicates within each category. Items are compared in the given order
+ * (newest first in the refresh); an item more than 70% similar to an earlier
+ * one is a duplicate of it and not compared further.
+ * @param {Array} items - Content items
+ * @returns {Array} [{ item, duplicateOf, similarity }]
+ */
+const findDuplicates = (items) => {
+  // Group by category
+  const itemsByCategory = {};
+  items.forEach(item => {
+    if (!item.category) return;
+    
+    const categoryId = typeof item.category === 'object' ? 
+      item.category._id.toString() : item.category.toString();
+    
+    if (!itemsByCategory[categoryId]) {
+      itemsByCategory[categoryId] = [];
+    }
+    itemsByCategory[categoryId].push(item);
+  });
+  
+  const duplicates = [];
+  for (const categoryItems of Object.values(itemsByCategory)) {
+    // Indexes of items already found to be duplicates
+    const flagged = new Set();
+    
+    for (let i = 0; i < categoryItems.length; i++) {
+      if (flagged.has(i)) continue;
+      const itemA = categoryItems[i];
+      
+      const bodyA = (itemA.body || '').trim().toLowerCase();
+      const titleA = (itemA.title || '').trim().toLowerCase();
+      if (!bodyA || !titleA) continue;
+      
+      for (let j = i + 1; j < categoryItems.length; j++) {
+        if (flagged.has(j)) continue;
+        const itemB = categoryItems[j];
+        
+        const bodyB = (itemB.body || '').trim().toLowerCase();
+        const titleB = (itemB.title || '').trim().toLowerCase();
+        if (!bodyB || !titleB) continue;
+        
+        // Weight body similarity more than title
+        const similarity = (calculateSimilarity(bodyA, bodyB) * 0.7) + (calculateSimilarity(titleA, titleB) * 0.3);
+        
+        if (similarity > 0.7) { // 70% similarity threshold
+          flagged.add(j);
+          duplicates.push({ item: itemB, duplicateOf: itemA, similarity });
+        }
+      }
+    }
+  }
+  
+  return duplicates;
+};
+
+const summarizeItem = (item) => ({ _id: item._id, title: item.title, status: item.status });
+
+// Preview entry of a category, empty until the rotation is planned
+const previewEntry = (category, policy, { rotated = false, due = false } = {}) => ({
+  category: { _id: category._id, name: category.name || null },
+  refreshed: rotated,
+  due,
+  nextRotationAt: policy ? rotationPolicy.getNextRotation(category, policy) : null,
+  policy,
+  generate: { count: 0, difficulties: {}, contentTypes: {} },
+  retire: [],
+  keep: [],
+  live: [],
+  publish: [],
+  publishNew: 0,
+  eligibleDrafts: 0,
+  lintBlocked: [],
+  duplicates: [],
+});
+
+/**
+ * What cleanupAndRefreshContent would do, without changing anything or calling
+ * the AI provider. New items can't be known in advance, so generation is
+ * reported as counts. Drafts are picked the same way as by a real run, whose
+ * new items fill the slots the existing drafts leave (publishNew).
+ * @param {Object} options - Options of cleanupAndRefreshContent (categoryIds, perCategory, ignoreCadence)
+ * @returns {Promise<Object>} { dryRun, deckDate, totals, categories }
+ */
+const previewCleanupAndRefresh = async (options = {}) => {
+  const now = new Date();
+  const decks = getDeckDates(now);
+  const categoryFilter = { active: true };
+  if (options.categoryIds) {
+    categoryFilter._id = { $in: options.categoryIds };
+  }
+
+  const [categories, admin, lintRules] = await Promise.all([
+    Category.find(categoryFilter),
+    User.findOne({ role: 'admin' }),
+    contentLintService.getRules(),
+  ]);
+  if (!admin) throw new Error('No admin user found');
+
+  const retiredIds = new Set();
+  const preview = [];
+
+  for (const category of categories) {
+    const policy = getCategoryPolicy(category, options);
+    if (!options.ignoreCadence && !rotationPolicy.isRotationDue(category, policy, now)) {
+      preview.push(previewEntry(category, policy));
+      continue;
+    }
+
+    const entry = previewEntry(category, policy, { rotated: true, due: true });
+    const plan = rotationPolicy.planGeneration(policy);
+    entry.generate = {
+      count: plan.length,
+      difficulties: rotationPolicy.allocate(policy.difficultyMix, policy.generateCount),
+      contentTypes: rotationPolicy.allocate(policy.contentTypeMix, policy.generateCount),
+    };
+
+    const [publishedContents, candidates] = await Promise.all([
+      Content.find({ category: category._id, status: 'published' }),
+      Content.find({ category: category._id, status: 'draft' }),
+    ]);
+    const { retire, keep, live } = splitPublished(publishedContents, policy, decks);
+    retire.forEach(content => retiredIds.add(content._id.toString()));
+
+    const lintResults = await contentLintService.lint(candidates, lintRules);
+    const eligible = candidates.filter((draft, index) => lintResults[index].errors === 0);
+    const publishCount = Math.max(policy.publishCount - keep.length, 0);
+    const selected = selectDrafts(eligible, publishCount);
+
+    entry.retire = retire.map(summarizeItem);
+    entry.keep = keep.map(summarizeItem);
+    entry.live = live.map(summarizeItem);
+    entry.publish = selected.map(summarizeItem);
+    entry.publishNew = Math.min(publishCount - selected.length, plan.length);
+    entry.eligibleDrafts = eligible.length;
+    entry.lintBlocked = candidates
+      .map((draft, index) => ({ ...summarizeItem(draft), errors: lintResults[index].errors }))
+      .filter(draft => draft.errors > 0);
+    preview.push(entry);
+  }
+
+  // The duplicate scan runs over every category once the published items are gone
+  const remaining = (await Content.find().sort('-createdAt'))
+    .filter(content => !retiredIds.has(content._id.toString()));
+
+  for (const dup of findDuplicates(remaining)) {
+    const categoryId = dup.item.category.toString();
+    let entry = preview.find(candidate => candidate.category._id.toString() === categoryId);
+    if (!entry) {
+      // A category the refresh skips can still lose duplicates
+      const category = await Category.findById(categoryId).select('name');
+      entry = previewEntry({ _id: categoryId, name: category ? category.name : null }, null);
+      preview.push(entry);
+    }
+
+    entry.duplicates.push({
+      ...summarizeItem(dup.item),
+      duplicateOf: summarizeItem(dup.duplicateOf),
+      similarity: Math.round(dup.similarity * 100) / 100,
+    });
+  }
+
+  const count = (field) => preview.reduce((total, entry) => total + entry[field].length, 0);
+  const rotated = preview.filter(entry => entry.refreshed);
+
+  return {
+    dryRun: true,
+    deckDate: decks.next,
+    totals: {
+      categories: rotated.length,
+      notDue: preview.filter(entry => entry.policy && !entry.due).length,
+      generated: rotated.reduce((total, entry) => total + entry.generate.count, 0),
+      cleanedUp: count('retire'),
+      kept: count('keep'),
+      live: count('live'),
+      published: count('publish'),
+      publishedNew: preview.reduce((total, entry) => total + entry.publishNew, 0),
+      lintBlocked: count('lintBlocked'),
+      duplicates: count('duplicates'),
+    },
+    categories: preview,
+  };
+};
+
 // Similarity calculation function
 function calculateSimilarity(str1, str2) {
   // If either string is empty, return 0
@@ -445,6 +1053,11 @@ function calculateSimilarity(str1, str2) {
 
 module.exports = {
   initScheduler,
+  getJobs,
+  getJob,
+  updateJob,
+  resetJob,
+  runJob,
   generateDailyContent,
   recyclePopularContent,
   checkUserStreaks,
@@ -0,0 +1,32 @@
+const AppError = require('../../utils/appError');
+
+// Adapters are loaded on demand, so the S3 client is never set up for local storage
+const adapterLoaders = {
+  local: () => require('./local.storage'),
+  s3: () => require('./s3.storage'),
+};
+
+/**
+ * Name of the adapter selected through STORAGE_DRIVER
+ * @returns {String} Adapter name
+ */
+exports.getStorageName = () => (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+/**
+ * Get a storage adapter. Every adapter exposes:
+ * - name
+ * - isConfigured() -> Boolean
+ * - put({ key, body, contentType }) -> { key, url }
+ * - remove(key)
+ * @param {String} name - Adapter name (defaults to the configured adapter)
+ * @returns {Object} Adapter
+ */
+exports.getStorage = (name = exports.getStorageName()) => {
+  const loader = adapterLoaders[name];
+
+  if (!loader) {
+    throw new AppError(`Unknown storage driver "${name}". Use one of: ${Object.keys(adapterLoaders).join(', ')}`, 500);
+  }
+
+  return loader();
+};
@@ -0,0 +1,46 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+/**
+ * Directory files are written to, served by the API under /uploads
+ * @returns {String} Absolute path
+ */
+const getUploadDir = () => path.resolve(process.env.UPLOAD_DIR || path.join(__dirname, '../../../uploads'));
+
+// Public base URL of the served files, the API has to be reachable under it
+const getPublicUrl = () => (process.env.UPLOAD_PUBLIC_URL || `http://localhost:${process.env.PORT || 5010}/uploads`).replace(/\/+$/, '');
+
+// Keys are generated by the image service, this only guards against leaving the directory
+const resolveKey = (key) => {
+  const filePath = path.resolve(getUploadDir(), key);
+  if (!filePath.startsWith(getUploadDir() + path.sep)) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+  return filePath;
+};
+
+/**
+ * Storage on the local filesystem (default). Fine for a single server,
+ * use the s3 driver when the API runs on several machines.
+ */
+const localStorage = {
+  name: 'local',
+
+  getUploadDir,
+
+  isConfigured: () => true,
+
+  put: async ({ key, body }) => {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    return { key, url: `${getPublicUrl()}/${key}` };
+  },
+
+  remove: async (key) => {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+};
+
+module.exports = localStorage;
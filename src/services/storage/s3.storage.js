@@ -0,0 +1,69 @@
+const { S3Client, PutObjectCommand, DeleteObjectCommand } = require('@aws-sdk/client-s3');
+const AppError = require('../../utils/appError');
+
+/**
+ * Storage in an S3 bucket or any S3-compatible service (MinIO, R2, Spaces...)
+ *
+ * AWS_S3_BUCKET        - Bucket name
+ * AWS_REGION           - Region (use "auto" for R2)
+ * AWS_ACCESS_KEY_ID    - Credentials, read by the AWS SDK
+ * AWS_SECRET_ACCESS_KEY
+ * S3_ENDPOINT          - Endpoint of an S3-compatible service, empty for AWS
+ * S3_FORCE_PATH_STYLE  - "true" for services that need bucket/key URLs (MinIO)
+ * S3_PUBLIC_URL        - Public base URL of the bucket, e.g. a CDN
+ */
+let client = null;
+
+const getBucket = () => process.env.AWS_S3_BUCKET;
+
+// The client is created on first use so a missing configuration never stops the server
+const getClient = () => {
+  if (!getBucket()) {
+    throw new AppError('AWS_S3_BUCKET is not configured for the s3 storage driver.', 500);
+  }
+
+  if (!client) {
+    client = new S3Client({
+      region: process.env.AWS_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  }
+
+  return client;
+};
+
+const getPublicUrl = () => {
+  if (process.env.S3_PUBLIC_URL) {
+    return process.env.S3_PUBLIC_URL.replace(/\/+$/, '');
+  }
+  if (process.env.S3_ENDPOINT) {
+    return `${process.env.S3_ENDPOINT.replace(/\/+$/, '')}/${getBucket()}`;
+  }
+  return `https://${getBucket()}.s3.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com`;
+};
+
+const s3Storage = {
+  name: 's3',
+
+  isConfigured: () => Boolean(getBucket()),
+
+  put: async ({ key, body, contentType }) => {
+    await getClient().send(new PutObjectCommand({
+      Bucket: getBucket(),
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      // Variants get new keys on every upload, so they never change
+      CacheControl: 'public, max-age=31536000, immutable',
+    }));
+
+    return { key, url: `${getPublicUrl()}/${key}` };
+  },
+
+  remove: async (key) => {
+    await getClient().send(new DeleteObjectCommand({ Bucket: getBucket(), Key: key }));
+  },
+};
+
+module.exports = s3Storage;
@@ -0,0 +1,273 @@
+const Tag = require('../models/tag.model');
+const Content = require('../models/content.model');
+const AppError = require('../utils/appError');
+
+// Content updated per bulk write when retagging
+const RETAG_BATCH_SIZE = 500;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive pattern for stored tags with a key, whatever separators
+ * and punctuation they were written with
+ * @param {String} key - Tag key
+ * @returns {RegExp}
+ */
+const keyPattern = (key) => new RegExp(`^[\\W_]*${key.split(' ').map(escapeRegExp).join('[\\W_]+')}[\\W_]*$`, 'i');
+
+const cleanNames = (names) => [].concat(names || [])
+  .map(name => (typeof name === 'string' ? name.trim() : ''))
+  .filter(name => Tag.toKey(name));
+
+/**
+ * Rewrite the tags of all content carrying one of the keys. Replaced keys
+ * become the given name (or are dropped for null), then the tags are
+ * normalized against the taxonomy.
+ * @param {Map} replacements - Key to replacement name or null
+ * @returns {Number} Number of content items changed
+ */
+const retagContent = async (replacements) => {
+  const keys = [...replacements.keys()].filter(Boolean);
+  if (keys.length === 0) return 0;
+
+  const cursor = Content.find({ tags: { $in: keys.map(keyPattern) } })
+    .select('tags category')
+    .lean()
+    .cursor();
+
+  let operations = [];
+  let changed = 0;
+
+  const flush = async () => {
+    if (operations.length === 0) return;
+    await Content.bulkWrite(operations, { ordered: false });
+    changed += operations.length;
+    operations = [];
+  };
+
+  for await (const content of cursor) {
+    const replaced = content.tags
+      .map(tag => {
+        const key = Tag.toKey(tag);
+        return replacements.has(key) ? replacements.get(key) : tag;
+      })
+      .filter(Boolean);
+
+    // Plain updates skip the content hooks, so normalize here
+    const tags = await Tag.normalize(replaced, content.category);
+    if (tags.join('\n') === content.tags.join('\n')) continue;
+
+    operations.push({ updateOne: { filter: { _id: content._id }, update: { $set: { tags } } } });
+    if (operations.length >= RETAG_BATCH_SIZE) {
+      await flush();
+    }
+  }
+
+  await flush();
+  return changed;
+};
+
+/**
+ * Make sure no name or synonym of a tag is already the name of another tag
+ * @param {Object} tag - Tag being saved
+ * @param {Array} ignoreIds - Tags that are about to be merged into it
+ */
+const assertNoConflicts = async (tag, ignoreIds = []) => {
+  const clash = await Tag.findOne({
+    _id: { $nin: [tag._id, ...ignoreIds] },
+    $or: [{ key: tag.key }, { key: { $in: tag.synonymKeys } }],
+  });
+
+  if (clash) {
+    throw new AppError(`"${clash.name}" is already a tag, merge it instead`, 400);
+  }
+};
+
+/**
+ * Tags in use with their usage counts. Tags that content carries but the
+ * taxonomy does not know are listed as untracked.
+ * @returns {Object} { tags, untracked }
+ */
+exports.listTags = async () => {
+  const [tags, usage] = await Promise.all([
+    Tag.find().populate('categories', 'name').sort('name'),
+    Content.aggregate([
+      { $match: { status: { $ne: 'deleted' } } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+    ]),
+  ]);
+
+  // Stored spellings of one key are counted together
+  const byKey = new Map();
+  usage.forEach(entry => {
+    const key = Tag.toKey(entry._id);
+    if (!key) return;
+    const current = byKey.get(key) || { name: entry._id, usageCount: 0 };
+    current.usageCount += entry.count;
+    byKey.set(key, current);
+  });
+
+  const result = tags.map(tag => {
+    const entry = byKey.get(tag.key);
+    byKey.delete(tag.key);
+    return { ...tag.toObject(), usageCount: entry ? entry.usageCount : 0 };
+  });
+
+  const untracked = [...byKey.values()].sort((a, b) => b.usageCount - a.usageCount);
+
+  return { tags: result, untracked };
+};
+
+/**
+ * Add a tag to the taxonomy and move content tagged with its synonyms to it
+ * @param {Object} data - { name, synonyms, categories }
+ * @param {Object} user - User creating the tag
+ * @returns {Object} { tag, contentUpdated }
+ */
+exports.createTag = async ({ name, synonyms = [], categories = [] }, user = null) => {
+  const tag = new Tag({
+    name,
+    synonyms: cleanNames(synonyms),
+    categories,
+    createdBy: user ? user._id : null,
+  });
+
+  await tag.validate();
+  await assertNoConflicts(tag);
+  await tag.save();
+
+  // Synonyms resolve through the taxonomy, which knows their category scope
+  const replacements = new Map(tag.synonymKeys.map(key => [key, key]));
+  replacements.set(tag.key, tag.name);
+
+  const contentUpdated = await retagContent(replacements);
+  return { tag, contentUpdated };
+};
+
+/**
+ * Rename a tag or change its synonyms and category scope. A renamed tag keeps
+ * its old name as a synonym, so generation stops bringing the old name back.
+ * @param {String} tagId - Tag ID
+ * @param {Object} changes - { name, synonyms, categories }
+ * @returns {Object} { tag, contentUpdated }
+ */
+exports.updateTag = async (tagId, { name, synonyms, categories } = {}) => {
+  const tag = await Tag.findById(tagId);
+  if (!tag) {
+    throw new AppError('Tag not found', 404);
+  }
+
+  const oldKey = tag.key;
+  const oldName = tag.name;
+  const oldSynonymKeys = [...tag.synonymKeys];
+
+  if (synonyms !== undefined) tag.synonyms = cleanNames(synonyms);
+  if (categories !== undefined) tag.categories = categories;
+  if (name !== undefined && name.trim() !== oldName) {
+    tag.name = name;
+    tag.synonyms = [...tag.synonyms, oldName];
+  }
+
+  await tag.validate();
+  await assertNoConflicts(tag);
+  await tag.save();
+
+  const replacements = new Map([[oldKey, tag.name], [tag.key, tag.name]]);
+  // Synonyms that were dropped or re-scoped go back to their own spelling
+  [...oldSynonymKeys, ...tag.synonymKeys].forEach(key => {
+    if (!replacements.has(key)) replacements.set(key, key);
+  });
+
+  const contentUpdated = await retagContent(replacements);
+  return { tag, contentUpdated };
+};
+
+/**
+ * Merge tags into one. The merged names become synonyms of the target, which
+ * is created if it is not in the taxonomy yet.
+ * @param {String} into - Name of the tag to keep
+ * @param {Array} names - Names of the tags to merge into it
+ * @param {Object} user - User merging the tags
+ * @returns {Object} { tag, merged, contentUpdated }
+ */
+exports.mergeTags = async (into, names, user = null) => {
+  const targetKey = Tag.toKey(into);
+  if (!targetKey) {
+    throw new AppError('Provide the name of the tag to merge into', 400);
+  }
+
+  const sources = cleanNames(names).filter(name => Tag.toKey(name) !== targetKey);
+  if (sources.length === 0) {
+    throw new AppError('Provide at least one other tag to merge', 400);
+  }
+
+  const sourceKeys = [...new Set(sources.map(Tag.toKey))];
+  const mergedTags = await Tag.find({ key: { $in: sourceKeys } });
+
+  let tag = await Tag.findOne({ key: targetKey });
+  if (!tag) {
+    tag = new Tag({ name: into, createdBy: user ? user._id : null });
+  }
+
+  tag.synonyms = [
+    ...tag.synonyms,
+    ...sources,
+    ...mergedTags.flatMap(merged => [merged.name, ...merged.synonyms]),
+  ];
+
+  // Synonyms scoped to categories stay scoped when both sides were scoped
+  const mergedScopes = mergedTags.flatMap(merged => merged.categories);
+  if (tag.categories.length > 0 && mergedTags.every(merged => merged.categories.length > 0)) {
+    const scope = new Map([...tag.categories, ...mergedScopes].map(category => [String(category), category]));
+    tag.categories = [...scope.values()];
+  } else {
+    tag.categories = [];
+  }
+
+  const mergedIds = mergedTags.map(merged => merged._id);
+  await tag.validate();
+  await assertNoConflicts(tag, mergedIds);
+
+  await Tag.deleteMany({ _id: { $in: mergedIds } });
+  await tag.save();
+
+  const replacements = new Map(sourceKeys.map(key => [key, tag.name]));
+  mergedTags.forEach(merged => merged.synonymKeys.forEach(key => replacements.set(key, tag.name)));
+  replacements.set(targetKey, tag.name);
+
+  const contentUpdated = await retagContent(replacements);
+  return { tag, merged: sources, contentUpdated };
+};
+
+/**
+ * Remove tags from all content and from the taxonomy
+ * @param {Array} names - Tag names
+ * @returns {Object} { removed, tagsDeleted, contentUpdated }
+ */
+exports.removeTags = async (names) => {
+  const keys = [...new Set(cleanNames(names).map(Tag.toKey))];
+  if (keys.length === 0) {
+    throw new AppError('Provide at least one tag to remove', 400);
+  }
+
+  const { deletedCount } = await Tag.deleteMany({ key: { $in: keys } });
+  const contentUpdated = await retagContent(new Map(keys.map(key => [key, null])));
+
+  return { removed: keys.length, tagsDeleted: deletedCount, contentUpdated };
+};
+
+/**
+ * Delete a tag of the taxonomy and remove it from all content
+ * @param {String} tagId - Tag ID
+ * @returns {Object} { removed, tagsDeleted, contentUpdated }
+ */
+exports.deleteTag = async (tagId) => {
+  const tag = await Tag.findById(tagId);
+  if (!tag) {
+    throw new AppError('Tag not found', 404);
+  }
+
+  return exports.removeTags([tag.name]);
+};
@@ -0,0 +1,238 @@
+const Topic = require('../models/topic.model');
+const AppError = require('../utils/appError');
+
+// A drawn topic is not handed out again for this long, so generation calls
+// running side by side for one category get different topics
+const getDrawLeaseMs = () => {
+  const minutes = parseInt(process.env.TOPIC_DRAW_LEASE_MINUTES, 10);
+  return (Number.isNaN(minutes) || minutes < 0 ? 30 : minutes) * 60000;
+};
+
+// Most topics one suggestion call asks for
+const MAX_SUGGESTIONS = 100;
+
+const toId = (value) => (value && value._id ? value._id : value);
+
+/**
+ * List the topic backlog of a category
+ * @param {String} categoryId - Category ID
+ * @param {Object} filter - { status }
+ * @returns {Array} Topics, open ones first in the order they will be drawn
+ */
+exports.listTopics = async (categoryId, { status } = {}) => {
+  const query = { category: categoryId };
+  if (status) query.status = status;
+
+  const topics = await Topic.find(query)
+    .populate('content', 'title status contentType createdAt')
+    .sort({ lastDrawnAt: 1, createdAt: 1 });
+
+  const order = { open: 0, covered: 1, retired: 2 };
+  return topics.sort((a, b) => order[a.status] - order[b.status]);
+};
+
+/**
+ * Count the topics of a category by status
+ * @param {String} categoryId - Category ID
+ * @returns {Object} { total, open, covered, retired, coveredPercent }
+ */
+exports.getCoverage = async (categoryId) => {
+  const counts = await Topic.aggregate([
+    { $match: { category: toId(categoryId) } },
+    { $group: { _id: '$status', count: { $sum: 1 } } },
+  ]);
+
+  const coverage = { total: 0, open: 0, covered: 0, retired: 0 };
+  counts.forEach(entry => {
+    coverage[entry._id] = entry.count;
+    coverage.total += entry.count;
+  });
+
+  // Retired topics are out of the backlog and do not count either way
+  const active = coverage.open + coverage.covered;
+  coverage.coveredPercent = active > 0 ? Math.round((coverage.covered / active) * 100) : 0;
+
+  return coverage;
+};
+
+/**
+ * Add topics to the backlog of a category. Names that are already in the
+ * backlog (ignoring case and punctuation) are skipped.
+ * @param {String} categoryId - Category ID
+ * @param {Array} names - Topic names
+ * @param {Object} options
+ * @param {String} options.source - editor or ai
+ * @param {String} options.user - User adding the topics
+ * @returns {Object} { added: [topics], skipped: [names] }
+ */
+exports.addTopics = async (categoryId, names, { source = 'editor', user = null } = {}) => {
+  if (!Array.isArray(names) || names.length === 0) {
+    throw new AppError('Provide at least one topic', 400);
+  }
+
+  const candidates = new Map();
+  const skipped = [];
+
+  names.forEach(raw => {
+    const name = typeof raw === 'string' ? raw.trim() : '';
+    const key = Topic.toKey(name);
+    if (!key || candidates.has(key)) {
+      if (name) skipped.push(name);
+      return;
+    }
+    candidates.set(key, name);
+  });
+
+  const existing = await Topic.find({ category: categoryId, key: { $in: [...candidates.keys()] } }).select('key');
+  existing.forEach(topic => {
+    skipped.push(candidates.get(topic.key));
+    candidates.delete(topic.key);
+  });
+
+  let added = [];
+  if (candidates.size > 0) {
+    try {
+      added = await Topic.insertMany([...candidates.entries()].map(([key, name]) => ({
+        category: categoryId,
+        name,
+        key,
+        source,
+        createdBy: toId(user) || null,
+      })), { ordered: false });
+    } catch (error) {
+      // Topics added by someone else at the same time
+      if (error.code !== 11000) throw error;
+      added = error.insertedDocs || [];
+    }
+  }
+
+  return { added, skipped };
+};
+
+/**
+ * Rename a topic or change its status
+ * @param {String} categoryId - Category ID
+ * @param {String} topicId - Topic ID
+ * @param {Object} changes - { name, status }
+ * @returns {Object} Updated topic
+ */
+exports.updateTopic = async (categoryId, topicId, { name, status } = {}) => {
+  const topic = await Topic.findOne({ _id: topicId, category: categoryId });
+  if (!topic) {
+    throw new AppError('Topic not found', 404);
+  }
+
+  if (name !== undefined) {
+    const key = Topic.toKey(name);
+    if (!key) {
+      throw new AppError('Topic name cannot be empty', 400);
+    }
+    if (key !== topic.key && await Topic.exists({ category: categoryId, key })) {
+      throw new AppError(`The backlog already has the topic "${name}"`, 400);
+    }
+    topic.name = name.trim();
+  }
+
+  if (status !== undefined) {
+    if (!Topic.schema.path('status').enumValues.includes(status)) {
+      throw new AppError(`Invalid topic status "${status}"`, 400);
+    }
+    topic.status = status;
+    topic.coveredAt = status === 'covered' ? topic.coveredAt || new Date() : null;
+  }
+
+  await topic.save();
+  return topic;
+};
+
+/**
+ * Remove a topic from the backlog
+ * @param {String} categoryId - Category ID
+ * @param {String} topicId - Topic ID
+ */
+exports.removeTopic = async (categoryId, topicId) => {
+  const topic = await Topic.findOneAndDelete({ _id: topicId, category: categoryId });
+  if (!topic) {
+    throw new AppError('Topic not found', 404);
+  }
+};
+
+/**
+ * Draw open topics round-robin: the topic that waited longest comes first and
+ * goes to the back of the line once drawn. Topics drawn within the lease are
+ * skipped, so fewer topics than asked for may come back.
+ * @param {String} categoryId - Category ID
+ * @param {Number} count - Number of topics wanted
+ * @returns {Array} Drawn topics
+ */
+exports.drawTopics = async (categoryId, count = 1) => {
+  const drawn = [];
+  const leaseStart = new Date(Date.now() - getDrawLeaseMs());
+
+  // One atomic claim per topic so parallel draws never share a topic
+  for (let i = 0; i < count; i++) {
+    const topic = await Topic.findOneAndUpdate(
+      {
+        category: toId(categoryId),
+        status: 'open',
+        _id: { $nin: drawn.map(entry => entry._id) },
+        $or: [{ lastDrawnAt: null }, { lastDrawnAt: { $lte: leaseStart } }],
+      },
+      { $set: { lastDrawnAt: new Date() }, $inc: { timesDrawn: 1 } },
+      { sort: { lastDrawnAt: 1, createdAt: 1 }, new: true }
+    );
+
+    if (!topic) break;
+    drawn.push(topic);
+  }
+
+  return drawn;
+};
+
+/**
+ * Mark a topic as covered by generated content
+ * @param {Object} topic - Topic document or ID
+ * @param {Array} contentIds - Content generated about the topic
+ */
+exports.markCovered = async (topic, contentIds = []) => {
+  await Topic.updateOne(
+    { _id: toId(topic) },
+    {
+      $set: { status: 'covered', coveredAt: new Date() },
+      $addToSet: { content: { $each: contentIds.map(toId) } },
+    }
+  );
+};
+
+/**
+ * Ask the AI for sub-topics of a category and add the new ones to its backlog
+ * @param {Object} category - Category document
+ * @param {Object} options
+ * @param {Number} options.count - Number of suggestions to ask for
+ * @param {String} options.model - AI model
+ * @param {Object} options.user - User asking for suggestions
+ * @returns {Object} { added: [topics], skipped: [names] }
+ */
+exports.suggestTopics = async (category, { count = 50, model = 'gpt-4o-mini', user = null } = {}) => {
+  const contentService = require('./content.service');
+  const requested = Math.min(Math.max(parseInt(count, 10) || 50, 1), MAX_SUGGESTIONS);
+
+  const known = await Topic.find({ category: category._id }).select('name').sort('-createdAt').limit(200);
+
+  const prompt = `Suggest ${requested} sub-topics for the content category "${category.name}": ${category.description || ''}
+Each sub-topic should be specific enough for one short, practical article and different from the others.
+${category.bannedTopics && category.bannedTopics.length > 0 ? `Never suggest these topics:\n${category.bannedTopics.map(topic => `- ${topic}`).join('\n')}\n` : ''}${known.length > 0 ? `The backlog already has these sub-topics, suggest new ones:\n${known.map(topic => `- ${topic.name}`).join('\n')}\n` : ''}`;
+
+  const suggestions = await contentService.generateWithAI(
+    category,
+    null,
+    'beginner',
+    prompt,
+    model,
+    { user: user && user._id, source: 'user', operation: 'suggest' },
+    { schema: 'topicSuggestion', count: requested, quarantine: false }
+  );
+
+  const names = (Array.isArray(suggestions) ? suggestions : [suggestions]).map(entry => entry.topic);
+  return exports.addTopics(category._id, names, { source: 'ai', user });
+};
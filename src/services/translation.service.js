@@ -0,0 +1,177 @@
+const AppError = require('../utils/appError');
+const { formatQuote } = require('../utils/quoteAttribution');
+const { getSupportedLocales, getDefaultLocale, getLocaleName } = require('../utils/locale');
+
+/**
+ * Locales published content is translated into automatically (AUTO_TRANSLATE_LOCALES)
+ * @returns {Array} Supported locale codes
+ */
+const getAutoTranslateLocales = () => (process.env.AUTO_TRANSLATE_LOCALES || '')
+  .split(',')
+  .map(locale => locale.trim().toLowerCase())
+  .filter(locale => locale && getSupportedLocales().includes(locale));
+
+/**
+ * Check that content can be translated into a locale
+ * @param {Object} content - Content document
+ * @param {String} locale - Target locale
+ * @returns {String} Normalized locale
+ */
+const assertTranslatableLocale = (content, locale) => {
+  const target = (locale || '').toLowerCase();
+
+  if (!getSupportedLocales().includes(target)) {
+    throw new AppError(`Unsupported locale "${locale}". Supported locales: ${getSupportedLocales().join(', ')}`, 400);
+  }
+
+  if (target === (content.locale || getDefaultLocale())) {
+    throw new AppError(`The content is already written in ${getLocaleName(target)}`, 400);
+  }
+
+  return target;
+};
+
+const buildTranslationPrompt = (content, locale) => {
+  const from = getLocaleName(content.locale || getDefaultLocale());
+  const to = getLocaleName(locale);
+
+  if (content.contentType === 'quote' && content.quoteText) {
+    return `Translate the following quote and its title and summary from ${from} to ${to}.
+Keep the meaning and tone. If a well-known published ${to} translation of the quote exists, use it.
+Do not translate the author's name or the title of the book.
+
+Title: ${content.title}
+Summary: ${content.summary}
+Quote: ${content.quoteText}
+Author: ${content.author || 'unknown'}
+Source: ${content.sourceTitle || 'unknown'}
+`;
+  }
+
+  return `Translate the following content from ${from} to ${to}.
+Keep the meaning, tone and markdown formatting, and keep the body about as long as the original.
+Adapt examples, currencies and units only where a literal translation would confuse ${to} readers.
+
+Title: ${content.title}
+Summary: ${content.summary}
+Body:
+${content.body}
+`;
+};
+
+/**
+ * Add or replace the translation of content into a locale
+ * @param {Object} content - Content document
+ * @param {String} locale - Target locale
+ * @param {Object} fields - { title, summary, body, quoteText }
+ * @param {Object} options
+ * @param {String} options.source - 'human' for edits, 'ai' for generated translations
+ * @param {String} options.user - ID of the user making the change
+ * @returns {Object} Saved content document
+ */
+exports.setTranslation = async (content, locale, fields, { source = 'human', user = null } = {}) => {
+  const target = assertTranslatableLocale(content, locale);
+  const isQuote = content.contentType === 'quote' && !!content.quoteText;
+
+  if (!fields.title || (isQuote ? !fields.quoteText : !fields.body)) {
+    throw new AppError(isQuote
+      ? 'A quote translation needs a title and the translated quote'
+      : 'A translation needs a title and a body', 400);
+  }
+
+  const translation = {
+    locale: target,
+    title: fields.title,
+    summary: fields.summary || null,
+    // A translated quote keeps the original attribution
+    body: isQuote ? formatQuote({ ...content.getQuote(), quoteText: fields.quoteText }) : fields.body,
+    quoteText: isQuote ? fields.quoteText : null,
+    source,
+    stale: false,
+    updatedBy: user,
+    updatedAt: new Date(),
+  };
+
+  const index = content.translations.findIndex(entry => entry.locale === target);
+  if (index === -1) {
+    content.translations.push(translation);
+  } else {
+    content.translations.set(index, translation);
+  }
+
+  await content.save({ validateBeforeSave: false });
+
+  return content;
+};
+
+/**
+ * Remove the translation of content into a locale
+ * @param {Object} content - Content document
+ * @param {String} locale - Locale to remove
+ * @returns {Object} Saved content document
+ */
+exports.removeTranslation = async (content, locale) => {
+  const target = (locale || '').toLowerCase();
+
+  if (!content.getTranslation(target)) {
+    throw new AppError(`The content has no ${getLocaleName(target)} translation`, 404);
+  }
+
+  content.translations = content.translations.filter(entry => entry.locale !== target);
+  await content.save({ validateBeforeSave: false });
+
+  return content;
+};
+
+/**
+ * Translate content into a locale with AI and store the result
+ * @param {Object} content - Content document
+ * @param {String} locale - Target locale
+ * @param {Object} options
+ * @param {String} options.model - AI model to use
+ * @param {Object} options.user - User who asked for the translation
+ * @param {String} options.source - Usage ledger source (user, or system for automatic translations)
+ * @returns {Object} Saved content document
+ */
+exports.translateContent = async (content, locale, { model = 'gpt-4o-mini', user = null, source = 'user' } = {}) => {
+  const target = assertTranslatableLocale(content, locale);
+  const contentService = require('./content.service');
+  const isQuote = content.contentType === 'quote' && !!content.quoteText;
+
+  const translated = await contentService.generateWithAI(
+    content.category,
+    null,
+    content.difficulty,
+    buildTranslationPrompt(content, target),
+    model,
+    { user: user && user._id, source, operation: 'translate', contentIds: [content._id] },
+    { contentType: content.contentType, schema: isQuote ? 'quoteTranslation' : 'translation', quarantine: false }
+  );
+
+  return exports.setTranslation(content, target, translated, { source: 'ai', user: user && user._id });
+};
+
+/**
+ * Translate newly published content into the AUTO_TRANSLATE_LOCALES it lacks.
+ * Failures are logged per locale and never reach the caller.
+ * @param {Object} content - Content document
+ * @param {Object} user - User who published the content
+ * @returns {Array} Locales that were translated
+ */
+exports.autoTranslate = async (content, user = null) => {
+  const translated = [];
+  const originalLocale = content.locale || getDefaultLocale();
+
+  for (const locale of getAutoTranslateLocales()) {
+    if (locale === originalLocale || content.getTranslation(locale)) continue;
+
+    try {
+      await exports.translateContent(content, locale, { user, source: 'system' });
+      translated.push(locale);
+    } catch (error) {
+      console.error(`Automatic ${locale} translation of content ${content._id} failed:`, error.message);
+    }
+  }
+
+  return translated;
+};
@@ -0,0 +1,138 @@
+const label = (field) => field.charAt(0).toUpperCase() + field.slice(1);
+
+// Rules content is checked against before it is published. Each rule has a
+// default severity and options that admins can override (see lintRule.model).
+const RULES = [
+  {
+    id: 'body-length',
+    description: 'Body length is within range',
+    severity: 'error',
+    options: { min: 80, max: 3000 },
+    // Quotes are short by nature
+    contentTypes: ['hack', 'hack2', 'tip', 'tip2'],
+    check: (content, { min, max }) => {
+      const length = (content.body || '').trim().length;
+      if (length < min) return [`Body is ${length} characters, at least ${min} expected`];
+      if (length > max) return [`Body is ${length} characters, at most ${max} expected`];
+      return [];
+    },
+  },
+  {
+    id: 'summary',
+    description: 'Summary is present and shorter than the body',
+    severity: 'error',
+    options: {},
+    check: (content) => {
+      const summary = (content.summary || '').trim();
+      if (!summary) return ['Summary is missing'];
+      if (summary.length >= (content.body || '').trim().length) return ['Summary is not shorter than the body'];
+      return [];
+    },
+  },
+  {
+    id: 'no-leftover-markup',
+    description: 'No leftover JSON or markdown code fences',
+    severity: 'error',
+    options: {},
+    check: (content) => ['title', 'summary', 'body'].flatMap(field => {
+      const text = (content[field] || '').trim();
+      const messages = [];
+      if (text.includes('```')) {
+        messages.push(`${label(field)} contains a markdown code fence`);
+      }
+      if (/^[{[][\s\S]*[}\]]$/.test(text) || /"(title|summary|body|tags)"\s*:/.test(text)) {
+        messages.push(`${label(field)} contains leftover JSON`);
+      }
+      return messages;
+    }),
+  },
+  {
+    id: 'no-ai-phrasing',
+    description: 'No assistant phrasing such as "As an AI"',
+    severity: 'error',
+    options: {
+      phrases: ['as an ai', 'as a language model', "i'm sorry, but", 'i cannot provide', 'certainly! here'],
+    },
+    check: (content, { phrases }) => {
+      const text = ['title', 'summary', 'body']
+        .map(field => content[field] || '')
+        .join('\n')
+        .toLowerCase()
+        .replace(/[‘’]/g, '\'');
+      return phrases
+        .filter(phrase => text.includes(phrase.toLowerCase()))
+        .map(phrase => `Contains "${phrase}"`);
+    },
+  },
+  {
+    id: 'tag-count',
+    description: 'Number of tags is within range',
+    severity: 'warning',
+    options: { min: 2, max: 6 },
+    check: (content, { min, max }) => {
+      const count = (content.tags || []).length;
+      if (count < min) return [`Has ${count} tags, at least ${min} expected`];
+      if (count > max) return [`Has ${count} tags, at most ${max} expected`];
+      return [];
+    },
+  },
+  {
+    id: 'title-not-all-caps',
+    description: 'Title is not written in all caps',
+    severity: 'warning',
+    options: {},
+    check: (content) => {
+      const letters = (content.title || '').replace(/[^\p{L}]/gu, '');
+      const shouting = letters.length >= 4 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+      return shouting ? ['Title is in all caps'] : [];
+    },
+  },
+];
+
+const SEVERITIES = ['error', 'warning'];
+
+/**
+ * Check content against rules
+ * @param {Object} content - Content document or plain object
+ * @param {Array} rules - Rules with their settings, { id, enabled, severity, options, contentTypes }
+ * @returns {Object} { errors, warnings, issues: [{ rule, severity, message }] }
+ */
+const lintContent = (content, rules) => {
+  const issues = [];
+
+  rules.forEach(rule => {
+    const definition = RULES.find(entry => entry.id === rule.id);
+    if (!definition || !rule.enabled) return;
+    if (rule.contentTypes && rule.contentTypes.length > 0 && !rule.contentTypes.includes(content.contentType)) return;
+
+    definition.check(content, { ...definition.options, ...rule.options }).forEach(message => {
+      issues.push({ rule: rule.id, severity: rule.severity, message });
+    });
+  });
+
+  return {
+    errors: issues.filter(issue => issue.severity === 'error').length,
+    warnings: issues.filter(issue => issue.severity === 'warning').length,
+    issues,
+  };
+};
+
+/**
+ * Rules with their default settings
+ * @returns {Array} { id, description, enabled, severity, options, contentTypes }
+ */
+const getDefaultRules = () => RULES.map(({ id, description, severity, options, contentTypes }) => ({
+  id,
+  description,
+  enabled: true,
+  severity,
+  options: { ...options },
+  contentTypes: contentTypes ? [...contentTypes] : [],
+}));
+
+module.exports = {
+  RULES,
+  SEVERITIES,
+  lintContent,
+  getDefaultRules,
+};
@@ -0,0 +1,76 @@
+// Display names used in translation prompts and the dashboard
+const LOCALE_NAMES = {
+  en: 'English',
+  tr: 'Turkish',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+};
+
+/**
+ * Locales content can be served in (SUPPORTED_LOCALES, default "en,tr")
+ * @returns {Array} Lower-case locale codes
+ */
+const getSupportedLocales = () => (process.env.SUPPORTED_LOCALES || 'en,tr')
+  .split(',')
+  .map(locale => locale.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Locale of original content and the fallback for missing translations
+ * @returns {String} DEFAULT_LOCALE, or the first supported locale
+ */
+const getDefaultLocale = () => (process.env.DEFAULT_LOCALE || getSupportedLocales()[0] || 'en').toLowerCase();
+
+/**
+ * Match a language tag against the supported locales, ignoring the region
+ * (tr-TR matches tr)
+ * @param {String} tag - Language tag
+ * @returns {String|null} Supported locale or null
+ */
+const matchLocale = (tag) => {
+  if (!tag || typeof tag !== 'string') return null;
+
+  const normalized = tag.trim().toLowerCase().replace('_', '-');
+  const supported = getSupportedLocales();
+
+  if (supported.includes(normalized)) return normalized;
+
+  const language = normalized.split('-')[0];
+  return supported.includes(language) ? language : null;
+};
+
+/**
+ * Language tags of an Accept-Language header, most preferred first
+ * @param {String} header - Accept-Language header value
+ * @returns {Array} Language tags
+ */
+const parseAcceptLanguage = (header) => {
+  if (!header || typeof header !== 'string') return [];
+
+  return header.split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const qParam = params.find(param => param.trim().startsWith('q='));
+      const quality = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+      return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+    })
+    .filter(entry => entry.tag && entry.tag !== '*' && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(entry => entry.tag);
+};
+
+/**
+ * Display name of a locale
+ * @param {String} locale - Locale code
+ * @returns {String} Language name, or the code when unknown
+ */
+const getLocaleName = (locale) => LOCALE_NAMES[locale] || locale;
+
+module.exports = {
+  getSupportedLocales,
+  getDefaultLocale,
+  matchLocale,
+  parseAcceptLanguage,
+  getLocaleName,
+};
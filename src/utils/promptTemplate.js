@@ -0,0 +1,182 @@
+/**
+ * Small template language for AI prompts.
+ *
+ *   {category.name}           variable, dotted paths are looked up in the variables
+ *   {> jsonFormat}            partial, rendered with the same variables
+ *   {#if recentTitles}...{else}...{/if}
+ *   {#unless bannedTopics}...{/unless}
+ *
+ * Arrays render as a bulleted list. Unknown variables are left as written, so
+ * literal JSON examples in a prompt are never touched.
+ */
+
+const TOKEN_PATTERN = /\{#(if|unless)\s+([a-zA-Z_][\w.]*)\s*\}|\{else\}|\{\/(if|unless)\}|\{>\s*([a-zA-Z_][\w-]*)\s*\}|\{([a-zA-Z_][\w.]*)\}/g;
+
+// Partials may include other partials, up to this depth
+const MAX_PARTIAL_DEPTH = 5;
+
+class PromptTemplateError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+/**
+ * Parse a template into a tree of text, variable, partial and block nodes
+ * @param {String} template - Template text
+ * @returns {Array} Nodes
+ */
+const parse = (template) => {
+  const root = { children: [] };
+  const stack = [root];
+  let lastIndex = 0;
+  let match;
+
+  const current = () => stack[stack.length - 1];
+  const pushText = (text) => {
+    if (text) current().children.push({ type: 'text', text });
+  };
+
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(template)) !== null) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = TOKEN_PATTERN.lastIndex;
+
+    const [token, blockType, blockPath, closingType, partialName, variablePath] = match;
+
+    if (blockType) {
+      const block = { type: blockType, path: blockPath, children: [], inverse: null };
+      current().children.push(block);
+      stack.push(block);
+    } else if (token === '{else}') {
+      const block = current();
+      if (block === root) {
+        throw new PromptTemplateError('{else} without a matching {#if} or {#unless}');
+      }
+      if (block.inverse) {
+        throw new PromptTemplateError(`{#${block.type} ${block.path}} has more than one {else}`);
+      }
+      block.inverse = [];
+      block.consequent = block.children;
+      block.children = block.inverse;
+    } else if (closingType) {
+      const block = current();
+      if (block === root || block.type !== closingType) {
+        throw new PromptTemplateError(`{/${closingType}} without a matching {#${closingType}}`);
+      }
+      if (block.inverse) {
+        block.children = block.consequent;
+        delete block.consequent;
+      }
+      stack.pop();
+    } else if (partialName) {
+      current().children.push({ type: 'partial', name: partialName });
+    } else {
+      current().children.push({ type: 'variable', path: variablePath, token });
+    }
+  }
+
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 1) {
+    throw new PromptTemplateError(`{#${current().type} ${current().path}} is never closed`);
+  }
+
+  return root.children;
+};
+
+const lookup = (variables, path) => path.split('.').reduce(
+  (value, key) => (value !== null && value !== undefined ? value[key] : undefined),
+  variables
+);
+
+const isTruthy = (value) => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+const formatValue = (value) => {
+  if (Array.isArray(value)) {
+    return value.map(item => `- ${item}`).join('\n');
+  }
+  return String(value);
+};
+
+/**
+ * Render a template
+ * @param {String} template - Template text
+ * @param {Object} variables - Values for variables and conditions
+ * @param {Object} partials - Partial templates by name
+ * @returns {Object} { text, variables: [used], unknownVariables, missingPartials }
+ */
+const render = (template, variables = {}, partials = {}) => {
+  const used = new Set();
+  const unknown = new Set();
+  const missingPartials = new Set();
+
+  const renderNodes = (nodes, depth) => nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable': {
+        const value = lookup(variables, node.path);
+        if (value === undefined) {
+          unknown.add(node.path);
+          return node.token;
+        }
+        used.add(node.path);
+        return value === null ? '' : formatValue(value);
+      }
+      case 'partial': {
+        const partial = partials[node.name];
+        if (typeof partial !== 'string') {
+          missingPartials.add(node.name);
+          return '';
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new PromptTemplateError(`Partials are nested too deeply at {> ${node.name}}`);
+        }
+        return renderNodes(parse(partial), depth + 1);
+      }
+      default: {
+        used.add(node.path);
+        const condition = isTruthy(lookup(variables, node.path));
+        const branch = (node.type === 'if') === condition ? node.children : node.inverse;
+        return branch ? renderNodes(branch, depth) : '';
+      }
+    }
+  }).join('');
+
+  return {
+    text: renderNodes(parse(template || ''), 0),
+    variables: [...used],
+    unknownVariables: [...unknown],
+    missingPartials: [...missingPartials],
+  };
+};
+
+/**
+ * Check a template for syntax errors
+ * @param {String} template - Template text
+ * @returns {String|null} Error message, null when the template is valid
+ */
+const validate = (template) => {
+  try {
+    parse(template || '');
+    return null;
+  } catch (error) {
+    if (error instanceof PromptTemplateError) return error.message;
+    throw error;
+  }
+};
+
+/**
+ * Whether the template refers to a variable (directly or in a condition)
+ * @param {String} template - Template text
+ * @param {String} path - Variable path
+ * @returns {Boolean}
+ */
+const usesVariable = (template, path) => {
+  const escaped = path.replace(/\./g, '\\.');
+  return new RegExp(`\\{(#(if|unless)\\s+)?${escaped}\\s*\\}`).test(template || '');
+};
+
+module.exports = { render, validate, usesVariable, PromptTemplateError };
@@ -0,0 +1,79 @@
+// Fields of a structured quote, stored on Content next to the display body
+const QUOTE_FIELDS = ['quoteText', 'author', 'sourceTitle', 'sourceYear'];
+
+const OPENING_QUOTES = '"“„«\'‘';
+const CLOSING_QUOTES = '"”»\'’';
+
+const stripQuotes = (text) => {
+  let value = (text || '').trim();
+  if (value && OPENING_QUOTES.includes(value[0])) value = value.slice(1);
+  if (value && CLOSING_QUOTES.includes(value[value.length - 1])) value = value.slice(0, -1);
+  return value.trim();
+};
+
+/**
+ * Display text of a structured quote, used as the content body
+ * @param {Object} quote - { quoteText, author, sourceTitle, sourceYear }
+ * @returns {String} Quote followed by its attribution
+ */
+const formatQuote = ({ quoteText, author, sourceTitle, sourceYear } = {}) => {
+  const parts = [];
+  if (author) parts.push(author);
+  if (sourceTitle) parts.push(`*${sourceTitle}*`);
+
+  let attribution = parts.join(', ');
+  if (attribution && sourceYear) attribution += ` (${sourceYear})`;
+
+  return attribution
+    ? `"${stripQuotes(quoteText)}"\n\n— ${attribution}`
+    : `"${stripQuotes(quoteText)}"`;
+};
+
+/**
+ * Best-effort split of a free-text quote into its parts, for quotes stored
+ * before attribution was structured. Understands `"…" — Title by Author`
+ * and `"…" — Author, Title (Year)`.
+ * @param {String} text - Free-text quote
+ * @returns {Object|null} { quoteText, author, sourceTitle, sourceYear } or null
+ */
+const parseQuote = (text) => {
+  const match = (text || '').trim().match(/^["“„«]([\s\S]+?)["”»]\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const quote = { quoteText: match[1].trim(), author: null, sourceTitle: null, sourceYear: null };
+  let attribution = match[2].replace(/^[\s\-–—~]+/, '').replace(/\s+/g, ' ').trim();
+
+  const year = attribution.match(/\(?\b(\d{4})\b\)?\.?$/);
+  if (year) {
+    quote.sourceYear = parseInt(year[1], 10);
+    attribution = attribution.slice(0, year.index).trim().replace(/,$/, '');
+  }
+
+  const clean = (value) => stripQuotes(value.replace(/\*/g, '')).replace(/[.,]$/, '').trim() || null;
+  const byAuthor = attribution.match(/^(.+?)\s+by\s+(.+)$/i);
+  const commaSeparated = attribution.match(/^([^,]+),\s*(.+)$/);
+
+  if (byAuthor) {
+    quote.sourceTitle = clean(byAuthor[1]);
+    quote.author = clean(byAuthor[2]);
+  } else if (commaSeparated) {
+    quote.author = clean(commaSeparated[1]);
+    quote.sourceTitle = clean(commaSeparated[2]);
+  } else if (attribution) {
+    quote.author = clean(attribution);
+  }
+
+  return quote;
+};
+
+/**
+ * Quote fields of a generated item, ready to store on Content
+ * @param {Object} item - Generated item
+ * @returns {Object} The quote fields the item has
+ */
+const pickQuoteFields = (item = {}) => QUOTE_FIELDS.reduce((fields, field) => {
+  if (item[field] !== undefined && item[field] !== null) fields[field] = item[field];
+  return fields;
+}, {});
+
+module.exports = { QUOTE_FIELDS, formatQuote, parseQuote, pickQuoteFields };
@@ -0,0 +1,158 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scheduled runs start a little early or late, a rotation is due an hour
+// before its interval is up so a daily run never slips to the next day
+const DUE_SLACK_MS = 60 * 60 * 1000;
+
+const CADENCES = ['daily', 'every_n_days', 'weekly'];
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+// Content.contentType values a category can generate
+const CONTENT_TYPES = ['hack', 'hack2', 'tip', 'tip2', 'quote'];
+
+// The refresh as it ran before categories had policies: 10 generated and
+// published daily, 60/30/10 difficulties, every published item retired
+const DEFAULT_POLICY = {
+  publishCount: 10,
+  generateCount: 10,
+  cadence: 'daily',
+  intervalDays: 2,
+  difficultyMix: { beginner: 60, intermediate: 30, advanced: 10 },
+  contentTypeMix: {},
+  keepTopPerformers: false,
+};
+
+const toPlain = (value) => (value && typeof value.toObject === 'function' ? value.toObject() : value);
+
+const pickWeights = (mix, keys) => keys.reduce((weights, key) => ({
+  ...weights,
+  [key]: Math.max(Number(mix && mix[key]) || 0, 0),
+}), {});
+
+const hasWeight = (weights) => Object.values(weights).some(weight => weight > 0);
+
+/**
+ * Rotation policy of a category with the defaults for what it leaves unset.
+ * A mix without any share falls back to the default difficulties and to the
+ * category's own content type.
+ * @param {Object} category - Category
+ * @returns {Object} { publishCount, generateCount, cadence, intervalDays, difficultyMix, contentTypeMix, keepTopPerformers }
+ */
+const resolvePolicy = (category) => {
+  const rotation = toPlain(category && category.rotation) || {};
+  const policy = { ...DEFAULT_POLICY };
+
+  ['publishCount', 'generateCount', 'intervalDays'].forEach(field => {
+    if (Number.isInteger(rotation[field]) && rotation[field] >= 0) policy[field] = rotation[field];
+  });
+  if (CADENCES.includes(rotation.cadence)) policy.cadence = rotation.cadence;
+  policy.keepTopPerformers = rotation.keepTopPerformers === true;
+
+  const difficultyMix = pickWeights(rotation.difficultyMix, DIFFICULTIES);
+  policy.difficultyMix = hasWeight(difficultyMix) ? difficultyMix : { ...DEFAULT_POLICY.difficultyMix };
+
+  const contentTypeMix = pickWeights(rotation.contentTypeMix, CONTENT_TYPES);
+  policy.contentTypeMix = hasWeight(contentTypeMix)
+    ? contentTypeMix
+    : { [(category && category.contentType) || 'hack']: 100 };
+
+  return policy;
+};
+
+/**
+ * Days between two rotations of a policy
+ * @param {Object} policy - Resolved policy
+ * @returns {Number} Days
+ */
+const getIntervalDays = (policy) => {
+  if (policy.cadence === 'weekly') return 7;
+  if (policy.cadence === 'every_n_days') return Math.max(policy.intervalDays, 1);
+  return 1;
+};
+
+/**
+ * When a category is next rotated
+ * @param {Object} category - Category with lastRotatedAt
+ * @param {Object} policy - Resolved policy
+ * @returns {Date|null} Date of the next rotation, null when it never rotated
+ */
+const getNextRotation = (category, policy) => {
+  if (!category.lastRotatedAt) return null;
+  return new Date(new Date(category.lastRotatedAt).getTime() + getIntervalDays(policy) * DAY_MS);
+};
+
+/**
+ * Whether the category's content should rotate in a run at the given time
+ * @param {Object} category - Category with lastRotatedAt
+ * @param {Object} policy - Resolved policy
+ * @param {Date} now - Time of the run
+ * @returns {Boolean}
+ */
+const isRotationDue = (category, policy, now = new Date()) => {
+  const next = getNextRotation(category, policy);
+  return !next || now.getTime() >= next.getTime() - DUE_SLACK_MS;
+};
+
+/**
+ * Split a count by weights, rounding so the parts add up to the count
+ * (largest remainders first, ties in the order of the weights)
+ * @param {Object} weights - Key -> weight
+ * @param {Number} count - Total
+ * @returns {Object} Key -> count
+ */
+const allocate = (weights, count) => {
+  const keys = Object.keys(weights);
+  const total = keys.reduce((sum, key) => sum + weights[key], 0);
+  const counts = keys.reduce((result, key) => ({ ...result, [key]: 0 }), {});
+  if (total <= 0 || count <= 0) return counts;
+
+  const shares = keys.map(key => ({ key, exact: (count * weights[key]) / total }));
+  shares.forEach(share => { counts[share.key] = Math.floor(share.exact); });
+
+  let left = count - shares.reduce((sum, share) => sum + counts[share.key], 0);
+  const byRemainder = [...shares].sort((a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact)));
+  for (let i = 0; left > 0; i++, left--) {
+    counts[byRemainder[i].key]++;
+  }
+
+  return counts;
+};
+
+/**
+ * Items a refresh generates for a policy: difficulties from easy to hard,
+ * content types interleaved so each difficulty gets a share of them
+ * @param {Object} policy - Resolved policy
+ * @returns {Array} [{ difficulty, contentType }]
+ */
+const planGeneration = (policy) => {
+  const difficulties = allocate(policy.difficultyMix, policy.generateCount);
+  const contentTypes = allocate(policy.contentTypeMix, policy.generateCount);
+
+  const difficultyOrder = DIFFICULTIES.flatMap(difficulty => Array(difficulties[difficulty]).fill(difficulty));
+  const typeOrder = [];
+  const remaining = { ...contentTypes };
+  while (typeOrder.length < policy.generateCount) {
+    Object.keys(remaining).forEach(type => {
+      if (remaining[type] > 0) {
+        typeOrder.push(type);
+        remaining[type]--;
+      }
+    });
+  }
+
+  return difficultyOrder.map((difficulty, index) => ({ difficulty, contentType: typeOrder[index] }));
+};
+
+module.exports = {
+  CADENCES,
+  DIFFICULTIES,
+  CONTENT_TYPES,
+  DEFAULT_POLICY,
+  resolvePolicy,
+  getIntervalDays,
+  getNextRotation,
+  isRotationDue,
+  allocate,
+  planGeneration,
+};
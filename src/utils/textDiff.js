@@ -0,0 +1,47 @@
+/**
+ * Line-based diff of two texts (longest common subsequence)
+ * @param {String} oldText - Original text
+ * @param {String} newText - Changed text
+ * @returns {Object} { lines: [{ type: 'equal' | 'added' | 'removed', text }], added, removed }
+ */
+const diffLines = (oldText, newText) => {
+  const a = (oldText || '').split(/\r?\n/);
+  const b = (newText || '').split(/\r?\n/);
+  const m = a.length;
+  const n = b.length;
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+  while (i < m) lines.push({ type: 'removed', text: a[i++] });
+  while (j < n) lines.push({ type: 'added', text: b[j++] });
+
+  return {
+    lines,
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+};
+
+module.exports = { diffLines };
@@ -0,0 +1,130 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The first and the last time zones to reach a date (UTC+14 and UTC-12, the
+// Etc/ zones count the other way round)
+const EARLIEST_TIMEZONE = 'Etc/GMT-14';
+const LATEST_TIMEZONE = 'Etc/GMT+12';
+
+/**
+ * Whether the runtime knows an IANA time zone, e.g. Europe/Istanbul
+ * @param {String} timezone - Time zone name
+ * @returns {Boolean}
+ */
+const isValidTimezone = (timezone) => {
+  if (!timezone || typeof timezone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Time zone of users and devices that don't send one (DEFAULT_TIMEZONE,
+ * otherwise the server's own)
+ * @returns {String} Time zone name
+ */
+const getDefaultTimezone = () => {
+  if (isValidTimezone(process.env.DEFAULT_TIMEZONE)) return process.env.DEFAULT_TIMEZONE;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+};
+
+// Wall clock of an instant in a time zone
+const getLocalParts = (date, timezone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  return parts.reduce((result, part) => (
+    part.type === 'literal' ? result : { ...result, [part.type]: parseInt(part.value, 10) }
+  ), {});
+};
+
+// Milliseconds a time zone is ahead of UTC at an instant
+const getOffset = (date, timezone) => {
+  const local = getLocalParts(date, timezone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+const pad = (value) => String(value).padStart(2, '0');
+
+/**
+ * Calendar date of an instant in a time zone
+ * @param {Date} date - Instant
+ * @param {String} timezone - Time zone name
+ * @returns {String} YYYY-MM-DD
+ */
+const getDateKey = (date = new Date(), timezone = getDefaultTimezone()) => {
+  const local = getLocalParts(new Date(date), timezone);
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}`;
+};
+
+/**
+ * Calendar date a number of days from another
+ * @param {String} key - YYYY-MM-DD
+ * @param {Number} days - Days to add, negative for earlier dates
+ * @returns {String} YYYY-MM-DD
+ */
+const addDays = (key, days) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+};
+
+// Instant of a wall clock midnight, checked again for days a DST change shifts
+const getLocalMidnight = (key, timezone) => {
+  const [year, month, day] = key.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day);
+  let instant = wall - getOffset(new Date(wall), timezone);
+  instant = wall - getOffset(new Date(instant), timezone);
+  return new Date(instant);
+};
+
+/**
+ * Start and end of the local day an instant falls on in a time zone
+ * @param {String} timezone - Time zone name
+ * @param {Date} date - Instant
+ * @returns {Object} { date: YYYY-MM-DD, start, end } with end exclusive
+ */
+const getDayWindow = (timezone = getDefaultTimezone(), date = new Date()) => {
+  const key = getDateKey(date, timezone);
+  return {
+    date: key,
+    start: getLocalMidnight(key, timezone),
+    end: getLocalMidnight(addDays(key, 1), timezone),
+  };
+};
+
+/**
+ * First date that hasn't begun anywhere yet, the date a refresh stages a deck for
+ * @param {Date} now - Time of the refresh
+ * @returns {String} YYYY-MM-DD
+ */
+const getNextDeckDate = (now = new Date()) => addDays(getDateKey(now, EARLIEST_TIMEZONE), 1);
+
+/**
+ * Oldest date it still is somewhere, decks from before it are over everywhere
+ * @param {Date} now - Current time
+ * @returns {String} YYYY-MM-DD
+ */
+const getOldestLiveDate = (now = new Date()) => getDateKey(now, LATEST_TIMEZONE);
+
+module.exports = {
+  EARLIEST_TIMEZONE,
+  LATEST_TIMEZONE,
+  isValidTimezone,
+  getDefaultTimezone,
+  getDateKey,
+  addDays,
+  getDayWindow,
+  getNextDeckDate,
+  getOldestLiveDate,
+};
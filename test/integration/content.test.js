@@ -0,0 +1,166 @@
+const request = require('supertest');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { connectDB, clearDatabase, disconnectDB } = require('../helpers/db');
+const User = require('../../src/models/user.model');
+const Category = require('../../src/models/category.model');
+const Content = require('../../src/models/content.model');
+const errorHandler = require('../../src/middleware/error.middleware');
+const contentRoutes = require('../../src/routes/content.routes');
+const { getDateKey, addDays } = require('../../src/utils/timezone');
+
+// Create Express app for testing
+const app = express();
+app.use(express.json());
+app.use('/api/content', contentRoutes);
+app.use(errorHandler);
+
+let testUser;
+let userToken;
+let adminToken;
+let testCategory;
+
+const createToken = (user) => jwt.sign(
+  { id: user._id, role: user.role },
+  process.env.JWT_SECRET,
+  { expiresIn: process.env.JWT_EXPIRES_IN }
+);
+
+const createContent = (fields) => Content.create({
+  title: 'Freeze herbs in olive oil',
+  summary: 'Keep fresh herbs for months.',
+  body: 'Chop the herbs, put them in an ice cube tray and cover them with olive oil. Freeze the tray and drop a cube into the pan when you cook.',
+  category: testCategory._id,
+  authorId: testUser._id,
+  contentType: 'hack',
+  status: 'published',
+  ...fields
+});
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Content Reader',
+    email: 'content-reader@example.com',
+    password: 'password123',
+    role: 'user',
+    verified: true
+  });
+  userToken = createToken(testUser);
+
+  const adminUser = await User.create({
+    name: 'Content Editor',
+    email: 'content-editor@example.com',
+    password: 'password123',
+    role: 'admin',
+    verified: true
+  });
+  adminToken = createToken(adminUser);
+
+  testCategory = await Category.create({
+    name: 'Kitchen',
+    description: 'Kitchen hacks',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  await Content.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Content API', () => {
+  describe('GET /api/content/pool', () => {
+    test('should list the content of a pool', async () => {
+      const liked = await createContent({ pool: 'highly_liked' });
+      await createContent({ title: 'Regular tip', pool: 'regular' });
+
+      const response = await request(app)
+        .get('/api/content/pool')
+        .query({ pool: 'highly_liked' })
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(200);
+
+      expect(response.body.status).toBe('success');
+      expect(response.body.data.content.map(item => item._id)).toEqual([liked._id.toString()]);
+    });
+  });
+
+  describe('GET /api/content/daily', () => {
+    test('should serve the deck of the day in the device\'s time zone', async () => {
+      const timezone = 'Pacific/Auckland';
+      const today = getDateKey(new Date(), timezone);
+      const todays = await createContent({ deckDate: today });
+      await createContent({ title: 'Tomorrow\'s tip', deckDate: addDays(today, 1) });
+
+      const response = await request(app)
+        .get('/api/content/daily')
+        .set('Authorization', `Bearer ${userToken}`)
+        .set('X-Timezone', timezone)
+        .expect(200);
+
+      expect(response.body.timezone).toBe(timezone);
+      expect(response.body.date).toBe(today);
+      expect(response.body.data.content.map(item => item._id)).toEqual([todays._id.toString()]);
+    });
+
+    test('should keep serving the deck of a weekly category on its second day', async () => {
+      const timezone = 'Pacific/Auckland';
+      const today = getDateKey(new Date(), timezone);
+      await Category.updateOne({ _id: testCategory._id }, { $set: { rotation: { cadence: 'weekly' } } });
+      const staged = await createContent({ deckDate: addDays(today, -1) });
+      await createContent({ title: 'Last week\'s tip', deckDate: addDays(today, -8) });
+
+      const daily = await request(app)
+        .get('/api/content/daily')
+        .set('Authorization', `Bearer ${userToken}`)
+        .set('X-Timezone', timezone)
+        .expect(200);
+
+      expect(daily.body.data.content.map(item => item._id)).toEqual([staged._id.toString()]);
+
+      const byCategory = await request(app)
+        .get(`/api/content/category/${testCategory._id}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .set('X-Timezone', timezone)
+        .expect(200);
+
+      expect(byCategory.body.data.content.map(item => item._id)).toEqual([staged._id.toString()]);
+    });
+  });
+
+  describe('PATCH /api/content/:id', () => {
+    test('should edit content saved before it had translations', async () => {
+      const content = await createContent();
+      await Content.collection.updateOne({ _id: content._id }, { $unset: { translations: '' } });
+
+      const response = await request(app)
+        .patch(`/api/content/${content._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ title: 'Freeze herbs in ice cube trays' })
+        .expect(200);
+
+      expect(response.body.data.content.title).toBe('Freeze herbs in ice cube trays');
+    });
+
+    test('should mark the translations stale when the text changes', async () => {
+      const content = await createContent({
+        translations: [{ locale: 'tr', title: 'Otları zeytinyağında dondurun', body: 'Otları doğrayın ve zeytinyağıyla dondurun.' }]
+      });
+
+      const response = await request(app)
+        .patch(`/api/content/${content._id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ summary: 'Keep herbs fresh for months.' })
+        .expect(200);
+
+      expect(response.body.data.content.translations[0].stale).toBe(true);
+      expect((await Content.findById(content._id)).translations[0].stale).toBe(true);
+    });
+  });
+});
@@ -6,6 +6,7 @@ process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
 process.env.JWT_REFRESH_EXPIRES_IN = '7d';
 process.env.MONGODB_URI = 'mongodb://localhost:27017/windspire-test';
 process.env.ENABLE_SCHEDULER = 'false';
+process.env.LLM_PROVIDER = 'fake';
 
 // Global test teardown function
 afterAll(async () => {
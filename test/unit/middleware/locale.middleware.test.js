@@ -0,0 +1,47 @@
+const { resolveLocale, detectLocale } = require('../../../src/middleware/locale.middleware');
+
+const mockReq = ({ query = {}, headers = {} } = {}) => ({ query, headers });
+
+beforeEach(() => {
+  process.env.SUPPORTED_LOCALES = 'en,tr';
+  delete process.env.DEFAULT_LOCALE;
+});
+
+afterAll(() => {
+  delete process.env.SUPPORTED_LOCALES;
+});
+
+describe('Locale Middleware', () => {
+  test('should prefer the locale query parameter over Accept-Language', () => {
+    const req = mockReq({ query: { locale: 'tr' }, headers: { 'accept-language': 'en-US,en;q=0.9' } });
+
+    expect(resolveLocale(req)).toBe('tr');
+  });
+
+  test('should pick the most preferred supported language of Accept-Language', () => {
+    const req = mockReq({ headers: { 'accept-language': 'de-DE;q=0.9, tr-TR;q=0.8, en;q=0.5' } });
+
+    expect(resolveLocale(req)).toBe('tr');
+  });
+
+  test('should fall back to the default locale', () => {
+    process.env.DEFAULT_LOCALE = 'tr';
+
+    expect(resolveLocale(mockReq({ query: { locale: 'fr' } }))).toBe('tr');
+    expect(resolveLocale(mockReq({ headers: { 'accept-language': 'fr, *;q=0.1' } }))).toBe('tr');
+    expect(resolveLocale(mockReq())).toBe('tr');
+  });
+
+  test('should set req.locale', () => {
+    // Given
+    const req = mockReq({ headers: { 'accept-language': 'tr' } });
+    const next = jest.fn();
+
+    // When
+    detectLocale(req, {}, next);
+
+    // Then
+    expect(req.locale).toBe('tr');
+    expect(next).toHaveBeenCalledWith();
+  });
+});
@@ -0,0 +1,75 @@
+const { getDeviceTimezone, resolveTimezone, detectTimezone } = require('../../../src/middleware/timezone.middleware');
+const { getDayWindow, getNextDeckDate, getOldestLiveDate } = require('../../../src/utils/timezone');
+
+const mockReq = ({ query = {}, headers = {}, user } = {}) => ({ query, headers, user });
+
+beforeEach(() => {
+  process.env.DEFAULT_TIMEZONE = 'Europe/Istanbul';
+});
+
+afterAll(() => {
+  delete process.env.DEFAULT_TIMEZONE;
+});
+
+describe('Timezone Middleware', () => {
+  test('should prefer the timezone query parameter over the X-Timezone header', () => {
+    const req = mockReq({ query: { timezone: 'America/New_York' }, headers: { 'x-timezone': 'Asia/Tokyo' } });
+
+    expect(getDeviceTimezone(req)).toBe('America/New_York');
+  });
+
+  test('should prefer the device time zone over the user\'s saved one', () => {
+    const req = mockReq({ headers: { 'x-timezone': 'Asia/Tokyo' }, user: { timezone: 'America/New_York' } });
+
+    expect(resolveTimezone(req)).toBe('Asia/Tokyo');
+    expect(resolveTimezone(mockReq({ user: { timezone: 'America/New_York' } }))).toBe('America/New_York');
+  });
+
+  test('should ignore unknown time zones and fall back to the default', () => {
+    const req = mockReq({ query: { timezone: 'Mars/Olympus_Mons' } });
+
+    expect(getDeviceTimezone(req)).toBeNull();
+    expect(resolveTimezone(req)).toBe('Europe/Istanbul');
+  });
+
+  test('should set req.timezone', () => {
+    // Given
+    const req = mockReq({ headers: { 'x-timezone': 'America/Los_Angeles' } });
+    const next = jest.fn();
+
+    // When
+    detectTimezone(req, {}, next);
+
+    // Then
+    expect(req.timezone).toBe('America/Los_Angeles');
+    expect(next).toHaveBeenCalledWith();
+  });
+});
+
+describe('Day Windows', () => {
+  test('should give the same instant different days in different time zones', () => {
+    const instant = new Date('2026-10-19T22:30:00Z');
+
+    expect(getDayWindow('Europe/Istanbul', instant)).toEqual({
+      date: '2026-10-20',
+      start: new Date('2026-10-19T21:00:00Z'),
+      end: new Date('2026-10-20T21:00:00Z')
+    });
+    expect(getDayWindow('America/New_York', instant).date).toBe('2026-10-19');
+  });
+
+  test('should follow daylight saving changes', () => {
+    const window = getDayWindow('America/New_York', new Date('2026-03-08T12:00:00Z'));
+
+    expect(window.start).toEqual(new Date('2026-03-08T05:00:00Z'));
+    expect(window.end).toEqual(new Date('2026-03-09T04:00:00Z'));
+  });
+
+  test('should stage the first date that has not begun anywhere', () => {
+    const refresh = new Date('2026-10-19T09:00:00Z');
+
+    expect(getNextDeckDate(refresh)).toBe('2026-10-20');
+    expect(getOldestLiveDate(refresh)).toBe('2026-10-18');
+    expect(getNextDeckDate(new Date('2026-10-19T11:00:00Z'))).toBe('2026-10-21');
+  });
+});
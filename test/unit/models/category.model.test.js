@@ -102,4 +102,35 @@ describe('Category Model', () => {
     await expect(Category.create(categoryWithoutDescription)).rejects.toThrow();
     await expect(Category.create(categoryWithoutCreator)).rejects.toThrow();
   });
-}); 
\ No newline at end of file
+
+  test('should default to the daily rotation policy', async () => {
+    // When
+    const category = await Category.create({
+      name: 'Rotation Category',
+      description: 'Category with the default rotation',
+      createdBy: testUser._id
+    });
+    
+    // Then
+    expect(category.rotation.cadence).toBe('daily');
+    expect(category.rotation.publishCount).toBe(10);
+    expect(category.rotation.generateCount).toBe(10);
+    expect(category.rotation.difficultyMix.toObject()).toEqual({ beginner: 60, intermediate: 30, advanced: 10 });
+    expect(category.rotation.keepTopPerformers).toBe(false);
+    expect(category.lastRotatedAt).toBeNull();
+  });
+  
+  test('should reject an invalid rotation policy', async () => {
+    // Given
+    const categoryData = {
+      name: 'Bad Rotation Category',
+      description: 'Category with an unknown cadence',
+      createdBy: testUser._id
+    };
+    
+    // When & Then
+    await expect(Category.create({ ...categoryData, rotation: { cadence: 'hourly' } })).rejects.toThrow();
+    await expect(Category.create({ ...categoryData, rotation: { publishCount: -1 } })).rejects.toThrow();
+    await expect(Category.create({ ...categoryData, rotation: { difficultyMix: { beginner: 150 } } })).rejects.toThrow();
+  });
+});
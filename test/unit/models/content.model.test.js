@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+const Content = require('../../../src/models/content.model');
+
+const buildQuote = (fields) => new Content({
+  title: 'Start with the hardest task',
+  category: new mongoose.Types.ObjectId(),
+  authorId: new mongoose.Types.ObjectId(),
+  contentType: 'quote',
+  ...fields
+});
+
+describe('Content Model', () => {
+  describe('quotes', () => {
+    test('should build the body and summary from the structured attribution', async () => {
+      // Given
+      const quote = buildQuote({
+        quoteText: 'If it\'s your job to eat a frog, it\'s best to do it first thing in the morning.',
+        author: 'Brian Tracy',
+        sourceTitle: 'Eat That Frog!',
+        sourceYear: 2001
+      });
+
+      // When
+      await quote.validate();
+
+      // Then
+      expect(quote.body).toBe('"If it\'s your job to eat a frog, it\'s best to do it first thing in the morning."\n\n— Brian Tracy, *Eat That Frog!* (2001)');
+      expect(quote.summary).toBe(quote.quoteText);
+    });
+
+    test('should return the structured form of a quote stored as free text', () => {
+      // Given
+      const quote = buildQuote({ body: '“Habits are the compound interest of self-improvement.” — Atomic Habits by James Clear' });
+
+      // Then
+      expect(quote.getQuote()).toEqual({
+        quoteText: 'Habits are the compound interest of self-improvement.',
+        author: 'James Clear',
+        sourceTitle: 'Atomic Habits',
+        sourceYear: null
+      });
+    });
+
+    test('should not treat other content types as quotes', () => {
+      const hack = buildQuote({ contentType: 'hack', body: '"Quoted" — Someone' });
+
+      expect(hack.getQuote()).toBeNull();
+    });
+  });
+
+  describe('translations', () => {
+    const buildHack = () => new Content({
+      title: 'Wait 48 hours before buying',
+      summary: 'Cut impulse spending.',
+      body: 'Add anything you want to a list and revisit it after two days.',
+      category: new mongoose.Types.ObjectId(),
+      authorId: new mongoose.Types.ObjectId(),
+      locale: 'en',
+      translations: [{
+        locale: 'tr',
+        title: 'Satın almadan önce 48 saat bekleyin',
+        body: 'İstediğiniz her şeyi bir listeye ekleyin ve iki gün sonra tekrar bakın.'
+      }]
+    });
+
+    test('should serve the translation of the requested locale', () => {
+      const localized = buildHack().localize('tr');
+
+      expect(localized.title).toBe('Satın almadan önce 48 saat bekleyin');
+      expect(localized.summary).toBe('Cut impulse spending.');
+      expect(localized.locale).toBe('tr');
+      expect(localized.availableLocales).toEqual(['en', 'tr']);
+      expect(localized.translations).toBeUndefined();
+    });
+
+    test('should fall back to the original when a translation is missing', () => {
+      const localized = buildHack().localize('de');
+
+      expect(localized.title).toBe('Wait 48 hours before buying');
+      expect(localized.locale).toBe('en');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+const User = require('../../../src/models/user.model');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildUser = (fields) => new User({
+  name: 'Streak User',
+  email: 'streak@example.com',
+  password: 'password123',
+  ...fields
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('User Model', () => {
+  describe('updateStreak', () => {
+    test('should continue the streak from the previous local day', () => {
+      // Given: 23:00 yesterday and 08:00 today in New York, both the same UTC date
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+      const user = buildUser({
+        timezone: 'America/New_York',
+        stats: { streak: { current: 3, longest: 3, lastActivity: new Date('2026-10-19T03:00:00Z') } }
+      });
+
+      // When
+      user.updateStreak();
+
+      // Then
+      expect(user.stats.streak.current).toBe(4);
+      expect(user.stats.streak.longest).toBe(4);
+    });
+
+    test('should not count a second login on the same local day', () => {
+      // Given: 01:00 and 23:00 in Istanbul, different UTC dates
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-19T20:00:00Z'));
+      const lastActivity = new Date('2026-10-18T22:00:00Z');
+      const user = buildUser({
+        timezone: 'Europe/Istanbul',
+        stats: { streak: { current: 2, longest: 5, lastActivity } }
+      });
+
+      // When
+      user.updateStreak();
+
+      // Then
+      expect(user.stats.streak.current).toBe(2);
+      expect(user.stats.streak.lastActivity).toEqual(lastActivity);
+    });
+
+    test('should break the streak after a missed local day', () => {
+      // Given
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+      const user = buildUser({
+        timezone: 'Asia/Tokyo',
+        stats: { streak: { current: 6, longest: 6, lastActivity: new Date(Date.now() - 2 * DAY_MS) } }
+      });
+
+      // When
+      user.updateStreak();
+
+      // Then
+      expect(user.stats.streak.current).toBe(1);
+      expect(user.stats.streak.longest).toBe(6);
+    });
+  });
+
+  describe('isStreakBroken', () => {
+    test('should keep a streak with activity on the previous local day', () => {
+      // Given: the 18th and the 19th in Los Angeles, the 18th and the 20th in UTC
+      const now = new Date('2026-10-20T00:30:00Z');
+      const user = buildUser({
+        timezone: 'America/Los_Angeles',
+        stats: { streak: { current: 4, longest: 4, lastActivity: new Date('2026-10-18T23:30:00Z') } }
+      });
+
+      // Then
+      expect(user.isStreakBroken(now)).toBe(false);
+      expect(user.isStreakBroken(now, 'UTC')).toBe(true);
+    });
+
+    test('should break a streak after a missed local day', () => {
+      const now = new Date('2026-10-19T12:00:00Z');
+      const user = buildUser({
+        timezone: 'Asia/Tokyo',
+        stats: { streak: { current: 6, longest: 6, lastActivity: new Date(now.getTime() - 2 * DAY_MS) } }
+      });
+
+      expect(user.isStreakBroken(now)).toBe(true);
+    });
+  });
+
+  test('should reject an unknown time zone', async () => {
+    const user = buildUser({ timezone: 'Mars/Olympus_Mons' });
+
+    await expect(user.validate()).rejects.toThrow('Unknown time zone');
+  });
+});
@@ -0,0 +1,72 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const AIBudget = require('../../../src/models/aiBudget.model');
+const AIUsage = require('../../../src/models/aiUsage.model');
+const aiUsageService = require('../../../src/services/aiUsage.service');
+
+let testUser;
+let testCategory;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Budget Admin',
+    email: 'budget-admin@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Money Saving',
+    description: 'Tips for saving money',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  await AIBudget.deleteMany({});
+  await AIUsage.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('AI Budgets', () => {
+  beforeEach(async () => {
+    await AIBudget.create({ name: 'Money Saving', scope: 'category', category: testCategory._id, monthlyLimit: 1, action: 'block' });
+    await AIUsage.create({ provider: 'openai', model: 'gpt-4o-mini', category: testCategory._id, estimatedCost: 2 });
+  });
+
+  test('should block calls for a category whose budget is exhausted', async () => {
+    await expect(aiUsageService.enforceBudget(testCategory)).rejects.toMatchObject({ statusCode: 402 });
+  });
+
+  test('should check calls without a category against global budgets only', async () => {
+    await AIBudget.create({ name: 'Everything', monthlyLimit: 10, action: 'block' });
+
+    const statuses = await aiUsageService.getBudgetStatus();
+
+    expect(statuses.map(status => status.budget.name)).toEqual(['Everything']);
+    await expect(aiUsageService.enforceBudget()).resolves.toEqual([]);
+  });
+
+  test('should list every active budget for the budget overview', async () => {
+    await AIBudget.create({ name: 'Everything', monthlyLimit: 10 });
+
+    const statuses = await aiUsageService.getBudgetStatus(null, { all: true });
+
+    expect(statuses.map(status => status.budget.name).sort()).toEqual(['Everything', 'Money Saving']);
+  });
+
+  test('should report every active budget in the usage analytics', async () => {
+    await AIBudget.create({ name: 'Everything', monthlyLimit: 10 });
+
+    const analytics = await aiUsageService.getUsageAnalytics();
+
+    expect(analytics.budgets.map(budget => budget.name).sort()).toEqual(['Everything', 'Money Saving']);
+  });
+});
@@ -0,0 +1,95 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const LintRule = require('../../../src/models/lintRule.model');
+const contentLintService = require('../../../src/services/contentLint.service');
+
+const cleanHack = {
+  contentType: 'hack',
+  title: 'Freeze herbs in olive oil',
+  summary: 'Keep fresh herbs for months.',
+  body: 'Chop the herbs, put them in an ice cube tray and cover them with olive oil. Freeze the tray and drop a cube into the pan when you cook.',
+  tags: ['cooking', 'herbs']
+};
+
+beforeAll(async () => {
+  await connectDB();
+});
+
+afterEach(async () => {
+  await LintRule.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Content Lint Service', () => {
+  test('should pass clean content', async () => {
+    const lint = await contentLintService.lint(cleanHack);
+
+    expect(lint).toEqual({ errors: 0, warnings: 0, issues: [] });
+  });
+
+  test('should report errors and warnings per rule', async () => {
+    const lint = await contentLintService.lint({
+      ...cleanHack,
+      title: 'FREEZE YOUR HERBS',
+      summary: '',
+      body: '```json\n{"title": "Freeze herbs"}\n```',
+      tags: ['herbs']
+    });
+
+    expect(lint.issues.map(issue => issue.rule)).toEqual([
+      'body-length',
+      'summary',
+      'no-leftover-markup',
+      'no-leftover-markup',
+      'tag-count',
+      'title-not-all-caps'
+    ]);
+    expect(lint.errors).toBe(4);
+    expect(lint.warnings).toBe(2);
+  });
+
+  test('should not check the body length of quotes', async () => {
+    const lint = await contentLintService.lint({
+      ...cleanHack,
+      contentType: 'quote',
+      summary: 'Less is more.',
+      body: '"Less is more."\n\n— Ludwig Mies van der Rohe'
+    });
+
+    expect(lint.errors).toBe(0);
+  });
+
+  test('should apply admin settings over the defaults', async () => {
+    await contentLintService.updateRule('no-ai-phrasing', { severity: 'warning', options: { phrases: ['in conclusion'] } });
+    await contentLintService.updateRule('tag-count', { enabled: false });
+
+    const lint = await contentLintService.lint({ ...cleanHack, body: `${cleanHack.body} In conclusion, as an AI I like herbs.`, tags: [] });
+
+    expect(lint.issues).toEqual([{ rule: 'no-ai-phrasing', severity: 'warning', message: 'Contains "in conclusion"' }]);
+
+    const rule = await contentLintService.resetRule('tag-count');
+    expect(rule.enabled).toBe(true);
+  });
+
+  test('should reject options the rule does not have', async () => {
+    await expect(contentLintService.updateRule('body-length', { options: { min: 'short' } }))
+      .rejects.toThrow('Invalid value for option "min"');
+    await expect(contentLintService.updateRule('body-length', { options: { words: 10 } }))
+      .rejects.toThrow('has no option "words"');
+  });
+
+  test('should block publishing with errors unless a reason is given', async () => {
+    const broken = { ...cleanHack, summary: '' };
+
+    const blocked = await contentLintService.checkPublishable(broken);
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.lint.errors).toBe(1);
+
+    const overridden = await contentLintService.checkPublishable(broken, { overrideReason: 'Summary added in the app' });
+    expect(overridden.allowed).toBe(true);
+    expect(overridden.lintOverride).toMatchObject({ reason: 'Summary added in the app', rules: ['summary'] });
+  });
+});
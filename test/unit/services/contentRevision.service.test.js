@@ -0,0 +1,88 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const contentRevisionService = require('../../../src/services/contentRevision.service');
+
+let testUser;
+let testContent;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Revision User',
+    email: 'content-revision@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  const category = await Category.create({
+    name: 'Kitchen',
+    description: 'Kitchen hacks',
+    createdBy: testUser._id
+  });
+
+  testContent = await Content.create({
+    title: 'Freeze herbs in olive oil',
+    summary: 'Keep herbs for months.',
+    body: 'Chop the herbs.\nCover them with olive oil in an ice cube tray.',
+    tags: ['cooking', 'herbs'],
+    category: category._id,
+    authorId: testUser._id
+  });
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Content Revisions', () => {
+  test('should keep the state before the first edit', async () => {
+    await contentRevisionService.ensureCurrentRevision(testContent);
+
+    testContent.body = 'Chop the herbs.\nCover them with melted butter in an ice cube tray.';
+    testContent.tags = ['cooking', 'herbs', 'freezer'];
+    await testContent.save();
+
+    const revision = await contentRevisionService.recordRevision(testContent, { source: 'ai-rewrite', user: testUser._id, model: 'gpt-4o' });
+
+    expect(revision.revision).toBe(2);
+    expect(revision.changedFields).toEqual(['body', 'tags']);
+    expect(revision.model).toBe('gpt-4o');
+
+    const revisions = await contentRevisionService.listRevisions(testContent._id);
+    expect(revisions.map(item => item.source)).toEqual(['ai-rewrite', 'initial']);
+  });
+
+  test('should not store a revision when nothing changed', async () => {
+    const latest = await contentRevisionService.getLatestRevision(testContent._id);
+    const revision = await contentRevisionService.recordRevision(testContent, { source: 'manual' });
+
+    expect(String(revision._id)).toBe(String(latest._id));
+  });
+
+  test('should compare two revisions field by field', async () => {
+    const [latest, first] = await contentRevisionService.listRevisions(testContent._id);
+    const { fields } = await contentRevisionService.diffRevisions(testContent._id, first._id, latest._id);
+
+    expect(fields.title.changed).toBe(false);
+    expect(fields.body.changed).toBe(true);
+    expect(fields.body.diff.removed).toBe(1);
+    expect(fields.body.diff.added).toBe(1);
+    expect(fields.tags.to).toEqual(['cooking', 'herbs', 'freezer']);
+  });
+
+  test('should restore an older revision as a new revision', async () => {
+    const first = (await contentRevisionService.listRevisions(testContent._id)).pop();
+
+    const { revision, content } = await contentRevisionService.restoreRevision(testContent._id, first._id, testUser._id);
+
+    expect(content.body).toBe('Chop the herbs.\nCover them with olive oil in an ice cube tray.');
+    expect(content.tags).toEqual(['cooking', 'herbs']);
+    expect(revision.revision).toBe(3);
+    expect(revision.source).toBe('restore');
+    expect(revision.restoredFrom).toBe(1);
+  });
+});
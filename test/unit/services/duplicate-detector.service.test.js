@@ -0,0 +1,71 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const DeletedContent = require('../../../src/models/deletedContent.model');
+const duplicateDetectorService = require('../../../src/services/duplicate-detector.service');
+
+let testUser;
+let testCategory;
+
+const retiredHack = {
+  title: 'Freeze leftover herbs in olive oil',
+  summary: 'Keep herbs fresh for months',
+  body: 'Chop leftover herbs, pack them into an ice cube tray and cover them with olive oil. Freeze the tray and drop a cube into the pan whenever a recipe needs herbs.',
+};
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Duplicate Test User',
+    email: 'duplicate-test@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Kitchen',
+    description: 'Kitchen hacks',
+    createdBy: testUser._id
+  });
+
+  await DeletedContent.create({
+    ...retiredHack,
+    category: testCategory._id,
+    authorId: testUser._id,
+    reason: 'auto_delete'
+  });
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Duplicate Gate', () => {
+  test('should reject a near-duplicate of deleted content', async () => {
+    const gate = await duplicateDetectorService.createDuplicateGate(testCategory._id);
+
+    const match = gate.check({
+      title: 'Freeze your leftover herbs in olive oil',
+      body: retiredHack.body.replace('whenever', 'every time'),
+    });
+
+    expect(match).not.toBeNull();
+    expect(match.source).toBe('deleted');
+    expect(gate.stats).toMatchObject({ checked: 1, rejected: 1 });
+  });
+
+  test('should accept new items and catch repeats within the same run', async () => {
+    const gate = await duplicateDetectorService.createDuplicateGate(testCategory._id);
+    const newHack = {
+      title: 'Use a spoon to peel ginger',
+      body: 'Scrape the edge of a teaspoon along fresh ginger root. The thin skin comes off easily and far less of the flesh is wasted than with a knife or peeler.',
+    };
+
+    expect(gate.check(newHack)).toBeNull();
+    gate.remember(newHack);
+
+    expect(gate.check(newHack)).toMatchObject({ source: 'new', similarity: 1 });
+  });
+});
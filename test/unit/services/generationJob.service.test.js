@@ -0,0 +1,205 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const GenerationJob = require('../../../src/models/generationJob.model');
+const JobLock = require('../../../src/models/jobLock.model');
+const JobRun = require('../../../src/models/jobRun.model');
+const jobLockService = require('../../../src/services/jobLock.service');
+const generationJobService = require('../../../src/services/generationJob.service');
+const fakeProvider = require('../../../src/services/llm/fake.provider');
+
+let testUser;
+let testCategory;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Job Test User',
+    email: 'job-test@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Money Saving',
+    description: 'Tips for saving money',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  fakeProvider.reset();
+  await GenerationJob.deleteMany({});
+  await Content.deleteMany({});
+  await JobLock.deleteMany({});
+  await JobRun.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Generation Job Service', () => {
+  test('should split the requested count into batches', async () => {
+    const job = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 12
+    });
+
+    expect(job.status).toBe('queued');
+    expect(job.items.map(item => item.count)).toEqual([5, 5, 2]);
+    expect(job.progress.total).toBe(3);
+  });
+
+  test('should generate content item by item and complete the job', async () => {
+    await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 3
+    });
+
+    await generationJobService.processQueue();
+
+    const job = await GenerationJob.findOne();
+    expect(job.status).toBe('completed');
+    expect(job.progress.completed).toBe(1);
+    expect(job.progress.generated).toBe(3);
+    expect(job.items[0].contentIds).toHaveLength(3);
+    expect(await Content.countDocuments({ category: testCategory._id })).toBe(3);
+  });
+
+  test('should cancel a queued job without running it', async () => {
+    const created = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 2
+    });
+
+    const job = await generationJobService.cancelJob(created._id);
+
+    expect(job.status).toBe('cancelled');
+    expect(job.items[0].status).toBe('cancelled');
+
+    await generationJobService.processQueue();
+    expect(await Content.countDocuments()).toBe(0);
+  });
+
+  test('should retry the failed items of a job', async () => {
+    const created = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 1
+    });
+
+    await GenerationJob.findByIdAndUpdate(created._id, {
+      status: 'failed',
+      'items.0.status': 'failed',
+      'items.0.error': 'LLM request timed out'
+    });
+
+    const retried = await generationJobService.retryJob(created._id);
+    expect(retried.status).toBe('queued');
+    expect(retried.items[0].status).toBe('pending');
+
+    await generationJobService.processQueue();
+
+    const job = await GenerationJob.findById(created._id);
+    expect(job.status).toBe('completed');
+    expect(job.progress.generated).toBe(1);
+  });
+
+  test('should run a batch with per-entry settings and summarize it per category', async () => {
+    const created = await generationJobService.createBatchJob({
+      entries: [
+        { category: testCategory, contentType: 'tip', count: 7, difficulty: 'advanced', model: 'gpt-4o-mini' },
+        { category: testCategory, contentType: 'hack', count: 2 }
+      ],
+      user: testUser
+    });
+
+    expect(created.type).toBe('generate-batch');
+    expect(created.items.map(item => item.count)).toEqual([5, 2, 2]);
+    expect(created.getItemParams(created.items[0])).toMatchObject({ contentType: 'tip', difficulty: 'advanced', model: 'gpt-4o-mini' });
+
+    await generationJobService.processQueue();
+
+    const job = await GenerationJob.findById(created._id);
+    expect(job.status).toBe('completed');
+    expect(await Content.countDocuments({ contentType: 'tip', difficulty: 'advanced' })).toBe(7);
+    expect(await Content.countDocuments({ contentType: 'hack' })).toBe(2);
+    expect(job.result.byCategory).toHaveLength(2);
+    expect(job.result.byCategory[0]).toMatchObject({ contentType: 'tip', requested: 7, generated: 7, status: 'completed' });
+  });
+
+  test('should reject an empty batch', async () => {
+    await expect(generationJobService.createBatchJob({ entries: [], user: testUser }))
+      .rejects.toThrow('At least one batch entry is required');
+  });
+
+  test('should not retry a completed job', async () => {
+    const created = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 1
+    });
+
+    await generationJobService.processQueue();
+
+    await expect(generationJobService.retryJob(created._id)).rejects.toThrow('Only failed or cancelled jobs can be retried');
+  });
+
+  test('should re-queue only running jobs whose heartbeat expired', async () => {
+    const created = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory, testCategory],
+      user: testUser,
+      count: 1
+    });
+    const other = await generationJobService.createGenerateMultipleJob({
+      categories: [testCategory],
+      user: testUser,
+      count: 1
+    });
+    await GenerationJob.findByIdAndUpdate(created._id, {
+      status: 'running',
+      owner: 'api-2',
+      heartbeatAt: new Date(Date.now() - jobLockService.getTtlMs() - 1000),
+      'items.0.status': 'running'
+    });
+    await GenerationJob.findByIdAndUpdate(other._id, { status: 'running', owner: 'api-3', heartbeatAt: new Date() });
+
+    expect(await generationJobService.requeueStaleJobs()).toBe(1);
+
+    const stale = await GenerationJob.findById(created._id);
+    expect(stale.status).toBe('queued');
+    expect(stale.items[0].status).toBe('pending');
+    expect((await GenerationJob.findById(other._id)).status).toBe('running');
+  });
+});
+
+describe('Daily Refresh Jobs', () => {
+  test('should refuse to queue a refresh while another instance runs it', async () => {
+    await jobLockService.acquire('daily-content-refresh', { holder: 'api-2' });
+
+    await expect(generationJobService.createDailyRefreshJob(testUser))
+      .rejects.toMatchObject({ statusCode: 409, message: 'The daily content refresh is already running on api-2' });
+    expect(await GenerationJob.countDocuments()).toBe(0);
+  });
+
+  test('should skip a queued refresh when another instance took the lock meanwhile', async () => {
+    const { job: created } = await generationJobService.createDailyRefreshJob(testUser);
+    await jobLockService.acquire('daily-content-refresh', { holder: 'api-2' });
+
+    await generationJobService.processQueue();
+
+    const job = await GenerationJob.findById(created._id);
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Skipped, the daily content refresh is running on api-2');
+    const run = await JobRun.findOne({ job: 'daily-content-refresh' });
+    expect(run).toEqual(expect.objectContaining({ status: 'skipped', trigger: 'manual', lockHolder: 'api-2' }));
+    expect(run.triggeredBy.toString()).toBe(testUser._id.toString());
+  });
+});
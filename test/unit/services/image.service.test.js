@@ -0,0 +1,94 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const sharp = require('sharp');
+const imageService = require('../../../src/services/image.service');
+const fakeImageProvider = require('../../../src/services/imageGeneration/fake.provider');
+
+const originalEnv = { ...process.env };
+let uploadDir;
+
+const createImage = (width, height, format = 'png') => sharp({
+  create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } }
+})[format]().toBuffer();
+
+beforeEach(() => {
+  uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+  process.env.STORAGE_DRIVER = 'local';
+  process.env.UPLOAD_DIR = uploadDir;
+  process.env.UPLOAD_PUBLIC_URL = 'https://api.example.com/uploads';
+  delete process.env.IMAGE_MAX_BYTES;
+});
+
+afterEach(() => {
+  fs.rmSync(uploadDir, { recursive: true, force: true });
+  process.env = { ...originalEnv };
+});
+
+describe('Image Service', () => {
+  test('should store content images resized to card and thumbnail sizes', async () => {
+    const image = await imageService.processImage(await createImage(1600, 1200, 'jpeg'), { purpose: 'content' });
+
+    expect(image.storage).toBe('local');
+    expect(image.original).toEqual(expect.objectContaining({ format: 'jpeg', width: 1600, height: 1200 }));
+    expect(image.variants.card).toEqual(expect.objectContaining({ width: 1200, height: 675 }));
+    expect(image.variants.thumbnail).toEqual(expect.objectContaining({ width: 400, height: 225 }));
+    expect(image.url).toMatch(/^https:\/\/api\.example\.com\/uploads\/images\/content\/.+-card\.webp$/);
+    expect(image.thumbnailUrl).toMatch(/-thumbnail\.webp$/);
+
+    const stored = await sharp(path.join(uploadDir, image.variants.thumbnail.key)).metadata();
+    expect(stored).toEqual(expect.objectContaining({ format: 'webp', width: 400, height: 225 }));
+  });
+
+  test('should crop category icons to squares', async () => {
+    const image = await imageService.processImage(await createImage(300, 200), { purpose: 'category' });
+
+    expect(image.variants.card).toEqual(expect.objectContaining({ width: 512, height: 512 }));
+    expect(image.variants.thumbnail).toEqual(expect.objectContaining({ width: 128, height: 128 }));
+  });
+
+  test('should reject files that are not accepted images', async () => {
+    await expect(imageService.processImage(Buffer.from('not an image')))
+      .rejects.toMatchObject({ statusCode: 400, message: 'File is not a valid image' });
+
+    const svg = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>');
+    await expect(imageService.processImage(svg))
+      .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('Unsupported image type "svg"') });
+
+    await expect(imageService.processImage(await createImage(10, 10), { purpose: 'banner' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  test('should reject images over the size limit', async () => {
+    process.env.IMAGE_MAX_BYTES = '100';
+
+    await expect(imageService.processImage(await createImage(200, 200)))
+      .rejects.toMatchObject({ statusCode: 413 });
+    expect(fs.readdirSync(uploadDir)).toEqual([]);
+  });
+
+  test('should set a generated cover image on the content', async () => {
+    process.env.IMAGE_PROVIDER = 'fake';
+    const content = { title: 'Pack your bag the night before', save: jest.fn() };
+
+    const image = await imageService.generateCoverImage(content);
+
+    expect(image.provider).toBe('fake');
+    expect(content.image).toBe(image.url);
+    expect(content.imageThumbnail).toBe(image.thumbnailUrl);
+    expect(content.save).toHaveBeenCalled();
+  });
+
+  test('should not generate cover images without a provider', async () => {
+    delete process.env.IMAGE_PROVIDER;
+
+    await expect(imageService.generateCoverImage({ title: 'Anything', save: jest.fn() }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  test('should render the title with the fake provider', async () => {
+    const { data } = await fakeImageProvider.generate({ title: 'Fold shirts <fast> & flat' });
+
+    expect(await sharp(data).metadata()).toEqual(expect.objectContaining({ format: 'png', width: 1600, height: 1024 }));
+  });
+});
@@ -0,0 +1,263 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const JobRun = require('../../../src/models/jobRun.model');
+const JobSchedule = require('../../../src/models/jobSchedule.model');
+const JobLock = require('../../../src/models/jobLock.model');
+const contentService = require('../../../src/services/content.service');
+const jobRunService = require('../../../src/services/jobRun.service');
+const jobLockService = require('../../../src/services/jobLock.service');
+const schedulerService = require('../../../src/services/scheduler.service');
+
+let adminUser;
+
+const daysAgo = (days) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+beforeAll(async () => {
+  await connectDB();
+
+  adminUser = await User.create({
+    name: 'Jobs Admin',
+    email: 'jobs-admin@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await JobRun.deleteMany({});
+  await JobSchedule.deleteMany({});
+  await JobLock.deleteMany({});
+  await User.deleteMany({ _id: { $ne: adminUser._id } });
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Scheduled Job Runs', () => {
+  test('should list the scheduled jobs', async () => {
+    const jobs = await schedulerService.getJobs();
+
+    expect(jobs.map(job => job.name)).toEqual([
+      'daily-content-generation',
+      'content-recycling',
+      'user-streak-check',
+      'subscription-expiry-check',
+      'daily-content-refresh',
+      'content-publication'
+    ]);
+    expect(jobs.find(job => job.name === 'daily-content-refresh')).toEqual(
+      expect.objectContaining({ schedule: '0 0 * * *', timezone: null, enabled: true, params: {}, running: false })
+    );
+  });
+
+  test('should record a successful run with its result', async () => {
+    await User.create({
+      name: 'Lapsed User',
+      email: 'lapsed@example.com',
+      password: 'password123',
+      lastLogin: daysAgo(5),
+      stats: { streak: { current: 4 } }
+    });
+
+    const run = await schedulerService.runJob('user-streak-check', { trigger: 'manual', user: adminUser });
+
+    expect(run.status).toBe('succeeded');
+    expect(run.trigger).toBe('manual');
+    expect(run.triggeredBy.toString()).toBe(adminUser._id.toString());
+    expect(run.result).toEqual({ updated: 1 });
+    expect(run.finishedAt).toBeInstanceOf(Date);
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should record the error of a failed run', async () => {
+    jest.spyOn(User, 'find').mockRejectedValueOnce(new Error('connection reset'));
+
+    const run = await schedulerService.runJob('subscription-expiry-check');
+
+    expect(run.status).toBe('failed');
+    expect(run.trigger).toBe('cron');
+    expect(run.error.message).toBe('connection reset');
+    expect(run.result).toBeNull();
+  });
+
+  test('should not start a job that is already running', async () => {
+    const run = await schedulerService.runJob('content-recycling', { trigger: 'manual', user: adminUser, wait: false });
+
+    expect(run.status).toBe('running');
+    expect((await schedulerService.getJob('content-recycling')).running).toBe(true);
+    await expect(schedulerService.runJob('content-recycling')).rejects.toMatchObject({ statusCode: 409 });
+
+    await expect(schedulerService.runJob('unknown-job')).rejects.toMatchObject({ statusCode: 404 });
+
+    // Let the run finish before the next test clears the runs
+    while ((await JobRun.findById(run._id)).status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  });
+
+  test('should list runs newest first and find the latest run per job', async () => {
+    const older = await jobRunService.startRun('user-streak-check');
+    await jobRunService.finishRun(older, { result: { updated: 0 } });
+    const newer = await jobRunService.startRun('user-streak-check', { trigger: 'manual', user: adminUser });
+    await jobRunService.finishRun(newer, { error: new Error('boom'), failures: ['one item failed'] });
+    await jobRunService.startRun('content-recycling');
+
+    const { runs, total } = await jobRunService.listRuns({ job: 'user-streak-check' });
+    const latest = await jobRunService.getLatestRuns(['user-streak-check', 'daily-content-refresh']);
+
+    expect(total).toBe(2);
+    expect(runs.map(run => run.status)).toEqual(['failed', 'succeeded']);
+    expect(runs[0].failures.map(failure => failure.message)).toEqual(['one item failed']);
+    expect(latest['user-streak-check']._id.toString()).toBe(newer._id.toString());
+    expect(latest['daily-content-refresh']).toBeUndefined();
+  });
+});
+
+describe('Job Schedules', () => {
+  test('should apply the admin settings over the defaults', async () => {
+    const job = await schedulerService.updateJob('content-recycling', {
+      schedule: '30 5 * * 1',
+      timezone: 'Europe/Istanbul',
+      enabled: false,
+      params: { limit: 5 }
+    }, adminUser);
+
+    expect(job).toEqual(expect.objectContaining({
+      schedule: '30 5 * * 1',
+      timezone: 'Europe/Istanbul',
+      enabled: false,
+      params: { limit: 5 },
+      defaults: { schedule: '0 2 * * *', timezone: null, enabled: true, params: { limit: 20 } }
+    }));
+
+    const reset = await schedulerService.resetJob('content-recycling');
+    expect(reset).toEqual(expect.objectContaining({ schedule: '0 2 * * *', enabled: true, params: { limit: 20 } }));
+  });
+
+  test('should reject invalid settings', async () => {
+    await expect(schedulerService.updateJob('content-recycling', { schedule: '0 25 * * *' }))
+      .rejects.toMatchObject({ statusCode: 400, message: '"0 25 * * *" is not a valid cron expression' });
+    await expect(schedulerService.updateJob('content-recycling', { timezone: 'Mars/Olympus' }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(schedulerService.updateJob('content-recycling', { params: { limit: 0 } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(schedulerService.updateJob('content-recycling', { params: { perCategory: 3 } }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(schedulerService.updateJob('unknown-job', { enabled: false }))
+      .rejects.toMatchObject({ statusCode: 404 });
+
+    expect(await JobSchedule.countDocuments()).toBe(0);
+  });
+
+  test('should run jobs with their parameters', async () => {
+    const findRecyclable = jest.spyOn(contentService, 'findRecyclableContent').mockResolvedValue([]);
+    await schedulerService.updateJob('content-recycling', { params: { limit: 7 } });
+
+    const run = await schedulerService.runJob('content-recycling', { trigger: 'manual', user: adminUser });
+
+    expect(findRecyclable).toHaveBeenCalledWith(7);
+    expect(run.params).toEqual({ limit: 7 });
+    expect(run.result).toEqual({ recycled: 0 });
+  });
+});
+
+describe('Job Locks', () => {
+  test('should let one instance hold a job lock until it is released', async () => {
+    const lock = await jobLockService.acquire('content-recycling', { holder: 'api-1' });
+
+    expect(lock).toEqual(expect.objectContaining({ job: 'content-recycling', holder: 'api-1' }));
+    expect(await jobLockService.acquire('content-recycling', { holder: 'api-2' })).toBeNull();
+
+    await jobLockService.release(lock);
+
+    expect(await jobLockService.acquire('content-recycling', { holder: 'api-2' })).not.toBeNull();
+  });
+
+  test('should renew a lease only for its holder', async () => {
+    const lock = await jobLockService.acquire('content-recycling', { holder: 'api-1', ttlMs: 1000 });
+
+    expect(await jobLockService.renew(lock, 60000)).toBe(true);
+    expect(lock.expiresAt.getTime()).toBeGreaterThan(Date.now() + 50000);
+
+    await JobLock.updateOne({ _id: 'content-recycling' }, { token: 'taken-over' });
+
+    expect(await jobLockService.renew(lock, 60000)).toBe(false);
+  });
+
+  test('should take over an expired lease and fail the run it was held for', async () => {
+    const stale = await jobRunService.startRun('daily-content-refresh', { instance: 'api-1' });
+    const lock = await jobLockService.acquire('daily-content-refresh', { holder: 'api-1', ttlMs: 1000 });
+    await jobLockService.attachRun(lock, stale._id);
+    await JobLock.updateOne({ _id: 'daily-content-refresh' }, { expiresAt: new Date(Date.now() - 1000) });
+
+    const takeover = await jobLockService.acquire('daily-content-refresh', { holder: 'api-2' });
+
+    expect(takeover.holder).toBe('api-2');
+    const failed = await JobRun.findById(stale._id);
+    expect(failed.status).toBe('failed');
+    expect(failed.error.message).toMatch(/api-1 stopped renewing/);
+  });
+
+  test('should record a skipped run when another instance holds the lock', async () => {
+    await jobLockService.acquire('content-recycling', { holder: 'api-other' });
+    const findRecyclableContent = jest.spyOn(contentService, 'findRecyclableContent');
+
+    const run = await schedulerService.runJob('content-recycling');
+
+    expect(run.status).toBe('skipped');
+    expect(run.lockHolder).toBe('api-other');
+    expect(run.instance).toBe(jobLockService.getInstanceId());
+    expect(findRecyclableContent).not.toHaveBeenCalled();
+
+    const jobs = await schedulerService.getJobs();
+    expect(jobs.find(job => job.name === 'content-recycling')).toEqual(
+      expect.objectContaining({ running: true, lock: expect.objectContaining({ holder: 'api-other' }) })
+    );
+  });
+
+  test('should refuse a manual run while another instance holds the lock', async () => {
+    await jobLockService.acquire('user-streak-check', { holder: 'api-other' });
+
+    await expect(
+      schedulerService.runJob('user-streak-check', { trigger: 'manual', user: adminUser })
+    ).rejects.toMatchObject({ statusCode: 409 });
+
+    const runs = await JobRun.find({ job: 'user-streak-check' });
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toEqual(expect.objectContaining({ status: 'skipped', trigger: 'manual', lockHolder: 'api-other' }));
+  });
+
+  test('should release the lock when a run finishes', async () => {
+    const run = await schedulerService.runJob('subscription-expiry-check');
+
+    expect(run.instance).toBe(jobLockService.getInstanceId());
+    expect(await JobLock.findById('subscription-expiry-check')).toBeNull();
+  });
+});
+
+describe('Idle Runs', () => {
+  test('should not keep scheduled runs of the publication worker that did nothing', async () => {
+    const run = await schedulerService.runJob('content-publication');
+
+    expect(run).toBeNull();
+    expect(await JobRun.countDocuments({ job: 'content-publication' })).toBe(0);
+    expect(await JobLock.findById('content-publication')).toBeNull();
+  });
+
+  test('should keep manual runs of the publication worker', async () => {
+    const run = await schedulerService.runJob('content-publication', { trigger: 'manual', user: adminUser });
+
+    expect(run.status).toBe('succeeded');
+    expect(run.result).toEqual({ published: 0, lintBlocked: 0, expired: 0 });
+  });
+
+  test('should not record skipped scheduled runs of the publication worker', async () => {
+    await jobLockService.acquire('content-publication', { holder: 'api-other' });
+
+    expect(await schedulerService.runJob('content-publication')).toBeNull();
+    expect(await JobRun.countDocuments({ job: 'content-publication' })).toBe(0);
+  });
+});
@@ -0,0 +1,207 @@
+const llm = require('../../../src/services/llm');
+const fakeProvider = require('../../../src/services/llm/fake.provider');
+const pricing = require('../../../src/services/llm/pricing');
+const outputSchema = require('../../../src/services/llm/outputSchema');
+const rateLimiter = require('../../../src/services/llm/rateLimiter');
+
+describe('LLM Provider Layer', () => {
+  beforeEach(() => {
+    fakeProvider.reset();
+  });
+
+  describe('getProvider', () => {
+    it('should use the fake provider in tests', () => {
+      expect(llm.getProviderName()).toBe('fake');
+      expect(llm.getProvider().name).toBe('fake');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => llm.getProvider('does-not-exist')).toThrow('Unknown LLM provider');
+    });
+  });
+
+  describe('fake provider', () => {
+    const messages = [{ role: 'user', content: 'Create a life hack about saving money' }];
+
+    it('should return a single item from the matching fixture', async () => {
+      const response = await fakeProvider.complete({ model: 'gpt-4-turbo-preview', messages });
+      const item = JSON.parse(response.text);
+
+      expect(item).toHaveProperty('title');
+      expect(item).toHaveProperty('body');
+      expect(Array.isArray(item.tags)).toBe(true);
+      expect(response.model).toBe('gpt-4-turbo-preview');
+      expect(response.usage.promptTokens).toBeGreaterThan(0);
+      expect(response.usage.completionTokens).toBeGreaterThan(0);
+    });
+
+    it('should be deterministic for the same sequence of calls', async () => {
+      const first = await fakeProvider.complete({ messages });
+      fakeProvider.reset();
+      const second = await fakeProvider.complete({ messages });
+
+      expect(second.text).toBe(first.text);
+    });
+
+    it('should return an array when several items are requested', async () => {
+      const response = await fakeProvider.complete({
+        messages: [{ role: 'user', content: 'Generate 4 different hacks. Return a JSON array with 4 items.' }],
+      });
+      const items = JSON.parse(response.text);
+
+      expect(Array.isArray(items)).toBe(true);
+      expect(items).toHaveLength(4);
+    });
+
+    it('should answer quote prompts with structured quotes', async () => {
+      const response = await fakeProvider.complete({
+        messages: [{ role: 'user', content: `Generate one finance tip as a quote.${outputSchema.describeOutputSchema('quote')}` }],
+      });
+
+      expect(outputSchema.validateOutput(JSON.parse(response.text), { contentType: 'quote' }).valid).toBe(true);
+    });
+  });
+
+  describe('pricing', () => {
+    afterEach(() => {
+      delete process.env.LLM_PRICING;
+    });
+
+    it('should estimate the cost of a call from the token counts', () => {
+      // gpt-4o-mini: $0.15 input, $0.60 output per 1M tokens
+      expect(pricing.estimateCost('gpt-4o-mini', 1000000, 500000)).toBeCloseTo(0.45);
+    });
+
+    it('should treat unknown models as free', () => {
+      expect(pricing.getModelPricing('llama3')).toBeNull();
+      expect(pricing.estimateCost('llama3', 1000, 1000)).toBe(0);
+    });
+
+    it('should apply price overrides from LLM_PRICING', () => {
+      process.env.LLM_PRICING = JSON.stringify({ llama3: { input: 1, output: 2 } });
+
+      expect(pricing.estimateCost('llama3', 1000000, 1000000)).toBe(3);
+    });
+  });
+
+  describe('output schema', () => {
+    const validItem = {
+      title: 'Freeze leftover herbs in olive oil',
+      summary: 'Keep fresh herbs for months by freezing them in olive oil portions.',
+      body: 'Chop leftover herbs, pack them into an ice cube tray and cover them with olive oil. '.repeat(4),
+      tags: ['cooking', 'kitchen', 'food waste'],
+    };
+
+    it('should accept a single valid object', () => {
+      const result = outputSchema.validateOutput(validItem, { contentType: 'hack', count: 1 });
+
+      expect(result.valid).toBe(true);
+      expect(result.items).toHaveLength(1);
+    });
+
+    it('should report each field that breaks the limits', () => {
+      const result = outputSchema.validateOutput(
+        { ...validItem, title: 'x'.repeat(81), body: 'Too short', tags: ['one'] },
+        { contentType: 'tip', count: 1 }
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.violations).toEqual([
+        'title is 81 characters, must be at most 80',
+        'body is 9 characters, must be at least 300',
+        'tags has 1 entries, must have 3-5',
+      ]);
+    });
+
+    it('should require an array of exactly the requested number of items', () => {
+      const result = outputSchema.validateOutput([validItem, validItem], { count: 3 });
+
+      expect(result.valid).toBe(false);
+      expect(result.violations).toContain('response has 2 items, must have exactly 3');
+      expect(result.items.every(entry => entry.violations.length === 0)).toBe(true);
+    });
+
+    it('should accept several items wrapped in an object with a single array', () => {
+      const result = outputSchema.validateOutput({ items: [validItem, validItem] }, { count: 2 });
+
+      expect(result.valid).toBe(true);
+      expect(result.items.map(entry => entry.item)).toEqual([validItem, validItem]);
+      expect(outputSchema.validateOutput({ items: [validItem, validItem], note: 'Two tips' }, { count: 2 }).violations)
+        .toContain('response must be a JSON array of exactly 2 items');
+    });
+
+    it('should append the field limits to a prompt that already mentions JSON', () => {
+      const prompt = outputSchema.withFormatInstructions('Generate 2 money saving tips as JSON.', 'tip', 2);
+
+      expect(prompt).toContain('Your response must be a JSON array of exactly 2 objects');
+      expect(prompt).toContain('- body: Detailed content with formatting (markdown supported) (300-600 characters)');
+    });
+
+    it('should point at the failing item in an array', () => {
+      const result = outputSchema.validateOutput([validItem, { ...validItem, summary: undefined }], { count: 2 });
+
+      expect(result.violations).toEqual(['item 2: summary is missing']);
+      expect(result.items[1].violations).toEqual(['summary is missing']);
+    });
+
+    it('should require structured attribution for quotes', () => {
+      const quote = {
+        title: 'Pay Yourself First',
+        summary: 'Set aside part of everything you earn before you spend anything else.',
+        quoteText: 'A part of all you earn is yours to keep.',
+        author: 'George S. Clason',
+        sourceTitle: 'The Richest Man in Babylon',
+        tags: ['saving', 'wealth', 'personal finance'],
+      };
+
+      expect(outputSchema.validateOutput(quote, { contentType: 'quote' }).valid).toBe(true);
+      expect(outputSchema.validateOutput({ ...quote, author: undefined, sourceYear: '1926' }, { contentType: 'quote' }).violations).toEqual([
+        'author is missing',
+        'sourceYear must be a whole number',
+      ]);
+      expect(outputSchema.describeOutputSchema('quote')).toContain('- sourceYear: Year the source was first published, a whole number, optional');
+    });
+  });
+
+  describe('rate limiter', () => {
+    afterEach(() => {
+      rateLimiter.reset();
+      delete process.env.LLM_MAX_CONCURRENT_REQUESTS;
+      delete process.env.LLM_REQUESTS_PER_MINUTE;
+    });
+
+    it('should keep the calls in flight per provider under the limit', async () => {
+      process.env.LLM_MAX_CONCURRENT_REQUESTS = '2';
+      let active = 0;
+      let maxActive = 0;
+
+      const task = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active--;
+        return 'done';
+      };
+
+      const results = await Promise.all(Array.from({ length: 5 }, () => rateLimiter.schedule('fake', task)));
+
+      expect(results).toEqual(['done', 'done', 'done', 'done', 'done']);
+      expect(maxActive).toBe(2);
+    });
+
+    it('should space calls out to the requests per minute', async () => {
+      process.env.LLM_REQUESTS_PER_MINUTE = '1200';
+      const startedAt = [];
+
+      await Promise.all(Array.from({ length: 3 }, () => rateLimiter.schedule('fake', async () => startedAt.push(Date.now()))));
+
+      expect(startedAt[2] - startedAt[0]).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should pass errors to the caller and keep going', async () => {
+      await expect(rateLimiter.schedule('fake', async () => { throw new Error('rate limited'); })).rejects.toThrow('rate limited');
+      await expect(llm.runLimited(llm.getProvider(), async () => 'ok')).resolves.toBe('ok');
+      expect(rateLimiter.getStats().fake).toEqual({ active: 0, queued: 0 });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const PromptPartial = require('../../../src/models/promptPartial.model');
+const promptService = require('../../../src/services/prompt.service');
+const fakeProvider = require('../../../src/services/llm/fake.provider');
+const promptTemplate = require('../../../src/utils/promptTemplate');
+
+let testUser;
+let testCategory;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Prompt Template User',
+    email: 'prompt-template@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Money Hacks',
+    description: 'Ways to save money',
+    bannedTopics: ['crypto trading'],
+    singlePrompt: 'Write {numToGenerate} {difficulty} hacks for {category.name}.\n{> avoidRepeats}{> footer}',
+    createdBy: testUser._id
+  });
+
+  await Content.create({
+    title: 'Round up every purchase',
+    body: 'Move the change from every card purchase into a savings account.',
+    summary: 'Save the change',
+    category: testCategory._id,
+    authorId: testUser._id,
+    status: 'published',
+    publishDate: new Date()
+  });
+
+  await PromptPartial.create({ name: 'footer', text: 'Return {numToGenerate} items as JSON.' });
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Prompt Templates', () => {
+  test('should render variables, partials and conditions', () => {
+    const result = promptTemplate.render(
+      'Topic: {category.name}{#if recentTitles}\nAvoid:\n{recentTitles}{else}\nNothing to avoid{/if}\n{> footer}',
+      { category: { name: 'Travel' }, recentTitles: ['Pack light'] },
+      { footer: 'Respond in JSON.' }
+    );
+
+    expect(result.text).toBe('Topic: Travel\nAvoid:\n- Pack light\nRespond in JSON.');
+  });
+
+  test('should leave unknown variables and JSON examples untouched', () => {
+    const result = promptTemplate.render('{"title": "..."} {unknown}', {});
+
+    expect(result.text).toBe('{"title": "..."} {unknown}');
+    expect(result.unknownVariables).toEqual(['unknown']);
+  });
+
+  test('should report syntax errors', () => {
+    expect(promptTemplate.validate('{#if recentTitles}Avoid')).toMatch('never closed');
+    expect(() => promptService.assertValidTemplate('{/if}')).toThrow('template error');
+  });
+
+  test('should render a category prompt with recent titles and banned topics', async () => {
+    const strategy = await promptService.generatePromptForContent(testCategory, 3, 'hack', { difficulty: 'advanced' });
+
+    expect(strategy.promptSource).toBe('singlePrompt');
+    expect(strategy.promptText).toContain('Write 3 advanced hacks for Money Hacks.');
+    expect(strategy.promptText).toContain('- Round up every purchase');
+    expect(strategy.promptText).toContain('- crypto trading');
+    expect(strategy.promptText).toContain('Return 3 items as JSON.');
+    expect(strategy.promptText).not.toContain('IMPORTANT: Generate');
+  });
+
+  test('should preview a draft prompt without changing the category', async () => {
+    const preview = await promptService.previewPrompt({
+      category: testCategory._id,
+      promptText: 'Write a {contentType} about {category.name}.',
+      count: 2
+    });
+
+    expect(preview.prompt).toContain('Write a hack about Money Hacks.');
+    expect(preview.prompt).toContain('IMPORTANT: Generate 2 different items');
+    expect(preview.count).toBe(2);
+    expect(preview.promptSource).toBeNull();
+  });
+
+  test('should test-run a draft prompt without saving content', async () => {
+    const before = await Content.countDocuments();
+
+    const run = await promptService.testRunPrompt({
+      category: testCategory._id,
+      promptText: 'Write {numToGenerate} {contentType} items about {category.name}.',
+      count: 2
+    }, testUser);
+
+    expect(run.prompt).toContain('Write 2 hack items about Money Hacks.');
+    expect(run.items).toHaveLength(2);
+    expect(await Content.countDocuments()).toBe(before);
+  });
+
+  test('should send the prompt of a test run as previewed, with the format instructions once', async () => {
+    const complete = jest.spyOn(fakeProvider, 'complete');
+
+    const run = await promptService.testRunPrompt({
+      category: testCategory._id,
+      promptText: 'Write {numToGenerate} {contentType} items about {category.name} as JSON.',
+      count: 2
+    }, testUser);
+
+    const sent = complete.mock.calls[0][0].messages.find(message => message.role === 'user').content;
+    complete.mockRestore();
+    expect(sent).toBe(run.prompt);
+    expect(sent.split('Your response must be a JSON array of exactly 2 objects').length).toBe(2);
+  });
+
+  test('should tell the AI which drawn topics to cover', () => {
+    expect(promptService.withTopicInstructions('Write a hack.', ['Meal planning'], 1))
+      .toBe('Write a hack.\n\nWrite about this topic: Meal planning');
+
+    const text = promptService.withTopicInstructions('Write 3 hacks.', ['Meal planning', 'Energy bills'], 3);
+    expect(text).toContain('one item per topic and in this order (the other 1 items are free to choose)');
+    expect(text).toContain('- Meal planning\n- Energy bills');
+
+    expect(promptService.withTopicInstructions('Write a hack.', [], 1)).toBe('Write a hack.');
+  });
+});
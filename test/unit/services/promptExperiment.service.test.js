@@ -0,0 +1,117 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const DeletedContent = require('../../../src/models/deletedContent.model');
+const PromptVersion = require('../../../src/models/promptVersion.model');
+const promptExperimentService = require('../../../src/services/promptExperiment.service');
+
+let testUser;
+let testCategory;
+let experiment;
+
+const createReactedContent = async (Model, variant, likes, dislikes, extra = {}) => Model.create({
+  title: `Item for ${variant.name}`,
+  body: 'A short body for the experiment test.',
+  summary: 'Experiment item',
+  category: testCategory._id,
+  authorId: testUser._id,
+  promptExperiment: experiment._id,
+  promptVariant: variant._id,
+  likeCount: likes,
+  dislikeCount: dislikes,
+  ...extra
+});
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Experiment User',
+    email: 'experiment@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Productivity',
+    description: 'Productivity hacks',
+    singlePrompt: 'Write {numToGenerate} productivity hacks.',
+    createdBy: testUser._id
+  });
+
+  experiment = await promptExperimentService.createExperiment({
+    name: 'Shorter prompt',
+    category: testCategory._id,
+    variants: [
+      { name: 'Control', promptText: 'Write {numToGenerate} productivity hacks.', weight: 1 },
+      { name: 'Short', promptText: 'Write {numToGenerate} short productivity hacks.', weight: 1 }
+    ]
+  }, testUser._id);
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Prompt Experiments', () => {
+  test('should reject experiments with fewer than two variants', async () => {
+    await expect(promptExperimentService.createExperiment({
+      name: 'Single variant',
+      category: testCategory._id,
+      variants: [{ name: 'Only', promptText: 'Write hacks.' }]
+    }, testUser._id)).rejects.toThrow('at least two variants');
+  });
+
+  test('should only assign variants while the experiment runs', async () => {
+    expect(await promptExperimentService.assignVariant(testCategory._id)).toBeNull();
+
+    await promptExperimentService.startExperiment(experiment._id);
+
+    const assignment = await promptExperimentService.assignVariant(testCategory._id);
+    expect(String(assignment.experiment._id)).toBe(String(experiment._id));
+    expect(['Control', 'Short']).toContain(assignment.variant.name);
+  });
+
+  test('should follow the traffic split', async () => {
+    const running = await promptExperimentService.updateExperiment(experiment._id, {
+      variants: experiment.variants.map((variant, index) => ({ _id: variant._id, weight: index === 0 ? 0 : 1 }))
+    });
+    experiment = running;
+
+    for (let i = 0; i < 5; i++) {
+      const assignment = await promptExperimentService.assignVariant(testCategory._id);
+      expect(assignment.variant.name).toBe('Short');
+    }
+  });
+
+  test('should compare like rates including deleted content', async () => {
+    const [control, short] = experiment.variants;
+    await createReactedContent(Content, control, 40, 60);
+    await createReactedContent(Content, short, 60, 40);
+    await createReactedContent(DeletedContent, short, 5, 5, { reason: 'auto_delete' });
+
+    const results = await promptExperimentService.getExperimentResults(experiment._id);
+    const shortResult = results.variants.find(variant => variant.name === 'Short');
+
+    expect(shortResult.items).toBe(2);
+    expect(shortResult.reactions).toBe(110);
+    expect(shortResult.significant).toBe(true);
+    expect(String(results.recommendedVariant)).toBe(String(short._id));
+  });
+
+  test('should promote the winner to the category prompt', async () => {
+    const short = experiment.variants[1];
+
+    const { experiment: completed, category } = await promptExperimentService.promoteVariant(experiment._id, short._id, testUser._id);
+
+    expect(completed.status).toBe('completed');
+    expect(String(completed.winner)).toBe(String(short._id));
+    expect(category.singlePrompt).toBe(short.promptText);
+
+    const latest = await PromptVersion.findOne({ category: testCategory._id, field: 'singlePrompt' }).sort('-version');
+    expect(latest.text).toBe(short.promptText);
+    expect(await promptExperimentService.assignVariant(testCategory._id)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const PromptVersion = require('../../../src/models/promptVersion.model');
+const promptVersionService = require('../../../src/services/promptVersion.service');
+const { diffLines } = require('../../../src/utils/textDiff');
+
+let testUser;
+let testCategory;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Prompt Version User',
+    email: 'prompt-version@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Cleaning',
+    description: 'Cleaning hacks',
+    singlePrompt: 'Write {numToGenerate} cleaning hacks.',
+    createdBy: testUser._id
+  });
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Prompt Versions', () => {
+  test('should version an edit and keep the text from before versioning', async () => {
+    const before = testCategory.toObject();
+    const after = { ...before, singlePrompt: 'Write {numToGenerate} quick cleaning hacks.\nKeep them short.' };
+
+    const [version] = await promptVersionService.recordCategoryPromptChanges(before, after, testUser._id, 'Shorter hacks');
+
+    expect(version.version).toBe(2);
+    expect(version.changeNote).toBe('Shorter hacks');
+
+    const versions = await promptVersionService.listVersions({ category: testCategory._id, field: 'singlePrompt' });
+    expect(versions.map(item => item.version)).toEqual([2, 1]);
+    expect(versions[1].text).toBe(before.singlePrompt);
+  });
+
+  test('should not store a version when the text is unchanged', async () => {
+    const latest = await promptVersionService.getLatestVersion({ category: testCategory._id, field: 'singlePrompt' });
+    const version = await promptVersionService.ensureCurrentVersion({ category: testCategory._id, field: 'singlePrompt' }, latest.text);
+
+    expect(String(version._id)).toBe(String(latest._id));
+  });
+
+  test('should diff two versions line by line', async () => {
+    const [latest, first] = await promptVersionService.listVersions({ category: testCategory._id, field: 'singlePrompt' });
+    const { diff } = await promptVersionService.diffVersions(first._id, latest._id);
+
+    expect(diff.removed).toBe(1);
+    expect(diff.added).toBe(2);
+  });
+
+  test('should roll back by restoring the text as a new version', async () => {
+    const first = await PromptVersion.findOne({ category: testCategory._id, field: 'singlePrompt', version: 1 });
+
+    const { version, target } = await promptVersionService.rollback(first._id, testUser._id);
+
+    expect(version.version).toBe(3);
+    expect(version.rolledBackFrom).toBe(1);
+    expect(target.singlePrompt).toBe(first.text);
+  });
+
+  test('should reject updates to a stored version', async () => {
+    await expect(
+      PromptVersion.updateOne({ category: testCategory._id }, { text: 'changed' })
+    ).rejects.toThrow('Prompt versions are immutable');
+  });
+});
+
+describe('Line Diff', () => {
+  test('should mark added and removed lines', () => {
+    const result = diffLines('a\nb\nc', 'a\nc\nd');
+
+    expect(result.lines).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'equal', text: 'c' },
+      { type: 'added', text: 'd' },
+    ]);
+    expect(result.added).toBe(1);
+    expect(result.removed).toBe(1);
+  });
+});
@@ -0,0 +1,146 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const contentService = require('../../../src/services/content.service');
+const publicationService = require('../../../src/services/publication.service');
+const translationService = require('../../../src/services/translation.service');
+
+let adminUser;
+let testCategory;
+
+// Fails the no-leftover-markup lint rule
+const LEFTOVER_MARKUP = '```json\n{"title": "Freeze herbs in olive oil", "body": "Chop the herbs and freeze them in oil."}\n```';
+
+const minutesFromNow = (minutes) => new Date(Date.now() + minutes * 60 * 1000);
+
+const createContent = (fields) => Content.create({
+  title: 'Freeze herbs in olive oil',
+  summary: 'Keep fresh herbs for months.',
+  body: 'Chop the herbs, put them in an ice cube tray and cover them with olive oil. Freeze the tray and drop a cube into the pan when you cook.',
+  tags: ['cooking', 'herbs'],
+  category: testCategory._id,
+  authorId: adminUser._id,
+  contentType: 'hack',
+  ...fields
+});
+
+beforeAll(async () => {
+  await connectDB();
+
+  adminUser = await User.create({
+    name: 'Publication Admin',
+    email: 'publication-admin@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Kitchen',
+    description: 'Kitchen hacks',
+    createdBy: adminUser._id
+  });
+});
+
+beforeEach(() => {
+  jest.spyOn(translationService, 'autoTranslate').mockResolvedValue([]);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await Content.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Publication Service', () => {
+  test('should publish scheduled content whose publish date has come', async () => {
+    const due = await createContent({ status: 'pending', publishDate: minutesFromNow(-1) });
+    const later = await createContent({ title: 'Later', status: 'pending', publishDate: minutesFromNow(60) });
+
+    const result = await publicationService.runPublication();
+
+    expect(result).toEqual({ published: 1, lintBlocked: 0, expired: 0 });
+    const published = await Content.findById(due._id);
+    expect(published.status).toBe('published');
+    expect(published.hasBeenPublished).toBe(true);
+    expect((await Content.findById(later._id)).status).toBe('pending');
+    expect(translationService.autoTranslate).toHaveBeenCalledTimes(1);
+  });
+
+  test('should leave content waiting for moderation alone', async () => {
+    const flagged = await createContent({ status: 'pending', publishDate: null, moderationNotes: 'Flagged by safety screening' });
+
+    const result = await publicationService.runPublication();
+
+    expect(result.published).toBe(0);
+    expect((await Content.findById(flagged._id)).status).toBe('pending');
+  });
+
+  test('should keep scheduled content with lint errors unless they were overridden', async () => {
+    const blocked = await createContent({ body: LEFTOVER_MARKUP, status: 'pending', publishDate: minutesFromNow(-1) });
+    const overridden = await createContent({
+      title: 'Herb cubes',
+      body: LEFTOVER_MARKUP,
+      status: 'pending',
+      publishDate: minutesFromNow(-1),
+      lintOverride: { reason: 'Shows the format on purpose', user: adminUser._id, at: new Date(), rules: ['no-leftover-markup'] }
+    });
+
+    const result = await publicationService.publishDue();
+
+    expect(result).toEqual({ published: 1, lintBlocked: 1 });
+    expect((await Content.findById(blocked._id)).status).toBe('pending');
+    expect((await Content.findById(overridden._id)).status).toBe('published');
+  });
+
+  test('should archive content past its expiry date', async () => {
+    const expired = await createContent({ status: 'published', expiryDate: minutesFromNow(-5) });
+    const current = await createContent({ title: 'Current', status: 'published', expiryDate: minutesFromNow(60) });
+
+    const result = await publicationService.runPublication();
+
+    expect(result.expired).toBe(1);
+    expect((await Content.findById(expired._id)).status).toBe('archived');
+    expect((await Content.findById(current._id)).status).toBe('published');
+  });
+
+  test('should list scheduled content in a date range', async () => {
+    const inRange = await createContent({ status: 'pending', publishDate: minutesFromNow(60) });
+    await createContent({ title: 'Next month', status: 'pending', publishDate: minutesFromNow(60 * 24 * 40) });
+    await createContent({ title: 'Draft', status: 'draft', publishDate: minutesFromNow(60) });
+
+    const scheduled = await publicationService.getScheduledContent({ from: new Date(), to: minutesFromNow(60 * 24 * 7) });
+
+    expect(scheduled.map(item => item._id.toString())).toEqual([inRange._id.toString()]);
+    expect(scheduled[0].category.name).toBe('Kitchen');
+  });
+});
+
+describe('Scheduling Content', () => {
+  test('should reschedule content with an expiry date', async () => {
+    const content = await createContent({ status: 'draft' });
+    const publishDate = minutesFromNow(60);
+    const expiryDate = minutesFromNow(60 * 24);
+
+    const scheduled = await contentService.scheduleContent(content._id, publishDate, { expiryDate });
+
+    expect(scheduled.status).toBe('pending');
+    expect(scheduled.publishDate).toEqual(publishDate);
+    expect(scheduled.expiryDate).toEqual(expiryDate);
+  });
+
+  test('should reject invalid dates and an expiry before the publish date', async () => {
+    const content = await createContent({ status: 'draft' });
+
+    await expect(
+      contentService.scheduleContent(content._id, new Date('not a date'))
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      contentService.scheduleContent(content._id, minutesFromNow(60), { expiryDate: minutesFromNow(30) })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
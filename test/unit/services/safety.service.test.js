@@ -0,0 +1,139 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const SafetyRule = require('../../../src/models/safetyRule.model');
+const SafetyScreening = require('../../../src/models/safetyScreening.model');
+const safetyService = require('../../../src/services/safety.service');
+const stubClassifier = require('../../../src/services/safety/stub.classifier');
+
+let testUser;
+let datingCategory;
+let survivalCategory;
+
+const datingTip = {
+  title: 'Ask about their weekend',
+  summary: 'An easy opener for the first date.',
+  body: 'Ask what they did last weekend and follow up on the part they get excited about. It keeps the conversation about them.',
+  tags: ['dating', 'conversation'],
+};
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Safety Test User',
+    email: 'safety-test@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  datingCategory = await Category.create({
+    name: 'Dating Apps',
+    description: 'Dating app tips',
+    createdBy: testUser._id,
+    bannedTopics: ['fake profile']
+  });
+
+  survivalCategory = await Category.create({
+    name: 'Survival',
+    description: 'Survival hacks',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  await SafetyRule.deleteMany({});
+  await SafetyScreening.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Safety Screening', () => {
+  test('should pass content that breaks no rule', async () => {
+    const screen = await safetyService.createSafetyScreen(datingCategory, { classifier: null });
+
+    const screening = await screen.screen(datingTip);
+
+    expect(screening).toEqual({ flagged: false, reasons: [] });
+    expect(screen.stats).toEqual({ screened: 1, flagged: 0 });
+  });
+
+  test('should flag banned topics of the category', async () => {
+    const screen = await safetyService.createSafetyScreen(datingCategory, { classifier: null });
+
+    const screening = await screen.screen({ ...datingTip, body: 'Set up a Fake  Profile to see who else your match talks to.' });
+
+    expect(screening.flagged).toBe(true);
+    expect(screening.reasons).toEqual([{ source: 'banned-topic', rule: 'fake profile', match: 'Fake  Profile' }]);
+  });
+
+  test('should apply keyword and regex rules to the categories they are scoped to', async () => {
+    await SafetyRule.create({ name: 'Tracking', type: 'keyword', pattern: 'track their location', categories: [datingCategory._id] });
+    await SafetyRule.create({ name: 'Doses', type: 'regex', pattern: '\\d+\\s*mg' });
+
+    const datingScreen = await safetyService.createSafetyScreen(datingCategory, { classifier: null });
+    const survivalScreen = await safetyService.createSafetyScreen(survivalCategory, { classifier: null });
+    const item = { ...datingTip, body: 'Track their location and take 400 mg of caffeine before the date.' };
+
+    const dating = await datingScreen.screen(item);
+    const survival = await survivalScreen.screen(item);
+
+    expect(dating.reasons.map(reason => reason.rule)).toEqual(['Tracking', 'Doses']);
+    expect(survival.reasons).toEqual([{ source: 'regex', rule: 'Doses', match: '400 mg' }]);
+  });
+
+  test('should match keywords as whole words only', async () => {
+    await SafetyRule.create({ name: 'Stalking', type: 'keyword', pattern: 'stalk' });
+    const screen = await safetyService.createSafetyScreen(survivalCategory, { classifier: null });
+
+    const screening = await screen.screen({ ...datingTip, body: 'Cut the celery stalks into sticks for the trail.' });
+
+    expect(screening.flagged).toBe(false);
+  });
+
+  test('should add the labels of the classifier and flag items it fails on', async () => {
+    const screen = await safetyService.createSafetyScreen(survivalCategory, { classifier: stubClassifier });
+    const failingScreen = await safetyService.createSafetyScreen(survivalCategory, {
+      classifier: { name: 'broken', classify: async () => { throw new Error('offline'); } }
+    });
+    const item = { ...datingTip, body: 'Mix bleach with vinegar to clean the water bottle.' };
+
+    const screening = await screen.screen(item);
+    const failed = await failingScreen.screen(datingTip);
+
+    expect(screening.reasons).toEqual([{ source: 'classifier', rule: 'dangerous-chemicals', match: 'mentions "mix bleach"' }]);
+    expect(failed.reasons).toEqual([{ source: 'classifier', rule: 'unavailable', match: 'offline' }]);
+  });
+
+  test('should route flagged items to moderation and report them', async () => {
+    const screen = await safetyService.createSafetyScreen(datingCategory, { classifier: null });
+    const screening = await screen.screen({ ...datingTip, title: 'Use a fake profile' });
+
+    const content = await Content.create(safetyService.applyScreening({
+      ...datingTip,
+      title: 'Use a fake profile',
+      category: datingCategory._id,
+      authorId: testUser._id,
+      status: 'draft'
+    }, screening));
+    await safetyService.recordFlagged(content, screening, { context: { user: testUser._id } });
+
+    expect(content.status).toBe('pending');
+    expect(content.moderationNotes).toBe('Held for review by safety screening: banned topic "fake profile" ("fake profile")');
+
+    const report = await safetyService.getReport();
+    expect(report.total).toBe(1);
+    expect(report.bySource).toEqual([{ source: 'banned-topic', count: 1 }]);
+    expect(report.byCategory).toEqual([expect.objectContaining({ categoryName: 'Dating Apps', count: 1 })]);
+    expect(report.items[0].title).toBe('Use a fake profile');
+  });
+
+  test('should reject invalid regex rules', async () => {
+    await expect(safetyService.createRule({ name: 'Broken', type: 'regex', pattern: '(unclosed' }))
+      .rejects.toThrow('Pattern is not a valid regular expression');
+  });
+});
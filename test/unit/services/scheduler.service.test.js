@@ -0,0 +1,244 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const DeletedContent = require('../../../src/models/deletedContent.model');
+const JobRun = require('../../../src/models/jobRun.model');
+const contentService = require('../../../src/services/content.service');
+const schedulerService = require('../../../src/services/scheduler.service');
+const { addDays, getNextDeckDate, getOldestLiveDate } = require('../../../src/utils/timezone');
+
+let adminUser;
+let testCategory;
+
+const LONG_BODY = 'Plan your weekly meals before shopping, write a list and stick to it so impulse buys stay out of the basket.';
+
+const createContent = (fields) => Content.create({
+  summary: 'Plan meals before shopping',
+  body: LONG_BODY,
+  category: testCategory._id,
+  authorId: adminUser._id,
+  contentType: 'hack',
+  ...fields
+});
+
+beforeAll(async () => {
+  await connectDB();
+
+  adminUser = await User.create({
+    name: 'Refresh Admin',
+    email: 'refresh-admin@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Money Saving',
+    description: 'Tips for saving money',
+    createdBy: adminUser._id
+  });
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await Category.updateOne({ _id: testCategory._id }, { $set: { rotation: {}, lastRotatedAt: null } });
+  await Content.deleteMany({});
+  await DeletedContent.deleteMany({});
+  await JobRun.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Daily Refresh Dry Run', () => {
+  test('should report what the refresh would do without changing anything', async () => {
+    const generateWithAI = jest.spyOn(contentService, 'generateWithAI');
+    const published = await createContent({ title: 'Yesterday\'s tip', body: 'Freeze leftover bread in slices and toast it straight from the freezer whenever you need it, nothing goes stale.', status: 'published' });
+    const draft = await createContent({ title: 'Meal planning', status: 'draft' });
+    const blocked = await createContent({ title: 'Too short', body: 'Save money.', summary: 'Save', status: 'draft' });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true, perCategory: 5 });
+
+    expect(generateWithAI).not.toHaveBeenCalled();
+    expect(preview.dryRun).toBe(true);
+    expect(preview.totals).toEqual(expect.objectContaining({ categories: 1, generated: 5, cleanedUp: 1, published: 1, lintBlocked: 1 }));
+
+    const [entry] = preview.categories;
+    expect(entry.category.name).toBe('Money Saving');
+    expect(entry.generate).toEqual({ count: 5, difficulties: { beginner: 3, intermediate: 2, advanced: 0 }, contentTypes: { hack: 5 } });
+    expect(entry.retire.map(item => item._id.toString())).toEqual([published._id.toString()]);
+    expect(entry.publish.map(item => item._id.toString())).toEqual([draft._id.toString()]);
+    expect(entry.lintBlocked.map(item => item._id.toString())).toEqual([blocked._id.toString()]);
+
+    expect(await Content.countDocuments({ status: 'published' })).toBe(1);
+    expect(await Content.countDocuments({ status: 'draft' })).toBe(2);
+    expect(await DeletedContent.countDocuments()).toBe(0);
+  });
+
+  test('should flag near-duplicates with their similarity and keep the newest item', async () => {
+    const older = await createContent({ title: 'Meal planning saves money', status: 'draft', createdAt: new Date(Date.now() - 60000) });
+    const newer = await createContent({ title: 'Meal planning saves money', status: 'draft' });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    const [entry] = preview.categories;
+    expect(entry.duplicates).toHaveLength(1);
+    expect(entry.duplicates[0]._id.toString()).toBe(older._id.toString());
+    expect(entry.duplicates[0].duplicateOf._id.toString()).toBe(newer._id.toString());
+    expect(entry.duplicates[0].similarity).toBe(1);
+    expect(await Content.countDocuments()).toBe(2);
+  });
+
+  test('should preview the drafts the refresh then publishes, oldest first', async () => {
+    const hour = 60 * 60 * 1000;
+    const oldest = await createContent({ title: 'Meal planning', status: 'draft', createdAt: new Date(Date.now() - 3 * hour) });
+    await createContent({ title: 'Batch cooking', body: 'Cook a large pot of soup or chili on Sunday and portion it into containers, lunches for the week cost a fraction.', status: 'draft', createdAt: new Date(Date.now() - hour) });
+    const older = await createContent({ title: 'Frozen bread', body: 'Freeze leftover bread in slices and toast it straight from the freezer whenever you need it, nothing goes stale.', status: 'draft', createdAt: new Date(Date.now() - 2 * hour) });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true, perCategory: 2 });
+
+    const [entry] = preview.categories;
+    expect(entry.publish.map(item => item._id.toString())).toEqual([oldest._id.toString(), older._id.toString()]);
+    expect(entry.publishNew).toBe(0);
+
+    jest.spyOn(contentService, 'generateWithAI').mockRejectedValue(new Error('offline'));
+    await schedulerService.cleanupAndRefreshContent({ perCategory: 2 });
+
+    const published = await Content.find({ status: 'published' }).sort('createdAt');
+    expect(published.map(item => item._id.toString())).toEqual(entry.publish.map(item => item._id.toString()));
+  });
+
+  test('should record a dry run of the refresh job with the preview as its result', async () => {
+    await createContent({ title: 'Meal planning', status: 'draft' });
+
+    const run = await schedulerService.runJob('daily-content-refresh', { trigger: 'manual', user: adminUser, dryRun: true });
+
+    expect(run.status).toBe('succeeded');
+    expect(run.dryRun).toBe(true);
+    expect(run.result.totals.published).toBe(1);
+    expect(await Content.countDocuments({ status: 'published' })).toBe(0);
+  });
+
+  test('should reject a dry run of a job without a preview', async () => {
+    await expect(
+      schedulerService.runJob('user-streak-check', { dryRun: true })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('Rotation Policies', () => {
+  const setRotation = (rotation, lastRotatedAt = null) => Category.updateOne(
+    { _id: testCategory._id },
+    { $set: { rotation, lastRotatedAt } }
+  );
+
+  test('should keep highly liked items published and publish fewer drafts', async () => {
+    await setRotation({ publishCount: 2, keepTopPerformers: true });
+    const top = await createContent({ title: 'Reader favourite', status: 'published', pool: 'highly_liked' });
+    const regular = await createContent({ title: 'Old tip', body: 'Freeze leftover bread in slices and toast it straight from the freezer whenever you need it, nothing goes stale.', status: 'published' });
+    await createContent({ title: 'Meal planning', status: 'draft' });
+    await createContent({ title: 'Batch cooking', body: 'Cook a large pot of soup or chili on Sunday and portion it into containers, lunches for the week cost a fraction.', status: 'draft' });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    const [entry] = preview.categories;
+    expect(entry.keep.map(item => item._id.toString())).toEqual([top._id.toString()]);
+    expect(entry.retire.map(item => item._id.toString())).toEqual([regular._id.toString()]);
+    expect(entry.publish).toHaveLength(1);
+    expect(preview.totals.kept).toBe(1);
+  });
+
+  test('should skip categories whose cadence is not due', async () => {
+    await setRotation({ cadence: 'weekly' }, new Date(Date.now() - 2 * 24 * 60 * 60 * 1000));
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    expect(preview.categories[0]).toEqual(expect.objectContaining({ refreshed: false, due: false }));
+    expect(new Date(preview.categories[0].nextRotationAt).getTime()).toBeGreaterThan(Date.now());
+    expect(preview.totals).toEqual(expect.objectContaining({ categories: 0, notDue: 1, generated: 0 }));
+
+    const forced = await schedulerService.cleanupAndRefreshContent({ dryRun: true, ignoreCadence: true });
+    expect(forced.categories[0].refreshed).toBe(true);
+  });
+
+  test('should plan generation in the difficulty and content type mix', async () => {
+    await setRotation({
+      generateCount: 4,
+      difficultyMix: { beginner: 0, intermediate: 50, advanced: 50 },
+      contentTypeMix: { tip: 50, quote: 50 }
+    });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    expect(preview.categories[0].generate).toEqual({
+      count: 4,
+      difficulties: { beginner: 0, intermediate: 2, advanced: 2 },
+      contentTypes: { hack: 0, hack2: 0, tip: 2, tip2: 0, quote: 2 }
+    });
+  });
+
+  test('should generate in the policy mix and record the rotation', async () => {
+    await setRotation({ generateCount: 2, publishCount: 0, difficultyMix: { beginner: 0, intermediate: 0, advanced: 100 }, contentTypeMix: { tip: 100 } });
+    const generateWithAI = jest.spyOn(contentService, 'generateWithAI');
+
+    const results = await schedulerService.cleanupAndRefreshContent({ categoryIds: [testCategory._id] });
+
+    expect(results.categories).toBe(1);
+    expect(generateWithAI).toHaveBeenCalledTimes(2);
+    generateWithAI.mock.calls.forEach(call => {
+      expect(call[2]).toBe('advanced');
+      expect(call[6]).toEqual({ contentType: 'tip' });
+    });
+    expect(await Content.countDocuments({ status: 'published' })).toBe(0);
+
+    const category = await Category.findById(testCategory._id);
+    expect(category.lastRotatedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('Deck Staging', () => {
+  test('should stage published drafts for the next deck and leave decks still showing somewhere', async () => {
+    const nextDeck = getNextDeckDate();
+    const live = await createContent({ title: 'Still today somewhere', body: 'Freeze leftover bread in slices and toast it straight from the freezer whenever you need it, nothing goes stale.', status: 'published', deckDate: getOldestLiveDate() });
+    const finished = await createContent({ title: 'Over everywhere', body: 'Cook a large pot of soup or chili on Sunday and portion it into containers, lunches for the week cost a fraction.', status: 'published', deckDate: addDays(getOldestLiveDate(), -1) });
+    const draft = await createContent({ title: 'Meal planning', status: 'draft' });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true, perCategory: 1 });
+
+    expect(preview.deckDate).toBe(nextDeck);
+    const [entry] = preview.categories;
+    expect(entry.live.map(item => item._id.toString())).toEqual([live._id.toString()]);
+    expect(entry.retire.map(item => item._id.toString())).toEqual([finished._id.toString()]);
+    expect(preview.totals.live).toBe(1);
+
+    jest.spyOn(contentService, 'generateWithAI').mockRejectedValue(new Error('offline'));
+    const results = await schedulerService.cleanupAndRefreshContent({ perCategory: 1 });
+
+    expect(results.deckDate).toBe(nextDeck);
+    expect(results.live).toBe(1);
+    expect((await Content.findById(draft._id)).deckDate).toBe(nextDeck);
+    expect(await Content.findById(live._id)).not.toBeNull();
+    expect(await Content.findById(finished._id)).toBeNull();
+  });
+
+  test('should leave the deck of a category that skipped rotations until its replacement began everywhere', async () => {
+    const weekOld = await createContent({ title: 'Staged last week', status: 'published', deckDate: addDays(getOldestLiveDate(), -6) });
+    const older = await createContent({ title: 'Staged two weeks ago', body: 'Cook a large pot of soup or chili on Sunday and portion it into containers, lunches for the week cost a fraction.', status: 'published', deckDate: addDays(getOldestLiveDate(), -13) });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    const [entry] = preview.categories;
+    expect(entry.live.map(item => item._id.toString())).toEqual([weekOld._id.toString()]);
+    expect(entry.retire.map(item => item._id.toString())).toEqual([older._id.toString()]);
+  });
+
+  test('should replace a deck staged again before it began', async () => {
+    const staged = await createContent({ title: 'Staged earlier', status: 'published', deckDate: getNextDeckDate() });
+
+    const preview = await schedulerService.cleanupAndRefreshContent({ dryRun: true });
+
+    expect(preview.categories[0].retire.map(item => item._id.toString())).toEqual([staged._id.toString()]);
+  });
+});
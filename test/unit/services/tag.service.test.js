@@ -0,0 +1,127 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const Tag = require('../../../src/models/tag.model');
+const tagService = require('../../../src/services/tag.service');
+
+let testUser;
+let moneyCategory;
+let techCategory;
+
+const createContent = (tags, category = moneyCategory) => Content.create({
+  title: `Content tagged ${tags.join(', ')}`,
+  body: 'Body',
+  summary: 'Summary',
+  category: category._id,
+  authorId: testUser._id,
+  tags
+});
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Tag Test User',
+    email: 'tag-test@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  moneyCategory = await Category.create({
+    name: 'Money Hacks',
+    description: 'Ways to save money',
+    createdBy: testUser._id
+  });
+
+  techCategory = await Category.create({
+    name: 'Tech Tips',
+    description: 'Gadgets and software',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  await Tag.deleteMany({});
+  await Content.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Tag Service', () => {
+  test('should store content tags under their canonical names', async () => {
+    await Tag.create({ name: 'saving money', synonyms: ['money-saving', 'money'] });
+
+    const content = await createContent(['Money', 'Money-Saving', 'Budgeting', 'budgeting']);
+
+    expect(content.tags).toEqual(['saving money', 'budgeting']);
+
+    const updated = await Content.findByIdAndUpdate(content._id, { tags: ['MONEY', 'Frugal'] }, { new: true });
+    expect(updated.tags).toEqual(['saving money', 'frugal']);
+  });
+
+  test('should only apply synonyms to content of the tag categories', async () => {
+    await Tag.create({ name: 'smartphones', synonyms: ['apple'], categories: [techCategory._id] });
+
+    const tech = await createContent(['Apple'], techCategory);
+    const money = await createContent(['Apple'], moneyCategory);
+
+    expect(tech.tags).toEqual(['smartphones']);
+    expect(money.tags).toEqual(['apple']);
+  });
+
+  test('should retag existing content when a tag is created', async () => {
+    const content = await createContent(['money-saving', 'groceries']);
+
+    const { contentUpdated } = await tagService.createTag({ name: 'Saving money', synonyms: ['money saving'] }, testUser);
+
+    expect(contentUpdated).toBe(1);
+    expect((await Content.findById(content._id)).tags).toEqual(['Saving money', 'groceries']);
+  });
+
+  test('should rename a tag across content and keep the old name as a synonym', async () => {
+    const { tag } = await tagService.createTag({ name: 'money' });
+    const content = await createContent(['money']);
+
+    const result = await tagService.updateTag(tag._id, { name: 'Personal finance' });
+
+    expect(result.tag.synonyms).toContain('money');
+    expect((await Content.findById(content._id)).tags).toEqual(['Personal finance']);
+  });
+
+  test('should merge tags into one and report usage counts', async () => {
+    await createContent(['saving money', 'money saving tips']);
+    await createContent(['money-saving']);
+    await tagService.createTag({ name: 'money saving tips' });
+
+    const result = await tagService.mergeTags('saving money', ['money saving tips', 'money-saving'], testUser);
+
+    expect(result.contentUpdated).toBe(2);
+    expect(await Tag.countDocuments()).toBe(1);
+
+    const { tags, untracked } = await tagService.listTags();
+    expect(tags).toHaveLength(1);
+    expect(tags[0]).toMatchObject({ name: 'saving money', usageCount: 2 });
+    expect(untracked).toEqual([]);
+  });
+
+  test('should refuse a synonym that is another tag', async () => {
+    await tagService.createTag({ name: 'budgeting' });
+
+    await expect(tagService.createTag({ name: 'money', synonyms: ['Budgeting'] }))
+      .rejects.toThrow('"budgeting" is already a tag');
+  });
+
+  test('should remove tags from all content', async () => {
+    const { tag } = await tagService.createTag({ name: 'mock-data' });
+    const content = await createContent(['mock-data', 'groceries']);
+
+    await tagService.deleteTag(tag._id);
+
+    expect((await Content.findById(content._id)).tags).toEqual(['groceries']);
+    expect(await Tag.countDocuments()).toBe(0);
+  });
+});
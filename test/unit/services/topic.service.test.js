@@ -0,0 +1,115 @@
+const { connectDB, clearDatabase, disconnectDB } = require('../../helpers/db');
+const User = require('../../../src/models/user.model');
+const Category = require('../../../src/models/category.model');
+const Content = require('../../../src/models/content.model');
+const Topic = require('../../../src/models/topic.model');
+const topicService = require('../../../src/services/topic.service');
+const contentService = require('../../../src/services/content.service');
+const fakeProvider = require('../../../src/services/llm/fake.provider');
+
+let testUser;
+let testCategory;
+
+beforeAll(async () => {
+  await connectDB();
+
+  testUser = await User.create({
+    name: 'Topic Test User',
+    email: 'topic-test@example.com',
+    password: 'password123',
+    role: 'admin'
+  });
+
+  testCategory = await Category.create({
+    name: 'Money Saving',
+    description: 'Tips for saving money',
+    createdBy: testUser._id
+  });
+});
+
+afterEach(async () => {
+  fakeProvider.reset();
+  await Topic.deleteMany({});
+  await Content.deleteMany({});
+});
+
+afterAll(async () => {
+  await clearDatabase();
+  await disconnectDB();
+});
+
+describe('Topic Service', () => {
+  test('should skip topics already in the backlog', async () => {
+    await topicService.addTopics(testCategory._id, ['Meal planning']);
+
+    const result = await topicService.addTopics(testCategory._id, ['meal-planning!', 'Energy bills', 'energy bills', ' ']);
+
+    expect(result.added.map(topic => topic.name)).toEqual(['Energy bills']);
+    expect(result.skipped).toEqual(['energy bills', 'meal-planning!']);
+    expect(await Topic.countDocuments({ category: testCategory._id })).toBe(2);
+  });
+
+  test('should draw open topics round-robin and not hand them out twice', async () => {
+    await topicService.addTopics(testCategory._id, ['First', 'Second', 'Third']);
+
+    const first = await topicService.drawTopics(testCategory._id, 2);
+    const second = await topicService.drawTopics(testCategory._id, 2);
+
+    expect(first.map(topic => topic.name)).toEqual(['First', 'Second']);
+    expect(second.map(topic => topic.name)).toEqual(['Third']);
+  });
+
+  test('should draw the longest waiting topic once the lease is over', async () => {
+    process.env.TOPIC_DRAW_LEASE_MINUTES = '0';
+    await topicService.addTopics(testCategory._id, ['First', 'Second']);
+
+    await topicService.drawTopics(testCategory._id, 1);
+    const [next] = await topicService.drawTopics(testCategory._id, 1);
+
+    expect(next.name).toBe('Second');
+    delete process.env.TOPIC_DRAW_LEASE_MINUTES;
+  });
+
+  test('should cover topics with the content generated about them', async () => {
+    await topicService.addTopics(testCategory._id, ['Meal planning', 'Energy bills']);
+
+    const generated = await contentService.generateMultipleContent(testCategory, testUser, 'hack', 2, 'beginner', 'gpt-4o');
+
+    const topics = await Topic.find({ category: testCategory._id }).sort('name');
+    expect(topics.every(topic => topic.status === 'covered')).toBe(true);
+    expect(topics.flatMap(topic => topic.content.map(String)).sort())
+      .toEqual(generated.map(content => String(content._id)).sort());
+
+    const coverage = await topicService.getCoverage(testCategory._id);
+    expect(coverage).toMatchObject({ total: 2, open: 0, covered: 2, coveredPercent: 100 });
+  });
+
+  test('should leave the topics open when an item was left out as invalid', async () => {
+    await topicService.addTopics(testCategory._id, ['Meal planning', 'Energy bills']);
+    const valid = {
+      title: 'Switch off standby devices',
+      summary: 'Unplug what you do not use to cut the energy bill.',
+      body: 'Walk through the house before bed and switch off the televisions, consoles and chargers at the wall. '.repeat(4),
+      tags: ['energy', 'bills', 'home']
+    };
+    jest.spyOn(fakeProvider, 'complete').mockResolvedValue({
+      text: JSON.stringify([{ ...valid, body: 'Too short' }, valid]),
+      model: 'fake',
+      usage: { promptTokens: 10, completionTokens: 10 }
+    });
+
+    const generated = await contentService.generateMultipleContent(testCategory, testUser, 'hack', 2, 'beginner', 'gpt-4o');
+
+    expect(generated).toHaveLength(1);
+    const coverage = await topicService.getCoverage(testCategory._id);
+    expect(coverage).toMatchObject({ total: 2, covered: 0 });
+    fakeProvider.complete.mockRestore();
+  });
+
+  test('should add AI suggested sub-topics', async () => {
+    const result = await topicService.suggestTopics(testCategory, { count: 5, user: testUser });
+
+    expect(result.added).toHaveLength(5);
+    expect(result.added.every(topic => topic.source === 'ai')).toBe(true);
+  });
+});